@@ -16,6 +16,7 @@ export interface Block {
   timestamp: number;
   hash: string;
   previousHash: string;
+  merkleRoot: string;
   nonce: number;
   difficulty: number;
   transactions: Transaction[];
@@ -27,6 +28,7 @@ export interface Transaction {
   to: string;
   amount: number;
   fee: number;
+  nonce: number;
   timestamp: number;
   data?: string;
 }
@@ -38,6 +40,13 @@ export interface WalletData {
   mnemonic?: string;
 }
 
+export interface AccountNonce {
+  address: string;
+  nonce: number;
+  pending: number;
+  nextNonce: number;
+}
+
 export interface Balance {
   address: string;
   balance: number;
@@ -121,6 +130,10 @@ class VibeCoinAPI {
     return this.fetch<Balance>(`/address/${address}/balance`);
   }
 
+  async getNonce(address: string): Promise<AccountNonce> {
+    return this.fetch<AccountNonce>(`/address/${address}/nonce`);
+  }
+
   // Faucet
   async claimFaucet(address: string): Promise<{ success: boolean; message: string; amount: number; remainingClaims: number; nextClaimIn: number }> {
     return this.fetch<{ success: boolean; message: string; amount: number; remainingClaims: number; nextClaimIn: number }>('/faucet', {
@@ -4,9 +4,26 @@
 import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import { Blockchain } from '../core/Blockchain';
-import { Transaction } from '../core/Transaction';
+import { Transaction, TransactionType, TRANSACTION_TYPES, STAKING_ADDRESS, DEFAULT_FEE } from '../core/Transaction';
 import { Wallet } from '../wallet/Wallet';
 import { Storage } from '../storage/Storage';
+import { Miner } from '../mining/Miner';
+import { MiningRPC } from './MiningRPC';
+import { ProofOfVibe } from '../consensus/ProofOfVibe';
+import { PoVConsensus } from '../consensus/PoVConsensus';
+import {
+  encodeVote,
+  encodeRegistration,
+  encodeValidatorUpdate,
+  encodeProposal,
+  encodeProposalVote,
+  encodeAttestation
+} from '../consensus/StakingTransactions';
+import { Proposal, ProposalStatus, GOVERNANCE_CONFIG } from '../consensus/Governance';
+import { ContributionManager, CONTRIBUTION_CONFIG } from '../consensus/Contributions';
+import { LeaderboardSort, LEADERBOARD_SORTS } from '../consensus/Validator';
+import { Treasury, TreasurySpend } from '../core/Treasury';
+import { toBaseUnits, fromBaseUnits } from '../core/Units';
 
 export interface APIConfig {
   port: number;
@@ -73,6 +90,12 @@ export class API {
   private storage: Storage;
   private config: APIConfig;
   private nodeWallet: Wallet | null = null;
+  private miner: Miner | null = null;
+  private miningRPC: MiningRPC | null = null;
+  private pov: ProofOfVibe | null = null;
+  private povConsensus: PoVConsensus | null = null;
+  private treasury: Treasury | null = null;
+  private transactionListeners: Array<(transaction: Transaction) => void> = [];
   private faucetClaims: Map<string, { lastClaim: number; dailyClaims: number; resetDay: number }> = new Map();
   private userActivities: Map<string, UserActivity> = new Map();
   private activitySaveTimeout: NodeJS.Timeout | null = null;
@@ -155,7 +178,376 @@ export class API {
 
     // Get blockchain stats
     this.app.get('/stats', (_req: Request, res: Response) => {
-      res.json(this.blockchain.getStats());
+      res.json({
+        ...this.blockchain.getStats(),
+        consensus: this.blockchain.consensusType,
+        ...(this.miner && { mining: this.miner.getStats() })
+      });
+    });
+
+    // ==================== CONSENSUS (PoV) ====================
+
+    // Proof of Vibe state: epoch, producer, staking and voting
+    this.app.get('/consensus', (_req: Request, res: Response) => {
+      if (!this.pov || !this.povConsensus) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      res.json({
+        ...this.pov.getStats(),
+        epoch: this.pov.getEpochInfo(),
+        currentProducer: this.povConsensus.getCurrentProducer()
+      });
+    });
+
+    // Registered validators ranked by VibeScore
+    this.app.get('/validators', (_req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      res.json({
+        validators: this.pov.getAllValidatorsWithScores().map(({ info, stake, votes, vibeScore }) => ({
+          ...info,
+          stake: fromBaseUnits(stake),
+          votes,
+          vibeScore
+        }))
+      });
+    });
+
+    // Validators ranked by lifetime blocks (default) or a performance metric (?sort=, ?limit=)
+    this.app.get('/validators/leaderboard', (req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      const sort = (req.query.sort as string) || 'blocks';
+      if (!LEADERBOARD_SORTS.includes(sort as LeaderboardSort)) {
+        return res.status(400).json({ error: `sort must be one of: ${LEADERBOARD_SORTS.join(', ')}` });
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 100);
+
+      const validatorManager = this.pov.getValidatorManager();
+      res.json({
+        sort,
+        validators: validatorManager.getLeaderboard(limit, sort as LeaderboardSort).map(info => ({
+          address: info.address,
+          name: info.name,
+          isActive: info.isActive,
+          jailed: info.jailed,
+          commission: info.commission,
+          blocksProduced: info.blocksProduced,
+          performance: validatorManager.getPerformance(info.address)
+        }))
+      });
+    });
+
+    // Rolling performance of a validator: 24h and 7-day reliability, slot latency, uptime streaks
+    this.app.get('/validators/:address/performance', (req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      const performance = this.pov.getValidatorManager().getPerformance(req.params.address as string);
+      if (!performance) {
+        return res.status(404).json({ error: 'Validator not found' });
+      }
+      res.json(performance);
+    });
+
+    // Contribution score of a validator and the on-chain awards behind it, newest first
+    this.app.get('/validators/:address/contributions', (req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+      const validatorInfo = this.pov.getValidatorInfo(req.params.address as string);
+      if (!validatorInfo) {
+        return res.status(404).json({ error: 'Validator not found' });
+      }
+
+      const epoch = this.pov.getEpochInfo().epoch;
+      res.json({
+        validator: validatorInfo.info.address,
+        contributionScore: validatorInfo.info.contributionScore,
+        epoch,
+        decayPerEpoch: CONTRIBUTION_CONFIG.DECAY_PER_EPOCH,
+        attesters: this.pov.getConfig().attesters,
+        awards: this.pov.getContributionManager().getRecords(validatorInfo.info.address).map(record => ({
+          ...record,
+          weight: ContributionManager.getWeight(epoch - record.epoch)
+        }))
+      });
+    });
+
+    // Ask to leave jail after the cooldown (signed with the validator key, or pre-signed)
+    this.app.post('/validators/unjail', (req: Request, res: Response) => {
+      if (!this.pov || !this.povConsensus) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      try {
+        const { validator, privateKey, signature } = req.body;
+        const validatorInfo = typeof validator === 'string' ? this.pov.getValidatorInfo(validator) : null;
+        if (!validatorInfo) {
+          return res.status(404).json({ error: 'Validator not found' });
+        }
+        if (!validatorInfo.info.jailed) {
+          return res.status(400).json({ error: 'Validator is not jailed' });
+        }
+
+        const jailedAt = validatorInfo.info.jailedAt;
+        let request;
+        if (privateKey) {
+          const wallet = new Wallet(privateKey);
+          if (wallet.publicKey !== validator) {
+            return res.status(400).json({ error: 'Private key does not match validator address' });
+          }
+          request = wallet.signUnjailRequest(jailedAt);
+        } else if (signature) {
+          request = { validator, jailedAt, signature };
+        } else {
+          return res.status(400).json({ error: 'Must provide privateKey or signature' });
+        }
+
+        const result = this.povConsensus.submitUnjail(request);
+        if (!result.success) {
+          return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ success: true, validator, jailedAt });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    });
+
+    // Delegations of an address, one per validator
+    this.app.get('/staking/:address/delegations', (req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      const delegations = this.pov.getStakingManager().getDelegations(req.params.address);
+      res.json({
+        address: req.params.address,
+        total: fromBaseUnits(delegations.reduce((sum, d) => sum + d.amount, 0n)),
+        delegations: delegations.map(({ validator, amount, delegatedAt, redelegationLockedUntil }) => ({
+          validator,
+          amount: fromBaseUnits(amount),
+          delegatedAt,
+          canRedelegateAt: redelegationLockedUntil
+        }))
+      });
+    });
+
+    // Unbonding stake of an address (withdrawn with a withdraw transaction once mature)
+    this.app.get('/staking/:address/unbonding', (req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      const { entries, total, withdrawable } = this.pov.getUnbonding(req.params.address);
+      res.json({
+        address: req.params.address,
+        total: fromBaseUnits(total),
+        withdrawable: fromBaseUnits(withdrawable),
+        entries: entries.map(entry => ({
+          ...entry,
+          amount: fromBaseUnits(entry.amount),
+          mature: entry.maturesAt <= Date.now()
+        }))
+      });
+    });
+
+    // Delegator and voter rewards of an address (paid out with a claimRewards transaction)
+    this.app.get('/staking/:address/rewards', (req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      const { total, accrued, delegations } = this.pov.getClaimableRewards(req.params.address);
+      res.json({
+        address: req.params.address,
+        claimable: fromBaseUnits(total),
+        accrued: fromBaseUnits(accrued),
+        delegations: delegations.map(({ validator, amount, pending }) => ({
+          validator,
+          delegated: fromBaseUnits(amount),
+          pending: fromBaseUnits(pending)
+        }))
+      });
+    });
+
+    // ==================== GOVERNANCE ====================
+
+    // Governance rules, treasury and proposal counts
+    this.app.get('/governance', (_req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      const governance = this.pov.getGovernanceManager();
+      const config = this.pov.getConfig();
+      res.json({
+        ...governance.getStats(),
+        treasury: fromBaseUnits(governance.getTreasury()),
+        depositPeriod: GOVERNANCE_CONFIG.DEPOSIT_PERIOD,
+        votingPeriod: GOVERNANCE_CONFIG.VOTING_PERIOD,
+        activationDelay: GOVERNANCE_CONFIG.ACTIVATION_DELAY,
+        proposalTypes: GOVERNANCE_CONFIG.PROPOSALS,
+        chambers: {
+          council: { ...GOVERNANCE_CONFIG.CHAMBERS.council, members: this.pov.getChamberMembers('council') },
+          senate: { ...GOVERNANCE_CONFIG.CHAMBERS.senate, members: this.pov.getChamberMembers('senate') },
+          assembly: { quorum: GOVERNANCE_CONFIG.CHAMBERS.assembly.quorum, approval: GOVERNANCE_CONFIG.CHAMBERS.assembly.approval }
+        },
+        parameters: Object.fromEntries(Object.entries(GOVERNANCE_CONFIG.PARAMETERS).map(([name, range]) => [
+          name,
+          { ...range, current: config[name as keyof typeof config] }
+        ]))
+      });
+    });
+
+    // Proposals, newest first (?status=deposit|voting|passed|rejected|expired|executed|failed)
+    this.app.get('/governance/proposals', (req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      const status = typeof req.query.status === 'string' ? req.query.status as ProposalStatus : undefined;
+      const proposals = this.pov.getGovernanceManager().getProposals(status);
+      res.json({
+        count: proposals.length,
+        proposals: proposals.map(proposal => this.formatProposal(proposal, false))
+      });
+    });
+
+    // One proposal with its votes and tally (a live tally while voting is open)
+    this.app.get('/governance/proposals/:id', (req: Request, res: Response) => {
+      if (!this.pov) {
+        return res.status(404).json({ error: 'Node is not running Proof of Vibe' });
+      }
+
+      const proposal = this.pov.getGovernanceManager().getProposal(Number(req.params.id));
+      if (!proposal) {
+        return res.status(404).json({ error: 'Proposal not found' });
+      }
+      res.json(this.formatProposal(proposal, true));
+    });
+
+    // ==================== TREASURY ====================
+
+    // Treasury multisig account and its balance
+    this.app.get('/treasury', (_req: Request, res: Response) => {
+      if (!this.treasury) {
+        return res.status(404).json({ error: 'No treasury configured on this node' });
+      }
+      const { address, threshold, publicKeys } = this.treasury.getAccount();
+      res.json({
+        address,
+        threshold,
+        keyholders: publicKeys,
+        balance: fromBaseUnits(this.blockchain.getBalance(address)),
+        nonce: this.blockchain.getNextNonce(address),
+        openSpends: this.treasury.getSpends().filter(spend => spend.status !== 'submitted').length
+      });
+    });
+
+    // List treasury spends, newest first
+    this.app.get('/treasury/spends', (_req: Request, res: Response) => {
+      if (!this.treasury) {
+        return res.status(404).json({ error: 'No treasury configured on this node' });
+      }
+      res.json({ spends: this.treasury.getSpends().map(spend => this.formatSpend(spend)) });
+    });
+
+    // Spend details, including the hash keyholders sign
+    this.app.get('/treasury/spends/:id', (req: Request, res: Response) => {
+      const spend = this.treasury?.getSpend(req.params.id as string);
+      if (!spend) {
+        return res.status(404).json({ error: 'Spend not found' });
+      }
+      res.json(this.formatSpend(spend));
+    });
+
+    // Create an unsigned spend: to, amount (VIBE), optional description and nonce
+    this.app.post('/treasury/spends', (req: Request, res: Response) => {
+      try {
+        if (!this.treasury) {
+          return res.status(404).json({ error: 'No treasury configured on this node' });
+        }
+        const { to, amount, description, nonce } = req.body;
+        if (!to || amount === undefined) {
+          return res.status(400).json({ error: 'Missing required fields: to, amount' });
+        }
+        if (!Wallet.isValidAddress(to)) {
+          return res.status(400).json({ error: 'Invalid "to" address format' });
+        }
+        if (description !== undefined && (typeof description !== 'string' || description.length > 256)) {
+          return res.status(400).json({ error: 'description must be a string of at most 256 characters' });
+        }
+
+        const result = this.treasury.createSpend(
+          to,
+          toBaseUnits(amount),
+          description ?? '',
+          this.blockchain.getNextNonce(this.treasury.getAddress()),
+          nonce !== undefined ? Number(nonce) : undefined
+        );
+        if (!result.success) {
+          return res.status(400).json({ error: result.error });
+        }
+        res.json({ success: true, spend: this.formatSpend(result.spend!) });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    });
+
+    // Add a keyholder signature: publicKey + signature of the spend hash, or privateKey to sign on the node
+    this.app.post('/treasury/spends/:id/signatures', (req: Request, res: Response) => {
+      try {
+        if (!this.treasury) {
+          return res.status(404).json({ error: 'No treasury configured on this node' });
+        }
+        const spend = this.treasury.getSpend(req.params.id as string);
+        if (!spend) {
+          return res.status(404).json({ error: 'Spend not found' });
+        }
+
+        let { publicKey, signature } = req.body;
+        if (req.body.privateKey) {
+          const wallet = new Wallet(req.body.privateKey);
+          const signed = Transaction.fromJSON(spend.transaction.toJSON());
+          signed.multisig!.signatures = {};
+          wallet.signMultisig(signed);
+          publicKey = wallet.publicKey;
+          signature = signed.multisig!.signatures[publicKey];
+        }
+        if (!publicKey || !signature) {
+          return res.status(400).json({ error: 'Must provide publicKey and signature, or privateKey' });
+        }
+
+        const result = this.treasury.addSignature(spend.id, publicKey, signature);
+        if (!result.success) {
+          return res.status(400).json({ error: result.error });
+        }
+
+        this.submitTreasurySpends();
+        res.json({ success: true, spend: this.formatSpend(spend) });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    });
+
+    // Cancel a spend that was not submitted
+    this.app.delete('/treasury/spends/:id', (req: Request, res: Response) => {
+      if (!this.treasury) {
+        return res.status(404).json({ error: 'No treasury configured on this node' });
+      }
+      const result = this.treasury.cancelSpend(req.params.id as string);
+      if (!result.success) {
+        return res.status(result.error === 'Spend not found' ? 404 : 400).json({ error: result.error });
+      }
+      res.json({ success: true });
     });
 
     // ==================== BLOCKS ====================
@@ -167,7 +559,7 @@ export class API {
 
       const blocks = this.blockchain.chain
         .slice(offset, offset + limit)
-        .map(b => b.toJSON());
+        .map(b => b.toDisplayJSON());
 
       res.json({
         total: this.blockchain.chain.length,
@@ -183,7 +575,7 @@ export class API {
       const block = this.blockchain.getBlock(index);
 
       if (block) {
-        res.json(block.toJSON());
+        res.json(block.toDisplayJSON());
       } else {
         res.status(404).json({ error: 'Block not found' });
       }
@@ -194,7 +586,7 @@ export class API {
       const block = this.blockchain.getBlockByHash(req.params.hash);
 
       if (block) {
-        res.json(block.toJSON());
+        res.json(block.toDisplayJSON());
       } else {
         res.status(404).json({ error: 'Block not found' });
       }
@@ -202,7 +594,7 @@ export class API {
 
     // Get latest block
     this.app.get('/blocks/latest', (_req: Request, res: Response) => {
-      res.json(this.blockchain.getLatestBlock().toJSON());
+      res.json(this.blockchain.getLatestBlock().toDisplayJSON());
     });
 
     // ==================== TRANSACTIONS ====================
@@ -210,36 +602,110 @@ export class API {
     // Get pending transactions
     this.app.get('/transactions/pending', (_req: Request, res: Response) => {
       res.json({
-        count: this.blockchain.pendingTransactions.length,
-        transactions: this.blockchain.pendingTransactions.map(tx => tx.toJSON())
+        count: this.blockchain.mempool.getSize(),
+        transactions: this.blockchain.mempool.getAll().map(tx => tx.toDisplayJSON())
       });
     });
 
+    // Mempool statistics (size, fee rates)
+    this.app.get('/mempool', (_req: Request, res: Response) => {
+      res.json(this.blockchain.mempool.getStats());
+    });
+
     // Create new transaction
+    // type: transfer (default) or a Proof of Vibe staking type - stake, unstake, delegate,
+    // undelegate (to = validator), redelegate (to = target validator, sourceValidator), withdraw (matured unbonding stake), claimRewards, vote (validators[], optional weights[], no amount),
+    // registerValidator (name, website, description, commission), updateValidator (website, description, commission),
+    // submitProposal (amount = deposit, proposalType, title, description, parameter, value, recipient, spendAmount, reference, activationHeight),
+    // depositProposal (proposalId), voteProposal (proposalId, option, no amount),
+    // attestContribution (validator, points, reason, reference, no amount - authorized attesters)
+    // Sign with privateKey, a pre-computed signature, or a multisig witness { threshold, publicKeys, signatures } for multisig senders
     this.app.post('/transactions', (req: Request, res: Response) => {
       try {
-        const { from, to, amount, data, signature, privateKey } = req.body;
+        const { from, amount, signature, privateKey, multisig, nonce, timestamp, fee, replaceable } = req.body;
+        const type: TransactionType = req.body.type ?? 'transfer';
+
+        if (!TRANSACTION_TYPES.includes(type)) {
+          return res.status(400).json({ error: `Unknown transaction type. Expected one of: ${TRANSACTION_TYPES.join(', ')}` });
+        }
+
+        // Staking payloads are encoded by the node
+        let to = req.body.to;
+        let data = req.body.data;
+        if (type !== 'transfer' && type !== 'delegate' && type !== 'undelegate') {
+          to = to ?? STAKING_ADDRESS;
+        }
+        if (type === 'redelegate' && typeof req.body.sourceValidator === 'string') {
+          data = req.body.sourceValidator;
+        } else if (type === 'vote' && Array.isArray(req.body.validators)) {
+          const { validators, weights } = req.body;
+          if (weights !== undefined && (!Array.isArray(weights) || weights.length !== validators.length)) {
+            return res.status(400).json({ error: 'weights must be an array with one weight per validator' });
+          }
+          data = encodeVote(validators, weights);
+        } else if (type === 'registerValidator' && typeof req.body.name === 'string') {
+          const { name, website, description, commission } = req.body;
+          data = encodeRegistration({ name, website, description, commission });
+        } else if (type === 'updateValidator' && data === undefined) {
+          const { website, description, commission } = req.body;
+          data = encodeValidatorUpdate({ website, description, commission });
+        } else if (type === 'submitProposal' && typeof req.body.proposalType === 'string') {
+          const { proposalType, title, description, parameter, value, recipient, spendAmount, reference, activationHeight } = req.body;
+          data = encodeProposal({
+            type: proposalType,
+            title,
+            description: description ?? '',
+            parameter,
+            value: value !== undefined ? Number(value) : undefined,
+            recipient,
+            spendAmount: spendAmount !== undefined ? toBaseUnits(spendAmount) : undefined,
+            reference,
+            activationHeight: activationHeight !== undefined ? Number(activationHeight) : undefined
+          });
+        } else if (type === 'depositProposal' && req.body.proposalId !== undefined) {
+          data = String(req.body.proposalId);
+        } else if (type === 'voteProposal' && req.body.proposalId !== undefined) {
+          data = encodeProposalVote(Number(req.body.proposalId), req.body.option);
+        } else if (type === 'attestContribution' && typeof req.body.validator === 'string') {
+          const { validator, points, reason, reference } = req.body;
+          data = encodeAttestation({ validator, points: Number(points), reason, reference });
+        }
 
-        if (!from || !to || amount === undefined) {
+        const noAmount = type === 'vote' || type === 'updateValidator' || type === 'voteProposal' || type === 'attestContribution';
+        if (!from || !to || (amount === undefined && !noAmount)) {
           return res.status(400).json({ error: 'Missing required fields: from, to, amount' });
         }
 
-        // Validate amount
-        const numAmount = Number(amount);
-        if (!Number.isFinite(numAmount) || numAmount <= 0) {
-          return res.status(400).json({ error: 'Amount must be a positive number' });
+        // Validate amount (votes and validator updates carry none)
+        const numAmount = Number(amount ?? 0);
+        if (!Number.isFinite(numAmount) || (noAmount ? numAmount !== 0 : numAmount <= 0)) {
+          return res.status(400).json({ error: noAmount ? `A ${type} transaction carries no amount` : 'Amount must be a positive number' });
         }
 
+        // Convert to integer base units (rejects more than 8 decimals)
+        const amountUnits = toBaseUnits(typeof amount === 'string' ? amount : numAmount);
+
+        // Optional fee in VIBE (defaults to the standard fee)
+        let feeUnits = DEFAULT_FEE;
+        if (fee !== undefined) {
+          const numFee = Number(fee);
+          if (!Number.isFinite(numFee) || numFee < 0) {
+            return res.status(400).json({ error: 'Fee must be a non-negative number' });
+          }
+          feeUnits = toBaseUnits(typeof fee === 'string' ? fee : numFee);
+        }
+        const isReplaceable = replaceable === true;
+
         // Validate addresses
         if (!Wallet.isValidAddress(from)) {
           return res.status(400).json({ error: 'Invalid "from" address format' });
         }
-        if (!Wallet.isValidAddress(to)) {
+        if (to !== STAKING_ADDRESS && !Wallet.isValidAddress(to)) {
           return res.status(400).json({ error: 'Invalid "to" address format' });
         }
 
-        // Validate data size (max 256 bytes)
-        if (data && typeof data === 'string' && data.length > 256) {
+        // Validate data size of transfers (max 256 bytes)
+        if (type === 'transfer' && data && typeof data === 'string' && data.length > 256) {
           return res.status(400).json({ error: 'Transaction data exceeds maximum size (256 bytes)' });
         }
 
@@ -251,27 +717,57 @@ export class API {
           if (wallet.publicKey !== from) {
             return res.status(400).json({ error: 'Private key does not match from address' });
           }
-          tx = wallet.createTransaction(to, amount, data || '');
+          // An explicit nonce of a pending transaction bumps its fee (replace-by-fee)
+          const txNonce = Number.isInteger(nonce) && nonce >= 0 ? nonce : this.blockchain.getNextNonce(from);
+          tx = type === 'transfer'
+            ? wallet.createTransaction(to, amountUnits, data || '', feeUnits, txNonce, isReplaceable)
+            : wallet.createStakingTransaction(type, to, amountUnits, data || '', feeUnits, txNonce);
         } else if (signature) {
-          // Use pre-signed transaction
-          tx = new Transaction(from, to, amount, data || '');
+          // Use pre-signed transaction (nonce and timestamp must match what was signed)
+          if (!Number.isInteger(nonce) || nonce < 0) {
+            return res.status(400).json({ error: 'Pre-signed transactions must include a valid nonce' });
+          }
+          tx = new Transaction(from, to, amountUnits, data || '', feeUnits, nonce, isReplaceable, type);
+          if (timestamp !== undefined) {
+            tx.timestamp = Number(timestamp);
+            tx.id = tx.calculateId();
+          }
           tx.signature = signature;
+        } else if (multisig) {
+          // Multisig account: witness with the threshold, member keys and member signatures
+          if (!Number.isInteger(nonce) || nonce < 0) {
+            return res.status(400).json({ error: 'Pre-signed transactions must include a valid nonce' });
+          }
+          tx = new Transaction(from, to, amountUnits, data || '', feeUnits, nonce, isReplaceable, type);
+          if (timestamp !== undefined) {
+            tx.timestamp = Number(timestamp);
+            tx.id = tx.calculateId();
+          }
+          tx.multisig = {
+            threshold: multisig.threshold,
+            publicKeys: multisig.publicKeys,
+            signatures: { ...multisig.signatures }
+          };
         } else {
-          return res.status(400).json({ error: 'Must provide privateKey or signature' });
+          return res.status(400).json({ error: 'Must provide privateKey, signature or multisig' });
         }
 
+        const replacing = this.blockchain.mempool.findByNonce(tx.from, tx.nonce);
         const success = this.blockchain.addTransaction(tx);
 
         if (success) {
+          this.announceTransaction(tx);
+
           // Save updated state
           this.storage.saveBlockchain(this.blockchain);
 
           res.json({
             success: true,
-            transaction: tx.toJSON()
+            transaction: tx.toDisplayJSON(),
+            ...(replacing && { replaced: replacing.id })
           });
         } else {
-          res.status(400).json({ error: 'Transaction rejected', reason: 'Invalid signature or insufficient balance' });
+          res.status(400).json({ error: 'Transaction rejected', reason: 'Invalid signature, nonce, insufficient balance, fee below minimum, mempool limits or staking rules' });
         }
       } catch (error: any) {
         res.status(400).json({ error: error.message });
@@ -284,23 +780,60 @@ export class API {
 
       if (result) {
         res.json({
-          ...result.tx.toJSON(),
+          ...result.tx.toDisplayJSON(),
           blockIndex: result.blockIndex
         });
       } else {
         // Check pending
-        const pending = this.blockchain.pendingTransactions.find(tx => tx.id === req.params.id);
+        const pending = this.blockchain.mempool.get(req.params.id);
         if (pending) {
           res.json({
-            ...pending.toJSON(),
+            ...pending.toDisplayJSON(),
             status: 'pending'
           });
+          return;
+        }
+
+        // Replaced by a higher-fee transaction with the same nonce
+        const replacement = this.blockchain.mempool.getReplacement(req.params.id);
+        if (replacement) {
+          res.json({
+            ...replacement.tx.toDisplayJSON(),
+            status: 'replaced',
+            replacedBy: replacement.replacedBy,
+            replacedAt: replacement.replacedAt
+          });
         } else {
           res.status(404).json({ error: 'Transaction not found' });
         }
       }
     });
 
+    // Get merkle inclusion proof for a confirmed transaction (SPV)
+    this.app.get('/transactions/:id/proof', async (req: Request, res: Response) => {
+      const txId = req.params.id;
+      const indexed = await this.storage.getTransaction(txId);
+
+      let proof = null;
+      if (indexed) {
+        proof = this.blockchain.getBlock(indexed.blockIndex)?.getTransactionProof(txId) || null;
+      }
+
+      // Blocks received from peers are not in the transaction index
+      for (let i = this.blockchain.chain.length - 1; !proof && i >= 0; i--) {
+        proof = this.blockchain.chain[i].getTransactionProof(txId);
+      }
+
+      if (proof) {
+        res.json({
+          ...proof,
+          header: this.blockchain.getBlock(proof.blockIndex)!.getHeader()
+        });
+      } else {
+        res.status(404).json({ error: 'Transaction not found in any block' });
+      }
+    });
+
     // ==================== ADDRESSES ====================
 
     // Get address balance
@@ -310,9 +843,23 @@ export class API {
 
       res.json({
         address: req.params.address,
-        balance,
-        pending,
-        available: balance - pending
+        balance: fromBaseUnits(balance),
+        pending: fromBaseUnits(pending),
+        available: fromBaseUnits(balance - pending),
+        locked: fromBaseUnits(this.blockchain.getLockedBalance(req.params.address))
+      });
+    });
+
+    // Get address nonce (wallets use nextNonce when signing a new transaction)
+    this.app.get('/address/:address/nonce', (req: Request, res: Response) => {
+      const nonce = this.blockchain.getNonce(req.params.address);
+      const nextNonce = this.blockchain.getNextNonce(req.params.address);
+
+      res.json({
+        address: req.params.address,
+        nonce,
+        pending: nextNonce - nonce,
+        nextNonce
       });
     });
 
@@ -323,7 +870,7 @@ export class API {
       res.json({
         address: req.params.address,
         count: transactions.length,
-        transactions: transactions.map(tx => tx.toJSON())
+        transactions: transactions.map(tx => tx.toDisplayJSON())
       });
     });
 
@@ -338,9 +885,27 @@ export class API {
           return res.status(400).json({ error: 'minerAddress required' });
         }
 
+        if (this.blockchain.consensusType !== 'PoW') {
+          return res.status(400).json({ error: `Mining is disabled: the chain runs ${this.blockchain.consensusType}` });
+        }
+
         console.log(`⛏️  Mining requested by ${minerAddress.substring(0, 16)}...`);
 
-        const block = this.blockchain.minePendingTransactions(minerAddress);
+        let block;
+        if (this.miner) {
+          // Mine in worker threads so the API keeps serving requests
+          if (this.miner.isMining()) {
+            return res.status(409).json({ error: 'Miner is busy with another block' });
+          }
+
+          block = this.blockchain.createBlockTemplate(minerAddress);
+          const found = await this.miner.mine(block);
+          if (!found || !this.blockchain.addMinedBlock(block)) {
+            return res.status(409).json({ error: 'Mining stopped: the chain tip changed or a worker failed' });
+          }
+        } else {
+          block = this.blockchain.minePendingTransactions(minerAddress);
+        }
 
         // Index transactions
         for (const tx of block.transactions) {
@@ -352,13 +917,27 @@ export class API {
 
         res.json({
           success: true,
-          block: block.toJSON()
+          block: block.toDisplayJSON()
         });
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
     });
 
+    // JSON-RPC for external miners (getblocktemplate / submitblock / getmininginfo)
+    this.app.post('/rpc', async (req: Request, res: Response) => {
+      if (!this.miningRPC) {
+        return res.status(503).json({ error: 'Mining RPC is not enabled on this node' });
+      }
+
+      // Batch requests are answered in order
+      if (Array.isArray(req.body)) {
+        res.json(await Promise.all(req.body.map(request => this.miningRPC!.handle(request))));
+      } else {
+        res.json(await this.miningRPC.handle(req.body));
+      }
+    });
+
     // ==================== WALLET ====================
 
     // Generate new wallet (without mnemonic - backward compatible)
@@ -448,7 +1027,15 @@ export class API {
               dailyLimit: MAX_FAUCET_CLAIMS
             });
           }
+        }
+
+        // Pay the claim from the node wallet
+        const payout = await this.payout(address, FAUCET_AMOUNT, 'Testnet Faucet');
+        if (!payout.success) {
+          return res.status(503).json({ error: payout.error });
+        }
 
+        if (claimInfo) {
           // Update claim info
           claimInfo.lastClaim = now;
           claimInfo.dailyClaims++;
@@ -461,13 +1048,6 @@ export class API {
           });
         }
 
-        // Create faucet transaction
-        const tx = Transaction.createCoinbase(address, FAUCET_AMOUNT);
-        tx.data = 'Testnet Faucet';
-
-        this.blockchain.pendingTransactions.push(tx);
-        await this.storage.saveBlockchain(this.blockchain);
-
         const claimData = this.faucetClaims.get(address)!;
         const remainingClaims = MAX_FAUCET_CLAIMS - claimData.dailyClaims;
 
@@ -648,22 +1228,22 @@ export class API {
           earned = REWARDS_CONFIG.MAX_DAILY_PRESENCE - activity.dailyPresenceEarned;
         }
 
+        // Pay the reward if earned something
+        if (earned > 0) {
+          const payout = await this.payout(address, earned, `Proof of Presence: ${minutesElapsed} min${isTabActive ? ' (active)' : ''}`);
+          if (!payout.success) {
+            return res.status(503).json({ error: payout.error });
+          }
+
+          activity.totalRewardsEarned += earned;
+        }
+
         // Update activity
         activity.lastPresenceHeartbeat = now;
         activity.presenceMinutesToday += minutesElapsed;
         activity.dailyPresenceEarned += earned;
         activity.missions.presenceMinutes += minutesElapsed;
 
-        // Create reward transaction if earned something
-        if (earned > 0) {
-          const tx = Transaction.createCoinbase(address, earned);
-          tx.data = `Proof of Presence: ${minutesElapsed} min${isTabActive ? ' (active)' : ''}`;
-          this.blockchain.pendingTransactions.push(tx);
-          await this.storage.saveBlockchain(this.blockchain);
-
-          activity.totalRewardsEarned += earned;
-        }
-
         // Save activity to persistent storage
         this.scheduleActivitySave();
 
@@ -730,14 +1310,14 @@ export class API {
         else if (streak >= 3) bonus = REWARDS_CONFIG.STREAK_DAY_3;
         else if (streak >= 2) bonus = REWARDS_CONFIG.STREAK_DAY_2;
 
-        // Create bonus transaction if earned
+        // Pay the bonus if earned (the streak itself counts even when the node wallet cannot pay)
         if (bonus > 0) {
-          const tx = Transaction.createCoinbase(address, bonus);
-          tx.data = `Streak Bonus: ${streak} days!`;
-          this.blockchain.pendingTransactions.push(tx);
-          await this.storage.saveBlockchain(this.blockchain);
-
-          activity.totalRewardsEarned += bonus;
+          const payout = await this.payout(address, bonus, `Streak Bonus: ${streak} days!`);
+          if (payout.success) {
+            activity.totalRewardsEarned += bonus;
+          } else {
+            bonus = 0;
+          }
         }
 
         // Save activity to persistent storage
@@ -891,15 +1471,14 @@ export class API {
           return res.status(400).json({ error: 'Mission not completed yet' });
         }
 
+        // Pay the reward
+        const payout = await this.payout(address, reward, `Mission Reward: ${missionId}`);
+        if (!payout.success) {
+          return res.status(503).json({ error: payout.error });
+        }
+
         // Mark as claimed
         activity.missions.claimed.push(missionId);
-
-        // Create reward transaction
-        const tx = Transaction.createCoinbase(address, reward);
-        tx.data = `Mission Reward: ${missionId}`;
-        this.blockchain.pendingTransactions.push(tx);
-        await this.storage.saveBlockchain(this.blockchain);
-
         activity.totalRewardsEarned += reward;
 
         // Save activity to persistent storage
@@ -937,17 +1516,16 @@ export class API {
           });
         }
 
+        // Pay the reward
+        const reward = REWARDS_CONFIG.TWITTER_SHARE;
+        const payout = await this.payout(address, reward, 'Twitter Share Reward');
+        if (!payout.success) {
+          return res.status(503).json({ error: payout.error });
+        }
+
         // Record share
         activity.lastTwitterShare = Date.now();
         activity.missions.twitterShared = true;
-
-        // Create reward transaction
-        const reward = REWARDS_CONFIG.TWITTER_SHARE;
-        const tx = Transaction.createCoinbase(address, reward);
-        tx.data = 'Twitter Share Reward';
-        this.blockchain.pendingTransactions.push(tx);
-        await this.storage.saveBlockchain(this.blockchain);
-
         activity.totalRewardsEarned += reward;
 
         // Save activity to persistent storage
@@ -979,7 +1557,7 @@ export class API {
           network: 'testnet',
           exportedAt: new Date().toISOString(),
           blocks: this.blockchain.chain.map(block => block.toJSON()),
-          pendingTransactions: this.blockchain.pendingTransactions.map(tx => tx.toJSON()),
+          pendingTransactions: this.blockchain.mempool.getAll().map(tx => tx.toJSON()),
           stats: this.blockchain.getStats(),
           checksum: this.blockchain.getLatestBlock().hash // For integrity verification
         };
@@ -998,7 +1576,7 @@ export class API {
         blocks: this.blockchain.chain.length,
         latestHash: this.blockchain.getLatestBlock().hash,
         latestIndex: this.blockchain.getLatestBlock().index,
-        pendingTx: this.blockchain.pendingTransactions.length,
+        pendingTx: this.blockchain.mempool.getSize(),
         timestamp: Date.now()
       });
     });
@@ -1059,13 +1637,14 @@ export class API {
           const now = Date.now();
           const lastGuardianReward = (activity as any).lastGuardianReward || 0;
 
-          if (now - lastGuardianReward >= GUARDIAN_COOLDOWN) {
-            // Reward the guardian
-            const tx = Transaction.createCoinbase(guardianAddress, GUARDIAN_REWARD);
-            tx.data = 'Guardian Backup Verification';
-            this.blockchain.pendingTransactions.push(tx);
-            await this.storage.saveBlockchain(this.blockchain);
+          const payout = now - lastGuardianReward >= GUARDIAN_COOLDOWN
+            ? await this.payout(guardianAddress, GUARDIAN_REWARD, 'Guardian Backup Verification')
+            : null;
 
+          if (payout && !payout.success) {
+            result.message = payout.error;
+          } else if (payout) {
+            // Rewarded the guardian
             (activity as any).lastGuardianReward = now;
             activity.totalRewardsEarned += GUARDIAN_REWARD;
 
@@ -1173,6 +1752,28 @@ export class API {
     this.nodeWallet = wallet;
   }
 
+  /**
+   * Set the node's miner (worker-thread mining and hashrate in /stats)
+   */
+  setMiner(miner: Miner): void {
+    this.miner = miner;
+  }
+
+  /**
+   * Enable the JSON-RPC endpoint for external miners
+   */
+  setMiningRPC(miningRPC: MiningRPC): void {
+    this.miningRPC = miningRPC;
+  }
+
+  /**
+   * Expose Proof of Vibe state (/consensus, /validators) and accept unjail requests
+   */
+  setConsensus(consensus: PoVConsensus): void {
+    this.povConsensus = consensus;
+    this.pov = consensus.getProofOfVibe();
+  }
+
   private httpServer: any = null;
 
   /**
@@ -1201,8 +1802,112 @@ export class API {
     return this.app;
   }
 
+  /**
+   * Register a callback for transactions the API added to the mempool (relayed by P2P)
+   */
+  onNewTransaction(listener: (transaction: Transaction) => void): void {
+    this.transactionListeners.push(listener);
+  }
+
+  private announceTransaction(transaction: Transaction): void {
+    for (const listener of this.transactionListeners) {
+      listener(transaction);
+    }
+  }
+
+  /**
+   * Collect treasury spends (the treasury multisig account, see Treasury.ts)
+   */
+  setTreasury(treasury: Treasury): void {
+    this.treasury = treasury;
+  }
+
+  // ==================== TREASURY HELPER METHODS ====================
+
+  /**
+   * Submit fully signed treasury spends to the mempool in nonce order
+   */
+  private submitTreasurySpends(): void {
+    if (!this.treasury) return;
+
+    const address = this.treasury.getAddress();
+    this.treasury.dropStale(this.blockchain.getNextNonce(address));
+
+    for (const spend of this.treasury.getSubmittable(this.blockchain.getNextNonce(address))) {
+      if (!this.blockchain.addTransaction(spend.transaction)) break;
+      this.announceTransaction(spend.transaction);
+      this.treasury.markSubmitted(spend.id);
+      this.storage.saveBlockchain(this.blockchain);
+      console.log(`🏦 Treasury spend ${spend.id.substring(0, 8)} submitted`);
+    }
+  }
+
+  /**
+   * Spend for display (amounts in VIBE) with the hash to sign and who signed it
+   */
+  private formatSpend(spend: TreasurySpend): object {
+    const { transaction } = spend;
+    return {
+      id: spend.id,
+      status: spend.status,
+      to: transaction.to,
+      amount: fromBaseUnits(transaction.amount),
+      fee: fromBaseUnits(transaction.fee),
+      nonce: transaction.nonce,
+      description: spend.description,
+      createdAt: spend.createdAt,
+      hash: transaction.calculateHash(),
+      signatures: this.treasury!.getSignatureCount(spend),
+      threshold: this.treasury!.getAccount().threshold,
+      signedBy: Object.keys(transaction.multisig!.signatures),
+      transaction: transaction.toDisplayJSON()
+    };
+  }
+
+  // ==================== GOVERNANCE HELPER METHODS ====================
+
+  /**
+   * Proposal for display (amounts in VIBE), with votes and tally in detail
+   */
+  private formatProposal(proposal: Proposal, detailed: boolean): object {
+    const { deposits, votes, totalDeposit, spendAmount, tally, ...fields } = proposal;
+    return {
+      ...fields,
+      totalDeposit: fromBaseUnits(totalDeposit),
+      minDeposit: GOVERNANCE_CONFIG.PROPOSALS[proposal.type].minDeposit,
+      ...(spendAmount !== undefined && { spendAmount: fromBaseUnits(spendAmount) }),
+      voteCount: votes.size,
+      ...(detailed && {
+        deposits: Array.from(deposits.entries()).map(([address, amount]) => ({ address, amount: fromBaseUnits(amount) })),
+        votes: Array.from(votes.entries()).map(([voter, option]) => ({ voter, option })),
+        tally: tally ?? (proposal.status === 'voting' ? this.pov!.getGovernanceManager().getTally(proposal) : undefined)
+      })
+    };
+  }
+
   // ==================== REWARDS HELPER METHODS ====================
 
+  /**
+   * Pay a faucet claim or reward from the node wallet
+   * Payouts are signed transfers, never minted: the node wallet is funded by
+   * its block rewards or by a treasury spend
+   */
+  private async payout(address: string, amount: number, memo: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.nodeWallet) {
+      return { success: false, error: 'Payouts are unavailable: the node has no wallet' };
+    }
+
+    const result = this.nodeWallet.send(this.blockchain, address, toBaseUnits(amount), memo);
+    if (!result.success) {
+      console.log(`⚠️  Payout of ${amount} VIBE failed: ${result.error}`);
+      return { success: false, error: 'Payouts are temporarily unavailable: the node wallet needs funding' };
+    }
+    this.announceTransaction(result.transaction!);
+
+    await this.storage.saveBlockchain(this.blockchain);
+    return { success: true };
+  }
+
   /**
    * Get or create user activity record
    */
@@ -0,0 +1,242 @@
+/**
+ * VibeCoin Mining RPC - Work distribution for external miners
+ *
+ * JSON-RPC 2.0 over HTTP (POST /rpc on the API server), modelled on
+ * Bitcoin's getblocktemplate / submitblock:
+ *   1. getblocktemplate { minerAddress } -> templateId, header, target
+ *   2. the miner hashes sha256(JSON.stringify({ ...header, nonce })) until hash <= target
+ *   3. submitblock { templateId, nonce } -> block validated, added and relayed to peers
+ */
+import { Blockchain } from '../core/Blockchain';
+import { Block } from '../core/Block';
+import { ChainValidator } from '../core/ChainValidator';
+import { bitsToTarget, getDifficulty } from '../core/Difficulty';
+import { fromBaseUnits } from '../core/Units';
+import { Storage } from '../storage/Storage';
+import { P2PNetwork } from '../network/P2P';
+import { Wallet } from '../wallet/Wallet';
+
+export const MINING_RPC_CONFIG = {
+  MAX_TEMPLATES: 100,               // Outstanding templates kept for submissions
+  TEMPLATE_EXPIRY_MS: 10 * 60 * 1000
+};
+
+// JSON-RPC 2.0 error codes (plus application codes below -32000)
+export const RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  UNKNOWN_TEMPLATE: -32001,
+  STALE_WORK: -32002,
+  INVALID_BLOCK: -32003
+};
+
+export interface RPCRequest {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+  id?: string | number | null;
+}
+
+export interface RPCResponse {
+  jsonrpc: '2.0';
+  result?: any;
+  error?: { code: number; message: string };
+  id: string | number | null;
+}
+
+class RPCError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+export class MiningRPC {
+  private blockchain: Blockchain;
+  private storage: Storage;
+  private p2p: P2PNetwork;
+  private templates: Map<string, { block: Block; createdAt: number }> = new Map();
+  private nextTemplateId: number = 1;
+  private tipListeners: Array<(tip: Block) => void> = [];
+
+  constructor(blockchain: Blockchain, storage: Storage, p2p: P2PNetwork) {
+    this.blockchain = blockchain;
+    this.storage = storage;
+    this.p2p = p2p;
+  }
+
+  /**
+   * Register a callback for blocks accepted from external miners
+   */
+  onNewTip(listener: (tip: Block) => void): void {
+    this.tipListeners.push(listener);
+  }
+
+  /**
+   * Handle one JSON-RPC request
+   */
+  async handle(request: RPCRequest): Promise<RPCResponse> {
+    const id = request?.id ?? null;
+
+    if (!request || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+      return this.error(id, RPC_ERRORS.INVALID_REQUEST, 'Invalid JSON-RPC 2.0 request');
+    }
+
+    try {
+      switch (request.method) {
+        case 'getblocktemplate':
+          return { jsonrpc: '2.0', result: this.getBlockTemplate(request.params || {}), id };
+        case 'submitblock':
+          return { jsonrpc: '2.0', result: await this.submitBlock(request.params || {}), id };
+        case 'getmininginfo':
+          return { jsonrpc: '2.0', result: this.getMiningInfo(), id };
+        default:
+          return this.error(id, RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+      }
+    } catch (error: any) {
+      if (error instanceof RPCError) {
+        return this.error(id, error.code, error.message);
+      }
+      return this.error(id, RPC_ERRORS.INTERNAL_ERROR, error.message);
+    }
+  }
+
+  /**
+   * Build work on the current tip, paying the reward to the miner's address
+   */
+  private getBlockTemplate(params: { minerAddress?: string }): object {
+    const { minerAddress } = params;
+    if (!minerAddress || !Wallet.isValidAddress(minerAddress)) {
+      throw new RPCError(RPC_ERRORS.INVALID_PARAMS, 'A valid minerAddress is required');
+    }
+    if (this.blockchain.consensusType !== 'PoW') {
+      throw new RPCError(RPC_ERRORS.INVALID_REQUEST, `Mining is disabled: the chain runs ${this.blockchain.consensusType}`);
+    }
+
+    this.pruneTemplates();
+
+    const block = this.blockchain.createBlockTemplate(minerAddress);
+    const templateId = (this.nextTemplateId++).toString(16).padStart(8, '0');
+    this.templates.set(templateId, { block, createdAt: Date.now() });
+
+    if (this.templates.size > MINING_RPC_CONFIG.MAX_TEMPLATES) {
+      const oldest = this.templates.keys().next().value;
+      if (oldest !== undefined) {
+        this.templates.delete(oldest);
+      }
+    }
+
+    console.log(`📋 Block template ${templateId} for height ${block.index} issued to ${minerAddress.substring(0, 16)}...`);
+
+    return {
+      templateId,
+      height: block.index,
+      previousHash: block.previousHash,
+      bits: block.difficulty,
+      target: bitsToTarget(block.difficulty).toString(16).padStart(64, '0'),
+      header: block.getHashData(),
+      transactions: block.transactions.map(tx => tx.toJSON()),
+      coinbaseValue: block.transactions[0].amount.toString(),
+      expiresAt: Date.now() + MINING_RPC_CONFIG.TEMPLATE_EXPIRY_MS
+    };
+  }
+
+  /**
+   * Accept a solved nonce for a template, then relay the block to peers
+   */
+  private async submitBlock(params: { templateId?: string; nonce?: number }): Promise<object> {
+    const { templateId, nonce } = params;
+    if (typeof templateId !== 'string' || !Number.isSafeInteger(nonce) || nonce! < 0) {
+      throw new RPCError(RPC_ERRORS.INVALID_PARAMS, 'templateId (string) and nonce (non-negative integer) are required');
+    }
+
+    const template = this.templates.get(templateId);
+    if (!template) {
+      throw new RPCError(RPC_ERRORS.UNKNOWN_TEMPLATE, `Unknown or expired template: ${templateId}`);
+    }
+
+    const latestBlock = this.blockchain.getLatestBlock();
+    if (template.block.previousHash !== latestBlock.hash) {
+      this.templates.delete(templateId);
+      throw new RPCError(RPC_ERRORS.STALE_WORK, `Template ${templateId} is stale: the tip moved to ${latestBlock.index}`);
+    }
+
+    // Work on a copy so a bad nonce leaves the template usable
+    const block = Block.fromJSON(template.block.toJSON());
+    block.nonce = nonce!;
+    block.hash = block.calculateHash();
+
+    const validation = ChainValidator.validateBlock(
+      block,
+      latestBlock,
+      latestBlock.index + 1,
+      Blockchain.getNextDifficulty(this.blockchain.chain),
+      this.blockchain.consensusType
+    );
+    if (!validation.valid) {
+      throw new RPCError(RPC_ERRORS.INVALID_BLOCK, validation.message);
+    }
+
+    // Transactions may have been invalidated by a replacement since the template was built
+    const txValidation = ChainValidator.validateBlockTransactions(block, this.blockchain);
+    if (!txValidation.valid) {
+      this.templates.delete(templateId);
+      throw new RPCError(RPC_ERRORS.INVALID_BLOCK, txValidation.message);
+    }
+
+    if (!this.blockchain.addMinedBlock(block)) {
+      throw new RPCError(RPC_ERRORS.STALE_WORK, 'The tip moved while the block was being added');
+    }
+
+    // Every template built on the old tip is now stale
+    this.templates.clear();
+
+    await this.storage.indexBlock(block);
+    await this.storage.saveBlockchain(this.blockchain);
+    this.p2p.broadcastBlock(block);
+
+    for (const listener of this.tipListeners) {
+      listener(block);
+    }
+
+    console.log(`📬 Block ${block.index} submitted by external miner ${block.miner.substring(0, 16)}...`);
+
+    return {
+      accepted: true,
+      height: block.index,
+      hash: block.hash
+    };
+  }
+
+  /**
+   * Current chain parameters for miners
+   */
+  private getMiningInfo(): object {
+    return {
+      height: this.blockchain.chain.length,
+      tip: this.blockchain.getLatestBlock().hash,
+      bits: this.blockchain.difficulty,
+      difficulty: getDifficulty(this.blockchain.difficulty),
+      reward: fromBaseUnits(this.blockchain.miningReward),
+      pendingTransactions: this.blockchain.mempool.getSize(),
+      outstandingTemplates: this.templates.size
+    };
+  }
+
+  private pruneTemplates(): void {
+    const cutoff = Date.now() - MINING_RPC_CONFIG.TEMPLATE_EXPIRY_MS;
+    const tipHash = this.blockchain.getLatestBlock().hash;
+
+    for (const [id, template] of this.templates) {
+      if (template.createdAt < cutoff || template.block.previousHash !== tipHash) {
+        this.templates.delete(id);
+      }
+    }
+  }
+
+  private error(id: string | number | null, code: number, message: string): RPCResponse {
+    return { jsonrpc: '2.0', error: { code, message }, id };
+  }
+}
@@ -8,6 +8,12 @@
 import { Node, NodeConfig } from './node/Node';
 import { LightNode, LightNodeConfig } from './node/LightNode';
 import { Wallet } from './wallet/Wallet';
+import { MINER_CONFIG } from './mining/Miner';
+import { DEFAULT_POV_CONFIG } from './consensus/ProofOfVibe';
+import { ProposalType, VoteOption } from './consensus/Governance';
+import { encodeProposal, encodeProposalVote } from './consensus/StakingTransactions';
+import { Transaction, TransactionType, STAKING_ADDRESS } from './core/Transaction';
+import { toBaseUnits } from './core/Units';
 import {
   checkForUpdates,
   performGitUpdate,
@@ -70,6 +76,35 @@ for (let i = 0; i < args.length; i++) {
 // Track if a command was handled (to prevent node startup)
 let commandHandled = false;
 
+// REST API of a running node, used by the governance and treasury commands
+const nodeUrl = (flags.node || 'http://localhost:3000').replace(/\/$/, '');
+
+/**
+ * Call the REST API of the running node
+ */
+async function nodeRequest(method: 'GET' | 'POST' | 'DELETE', route: string, body?: object): Promise<any> {
+  const response = await fetch(`${nodeUrl}${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(body && { body: JSON.stringify(body) })
+  });
+  const result: any = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `${response.status} ${response.statusText}`);
+  }
+  return result;
+}
+
+/**
+ * Value of a flag a command cannot run without
+ */
+function requireCommandFlag(name: string, command: string): string {
+  if (!flags[name] || flags[name] === 'true') {
+    throw new Error(`--${name} is required for ${command}`);
+  }
+  return flags[name];
+}
+
 // Update commands
 if (flags.update === 'true') {
   commandHandled = true;
@@ -322,6 +357,168 @@ Examples:
   process.exit(1);
 }
 
+// Governance commands (talk to a running node's REST API, signing with the saved wallet)
+else if (flags.governance) {
+  commandHandled = true;
+  const governanceCommand = flags.governance;
+  const requireFlag = (name: string) => requireCommandFlag(name, `--governance ${governanceCommand}`);
+
+  // Sign a governance transaction locally and submit it to the node
+  async function sendTransaction(type: TransactionType, amount: string, data: string): Promise<void> {
+    const wallet = loadSavedWallet();
+    if (!wallet) {
+      throw new Error(`No wallet found at ${WALLET_FILE}`);
+    }
+
+    const { nextNonce } = await nodeRequest('GET', `/address/${wallet.publicKey}/nonce`);
+    const tx = wallet.createStakingTransaction(type, STAKING_ADDRESS, toBaseUnits(amount), data, undefined, nextNonce);
+    const result = await nodeRequest('POST', '/transactions', {
+      type,
+      from: tx.from,
+      to: tx.to,
+      amount,
+      data: tx.data,
+      nonce: tx.nonce,
+      timestamp: tx.timestamp,
+      signature: tx.signature
+    });
+    console.log(`✅ ${type} transaction ${result.transaction.id.substring(0, 16)}... sent to ${nodeUrl}`);
+  }
+
+  async function runGovernance() {
+    switch (governanceCommand) {
+      case 'list': {
+        const query = flags.status ? `?status=${encodeURIComponent(flags.status)}` : '';
+        const { proposals } = await nodeRequest('GET', `/governance/proposals${query}`);
+        if (proposals.length === 0) {
+          console.log('No proposals');
+        }
+        for (const p of proposals) {
+          console.log(`#${p.id}  [${p.status}]  ${p.type.padEnd(9)}  ${p.title}  (${p.totalDeposit}/${p.minDeposit} VIBE, ${p.voteCount} votes)`);
+        }
+        break;
+      }
+      case 'show':
+        console.log(JSON.stringify(await nodeRequest('GET', `/governance/proposals/${requireFlag('id')}`), null, 2));
+        break;
+      case 'propose': {
+        const data = encodeProposal({
+          type: requireFlag('type') as ProposalType,
+          title: requireFlag('title'),
+          description: flags.description ?? '',
+          parameter: flags.parameter,
+          value: flags.value !== undefined ? Number(flags.value) : undefined,
+          recipient: flags.recipient,
+          spendAmount: flags.spend !== undefined ? toBaseUnits(flags.spend) : undefined,
+          reference: flags.reference,
+          activationHeight: flags['activation-height'] !== undefined ? Number(flags['activation-height']) : undefined
+        });
+        await sendTransaction('submitProposal', requireFlag('deposit'), data);
+        break;
+      }
+      case 'deposit':
+        await sendTransaction('depositProposal', requireFlag('amount'), requireFlag('id'));
+        break;
+      case 'vote':
+        await sendTransaction('voteProposal', '0', encodeProposalVote(Number(requireFlag('id')), requireFlag('option') as VoteOption));
+        break;
+      default:
+        console.log(`
+❌ Unknown governance command: ${governanceCommand}
+
+Available commands:
+   --governance list       List proposals (--status voting)
+   --governance show       Show a proposal with its tally (--id 1)
+   --governance propose    Submit a proposal with a deposit
+   --governance deposit    Add to a proposal's deposit (--id 1 --amount 50)
+   --governance vote       Vote on a proposal (--id 1 --option yes|no|abstain)
+`);
+        process.exit(1);
+    }
+  }
+
+  runGovernance()
+    .then(() => process.exit(0))
+    .catch((error: any) => {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    });
+}
+
+// Treasury commands (talk to a running node's REST API, signing with the saved wallet as keyholder)
+else if (flags.treasury) {
+  commandHandled = true;
+  const treasuryCommand = flags.treasury;
+  const requireFlag = (name: string) => requireCommandFlag(name, `--treasury ${treasuryCommand}`);
+
+  async function runTreasury() {
+    switch (treasuryCommand) {
+      case 'show': {
+        const treasury = await nodeRequest('GET', '/treasury');
+        console.log(`🏦 Treasury ${treasury.address}`);
+        console.log(`   ${treasury.threshold}-of-${treasury.keyholders.length} multisig, balance ${treasury.balance} VIBE`);
+        const { spends } = await nodeRequest('GET', '/treasury/spends');
+        for (const spend of spends) {
+          console.log(`   ${spend.id.substring(0, 16)}  [${spend.status}]  ${spend.amount} VIBE → ${spend.to.substring(0, 16)}...  (${spend.signatures}/${spend.threshold} signatures)  ${spend.description}`);
+        }
+        break;
+      }
+      case 'spend': {
+        const { spend } = await nodeRequest('POST', '/treasury/spends', {
+          to: requireFlag('to'),
+          amount: requireFlag('amount'),
+          description: flags.description
+        });
+        console.log(`✅ Spend ${spend.id} created - keyholders sign it with --treasury sign --id ${spend.id}`);
+        break;
+      }
+      case 'sign': {
+        // The private key never leaves this machine: only the signature is sent
+        const wallet = loadSavedWallet();
+        if (!wallet) {
+          throw new Error(`No wallet found at ${WALLET_FILE}`);
+        }
+        const id = requireFlag('id');
+        const spend = await nodeRequest('GET', `/treasury/spends/${id}`);
+        const tx = Transaction.fromJSON({ ...spend.transaction, amount: toBaseUnits(spend.amount), fee: toBaseUnits(spend.fee) });
+        if (tx.calculateHash() !== spend.hash) {
+          throw new Error('Spend hash does not match its transaction');
+        }
+        tx.multisig!.signatures = {};
+        wallet.signMultisig(tx);
+        const { spend: signed } = await nodeRequest('POST', `/treasury/spends/${id}/signatures`, {
+          publicKey: wallet.publicKey,
+          signature: tx.multisig!.signatures[wallet.publicKey]
+        });
+        console.log(`✅ Signed spend ${id.substring(0, 16)}... (${signed.signatures}/${signed.threshold} signatures, ${signed.status})`);
+        break;
+      }
+      case 'cancel':
+        await nodeRequest('DELETE', `/treasury/spends/${requireFlag('id')}`);
+        console.log('✅ Spend cancelled');
+        break;
+      default:
+        console.log(`
+❌ Unknown treasury command: ${treasuryCommand}
+
+Available commands:
+   --treasury show         Show the treasury account and its spends
+   --treasury spend        Create a spend (--to <address> --amount 100 --description "...")
+   --treasury sign         Sign a spend as keyholder (--id <spend id>)
+   --treasury cancel       Cancel a spend that was not submitted (--id <spend id>)
+`);
+        process.exit(1);
+    }
+  }
+
+  runTreasury()
+    .then(() => process.exit(0))
+    .catch((error: any) => {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    });
+}
+
 // Show help
 if (flags.help || args.includes('-h')) {
   console.log(`
@@ -382,6 +579,42 @@ MINING OPTIONS:
                         - "force-new": Force create a new wallet
                         - <private-key>: Import wallet from private key
 
+  --threads <n>         Mining worker threads (default: 1)
+                        Example: --threads 4
+
+CONSENSUS OPTIONS:
+  --consensus <type>    Block production: pow (mining, default) or pov
+                        In pov mode, --mine produces blocks in the slots
+                        your wallet is elected for (no proof of work)
+
+  --genesis <file>      PoV: JSON list of the network's genesis validators
+                        ([{"address", "name", "stake"}], the same on every node)
+  --validator-name <n>  PoV: register your wallet as a validator (3-32 chars)
+                        with a signed registerValidator transaction
+  --stake <amount>      PoV: VIBE locked on registration (default: 100)
+                        Example: --consensus pov --mine --validator-name "vibe-node" --stake 500
+
+GOVERNANCE (PoV networks, uses the saved wallet and a running node):
+  --node <url>          Node REST API (default: http://localhost:3000)
+  --governance list     List proposals (--status deposit|voting|passed|...)
+  --governance show     Show a proposal, its votes and tally (--id <n>)
+  --governance propose  Submit a proposal, locking --deposit <VIBE>:
+                        --type text --title "..." [--description "..."]
+                        --type parameter --parameter blockReward --value 4
+                        --type treasury --recipient <address> --spend <VIBE>
+                        --type contribution --recipient <validator> --value <points> --reference <link>
+                        [--activation-height <height>]
+  --governance deposit  Add to a proposal's deposit (--id <n> --amount <VIBE>)
+  --governance vote     Vote with your stake (--id <n> --option yes|no|abstain)
+
+TREASURY (multisig keyholders, uses the saved wallet and a running node):
+  --treasury-keys <k>   Node: treasury keyholder public keys (comma-separated)
+  --treasury-threshold <n> Node: signatures required to spend (default: 5)
+  --treasury show       Show the treasury account, balance and spends
+  --treasury spend      Create a spend (--to <address> --amount <VIBE> [--description "..."])
+  --treasury sign       Add your signature to a spend (--id <spend id>)
+  --treasury cancel     Cancel a spend that was not submitted (--id <spend id>)
+
 WALLET STORAGE:
   Your wallet is automatically saved to: ~/.vibecoin/wallet.key
   It will be reused every time you start the node.
@@ -416,6 +649,10 @@ EXAMPLES:
   vibecoin --api-port 3000 --p2p-port 6001
   vibecoin --api-port 3001 --p2p-port 6002 --peers "localhost:6001"
 
+  # Propose a lower block reward and vote for it
+  vibecoin --governance propose --type parameter --parameter blockReward --value 4 --title "Lower the reward" --deposit 100
+  vibecoin --governance vote --id 1 --option yes
+
 UPDATE COMMANDS:
   # Check for updates
   vibecoin --check-update
@@ -473,6 +710,11 @@ if (commandHandled) {
 
   startLightNode();
 } else {
+  if (flags.consensus && flags.consensus !== 'pow' && flags.consensus !== 'pov') {
+    console.error(`❌ Unknown consensus "${flags.consensus}" (use pow or pov)`);
+    process.exit(1);
+  }
+
   // Full node configuration
   const config: Partial<NodeConfig> = {
     network: (flags.network as any) || 'testnet',
@@ -485,14 +727,34 @@ if (commandHandled) {
       port: parseInt(flags['p2p-port']) || 6001,
       seedNodes: flags.peers ? flags.peers.split(',').map(s => s.trim()) : []
     },
+    consensus: flags.consensus === 'pov' ? 'pov' : 'pow',
+    ...(flags.genesis && {
+      genesisValidators: JSON.parse(fs.readFileSync(flags.genesis, 'utf8'))
+    }),
+    ...(flags['validator-name'] && {
+      validator: {
+        name: flags['validator-name'],
+        stake: parseFloat(flags.stake) || DEFAULT_POV_CONFIG.minStake
+      }
+    }),
     mining: {
       enabled: flags.mine === 'true',
-      interval: 10000
+      interval: 10000,
+      threads: parseInt(flags.threads) || MINER_CONFIG.DEFAULT_THREADS
     },
     externalAddress: flags.external,
-    lightMode: false
+    lightMode: false,
+    ...(flags['treasury-keys'] && {
+      treasury: {
+        publicKeys: flags['treasury-keys'].split(',').map(s => s.trim()),
+        threshold: flags['treasury-threshold'] ? parseInt(flags['treasury-threshold']) : undefined
+      }
+    })
   };
 
+  // Miner wallet, also used to sign blocks as a PoV validator
+  let minerWallet: Wallet | null = null;
+
   // Handle miner address
   if (config.mining?.enabled) {
     let wallet: Wallet | null = null;
@@ -565,6 +827,7 @@ if (commandHandled) {
     }
 
     config.mining.address = wallet.publicKey;
+    minerWallet = wallet;
   }
 
   // Start full node
@@ -578,6 +841,9 @@ if (commandHandled) {
       }).catch(() => {}); // Silently ignore update check errors
 
       const node = new Node(config);
+      if (minerWallet) {
+        node.setWallet(minerWallet);
+      }
       await node.start();
     } catch (error: any) {
       console.error('❌ Failed to start node:', error.message);
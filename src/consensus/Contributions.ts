@@ -0,0 +1,142 @@
+/**
+ * VibeCoin Contributions - Audited contribution awards behind the VibeScore
+ *
+ * A validator's contribution score (30% of its VibeScore, and the boost of its
+ * voting power) is not set by anyone directly. It is rebuilt from on-chain
+ * awards, each with a reason and a reference (pull request, release, report):
+ *   attestContribution transactions signed by an authorized attester
+ *   passed contribution proposals of the governance
+ *
+ * Awards lose CONTRIBUTION_CONFIG.DECAY_PER_EPOCH of their weight every epoch,
+ * so the score follows recent work and old reputation fades out. Replaying
+ * the awards at an epoch gives the same score on every node.
+ */
+
+export const CONTRIBUTION_CONFIG = {
+  MAX_POINTS: 100,              // Points a single award can give
+  DECAY_PER_EPOCH: 0.05,        // Share of an award's remaining weight lost every epoch (half-life ~14 epochs)
+  MIN_WEIGHT: 0.01,             // Awards decayed below this share no longer count
+  MAX_REASON_LENGTH: 200,
+  MAX_REFERENCE_LENGTH: 200
+};
+
+/**
+ * Award carried by an attestContribution transaction or a contribution proposal
+ */
+export interface ContributionAward {
+  validator: string;
+  points: number;
+  reason: string;
+  reference: string;
+}
+
+/**
+ * Award recorded on-chain
+ */
+export interface ContributionRecord extends ContributionAward {
+  id: number;
+  source: string;        // Attester address, or `proposal:<id>` for governance awards
+  height: number;
+  epoch: number;
+}
+
+export class ContributionManager {
+  private records: ContributionRecord[] = [];
+
+  /**
+   * Check the content of an award, regardless of chain state
+   */
+  static validateAward(award: ContributionAward): string | null {
+    if (!award.validator) {
+      return 'An award must name a validator';
+    }
+    if (!Number.isInteger(award.points) || award.points < 1 || award.points > CONTRIBUTION_CONFIG.MAX_POINTS) {
+      return `Points must be an integer between 1 and ${CONTRIBUTION_CONFIG.MAX_POINTS}`;
+    }
+    if (!award.reason || award.reason.length > CONTRIBUTION_CONFIG.MAX_REASON_LENGTH) {
+      return `Reason must be 1-${CONTRIBUTION_CONFIG.MAX_REASON_LENGTH} characters`;
+    }
+    if (!award.reference || award.reference.length > CONTRIBUTION_CONFIG.MAX_REFERENCE_LENGTH) {
+      return `Reference must be 1-${CONTRIBUTION_CONFIG.MAX_REFERENCE_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  /**
+   * Record an award (attestation or passed proposal)
+   */
+  record(
+    award: ContributionAward,
+    source: string,
+    height: number,
+    epoch: number
+  ): { success: boolean; error?: string } {
+    const error = ContributionManager.validateAward(award);
+    if (error) {
+      return { success: false, error };
+    }
+
+    const { validator, points, reason, reference } = award;
+    this.records.push({ id: this.records.length + 1, validator, points, reason, reference, source, height, epoch });
+
+    console.log(`🌟 +${points} contribution points to ${validator.substring(0, 16)}...: ${reason} (${reference})`);
+    return { success: true };
+  }
+
+  /**
+   * Remaining weight of an award after some epochs
+   */
+  static getWeight(age: number): number {
+    return Math.pow(1 - CONTRIBUTION_CONFIG.DECAY_PER_EPOCH, Math.max(age, 0));
+  }
+
+  /**
+   * Contribution score of a validator at an epoch: its decayed awards
+   */
+  getScore(validator: string, epoch: number): number {
+    let score = 0;
+    for (const record of this.records) {
+      if (record.validator !== validator) continue;
+      const weight = ContributionManager.getWeight(epoch - record.epoch);
+      if (weight >= CONTRIBUTION_CONFIG.MIN_WEIGHT) {
+        score += record.points * weight;
+      }
+    }
+    return score;
+  }
+
+  /**
+   * Audit trail of awards, newest first, optionally for one validator
+   */
+  getRecords(validator?: string): ContributionRecord[] {
+    return this.records
+      .filter(record => !validator || record.validator === validator)
+      .reverse();
+  }
+
+  /**
+   * Get contribution statistics
+   */
+  getStats(): object {
+    const fromGovernance = this.records.filter(record => record.source.startsWith('proposal:')).length;
+    return {
+      totalAwards: this.records.length,
+      attested: this.records.length - fromGovernance,
+      fromGovernance
+    };
+  }
+
+  /**
+   * Export awards for persistence
+   */
+  exportContributions(): { records: ContributionRecord[] } {
+    return { records: this.records.map(record => ({ ...record })) };
+  }
+
+  /**
+   * Import awards from persistence
+   */
+  importContributions(data: { records?: ContributionRecord[] }): void {
+    this.records = (data.records || []).map(record => ({ ...record }));
+  }
+}
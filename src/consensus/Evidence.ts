@@ -0,0 +1,212 @@
+/**
+ * VibeCoin Double-Sign Evidence - Detecting equivocating PoV validators
+ *
+ * A validator that signs two different blocks for the same height can split
+ * the network. Nodes remember the signed headers they have seen per validator
+ * and height; a conflicting pair is self-verifying evidence (two valid
+ * signatures from one key over different headers). Evidence is gossiped to
+ * peers, included in the next PoV block and slashed by every node when that
+ * block is connected.
+ */
+import * as crypto from 'crypto';
+import { ec as EC } from 'elliptic';
+import { Block } from '../core/Block';
+
+const ec = new EC('secp256k1');
+
+export const EVIDENCE_CONFIG = {
+  MAX_TRACKED_HEIGHTS: 1000,     // Signed headers are remembered this many blocks back
+  MAX_PENDING_EVIDENCE: 100,     // Evidence waiting to be included in a block
+  MAX_EVIDENCE_PER_BLOCK: 10
+};
+
+/**
+ * Block header fields covered by the validator signature (Block.getHashData order), plus the signature
+ */
+export interface SignedHeader {
+  index: number;
+  timestamp: number;
+  merkleRoot: string;
+  previousHash: string;
+  nonce: number;
+  difficulty: number;
+  miner: string;
+  consensusType: string;
+  validator: string;
+  vibeScore: number;
+  epoch: number;
+  validatorSet?: string[];
+  evidenceRoot?: string;
+  unjailRoot?: string;
+  signature: string;
+}
+
+export interface DoubleSignEvidence {
+  validator: string;
+  height: number;
+  headers: [SignedHeader, SignedHeader];
+  detectedAt: number;
+}
+
+export class EvidencePool {
+  private seenHeaders: Map<string, SignedHeader> = new Map();   // validator:height -> first header seen
+  private pending: Map<string, DoubleSignEvidence> = new Map();
+  private highestHeight: number = 0;
+  private isProcessed: (id: string) => boolean;
+
+  /**
+   * @param isProcessed Tells whether evidence was already slashed on-chain (never re-gossiped)
+   */
+  constructor(isProcessed: (id: string) => boolean = () => false) {
+    this.isProcessed = isProcessed;
+  }
+
+  /**
+   * Identifier of an offence - one slash per validator and height
+   */
+  static getEvidenceId(evidence: DoubleSignEvidence): string {
+    return `${evidence.validator}:${evidence.height}`;
+  }
+
+  /**
+   * Hash a signed header the way Block.calculateSigningHash does (signature excluded)
+   */
+  static calculateSigningHash(header: SignedHeader): string {
+    const { signature, ...data } = header;
+    return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+  }
+
+  /**
+   * Check that evidence proves a double sign: two different headers at one height,
+   * both validly signed by the accused validator
+   */
+  static verify(evidence: DoubleSignEvidence): { valid: boolean; error?: string } {
+    if (!evidence || typeof evidence.validator !== 'string' || !Number.isSafeInteger(evidence.height)) {
+      return { valid: false, error: 'Malformed evidence' };
+    }
+    if (!Array.isArray(evidence.headers) || evidence.headers.length !== 2) {
+      return { valid: false, error: 'Evidence must contain exactly two headers' };
+    }
+
+    const [first, second] = evidence.headers;
+    for (const header of evidence.headers) {
+      if (!header || header.consensusType !== 'PoV') {
+        return { valid: false, error: 'Evidence headers must be PoV headers' };
+      }
+      if (header.validator !== evidence.validator || header.index !== evidence.height) {
+        return { valid: false, error: 'Evidence header does not match the accused validator and height' };
+      }
+    }
+
+    const firstHash = EvidencePool.calculateSigningHash(first);
+    const secondHash = EvidencePool.calculateSigningHash(second);
+    if (firstHash === secondHash) {
+      return { valid: false, error: 'Evidence headers are identical' };
+    }
+
+    try {
+      const key = ec.keyFromPublic(evidence.validator, 'hex');
+      if (!key.verify(firstHash, first.signature) || !key.verify(secondHash, second.signature)) {
+        return { valid: false, error: 'Evidence header signature is invalid' };
+      }
+    } catch {
+      return { valid: false, error: 'Evidence header signature is invalid' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Remember the signed header of a PoV block
+   * Returns new evidence if the validator already signed a different header at this height
+   */
+  recordHeader(block: Block): DoubleSignEvidence | null {
+    if (!block.isPoV() || !block.hasValidSignature()) {
+      return null;
+    }
+
+    const header = block.getSignedHeader();
+    const key = `${block.validator}:${block.index}`;
+    const seen = this.seenHeaders.get(key);
+
+    if (!seen) {
+      this.seenHeaders.set(key, header);
+      this.highestHeight = Math.max(this.highestHeight, block.index);
+      this.prune();
+      return null;
+    }
+
+    if (seen.signature === header.signature ||
+        EvidencePool.calculateSigningHash(seen) === EvidencePool.calculateSigningHash(header)) {
+      return null;
+    }
+
+    const evidence: DoubleSignEvidence = {
+      validator: block.validator,
+      height: block.index,
+      headers: [seen, header],
+      detectedAt: Date.now()
+    };
+
+    console.log(`🚨 Double sign detected: validator ${block.validator.substring(0, 16)}... signed two blocks at height ${block.index}`);
+
+    return this.add(evidence).success ? evidence : null;
+  }
+
+  /**
+   * Add evidence detected locally or received from a peer
+   */
+  add(evidence: DoubleSignEvidence): { success: boolean; error?: string } {
+    const verification = EvidencePool.verify(evidence);
+    if (!verification.valid) {
+      return { success: false, error: verification.error };
+    }
+
+    const id = EvidencePool.getEvidenceId(evidence);
+    if (this.pending.has(id) || this.isProcessed(id)) {
+      return { success: false, error: 'Evidence already known' };
+    }
+    if (this.pending.size >= EVIDENCE_CONFIG.MAX_PENDING_EVIDENCE) {
+      return { success: false, error: 'Evidence pool is full' };
+    }
+
+    this.pending.set(id, evidence);
+    return { success: true };
+  }
+
+  /**
+   * Evidence waiting for inclusion, oldest first
+   */
+  getPending(limit: number = EVIDENCE_CONFIG.MAX_EVIDENCE_PER_BLOCK): DoubleSignEvidence[] {
+    return Array.from(this.pending.values()).slice(0, limit);
+  }
+
+  /**
+   * Forget evidence that was included in a block
+   */
+  remove(id: string): void {
+    this.pending.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.pending.has(id);
+  }
+
+  getSize(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Drop headers too old to matter
+   */
+  private prune(): void {
+    if (this.seenHeaders.size <= EVIDENCE_CONFIG.MAX_TRACKED_HEIGHTS) return;
+
+    const cutoff = this.highestHeight - EVIDENCE_CONFIG.MAX_TRACKED_HEIGHTS;
+    for (const [key, header] of this.seenHeaders) {
+      if (header.index < cutoff) {
+        this.seenHeaders.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,457 @@
+/**
+ * VibeCoin Governance - Proposals of the VIBE DAO
+ *
+ * A proposal is submitted with a deposit (submitProposal transaction) and can
+ * be topped up by anyone (depositProposal) until it reaches the minimum
+ * deposit of its type; voting then opens for a fixed number of blocks
+ * (voteProposal: yes, no or abstain, changeable until the end).
+ *
+ * Votes are stake-weighted with the voting power strategy of VotingManager
+ * and tallied per chamber when voting ends:
+ *   Council    the 7 best ranked active validators when voting opened
+ *   Senate     the active validators (up to 21) when voting opened
+ *   Assembly   every address with staked or delegated VIBE
+ * A proposal passes when each chamber its type requires reaches quorum
+ * (voting power that voted) and approval (yes among yes + no).
+ *
+ * Passed parameter changes, treasury spends and contribution awards take
+ * effect at an activation height after the vote. Deposits are refunded through the unbonding queue,
+ * except when a chamber missed its quorum: they are then forfeited to the
+ * treasury, which pays passed spends as claimable rewards.
+ */
+import { formatVibe, toBaseUnits } from '../core/Units';
+import { ContributionAward, ContributionManager } from './Contributions';
+
+export type ProposalType = 'parameter' | 'treasury' | 'contribution' | 'text';
+export type ProposalStatus = 'deposit' | 'voting' | 'passed' | 'rejected' | 'expired' | 'executed' | 'failed';
+export type Chamber = 'council' | 'senate' | 'assembly';
+export type VoteOption = 'yes' | 'no' | 'abstain';
+
+export const PROPOSAL_TYPES: ProposalType[] = ['parameter', 'treasury', 'contribution', 'text'];
+export const VOTE_OPTIONS: VoteOption[] = ['yes', 'no', 'abstain'];
+
+export const GOVERNANCE_CONFIG = {
+  DEPOSIT_PERIOD: 8640,              // Blocks to reach the minimum deposit (24 hours of 10 second blocks)
+  VOTING_PERIOD: 3 * 8640,           // Blocks of voting once the deposit is reached
+  ACTIVATION_DELAY: 8640,            // Blocks between the end of voting and a passed proposal taking effect
+  MAX_TITLE_LENGTH: 100,
+  MAX_DESCRIPTION_LENGTH: 2000,
+  PROPOSALS: {
+    parameter: { minDeposit: 100, chambers: ['senate', 'assembly'] },
+    treasury: { minDeposit: 50, chambers: ['council', 'assembly'] },
+    contribution: { minDeposit: 20, chambers: ['council', 'assembly'] },
+    text: { minDeposit: 10, chambers: ['assembly'] }
+  } as Record<ProposalType, { minDeposit: number; chambers: Chamber[] }>,
+  CHAMBERS: {
+    council: { seats: 7, quorum: 50, approval: 67 },          // % of the chamber's voting power
+    senate: { seats: 21, quorum: 40, approval: 60 },
+    assembly: { seats: Infinity, quorum: 20, approval: 50 }
+  } as Record<Chamber, { seats: number; quorum: number; approval: number }>,
+  PARAMETERS: {
+    blockReward: { min: 0, max: 50 },            // VIBE per block
+    voterRewardShare: { min: 0, max: 50 },       // % of the block reward
+    minStake: { min: 1, max: 1_000_000 }         // VIBE to be a validator
+  } as Record<string, { min: number; max: number }>
+};
+
+/**
+ * Proposal as submitted in a submitProposal transaction
+ */
+export interface ProposalDraft {
+  type: ProposalType;
+  title: string;
+  description: string;
+  parameter?: string;            // parameter: name in GOVERNANCE_CONFIG.PARAMETERS
+  value?: number;                // parameter: new value
+  recipient?: string;            // treasury: address paid; contribution: validator awarded
+  spendAmount?: bigint;          // treasury: base units paid
+  reference?: string;            // contribution: what the award is for (pull request, report...)
+  activationHeight?: number;     // parameter, treasury and contribution: earliest height to take effect
+}
+
+export interface ChamberTally {
+  chamber: Chamber;
+  members: number;
+  electoratePower: number;
+  yes: number;
+  no: number;
+  abstain: number;
+  quorumReached: boolean;
+  approved: boolean;
+}
+
+export interface Proposal extends ProposalDraft {
+  id: number;
+  proposer: string;
+  status: ProposalStatus;
+  deposits: Map<string, bigint>;   // depositor -> base units
+  totalDeposit: bigint;
+  submittedHeight: number;
+  depositEndHeight: number;
+  votingStartHeight?: number;
+  votingEndHeight?: number;
+  council: string[];               // Chamber members when voting opened
+  senate: string[];
+  votes: Map<string, VoteOption>;
+  tally?: ChamberTally[];          // Final tally, once voting ended
+}
+
+/**
+ * Who may vote in each chamber, and with what power (supplied by ProofOfVibe)
+ */
+export interface Electorate {
+  getChamberMembers(chamber: 'council' | 'senate'): string[];
+  getAssemblyMembers(): string[];
+  getVotingPower(address: string): number;
+}
+
+/**
+ * Effects of a block on state outside governance, applied by ProofOfVibe
+ */
+export interface GovernanceOutcome {
+  refunds: Array<{ address: string; amount: bigint }>;
+  parameterChanges: Array<{ parameter: string; value: number }>;
+  payouts: Array<{ recipient: string; amount: bigint }>;
+  contributions: Array<{ proposal: number; award: ContributionAward }>;
+}
+
+export class GovernanceManager {
+  private proposals: Map<number, Proposal> = new Map();
+  private nextId: number = 1;
+  private treasury: bigint = 0n;
+  private electorate: Electorate;
+
+  constructor(electorate: Electorate) {
+    this.electorate = electorate;
+  }
+
+  /**
+   * Check the content of a proposal, regardless of chain state
+   */
+  static validateDraft(draft: ProposalDraft): string | null {
+    if (!PROPOSAL_TYPES.includes(draft.type)) {
+      return `Proposal type must be one of: ${PROPOSAL_TYPES.join(', ')}`;
+    }
+    if (!draft.title || draft.title.length > GOVERNANCE_CONFIG.MAX_TITLE_LENGTH) {
+      return `Title must be 1-${GOVERNANCE_CONFIG.MAX_TITLE_LENGTH} characters`;
+    }
+    if (draft.description.length > GOVERNANCE_CONFIG.MAX_DESCRIPTION_LENGTH) {
+      return `Description is limited to ${GOVERNANCE_CONFIG.MAX_DESCRIPTION_LENGTH} characters`;
+    }
+    if (draft.activationHeight !== undefined && (!Number.isSafeInteger(draft.activationHeight) || draft.activationHeight < 0)) {
+      return 'Activation height must be a block height';
+    }
+
+    if (draft.type === 'parameter') {
+      const range = draft.parameter !== undefined ? GOVERNANCE_CONFIG.PARAMETERS[draft.parameter] : undefined;
+      if (!range) {
+        return `Parameter must be one of: ${Object.keys(GOVERNANCE_CONFIG.PARAMETERS).join(', ')}`;
+      }
+      if (typeof draft.value !== 'number' || !Number.isFinite(draft.value) || draft.value < range.min || draft.value > range.max) {
+        return `${draft.parameter} must be between ${range.min} and ${range.max}`;
+      }
+    } else if (draft.type === 'treasury') {
+      if (!draft.recipient) {
+        return 'A treasury proposal needs a recipient';
+      }
+      if (draft.spendAmount === undefined || draft.spendAmount <= 0n) {
+        return 'A treasury proposal needs a positive spend amount';
+      }
+    } else if (draft.type === 'contribution') {
+      return ContributionManager.validateAward(GovernanceManager.getAward(draft));
+    }
+
+    return null;
+  }
+
+  /**
+   * Open a proposal with its first deposit
+   */
+  submit(
+    proposer: string,
+    draft: ProposalDraft,
+    deposit: bigint,
+    height: number
+  ): { success: boolean; error?: string; id?: number } {
+    const error = GovernanceManager.validateDraft(draft);
+    if (error) {
+      return { success: false, error };
+    }
+
+    const proposal: Proposal = {
+      ...draft,
+      id: this.nextId++,
+      proposer,
+      status: 'deposit',
+      deposits: new Map(),
+      totalDeposit: 0n,
+      submittedHeight: height,
+      depositEndHeight: height + GOVERNANCE_CONFIG.DEPOSIT_PERIOD,
+      council: [],
+      senate: [],
+      votes: new Map()
+    };
+    this.proposals.set(proposal.id, proposal);
+    this.addDeposit(proposal, proposer, deposit, height);
+
+    console.log(`📜 Proposal #${proposal.id} "${proposal.title}" (${proposal.type}) submitted`);
+    return { success: true, id: proposal.id };
+  }
+
+  /**
+   * Add to the deposit of a proposal that has not reached its minimum yet
+   */
+  deposit(depositor: string, id: number, amount: bigint, height: number): { success: boolean; error?: string } {
+    const proposal = this.proposals.get(id);
+    if (!proposal) {
+      return { success: false, error: `Proposal #${id} not found` };
+    }
+    if (proposal.status !== 'deposit' || height > proposal.depositEndHeight) {
+      return { success: false, error: `Proposal #${id} is not collecting deposits` };
+    }
+    if (amount <= 0n) {
+      return { success: false, error: 'Deposit must be positive' };
+    }
+
+    this.addDeposit(proposal, depositor, amount, height);
+    return { success: true };
+  }
+
+  /**
+   * Cast or change a vote on a proposal in its voting period
+   */
+  vote(voter: string, id: number, option: VoteOption, height: number): { success: boolean; error?: string } {
+    const proposal = this.proposals.get(id);
+    if (!proposal) {
+      return { success: false, error: `Proposal #${id} not found` };
+    }
+    if (proposal.status !== 'voting' || height > proposal.votingEndHeight!) {
+      return { success: false, error: `Proposal #${id} is not open for voting` };
+    }
+    if (!VOTE_OPTIONS.includes(option)) {
+      return { success: false, error: `Vote must be one of: ${VOTE_OPTIONS.join(', ')}` };
+    }
+    if (!(this.electorate.getVotingPower(voter) > 0)) {
+      return { success: false, error: 'No voting power: stake or delegate VIBE to vote' };
+    }
+
+    proposal.votes.set(voter, option);
+    return { success: true };
+  }
+
+  /**
+   * Close deposit and voting periods ending at a height and activate passed proposals
+   * Call once per connected block, after its transactions
+   */
+  processBlock(height: number): GovernanceOutcome {
+    const outcome: GovernanceOutcome = { refunds: [], parameterChanges: [], payouts: [], contributions: [] };
+
+    for (const proposal of this.proposals.values()) {
+      if (proposal.status === 'deposit' && height >= proposal.depositEndHeight) {
+        proposal.status = 'expired';
+        outcome.refunds.push(...this.releaseDeposits(proposal));
+        console.log(`⌛ Proposal #${proposal.id} expired without reaching its deposit`);
+      } else if (proposal.status === 'voting' && height >= proposal.votingEndHeight!) {
+        this.closeVoting(proposal, outcome);
+      } else if (proposal.status === 'passed' && proposal.activationHeight !== undefined && height >= proposal.activationHeight) {
+        this.execute(proposal, outcome);
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Tally the votes of a proposal with the current voting power (final once voting ended)
+   */
+  getTally(proposal: Proposal): ChamberTally[] {
+    const power = new Map<string, number>();
+    const powerOf = (address: string) => {
+      if (!power.has(address)) {
+        power.set(address, this.electorate.getVotingPower(address));
+      }
+      return power.get(address)!;
+    };
+
+    return GOVERNANCE_CONFIG.PROPOSALS[proposal.type].chambers.map(chamber => {
+      const members = chamber === 'assembly' ? this.electorate.getAssemblyMembers() : proposal[chamber];
+      const rules = GOVERNANCE_CONFIG.CHAMBERS[chamber];
+      const tally: ChamberTally = {
+        chamber,
+        members: members.length,
+        electoratePower: 0,
+        yes: 0,
+        no: 0,
+        abstain: 0,
+        quorumReached: false,
+        approved: false
+      };
+
+      for (const member of members) {
+        const memberPower = powerOf(member);
+        tally.electoratePower += memberPower;
+        const option = proposal.votes.get(member);
+        if (option) {
+          tally[option] += memberPower;
+        }
+      }
+
+      const voted = tally.yes + tally.no + tally.abstain;
+      tally.quorumReached = tally.electoratePower > 0 && (voted / tally.electoratePower) * 100 >= rules.quorum;
+      tally.approved = tally.quorumReached && tally.yes > 0 && (tally.yes / (tally.yes + tally.no)) * 100 >= rules.approval;
+      return tally;
+    });
+  }
+
+  private addDeposit(proposal: Proposal, depositor: string, amount: bigint, height: number): void {
+    proposal.deposits.set(depositor, (proposal.deposits.get(depositor) || 0n) + amount);
+    proposal.totalDeposit += amount;
+
+    if (proposal.totalDeposit >= toBaseUnits(GOVERNANCE_CONFIG.PROPOSALS[proposal.type].minDeposit)) {
+      proposal.status = 'voting';
+      proposal.votingStartHeight = height;
+      proposal.votingEndHeight = height + GOVERNANCE_CONFIG.VOTING_PERIOD;
+      proposal.council = this.electorate.getChamberMembers('council');
+      proposal.senate = this.electorate.getChamberMembers('senate');
+      console.log(`🗳️  Proposal #${proposal.id} open for voting until height ${proposal.votingEndHeight}`);
+    }
+  }
+
+  private closeVoting(proposal: Proposal, outcome: GovernanceOutcome): void {
+    proposal.tally = this.getTally(proposal);
+
+    if (proposal.tally.every(tally => tally.approved)) {
+      proposal.status = 'passed';
+      if (proposal.type !== 'text') {
+        proposal.activationHeight = Math.max(
+          proposal.activationHeight ?? 0,
+          proposal.votingEndHeight! + GOVERNANCE_CONFIG.ACTIVATION_DELAY
+        );
+      }
+    } else {
+      proposal.status = 'rejected';
+    }
+
+    // Proposals that could not gather a quorum lose their deposit
+    if (proposal.tally.every(tally => tally.quorumReached)) {
+      outcome.refunds.push(...this.releaseDeposits(proposal));
+    } else {
+      this.treasury += proposal.totalDeposit;
+    }
+
+    const activation = proposal.activationHeight !== undefined && proposal.status === 'passed'
+      ? ` (takes effect at height ${proposal.activationHeight})`
+      : '';
+    console.log(`🏛️  Proposal #${proposal.id} ${proposal.status}${activation}`);
+  }
+
+  private execute(proposal: Proposal, outcome: GovernanceOutcome): void {
+    if (proposal.type === 'parameter') {
+      outcome.parameterChanges.push({ parameter: proposal.parameter!, value: proposal.value! });
+      proposal.status = 'executed';
+    } else if (proposal.type === 'contribution') {
+      outcome.contributions.push({ proposal: proposal.id, award: GovernanceManager.getAward(proposal) });
+      proposal.status = 'executed';
+    } else if (this.treasury >= proposal.spendAmount!) {
+      this.treasury -= proposal.spendAmount!;
+      outcome.payouts.push({ recipient: proposal.recipient!, amount: proposal.spendAmount! });
+      proposal.status = 'executed';
+    } else {
+      proposal.status = 'failed';
+      console.log(`⚠️  Proposal #${proposal.id} failed: the treasury holds ${formatVibe(this.treasury)} VIBE`);
+      return;
+    }
+
+    console.log(`✅ Proposal #${proposal.id} executed`);
+  }
+
+  /**
+   * Award granted by a contribution proposal: points = value, reason = title
+   */
+  private static getAward(draft: ProposalDraft): ContributionAward {
+    return {
+      validator: draft.recipient ?? '',
+      points: draft.value ?? 0,
+      reason: draft.title,
+      reference: draft.reference ?? ''
+    };
+  }
+
+  private releaseDeposits(proposal: Proposal): Array<{ address: string; amount: bigint }> {
+    return Array.from(proposal.deposits.entries()).map(([address, amount]) => ({ address, amount }));
+  }
+
+  getProposal(id: number): Proposal | undefined {
+    return this.proposals.get(id);
+  }
+
+  /**
+   * Proposals, newest first, optionally with one status
+   */
+  getProposals(status?: ProposalStatus): Proposal[] {
+    return Array.from(this.proposals.values())
+      .filter(proposal => !status || proposal.status === status)
+      .reverse();
+  }
+
+  /**
+   * Forfeited deposits available to treasury proposals (base units)
+   */
+  getTreasury(): bigint {
+    return this.treasury;
+  }
+
+  /**
+   * Get governance statistics
+   */
+  getStats(): object {
+    const byStatus: Record<string, number> = {};
+    for (const proposal of this.proposals.values()) {
+      byStatus[proposal.status] = (byStatus[proposal.status] || 0) + 1;
+    }
+    return {
+      totalProposals: this.proposals.size,
+      byStatus,
+      treasury: formatVibe(this.treasury)
+    };
+  }
+
+  /**
+   * Export proposals and the treasury for persistence (amounts as base-unit strings)
+   */
+  exportGovernance(): {
+    proposals: any[];
+    nextId: number;
+    treasury: string;
+  } {
+    return {
+      proposals: Array.from(this.proposals.values()).map(proposal => ({
+        ...proposal,
+        spendAmount: proposal.spendAmount?.toString(),
+        deposits: Array.from(proposal.deposits.entries()).map(([address, amount]) => [address, amount.toString()]),
+        totalDeposit: proposal.totalDeposit.toString(),
+        votes: Array.from(proposal.votes.entries())
+      })),
+      nextId: this.nextId,
+      treasury: this.treasury.toString()
+    };
+  }
+
+  /**
+   * Import proposals and the treasury from persistence
+   */
+  importGovernance(data: { proposals?: any[]; nextId?: number; treasury?: string }): void {
+    this.proposals.clear();
+    for (const proposal of data.proposals || []) {
+      this.proposals.set(proposal.id, {
+        ...proposal,
+        spendAmount: proposal.spendAmount !== undefined ? BigInt(proposal.spendAmount) : undefined,
+        deposits: new Map(proposal.deposits.map(([address, amount]: [string, string]) => [address, BigInt(amount)])),
+        totalDeposit: BigInt(proposal.totalDeposit),
+        votes: new Map(proposal.votes)
+      });
+    }
+    this.nextId = data.nextId ?? this.proposals.size + 1;
+    this.treasury = BigInt(data.treasury ?? '0');
+  }
+}
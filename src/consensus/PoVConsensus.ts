@@ -0,0 +1,547 @@
+/**
+ * VibeCoin PoV Consensus Rules - Proof of Vibe on the live chain
+ *
+ * Binds ProofOfVibe to a Blockchain running in PoV mode:
+ * - the elected validator of a slot builds the block (no proof of work)
+ * - epochs and slots follow from heights and parent timestamps; the first block
+ *   of an epoch commits the validator set that rotates through its slots
+ * - peers check the producer schedule and the reward payouts
+ * - every connected block is processed: the validator is paid in the block,
+ *   delegator and voter rewards accrue until claimed
+ * - staking transactions (stake, delegate, vote, register...) are dry-run on a
+ *   copy of the consensus state when a block is built or checked, and executed
+ *   when it is connected
+ * - double-sign evidence carried by a block is verified and slashed
+ * - producers that skipped their slot before a block are recorded (and jailed
+ *   if they keep missing); signed unjail requests in a block release them
+ * - the state is snapshotted every few blocks: a disconnected block (reorg) rolls
+ *   the state back to the newest snapshot on the chain and replays the blocks after it
+ *
+ * Reward layout of a PoV block:
+ *   tx[0]        coinbase to the validator (validator reward + fees)
+ *   tx[1..]      transactions from the mempool
+ */
+import { Block } from '../core/Block';
+import { Blockchain, BLOCKCHAIN_CONFIG, ConsensusRules } from '../core/Blockchain';
+import { Transaction } from '../core/Transaction';
+import { ChainValidator } from '../core/ChainValidator';
+import { formatVibe } from '../core/Units';
+import { Wallet } from '../wallet/Wallet';
+import { ProofOfVibe, UnjailRequest } from './ProofOfVibe';
+import { EvidencePool, EVIDENCE_CONFIG } from './Evidence';
+import { FORK_CHOICE_CONFIG } from '../core/ForkChoice';
+
+const SNAPSHOT_INTERVAL = 10;
+
+export const SNAPSHOT_CONFIG = {
+  INTERVAL: SNAPSHOT_INTERVAL,                                                      // Blocks between state snapshots
+  RETAINED: Math.ceil(FORK_CHOICE_CONFIG.MAX_REORG_DEPTH / SNAPSHOT_INTERVAL) + 1   // Enough to roll back the deepest reorg
+};
+
+/**
+ * Consensus state after a block: a rollback point for reorgs and restarts
+ */
+export interface ConsensusSnapshot {
+  height: number;
+  hash: string;
+  state: string;        // ProofOfVibe.exportState as JSON
+}
+
+/**
+ * Consensus state as persisted: the state at a tip and the snapshots before it
+ */
+export interface SavedConsensusState {
+  height: number;
+  hash: string;
+  state: object;
+  snapshots: ConsensusSnapshot[];
+}
+
+export class PoVConsensus implements ConsensusRules {
+  private blockchain: Blockchain;
+  private pov: ProofOfVibe;
+  private evidencePool: EvidencePool;
+  private snapshots: ConsensusSnapshot[] = [];
+  private pendingUnjails: Map<string, UnjailRequest> = new Map();
+  private unjailListeners: Array<(request: UnjailRequest) => void> = [];
+
+  constructor(blockchain: Blockchain, pov: ProofOfVibe) {
+    this.blockchain = blockchain;
+    this.pov = pov;
+    this.evidencePool = new EvidencePool(id => this.pov.hasProcessedEvidence(id));
+
+    // A chain starts from the genesis validators (restoreState replaces this state)
+    if (this.pov.getAllValidatorsWithScores().length === 0) {
+      this.pov.registerGenesisValidators();
+    }
+  }
+
+  /**
+   * Producer of the block following the current tip at a time (now by default)
+   */
+  getCurrentProducer(at: number = Date.now()): string | null {
+    const latestBlock = this.blockchain.getLatestBlock();
+    return this.pov.getProducer(latestBlock.index + 1, latestBlock.timestamp, at, this.getNextValidators());
+  }
+
+  /**
+   * Validators scheduling the next height: a fresh election at an epoch boundary
+   */
+  private getNextValidators(): string[] {
+    const height = this.blockchain.getLatestBlock().index + 1;
+    return this.pov.isEpochBoundary(height) ? this.pov.electValidatorSet() : this.pov.getActiveValidators();
+  }
+
+  /**
+   * Build and sign the next block if the validator owns the current slot
+   * Returns null when it is another validator's turn or the slot spacing is not reached
+   */
+  createBlock(validator: Wallet): Block | null {
+    const validatorAddress = validator.publicKey;
+    const now = Date.now();
+    const latestBlock = this.blockchain.getLatestBlock();
+    const height = latestBlock.index + 1;
+    const validators = this.getNextValidators();
+    if (this.pov.getProducer(height, latestBlock.timestamp, now, validators) !== validatorAddress) {
+      return null;
+    }
+
+    if (now - latestBlock.timestamp < this.pov.getConfig().blockTime * 0.9) {
+      return null;
+    }
+
+    const info = this.pov.getValidatorInfo(validatorAddress);
+    if (!info) {
+      return null;
+    }
+
+    const { reward } = this.pov.calculateRewards(validatorAddress);
+
+    const pending = this.executeStakingTransactions(
+      this.blockchain.mempool.selectTransactions(BLOCKCHAIN_CONFIG.MAX_TRANSACTIONS_PER_BLOCK - 1),
+      now,
+      height,
+      false
+    ).transactions;
+    const totalFees = pending
+      .filter(tx => !tx.isCoinbase())
+      .reduce((sum, tx) => sum + tx.fee, 0n);
+
+    const rewardTx = Transaction.createCoinbase(validatorAddress, reward + totalFees);
+
+    const block = new Block(
+      height,
+      [rewardTx, ...pending],
+      latestBlock.hash,
+      this.blockchain.difficulty,
+      validatorAddress,
+      'PoV'
+    );
+    block.validatorSet = this.pov.isEpochBoundary(height) ? validators : [];
+    block.evidence = this.evidencePool.getPending();
+    block.unjails = [...this.pendingUnjails.values()]
+      .filter(request => this.pov.verifyUnjailRequest(request, block.index).valid);
+
+    // Stamp the block inside the slot that was checked above (setValidator rehashes)
+    block.timestamp = now;
+    block.setValidator(
+      validatorAddress,
+      info.info.name,
+      info.vibeScore.totalScore,
+      this.pov.getEpoch(height)
+    );
+    validator.signBlock(block);
+
+    return block;
+  }
+
+  /**
+   * Check the producer schedule and reward payouts of a block extending previousBlock
+   */
+  validateBlock(block: Block, previousBlock: Block): { valid: boolean; error?: string } {
+    if (!block.isPoV()) {
+      return { valid: false, error: 'Not a Proof of Vibe block' };
+    }
+
+    const scheduleResult = this.pov.validateBlock(block, block.validator, previousBlock);
+    if (!scheduleResult.valid) {
+      return scheduleResult;
+    }
+
+    const { reward } = this.pov.calculateRewards(block.validator);
+
+    const totalFees = block.transactions
+      .filter(tx => !tx.isCoinbase())
+      .reduce((sum, tx) => sum + tx.fee, 0n);
+
+    const rewardTx = block.transactions[0];
+    if (!rewardTx || !rewardTx.isCoinbase() || rewardTx.to !== block.validator) {
+      return { valid: false, error: 'First transaction must pay the validator' };
+    }
+    if (rewardTx.amount !== reward + totalFees) {
+      return {
+        valid: false,
+        error: `Validator reward ${formatVibe(rewardTx.amount)} VIBE, expected ${formatVibe(reward + totalFees)} VIBE`
+      };
+    }
+
+    if (block.transactions.slice(1).some(tx => tx.isCoinbase())) {
+      return { valid: false, error: 'Only the first transaction may pay a reward' };
+    }
+
+    const stakingResult = this.executeStakingTransactions(block.transactions, block.timestamp, block.index, true);
+    if (stakingResult.error) {
+      return { valid: false, error: stakingResult.error };
+    }
+
+    const evidenceResult = this.validateEvidence(block);
+    if (!evidenceResult.valid) {
+      return evidenceResult;
+    }
+
+    return this.validateUnjails(block);
+  }
+
+  /**
+   * Unjail requests in a block must be signed, past their cooldown and not repeated
+   */
+  private validateUnjails(block: Block): { valid: boolean; error?: string } {
+    const validators = new Set<string>();
+    for (const request of block.unjails) {
+      if (validators.has(request.validator)) {
+        return { valid: false, error: 'Duplicate unjail request' };
+      }
+
+      const verification = this.pov.verifyUnjailRequest(request, block.index);
+      if (!verification.valid) {
+        return { valid: false, error: `Invalid unjail request: ${verification.error}` };
+      }
+      validators.add(request.validator);
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Check a staking transaction for the mempool against the current consensus state
+   */
+  validateTransaction(transaction: Transaction): { valid: boolean; error?: string } {
+    const typeResult = ChainValidator.validateTransactionType(transaction, true);
+    if (!typeResult.valid) {
+      return { valid: false, error: typeResult.message };
+    }
+
+    if (this.blockchain.getLockedBalance(transaction.from) + transaction.getLockedChange() < 0n) {
+      return { valid: false, error: this.lockedError(this.blockchain.getLockedBalance(transaction.from)) };
+    }
+
+    const height = this.blockchain.getLatestBlock().index + 1;
+    const result = this.pov.clone().applyTransaction(transaction, Date.now(), height);
+    return result.success ? { valid: true } : { valid: false, error: result.error };
+  }
+
+  /**
+   * Check the spendable and locked balances of every transaction of a list, following
+   * them through the whole list, and dry-run its staking transactions on a copy of
+   * the consensus state
+   * With stopOnError the first failure is returned (block validation); otherwise the
+   * failing transaction and the later ones of its sender are left out (block building)
+   */
+  private executeStakingTransactions(
+    transactions: Transaction[],
+    at: number,
+    height: number,
+    stopOnError: boolean
+  ): { transactions: Transaction[]; error?: string } {
+    let pov: ProofOfVibe | null = null;
+    const balances = new Map<string, bigint>();
+    const balanceOf = (address: string) => balances.get(address) ?? this.blockchain.getBalance(address);
+    const locked = new Map<string, bigint>();
+    const lockedOf = (address: string) => locked.get(address) ?? this.blockchain.getLockedBalance(address);
+    const skippedSenders = new Set<string>();
+    const accepted: Transaction[] = [];
+
+    for (const tx of transactions) {
+      if (tx.isCoinbase()) {
+        balances.set(tx.to, balanceOf(tx.to) + tx.amount);
+        accepted.push(tx);
+        continue;
+      }
+      if (skippedSenders.has(tx.from)) continue;
+
+      let error: string | undefined;
+      if (balanceOf(tx.from) < tx.getTotalCost()) {
+        error = `Insufficient balance. Has: ${formatVibe(balanceOf(tx.from))}, Needs: ${formatVibe(tx.getTotalCost())}`;
+      } else if (lockedOf(tx.from) + tx.getLockedChange() < 0n) {
+        error = this.lockedError(lockedOf(tx.from));
+      } else if (tx.isStaking()) {
+        pov = pov || this.pov.clone();
+        error = pov.applyTransaction(tx, at, height).error;
+      }
+
+      if (error) {
+        if (stopOnError) {
+          return { transactions: accepted, error: `${tx.type} transaction ${tx.id.substring(0, 16)}... rejected: ${error}` };
+        }
+        skippedSenders.add(tx.from);
+        continue;
+      }
+
+      // Same balance effects as WorldState.applyTransaction
+      balances.set(tx.from, balanceOf(tx.from) + tx.getSenderBalanceChange());
+      locked.set(tx.from, lockedOf(tx.from) + tx.getLockedChange());
+      if (!tx.isStaking()) {
+        balances.set(tx.to, balanceOf(tx.to) + tx.amount);
+      }
+      accepted.push(tx);
+    }
+
+    return { transactions: accepted };
+  }
+
+  /**
+   * Stake released to a balance must have been locked on chain: genesis stake never was
+   */
+  private lockedError(locked: bigint): string {
+    return `Cannot release more than the ${formatVibe(locked)} VIBE locked on chain`;
+  }
+
+  /**
+   * Evidence in a block must be valid, new, and about a known validator
+   */
+  private validateEvidence(block: Block): { valid: boolean; error?: string } {
+    if (block.evidence.length > EVIDENCE_CONFIG.MAX_EVIDENCE_PER_BLOCK) {
+      return { valid: false, error: `Too much evidence (${block.evidence.length})` };
+    }
+
+    const ids = new Set<string>();
+    for (const evidence of block.evidence) {
+      const verification = EvidencePool.verify(evidence);
+      if (!verification.valid) {
+        return { valid: false, error: `Invalid double-sign evidence: ${verification.error}` };
+      }
+      if (evidence.height > block.index) {
+        return { valid: false, error: 'Double-sign evidence from a future height' };
+      }
+
+      const id = EvidencePool.getEvidenceId(evidence);
+      if (ids.has(id) || this.pov.hasProcessedEvidence(id)) {
+        return { valid: false, error: 'Double-sign evidence already slashed' };
+      }
+      if (!this.pov.getValidatorInfo(evidence.validator)) {
+        return { valid: false, error: 'Double-sign evidence against an unknown validator' };
+      }
+      ids.add(id);
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Update validator statistics for a block added to the main chain
+   */
+  blockConnected(block: Block): void {
+    // The state before the first block we connect is the first rollback point
+    const previousBlock = this.blockchain.getBlock(block.index - 1);
+    if (this.snapshots.length === 0 && previousBlock) {
+      this.takeSnapshot(previousBlock);
+    }
+
+    this.applyBlock(block);
+
+    if (block.index % SNAPSHOT_CONFIG.INTERVAL === 0) {
+      this.takeSnapshot(block);
+    }
+  }
+
+  /**
+   * Undo a block that left the main chain: restore the state at the new tip
+   * Its evidence and unjail requests go back to the pools for the next blocks
+   */
+  blockDisconnected(block: Block): void {
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.height < block.index);
+    this.rebuildState();
+
+    for (const evidence of block.evidence) {
+      this.evidencePool.add(evidence);
+    }
+    for (const request of block.unjails) {
+      this.pendingUnjails.set(request.validator, request);
+    }
+  }
+
+  /**
+   * Persistable state: the state at the tip and the snapshots to roll back to
+   */
+  exportState(): SavedConsensusState {
+    const tip = this.blockchain.getLatestBlock();
+    return {
+      height: tip.index,
+      hash: tip.hash,
+      state: this.pov.exportState(),
+      snapshots: this.snapshots.map(snapshot => ({ ...snapshot }))
+    };
+  }
+
+  /**
+   * Restore persisted state in line with the loaded chain: when it was saved at another tip
+   * (crash between saves, or a branch the node left since), the newest saved state on the
+   * chain is restored and the blocks after it are replayed
+   */
+  restoreState(saved: any): void {
+    // State saved before snapshots existed: taken as is
+    if (!Array.isArray(saved.snapshots)) {
+      this.pov.importState(saved);
+      return;
+    }
+
+    this.snapshots = saved.snapshots.map((snapshot: ConsensusSnapshot) => ({ ...snapshot }));
+
+    const tip = this.blockchain.getLatestBlock();
+    if (saved.height === tip.index && saved.hash === tip.hash) {
+      this.pov.importState(saved.state);
+      return;
+    }
+
+    this.snapshots.push({ height: saved.height, hash: saved.hash, state: JSON.stringify(saved.state) });
+    this.snapshots.sort((a, b) => a.height - b.height);
+    this.rebuildState();
+  }
+
+  /**
+   * Rebuild the state at the chain tip from the newest snapshot on the chain,
+   * or from an empty state and the whole chain when none is left
+   */
+  private rebuildState(): void {
+    const tip = this.blockchain.getLatestBlock();
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.height <= tip.index);
+
+    const snapshot = [...this.snapshots]
+      .reverse()
+      .find(candidate => this.blockchain.getBlock(candidate.height)?.hash === candidate.hash);
+    this.pov.importState(snapshot ? JSON.parse(snapshot.state) : this.getGenesisState());
+
+    const from = snapshot ? snapshot.height + 1 : 1;
+    for (let height = from; height <= tip.index; height++) {
+      this.applyBlock(this.blockchain.getBlock(height)!);
+    }
+
+    if (snapshot) {
+      console.log(`⏪ Consensus state rolled back to block ${snapshot.height} and replayed to ${tip.index}`);
+    } else {
+      console.log(`🔄 Consensus state rebuilt from ${tip.index} blocks (no snapshot on the chain)`);
+    }
+  }
+
+  /**
+   * Consensus state before the first block: the genesis validators only
+   */
+  private getGenesisState(): object {
+    const genesis = new ProofOfVibe(this.pov.getConfig());
+    genesis.registerGenesisValidators();
+    return genesis.exportState();
+  }
+
+  private takeSnapshot(block: Block): void {
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.height < block.index);
+    this.snapshots.push({ height: block.index, hash: block.hash, state: JSON.stringify(this.pov.exportState()) });
+    while (this.snapshots.length > SNAPSHOT_CONFIG.RETAINED) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * Apply a block's effects to the consensus state; the stake it slashes is
+   * burned from the world state with the block
+   */
+  private applyBlock(block: Block): void {
+    if (!block.isPoV()) return;
+    this.pov.takeSlashes();
+
+    // Rewards and staking transactions first: they were checked against the state before the block
+    this.pov.distributeRewards(block.validator);
+
+    for (const tx of block.transactions) {
+      if (!tx.isStaking()) continue;
+
+      const result = this.pov.applyTransaction(tx, block.timestamp, block.index);
+      if (!result.success) {
+        console.log(`⚠️  ${tx.type} transaction ${tx.id.substring(0, 16)}... failed in block ${block.index}: ${result.error}`);
+      }
+    }
+
+    this.pov.processGovernance(block.index, block.timestamp);
+
+    if (this.pov.isEpochBoundary(block.index)) {
+      this.pov.startEpoch(block);
+    }
+
+    // Slots skipped since the parent count against their producers (no schedule before the first PoV block)
+    const previousBlock = this.blockchain.getBlock(block.index - 1);
+    if (previousBlock?.isPoV()) {
+      this.pov.recordMissedSlots(previousBlock, block);
+    }
+
+    this.pov.processBlock(block, block.validator, previousBlock?.isPoV() ? previousBlock : undefined);
+
+    for (const evidence of block.evidence) {
+      this.pov.applyDoubleSignEvidence(evidence, block.timestamp);
+      this.evidencePool.remove(EvidencePool.getEvidenceId(evidence));
+    }
+
+    for (const request of block.unjails) {
+      this.pov.unjail(request, block.index);
+      this.pendingUnjails.delete(request.validator);
+    }
+
+    this.blockchain.state.applySlashes(block, this.pov.takeSlashes());
+  }
+
+  /**
+   * Queue a signed unjail request for inclusion in the next block we produce
+   * Accepted once the jail cooldown has passed at the next height
+   */
+  submitUnjail(request: UnjailRequest): { success: boolean; error?: string } {
+    if (!request || typeof request.validator !== 'string' || typeof request.signature !== 'string') {
+      return { success: false, error: 'Malformed unjail request' };
+    }
+
+    const pending = this.pendingUnjails.get(request.validator);
+    if (pending && pending.jailedAt === request.jailedAt) {
+      return { success: false, error: 'Unjail request already pending' };
+    }
+
+    const verification = this.pov.verifyUnjailRequest(request, this.blockchain.getLatestBlock().index + 1);
+    if (!verification.valid) {
+      return { success: false, error: verification.error };
+    }
+
+    this.pendingUnjails.set(request.validator, request);
+    console.log(`🔓 Unjail request queued for validator ${request.validator.substring(0, 16)}...`);
+
+    for (const listener of this.unjailListeners) {
+      listener(request);
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Register a callback for newly accepted unjail requests (relayed by P2P)
+   */
+  onUnjailRequest(listener: (request: UnjailRequest) => void): void {
+    this.unjailListeners.push(listener);
+  }
+
+  getProofOfVibe(): ProofOfVibe {
+    return this.pov;
+  }
+
+  /**
+   * Pool of double-sign evidence waiting for inclusion (fed by P2P)
+   */
+  getEvidencePool(): EvidencePool {
+    return this.evidencePool;
+  }
+
+}
@@ -9,19 +9,49 @@
  * - Sustainable: No energy-intensive mining
  */
 
-import { StakingManager, StakeInfo, DEFAULT_STAKING_CONFIG } from './Staking';
-import { VotingManager, DEFAULT_VOTING_CONFIG } from './Voting';
-import { ValidatorManager, ValidatorInfo, VibeScore } from './Validator';
+import * as crypto from 'crypto';
+import { ec as EC } from 'elliptic';
+import { StakingManager, StakeInfo, UnbondingEntry, DEFAULT_STAKING_CONFIG } from './Staking';
+import { RewardManager } from './Rewards';
+import { GovernanceManager, GOVERNANCE_CONFIG } from './Governance';
+import { ContributionManager, ContributionAward } from './Contributions';
+import { VotingManager, VotingPowerInput, DEFAULT_VOTING_CONFIG } from './Voting';
+import { ValidatorManager, ValidatorInfo, VibeScore, JAIL_CONFIG } from './Validator';
 import { Block } from '../core/Block';
+import { SlashRecord } from '../core/WorldState';
 import { Transaction } from '../core/Transaction';
+import { DoubleSignEvidence, EvidencePool } from './Evidence';
+import {
+  decodeVote,
+  decodeRegistration,
+  decodeValidatorUpdate,
+  decodeProposal,
+  decodeProposalId,
+  decodeProposalVote,
+  decodeAttestation
+} from './StakingTransactions';
+import { toBaseUnits, fromBaseUnits, formatVibe, percentOf } from '../core/Units';
 
 export interface PoVConfig {
   blockTime: number;           // Target block time in ms
   blockReward: number;         // VIBE reward per block
   voterRewardShare: number;    // % of reward shared with voters
   maxValidators: number;       // Maximum active validators
-  epochDuration: number;       // Duration of voting epoch
+  epochLength: number;         // Blocks per epoch (the validator set changes at epoch boundaries)
   minStake: number;            // Minimum stake to be validator
+  votingPowerStrategy: string; // How stake becomes voting power (see VOTING_POWER_STRATEGIES)
+  attesters: string[];         // Addresses allowed to attest validator contributions
+  genesisValidators: GenesisValidator[]; // Validators the chain starts from (the same list on every node)
+}
+
+/**
+ * Validator of the network's genesis set: staked in the consensus state only, so the
+ * first blocks have producers; every other validator registers with a transaction
+ */
+export interface GenesisValidator {
+  address: string;
+  name: string;
+  stake: number;               // VIBE
 }
 
 export const DEFAULT_POV_CONFIG: PoVConfig = {
@@ -29,8 +59,11 @@ export const DEFAULT_POV_CONFIG: PoVConfig = {
   blockReward: 5,              // 5 VIBE per block (less than PoW, more sustainable)
   voterRewardShare: 10,        // 10% to voters
   maxValidators: 21,           // Top 21 validators
-  epochDuration: 24 * 60 * 60 * 1000, // 24 hours
-  minStake: 100                // 100 VIBE minimum
+  epochLength: 8640,           // 24 hours of 10 second blocks
+  minStake: 100,               // 100 VIBE minimum
+  votingPowerStrategy: DEFAULT_VOTING_CONFIG.powerStrategy,
+  attesters: [],               // Network attester keys; when empty, only governance proposals award contributions
+  genesisValidators: []
 };
 
 export interface BlockProposal {
@@ -40,11 +73,25 @@ export interface BlockProposal {
   vibeScore: number;
 }
 
+const ec = new EC('secp256k1');
+
+/**
+ * Request from a jailed validator to rejoin the active set, signed with its key
+ * Bound to the jailing height so it cannot be replayed after a later jailing
+ */
+export interface UnjailRequest {
+  validator: string;
+  jailedAt: number;
+  signature: string;
+}
+
 export interface ConsensusState {
   currentEpoch: number;
-  epochStartTime: number;
+  epochStartHeight: number;
+  epochValidators: string[];     // Validator set committed by the epoch's boundary block
+  lastBlockHeight: number;
   lastBlockTime: number;
-  activeValidators: string[];
+  activeValidators: string[];    // Epoch validators that are not jailed: the producer rotation
   currentProducerIndex: number;
   totalBlocksProduced: number;
 }
@@ -54,8 +101,13 @@ export class ProofOfVibe {
   private stakingManager: StakingManager;
   private votingManager: VotingManager;
   private validatorManager: ValidatorManager;
+  private rewardManager: RewardManager = new RewardManager();
+  private governanceManager: GovernanceManager;
+  private contributionManager: ContributionManager;
   private state: ConsensusState;
   private vibeScores: VibeScore[] = [];
+  private processedEvidence: Set<string> = new Set();   // Double signs already slashed
+  private slashLog: SlashRecord[] = [];                 // Slashes not yet burned from the world state
 
   constructor(config: Partial<PoVConfig> = {}) {
     this.config = { ...DEFAULT_POV_CONFIG, ...config };
@@ -63,18 +115,29 @@ export class ProofOfVibe {
     this.stakingManager = new StakingManager({
       minStakeAmount: this.config.minStake,
       maxValidators: this.config.maxValidators,
-      epochDuration: this.config.epochDuration
+      epochDuration: this.config.epochLength * this.config.blockTime
     });
 
     this.votingManager = new VotingManager({
-      epochDuration: this.config.epochDuration
+      epochLength: this.config.epochLength,
+      powerStrategy: this.config.votingPowerStrategy
     });
 
     this.validatorManager = new ValidatorManager(this.config.maxValidators);
 
+    this.governanceManager = new GovernanceManager({
+      getChamberMembers: chamber => this.getChamberMembers(chamber),
+      getAssemblyMembers: () => this.stakingManager.getStakeholders(),
+      getVotingPower: address => this.getVotingPower(address)
+    });
+
+    this.contributionManager = new ContributionManager();
+
     this.state = {
       currentEpoch: 0,
-      epochStartTime: Date.now(),
+      epochStartHeight: 0,
+      epochValidators: [],
+      lastBlockHeight: 0,
       lastBlockTime: Date.now(),
       activeValidators: [],
       currentProducerIndex: 0,
@@ -90,50 +153,70 @@ export class ProofOfVibe {
   registerValidator(
     address: string,
     name: string,
-    stakeAmount: number,
-    options: { website?: string; description?: string } = {}
+    stakeAmount: bigint,
+    options: { website?: string; description?: string; commission?: number } = {},
+    now: number = Date.now()
   ): { success: boolean; error?: string } {
-    // First, stake tokens
-    const stakeResult = this.stakingManager.stake(address, stakeAmount, true);
-    if (!stakeResult.success) {
-      return stakeResult;
+    // Check the registration first: locked stake cannot be rolled back
+    const registerCheck = this.validatorManager.canRegister(address, name, options.commission);
+    if (!registerCheck.success) {
+      return registerCheck;
     }
 
-    // Then register validator info
-    const registerResult = this.validatorManager.registerValidator(address, name, options);
-    if (!registerResult.success) {
-      // Rollback stake if registration fails
-      this.stakingManager.unstake(address, stakeAmount);
-      return registerResult;
+    // Then stake tokens and register validator info
+    const stakeResult = this.stakingManager.stake(address, stakeAmount, true, now);
+    if (!stakeResult.success) {
+      return stakeResult;
     }
+    this.validatorManager.registerValidator(address, name, options, now);
 
     console.log(`\n🎉 Welcome validator "${name}"!`);
-    console.log(`   Stake: ${stakeAmount} VIBE`);
+    console.log(`   Stake: ${formatVibe(stakeAmount)} VIBE`);
     console.log(`   Address: ${address.substring(0, 20)}...`);
 
     // Recalculate scores
+    this.refreshVotingPower(address);
     this.updateVibeScores();
 
     return { success: true };
   }
 
+  /**
+   * Register the genesis validators on a fresh state (before the first block)
+   * Their stake is not locked on chain, so it can never be withdrawn
+   */
+  registerGenesisValidators(): void {
+    for (const { address, name, stake } of this.config.genesisValidators) {
+      const result = this.registerValidator(address, name, toBaseUnits(stake), {}, 0);
+      if (!result.success) {
+        throw new Error(`Invalid genesis validator "${name}": ${result.error}`);
+      }
+    }
+  }
+
   /**
    * Add more stake
    */
-  addStake(address: string, amount: number): { success: boolean; error?: string } {
-    const result = this.stakingManager.stake(address, amount, false);
+  addStake(address: string, amount: bigint, now: number = Date.now()): { success: boolean; error?: string } {
+    const result = this.stakingManager.stake(address, amount, false, now);
     if (result.success) {
+      this.refreshVotingPower(address);
       this.updateVibeScores();
     }
     return result;
   }
 
   /**
-   * Remove stake (subject to lock period)
+   * Remove stake: the amount unbonds for the lock period before it can be withdrawn
    */
-  removeStake(address: string, amount: number): { success: boolean; error?: string; availableAt?: number } {
-    const result = this.stakingManager.unstake(address, amount);
+  removeStake(
+    address: string,
+    amount: bigint,
+    now: number = Date.now()
+  ): { success: boolean; error?: string; availableAt?: number } {
+    const result = this.stakingManager.unstake(address, amount, now);
     if (result.success) {
+      this.refreshVotingPower(address);
       this.updateVibeScores();
     }
     return result;
@@ -145,29 +228,185 @@ export class ProofOfVibe {
   delegate(
     fromAddress: string,
     toValidator: string,
-    amount: number
+    amount: bigint,
+    now: number = Date.now()
   ): { success: boolean; error?: string } {
     // Verify validator exists
     if (!this.validatorManager.getValidator(toValidator)) {
       return { success: false, error: 'Validator not found' };
     }
 
-    const result = this.stakingManager.delegate(fromAddress, toValidator, amount);
+    this.settleDelegation(fromAddress, toValidator);
+    const result = this.stakingManager.delegate(fromAddress, toValidator, amount, now);
     if (result.success) {
+      this.refreshVotingPower(fromAddress);
       this.updateVibeScores();
     }
     return result;
   }
 
+  /**
+   * Withdraw stake delegated to a validator: the amount unbonds like removed stake
+   */
+  undelegate(
+    fromAddress: string,
+    validator: string,
+    amount: bigint,
+    now: number = Date.now()
+  ): { success: boolean; error?: string; availableAt?: number } {
+    this.settleDelegation(fromAddress, validator);
+    const result = this.stakingManager.undelegate(fromAddress, validator, amount, now);
+    if (result.success) {
+      this.refreshVotingPower(fromAddress);
+      this.updateVibeScores();
+    }
+    return result;
+  }
+
+  /**
+   * Move delegated stake from one validator to another at once
+   */
+  redelegate(
+    fromAddress: string,
+    sourceValidator: string,
+    targetValidator: string,
+    amount: bigint,
+    now: number = Date.now()
+  ): { success: boolean; error?: string; availableAt?: number } {
+    if (!this.validatorManager.getValidator(targetValidator)) {
+      return { success: false, error: 'Validator not found' };
+    }
+
+    this.settleDelegation(fromAddress, sourceValidator);
+    this.settleDelegation(fromAddress, targetValidator);
+    const result = this.stakingManager.redelegate(fromAddress, sourceValidator, targetValidator, amount, now);
+    if (result.success) {
+      this.updateVibeScores();
+    }
+    return result;
+  }
+
+  /**
+   * Withdraw matured unbonding stake
+   */
+  withdraw(address: string, amount: bigint, now: number = Date.now()): { success: boolean; error?: string } {
+    return this.stakingManager.withdraw(address, amount, now);
+  }
+
+  /**
+   * Unbonding queue of an address at a time (now by default)
+   */
+  getUnbonding(address: string, now: number = Date.now()): {
+    entries: UnbondingEntry[];
+    total: bigint;
+    withdrawable: bigint;
+  } {
+    return {
+      entries: this.stakingManager.getUnbonding(address),
+      total: this.stakingManager.getTotalUnbonding(address),
+      withdrawable: this.stakingManager.getWithdrawable(address, now)
+    };
+  }
+
+  // ==================== REWARDS ====================
+
+  /**
+   * Stake an address delegates, per validator
+   */
+  private getDelegations(address: string): Array<{ validator: string; amount: bigint }> {
+    return this.stakingManager.getDelegations(address)
+      .map(({ validator, amount }) => ({ validator, amount }));
+  }
+
+  /**
+   * Collect the rewards a delegation earned so far, before its stake changes
+   */
+  private settleDelegation(delegator: string, validator: string): void {
+    const delegation = this.stakingManager.getDelegation(delegator, validator);
+    this.rewardManager.settle(delegator, validator, delegation?.amount || 0n);
+  }
+
+  /**
+   * Pay out accrued delegator and voter rewards
+   */
+  claimRewards(address: string, amount: bigint): { success: boolean; error?: string } {
+    for (const { validator } of this.getDelegations(address)) {
+      this.settleDelegation(address, validator);
+    }
+    return this.rewardManager.claim(address, amount);
+  }
+
+  /**
+   * Rewards of an address that can be claimed: settled ones plus those its delegations earned since
+   */
+  getClaimableRewards(address: string): {
+    total: bigint;
+    accrued: bigint;
+    delegations: Array<{ validator: string; amount: bigint; pending: bigint }>;
+  } {
+    const accrued = this.rewardManager.getAccrued(address);
+    const delegations = this.getDelegations(address).map(({ validator, amount }) => ({
+      validator,
+      amount,
+      pending: this.rewardManager.getPending(address, validator, amount)
+    }));
+
+    return {
+      total: delegations.reduce((sum, d) => sum + d.pending, accrued),
+      accrued,
+      delegations
+    };
+  }
+
+  /**
+   * Update a validator's description or commission
+   */
+  updateValidator(
+    address: string,
+    updates: { website?: string; description?: string; commission?: number }
+  ): { success: boolean; error?: string } {
+    return this.validatorManager.updateValidator(address, updates);
+  }
+
   // ==================== VOTING OPERATIONS ====================
 
   /**
-   * Vote for validators
+   * On-chain data behind an address's voting power: its staked and delegated VIBE
+   * (unbonding stake excluded) and, for validators, its contribution score
+   */
+  getVotingPowerInput(address: string): VotingPowerInput {
+    const ownStake = this.stakingManager.getStake(address)?.amount || 0n;
+    const delegated = this.stakingManager.getDelegations(address).reduce((sum, d) => sum + d.amount, 0n);
+
+    return {
+      stake: fromBaseUnits(ownStake + delegated),
+      contributionScore: this.validatorManager.getValidator(address)?.contributionScore || 0
+    };
+  }
+
+  /**
+   * Voting power of an address under the configured strategy
+   */
+  getVotingPower(address: string): number {
+    return this.votingManager.calculateVotingPower(this.getVotingPowerInput(address));
+  }
+
+  /**
+   * Re-weight an address's votes after its stake or contribution score changed
+   */
+  private refreshVotingPower(address: string): void {
+    this.votingManager.updateVotingPower(address, this.getVotingPowerInput(address));
+  }
+
+  /**
+   * Vote for validators with the voter's on-chain voting power
+   * @param weights Relative weight per validator (equal split when omitted)
    */
   vote(
     voterAddress: string,
-    voterBalance: number,
-    validators: string[]
+    validators: string[],
+    now: number = Date.now(),
+    weights?: number[]
   ): { success: boolean; error?: string } {
     // Verify all validators exist
     for (const v of validators) {
@@ -176,7 +415,7 @@ export class ProofOfVibe {
       }
     }
 
-    const result = this.votingManager.vote(voterAddress, voterBalance, validators);
+    const result = this.votingManager.vote(voterAddress, this.getVotingPowerInput(voterAddress), validators, now, weights);
     if (result.success) {
       this.updateVibeScores();
     }
@@ -194,6 +433,91 @@ export class ProofOfVibe {
     return result;
   }
 
+  // ==================== STAKING TRANSACTIONS ====================
+
+  /**
+   * Execute a staking transaction of a block at the block's timestamp and height
+   */
+  applyTransaction(tx: Transaction, at: number, height: number): { success: boolean; error?: string } {
+    switch (tx.type) {
+      case 'stake':
+        return this.addStake(tx.from, tx.amount, at);
+      case 'unstake':
+        return this.removeStake(tx.from, tx.amount, at);
+      case 'delegate':
+        return this.delegate(tx.from, tx.to, tx.amount, at);
+      case 'undelegate':
+        return this.undelegate(tx.from, tx.to, tx.amount, at);
+      case 'redelegate':
+        return this.redelegate(tx.from, tx.data, tx.to, tx.amount, at);
+      case 'withdraw':
+        return this.withdraw(tx.from, tx.amount, at);
+      case 'claimRewards':
+        return this.claimRewards(tx.from, tx.amount);
+      case 'vote': {
+        const ballot = decodeVote(tx.data);
+        if (!ballot) {
+          return { success: false, error: 'Vote data must be a JSON array of validator addresses or an object of weights' };
+        }
+        return this.vote(tx.from, ballot.validators, at, ballot.weights);
+      }
+      case 'registerValidator': {
+        const registration = decodeRegistration(tx.data);
+        if (!registration) {
+          return { success: false, error: 'Registration data must be JSON with a validator name' };
+        }
+        const { name, website, description, commission } = registration;
+        return this.registerValidator(tx.from, name, tx.amount, { website, description, commission }, at);
+      }
+      case 'updateValidator': {
+        const update = decodeValidatorUpdate(tx.data);
+        if (!update) {
+          return { success: false, error: 'Update data must be JSON with website, description or commission' };
+        }
+        return this.updateValidator(tx.from, update);
+      }
+      case 'submitProposal': {
+        const draft = decodeProposal(tx.data);
+        if (!draft) {
+          return { success: false, error: 'Proposal data must be JSON with a type and title' };
+        }
+        return this.governanceManager.submit(tx.from, draft, tx.amount, height);
+      }
+      case 'depositProposal': {
+        const id = decodeProposalId(tx.data);
+        if (id === null) {
+          return { success: false, error: 'Deposit data must be a proposal id' };
+        }
+        return this.governanceManager.deposit(tx.from, id, tx.amount, height);
+      }
+      case 'voteProposal': {
+        const vote = decodeProposalVote(tx.data);
+        if (!vote) {
+          return { success: false, error: 'Proposal vote data must be JSON { proposal, option }' };
+        }
+        return this.governanceManager.vote(tx.from, vote.proposal, vote.option, height);
+      }
+      case 'attestContribution': {
+        const award = decodeAttestation(tx.data);
+        if (!award) {
+          return { success: false, error: 'Attestation data must be JSON { validator, points, reason, reference }' };
+        }
+        return this.attestContribution(tx.from, award, height);
+      }
+      default:
+        return { success: false, error: `Not a staking transaction: ${tx.type}` };
+    }
+  }
+
+  /**
+   * Independent copy of the consensus state (dry runs of staking transactions)
+   */
+  clone(): ProofOfVibe {
+    const copy = new ProofOfVibe(this.config);
+    copy.importState(JSON.parse(JSON.stringify(this.exportState())));
+    return copy;
+  }
+
   // ==================== CONSENSUS OPERATIONS ====================
 
   /**
@@ -203,7 +527,7 @@ export class ProofOfVibe {
     // Build stake map
     const stakes = new Map<string, number>();
     for (const validator of this.validatorManager.getAllValidators()) {
-      stakes.set(validator.address, this.stakingManager.getEffectiveStake(validator.address));
+      stakes.set(validator.address, fromBaseUnits(this.stakingManager.getEffectiveStake(validator.address)));
     }
 
     // Build votes map
@@ -212,57 +536,209 @@ export class ProofOfVibe {
       votes.set(validator, voteCount);
     }
 
-    // Calculate scores
+    // Calculate scores (the active set only changes at epoch boundaries)
     this.vibeScores = this.validatorManager.calculateVibeScores(stakes, votes);
+  }
+
+  // ==================== GOVERNANCE ====================
 
-    // Select active validators
-    this.state.activeValidators = this.validatorManager.selectActiveValidators(this.vibeScores);
+  /**
+   * Council and Senate seats: the best ranked active validators
+   */
+  getChamberMembers(chamber: 'council' | 'senate'): string[] {
+    const active = new Set(this.state.activeValidators);
+    return this.vibeScores
+      .filter(score => active.has(score.address))
+      .slice(0, GOVERNANCE_CONFIG.CHAMBERS[chamber].seats)
+      .map(score => score.address);
   }
 
   /**
-   * Check if it's time for a new epoch
+   * End governance periods at a block height, after the block's transactions:
+   * refund deposits, apply parameter changes, pay treasury spends and award contributions that take effect
    */
-  checkEpochRotation(): boolean {
-    const rotated = this.votingManager.checkEpochRotation();
-    if (rotated) {
-      this.state.currentEpoch++;
-      this.state.epochStartTime = Date.now();
-      this.updateVibeScores();
-      console.log(`\n🔄 New epoch started: ${this.state.currentEpoch}`);
-      console.log(`   Active validators: ${this.state.activeValidators.length}`);
+  processGovernance(height: number, at: number): void {
+    const { refunds, parameterChanges, payouts, contributions } = this.governanceManager.processBlock(height);
+
+    for (const { address, amount } of refunds) {
+      this.stakingManager.queueRefund(address, amount, at);
+    }
+
+    for (const { parameter, value } of parameterChanges) {
+      this.setParameter(parameter, value);
+      console.log(`⚙️  Governance set ${parameter} to ${value}`);
+    }
+
+    for (const { recipient, amount } of payouts) {
+      this.rewardManager.credit(recipient, amount);
+      console.log(`💸 Treasury paid ${formatVibe(amount)} VIBE to ${recipient.substring(0, 16)}...`);
+    }
+
+    for (const { proposal, award } of contributions) {
+      const result = this.recordContribution(award, `proposal:${proposal}`, height);
+      if (!result.success) {
+        console.log(`⚠️  Contribution of proposal #${proposal} not awarded: ${result.error}`);
+      }
     }
-    return rotated;
   }
 
   /**
-   * Get current block producer
+   * Change a consensus parameter listed in GOVERNANCE_CONFIG.PARAMETERS
    */
-  getCurrentProducer(): string | null {
-    if (this.state.activeValidators.length === 0) {
+  private setParameter(parameter: string, value: number): void {
+    this.config = { ...this.config, [parameter]: value };
+    if (parameter === 'minStake') {
+      this.stakingManager.setMinStake(value);
+    }
+  }
+
+  // ==================== EPOCHS AND SLOTS ====================
+
+  /**
+   * Epoch of a block height
+   */
+  getEpoch(height: number): number {
+    return Math.floor(height / this.config.epochLength);
+  }
+
+  /**
+   * Whether the block at a height starts an epoch and commits its validator set
+   * Height 1 is a boundary too: the first PoV block elects the first set
+   */
+  isEpochBoundary(height: number): boolean {
+    return height === 1 || height % this.config.epochLength === 0;
+  }
+
+  /**
+   * Validator set a boundary block must commit: top VibeScores, jailed validators excluded
+   */
+  electValidatorSet(): string[] {
+    this.updateVibeScores();
+    return this.validatorManager.electValidators(this.vibeScores);
+  }
+
+  /**
+   * Validators scheduled for a block: the set it commits at an epoch boundary,
+   * otherwise the current epoch's rotation
+   */
+  getScheduledValidators(block: Block): string[] {
+    return this.isEpochBoundary(block.index) ? block.validatorSet : this.state.activeValidators;
+  }
+
+  /**
+   * Slot of a block within its height: 0 for the first producer in line, plus one
+   * for every block time the height was left empty after the first
+   */
+  getSlotOffset(parentTimestamp: number, at: number): number {
+    return Math.max(Math.floor((at - parentTimestamp) / this.config.blockTime) - 1, 0);
+  }
+
+  /**
+   * Time between the start of the slot a block was produced in and the block:
+   * slot 0 opens one block time after the parent, each following slot a block time later
+   */
+  getSlotLatency(parentTimestamp: number, at: number): number {
+    const scheduled = parentTimestamp + (this.getSlotOffset(parentTimestamp, at) + 1) * this.config.blockTime;
+    return Math.max(at - scheduled, 0);
+  }
+
+  /**
+   * Producer of a height at a time, derived only from chain data
+   * The rotation advances by height, and to the next validator when a slot is skipped
+   */
+  getProducer(
+    height: number,
+    parentTimestamp: number,
+    at: number,
+    validators: string[] = this.state.activeValidators
+  ): string | null {
+    if (validators.length === 0) {
       return null;
     }
 
-    const slotDuration = this.config.blockTime;
-    const timeSinceEpoch = Date.now() - this.state.epochStartTime;
-    const currentSlot = Math.floor(timeSinceEpoch / slotDuration);
-    const producerIndex = currentSlot % this.state.activeValidators.length;
+    const slot = height + this.getSlotOffset(parentTimestamp, at);
+    return validators[slot % validators.length];
+  }
 
-    return this.state.activeValidators[producerIndex];
+  /**
+   * Get the producer of the block following the last processed block at a time (now by default)
+   */
+  getCurrentProducer(at: number = Date.now()): string | null {
+    const height = this.state.lastBlockHeight + 1;
+    const validators = this.isEpochBoundary(height) ? this.electValidatorSet() : this.state.activeValidators;
+    return this.getProducer(height, this.state.lastBlockTime, at, validators);
+  }
+
+  /**
+   * Start the epoch of a boundary block with the validator set it commits
+   */
+  startEpoch(block: Block): void {
+    this.state.currentEpoch = this.getEpoch(block.index);
+    this.state.epochStartHeight = block.index;
+    this.state.epochValidators = [...block.validatorSet];
+    this.votingManager.checkEpochRotation(block.index);
+    this.refreshActiveValidators();
+    this.validatorManager.setActiveValidators(this.state.activeValidators);
+    this.refreshContributionScores(this.state.currentEpoch);
+
+    console.log(`\n🔄 Epoch ${this.state.currentEpoch} started at height ${block.index}`);
+    console.log(`   Active validators: ${this.state.activeValidators.length}`);
+  }
+
+  /**
+   * Producer rotation: the epoch's validators that are not jailed, in committed order
+   */
+  private refreshActiveValidators(): void {
+    this.state.activeValidators = this.state.epochValidators
+      .filter(address => !this.validatorManager.isJailed(address));
   }
 
   /**
    * Check if an address can produce the next block
    */
-  canProduceBlock(address: string): boolean {
-    return this.getCurrentProducer() === address;
+  canProduceBlock(address: string, at: number = Date.now()): boolean {
+    return this.getCurrentProducer(at) === address;
   }
 
   /**
-   * Validate a proposed block
+   * Validate a proposed block extending previousBlock
+   * Epoch, validator set and slot come from heights and block timestamps, so every node
+   * reaches the same verdict and synced blocks validate like fresh ones
+   * The timestamp may run at most one block time ahead of our clock: a producer cannot
+   * stamp its block into a later slot of its own and get the validators in between slashed
    */
-  validateBlock(block: Block, proposer: string): { valid: boolean; error?: string } {
-    // Check proposer is the expected producer
-    const expectedProducer = this.getCurrentProducer();
+  validateBlock(
+    block: Block,
+    proposer: string,
+    previousBlock: Block,
+    now: number = Date.now()
+  ): { valid: boolean; error?: string } {
+    if (block.timestamp > now + this.config.blockTime) {
+      return { valid: false, error: 'Block timestamp is more than one block time in the future' };
+    }
+
+    if (block.epoch !== this.getEpoch(block.index)) {
+      return { valid: false, error: `Wrong epoch ${block.epoch}, expected ${this.getEpoch(block.index)}` };
+    }
+
+    // Boundary blocks commit the elected validator set, other blocks carry none
+    if (this.isEpochBoundary(block.index)) {
+      const elected = this.electValidatorSet();
+      if (block.validatorSet.length !== elected.length ||
+          block.validatorSet.some((address, i) => address !== elected[i])) {
+        return { valid: false, error: `Validator set of epoch ${block.epoch} does not match the election` };
+      }
+    } else if (block.validatorSet.length > 0) {
+      return { valid: false, error: 'Validator set outside an epoch boundary' };
+    }
+
+    // Check proposer is the expected producer of the slot of its (bounded) timestamp
+    const expectedProducer = this.getProducer(
+      block.index,
+      previousBlock.timestamp,
+      block.timestamp,
+      this.getScheduledValidators(block)
+    );
     if (proposer !== expectedProducer) {
       return {
         valid: false,
@@ -271,7 +747,7 @@ export class ProofOfVibe {
     }
 
     // Check block timing
-    const timeSinceLastBlock = Date.now() - this.state.lastBlockTime;
+    const timeSinceLastBlock = block.timestamp - previousBlock.timestamp;
     if (timeSinceLastBlock < this.config.blockTime * 0.9) {
       return {
         valid: false,
@@ -288,60 +764,283 @@ export class ProofOfVibe {
   }
 
   /**
-   * Process a validated block
+   * Rewards owed for a block by a proposer: the validator's share, paid in the block,
+   * and the delegator and voter shares, which accrue until claimed
+   * The staking share (block reward minus the voter pool) pays the validator's commission,
+   * then is split between its own stake and its delegators pro rata
+   * Pure: block producers and peers compute it on the state before the block
    */
-  processBlock(block: Block, proposer: string): { reward: number; voterRewards: Map<string, number> } {
-    // Record block production
-    this.validatorManager.recordBlockProduced(proposer, this.config.blockReward);
-
-    // Calculate rewards
-    const validatorReward = this.config.blockReward * (1 - this.config.voterRewardShare / 100);
-    const voterPool = this.config.blockReward * (this.config.voterRewardShare / 100);
-
-    // Distribute voter rewards
-    const voterRewards = new Map<string, number>();
-    const voters = this.votingManager.getValidatorVoters(proposer);
-    const totalVotes = voters.reduce((sum, v) => sum + v.weight, 0);
-
-    if (totalVotes > 0) {
+  calculateRewards(proposer: string): {
+    reward: bigint;
+    delegatorReward: bigint;
+    voterRewards: Map<string, bigint>;
+  } {
+    // Calculate rewards in base units
+    const blockReward = toBaseUnits(this.config.blockReward);
+    const voterPool = percentOf(blockReward, this.config.voterRewardShare);
+    const stakingReward = blockReward - voterPool;
+
+    const commission = percentOf(stakingReward, this.validatorManager.getValidator(proposer)?.commission ?? 0);
+    const ownStake = this.stakingManager.getStake(proposer)?.amount || 0n;
+    const delegated = this.stakingManager.getTotalDelegated(proposer);
+    const delegatorReward = delegated > 0n
+      ? ((stakingReward - commission) * delegated) / (ownStake + delegated)
+      : 0n;
+    let validatorReward = stakingReward - delegatorReward;
+
+    // Distribute voter rewards (vote weights scaled to integers)
+    const voterRewards = new Map<string, bigint>();
+    const voters = this.votingManager.getValidatorVoters(proposer)
+      .map(({ voter, weight }) => ({ voter, weight: toBaseUnits(weight.toFixed(8)) }));
+    const totalVotes = voters.reduce((sum, v) => sum + v.weight, 0n);
+
+    if (totalVotes > 0n) {
+      let distributed = 0n;
       for (const { voter, weight } of voters) {
-        const share = (weight / totalVotes) * voterPool;
+        const share = (voterPool * weight) / totalVotes;
         voterRewards.set(voter, share);
+        distributed += share;
       }
+      // Rounding dust goes to the producer
+      validatorReward += voterPool - distributed;
+    }
+
+    return { reward: validatorReward, delegatorReward, voterRewards };
+  }
+
+  /**
+   * Accrue the delegator and voter shares of a block's rewards
+   * Call when the block is connected, before it changes any stake or vote
+   */
+  distributeRewards(proposer: string): void {
+    const { delegatorReward, voterRewards } = this.calculateRewards(proposer);
+
+    this.rewardManager.addDelegatorRewards(proposer, delegatorReward, this.stakingManager.getTotalDelegated(proposer));
+    for (const [voter, amount] of voterRewards) {
+      this.rewardManager.credit(voter, amount);
     }
+  }
+
+  /**
+   * Process a validated block
+   * With its parent, the block's latency against its scheduled slot is recorded too
+   */
+  processBlock(block: Block, proposer: string, previousBlock?: Block): void {
+    // Record block production
+    const latency = previousBlock ? this.getSlotLatency(previousBlock.timestamp, block.timestamp) : 0;
+    this.validatorManager.recordBlockProduced(proposer, this.config.blockReward, block.timestamp, latency);
 
     // Update state
-    this.state.lastBlockTime = Date.now();
+    this.state.lastBlockHeight = block.index;
+    this.state.lastBlockTime = block.timestamp;
     this.state.totalBlocksProduced++;
+  }
+
+  /**
+   * Find the producers whose slots were skipped before a block (the ones in line
+   * ahead of its producer) and record their misses. Returns missed slots per validator.
+   * Call after the block's epoch has started.
+   */
+  recordMissedSlots(previousBlock: Block, block: Block): Map<string, number> {
+    const missed = new Map<string, number>();
+    const active = [...this.state.activeValidators];
+    if (active.length === 0) return missed;
+
+    const skipped = this.getSlotOffset(previousBlock.timestamp, block.timestamp);
+    if (skipped === 0) return missed;
+
+    // Slot s of this height belongs to active[(height + s) % n]: count each validator's share of the gap
+    const n = active.length;
+    for (let offset = 0; offset < Math.min(skipped, n); offset++) {
+      const count = Math.floor((skipped - offset - 1) / n) + 1;
+      missed.set(active[(block.index + offset) % n], count);
+    }
 
-    return { reward: validatorReward, voterRewards };
+    for (const [address, count] of missed) {
+      this.handleMissedBlock(address, count, block.index, block.timestamp);
+    }
+
+    return missed;
   }
 
   /**
-   * Handle missed block
+   * Handle missed block slots: record them, slash, and jail validators that keep missing
    */
-  handleMissedBlock(expectedProducer: string): void {
-    this.validatorManager.recordBlockMissed(expectedProducer);
-    this.stakingManager.slash(expectedProducer, 'missedBlock');
+  handleMissedBlock(
+    expectedProducer: string,
+    missedSlots: number = 1,
+    height: number = 0,
+    at: number = Date.now()
+  ): void {
+    this.validatorManager.recordBlockMissed(expectedProducer, missedSlots, at);
+    this.slash(expectedProducer, 'missedBlock', 1, at);
+    this.refreshVotingPower(expectedProducer);
 
     // Move to next producer
     const index = this.state.activeValidators.indexOf(expectedProducer);
     if (index >= 0) {
       this.state.currentProducerIndex = (index + 1) % this.state.activeValidators.length;
     }
+
+    const validator = this.validatorManager.getValidator(expectedProducer);
+    if (!validator || validator.jailed || validator.consecutiveMissed < JAIL_CONFIG.MISSED_SLOTS_TO_JAIL) {
+      return;
+    }
+
+    // Never jail the last active validator - the chain would stop
+    if (this.state.activeValidators.filter(address => address !== expectedProducer).length === 0) {
+      return;
+    }
+
+    const hoursInactive = Math.max(
+      Math.ceil((validator.consecutiveMissed * this.config.blockTime) / (60 * 60 * 1000)),
+      1
+    );
+    this.slash(expectedProducer, 'inactivity', hoursInactive, at);
+    this.refreshVotingPower(expectedProducer);
+    this.validatorManager.jailValidator(expectedProducer, height);
+    this.refreshActiveValidators();
+    this.updateVibeScores();
+  }
+
+  /**
+   * Slash a validator's stake and log the amount for the world state
+   */
+  private slash(address: string, reason: 'missedBlock' | 'doubleSign' | 'inactivity', hours: number, at: number): bigint {
+    const amount = this.stakingManager.slash(address, reason, hours, at);
+    if (amount > 0n) {
+      this.slashLog.push({ address, amount });
+    }
+    return amount;
+  }
+
+  /**
+   * Slashes since the last call, to burn them from the world state with their block
+   */
+  takeSlashes(): SlashRecord[] {
+    const slashes = this.slashLog;
+    this.slashLog = [];
+    return slashes;
+  }
+
+  /**
+   * Hash signed by a validator to leave jail
+   */
+  static getUnjailHash(validator: string, jailedAt: number): string {
+    return crypto.createHash('sha256').update(`UNJAIL:${validator}:${jailedAt}`).digest('hex');
+  }
+
+  /**
+   * Check an unjail request against the validator's current jail status at a height
+   */
+  verifyUnjailRequest(request: UnjailRequest, height: number): { valid: boolean; error?: string } {
+    const validator = request && this.validatorManager.getValidator(request.validator);
+    if (!validator) {
+      return { valid: false, error: 'Validator not found' };
+    }
+    if (!validator.jailed || validator.jailedAt !== request.jailedAt) {
+      return { valid: false, error: 'Validator is not jailed at that height' };
+    }
+
+    const releaseHeight = validator.jailedAt + JAIL_CONFIG.COOLDOWN_BLOCKS;
+    if (height < releaseHeight) {
+      return { valid: false, error: `Jail cooldown ends at height ${releaseHeight}` };
+    }
+
+    try {
+      const key = ec.keyFromPublic(request.validator, 'hex');
+      if (!key.verify(ProofOfVibe.getUnjailHash(request.validator, request.jailedAt), request.signature)) {
+        return { valid: false, error: 'Invalid unjail signature' };
+      }
+    } catch {
+      return { valid: false, error: 'Invalid unjail signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Apply an unjail request included in a block at a height
+   */
+  unjail(request: UnjailRequest, height: number): { success: boolean; error?: string } {
+    const verification = this.verifyUnjailRequest(request, height);
+    if (!verification.valid) {
+      return { success: false, error: verification.error };
+    }
+
+    // A validator jailed during its epoch rejoins the rotation at once, others at the next election
+    const result = this.validatorManager.unjailValidator(request.validator, height);
+    if (result.success) {
+      this.refreshActiveValidators();
+      this.validatorManager.setActiveValidators(this.state.activeValidators);
+      this.updateVibeScores();
+    }
+    return result;
+  }
+
+  /**
+   * Slash a validator for double-sign evidence included in a block
+   * Each offence (validator and height) is slashed once; returns the amount slashed
+   */
+  applyDoubleSignEvidence(evidence: DoubleSignEvidence, at: number = Date.now()): bigint {
+    const id = EvidencePool.getEvidenceId(evidence);
+    if (this.processedEvidence.has(id)) {
+      return 0n;
+    }
+    this.processedEvidence.add(id);
+
+    const slashed = this.slash(evidence.validator, 'doubleSign', 1, at);
+    this.refreshVotingPower(evidence.validator);
+    this.updateVibeScores();
+
+    console.log(`⚖️  Validator ${evidence.validator.substring(0, 16)}... slashed ${formatVibe(slashed)} VIBE for double signing at height ${evidence.height}`);
+    return slashed;
+  }
+
+  /**
+   * Check if double-sign evidence was already applied on-chain
+   */
+  hasProcessedEvidence(id: string): boolean {
+    return this.processedEvidence.has(id);
   }
 
   // ==================== CONTRIBUTION SYSTEM ====================
 
   /**
-   * Award contribution points to a validator
+   * Record an award signed by an authorized attester (attestContribution transaction)
    */
-  awardContribution(
-    validatorAddress: string,
-    points: number,
-    reason: string
-  ): void {
-    this.validatorManager.addContributionScore(validatorAddress, points, reason);
+  attestContribution(attester: string, award: ContributionAward, height: number): { success: boolean; error?: string } {
+    if (!this.config.attesters.includes(attester)) {
+      return { success: false, error: 'Sender is not an authorized contribution attester' };
+    }
+    return this.recordContribution(award, attester, height);
+  }
+
+  /**
+   * Record an award (attestation or passed contribution proposal) and rescore its validator
+   */
+  private recordContribution(award: ContributionAward, source: string, height: number): { success: boolean; error?: string } {
+    if (!this.validatorManager.getValidator(award.validator)) {
+      return { success: false, error: 'Validator not registered' };
+    }
+
+    const result = this.contributionManager.record(award, source, height, this.getEpoch(height));
+    if (result.success) {
+      this.refreshContributionScores(this.getEpoch(height), award.validator);
+    }
+    return result;
+  }
+
+  /**
+   * Rebuild contribution scores from the recorded awards at an epoch (all validators, or one)
+   * Scores decay as epochs pass, so every epoch start rescores all validators
+   */
+  private refreshContributionScores(epoch: number, validator?: string): void {
+    const addresses = validator ? [validator] : this.validatorManager.getAllValidators().map(info => info.address);
+    for (const address of addresses) {
+      this.validatorManager.setContributionScore(address, this.contributionManager.getScore(address, epoch));
+      this.refreshVotingPower(address);
+    }
     this.updateVibeScores();
   }
 
@@ -352,15 +1051,15 @@ export class ProofOfVibe {
    */
   getValidatorInfo(address: string): {
     info: ValidatorInfo;
-    stake: number;
-    delegated: number;
+    stake: bigint;
+    delegated: bigint;
     votes: number;
     vibeScore: VibeScore;
   } | null {
     const info = this.validatorManager.getValidator(address);
     if (!info) return null;
 
-    const stake = this.stakingManager.getStake(address)?.amount || 0;
+    const stake = this.stakingManager.getStake(address)?.amount || 0n;
     const delegated = this.stakingManager.getTotalDelegated(address);
     const votes = this.votingManager.getValidatorVotes(address);
     const vibeScore = this.vibeScores.find(s => s.address === address) || {
@@ -380,7 +1079,7 @@ export class ProofOfVibe {
    */
   getAllValidatorsWithScores(): Array<{
     info: ValidatorInfo;
-    stake: number;
+    stake: bigint;
     votes: number;
     vibeScore: VibeScore;
   }> {
@@ -420,7 +1119,9 @@ export class ProofOfVibe {
       },
       staking: this.stakingManager.getStats(),
       voting: this.votingManager.getStats(),
-      validators: this.validatorManager.getStats()
+      validators: this.validatorManager.getStats(),
+      governance: this.governanceManager.getStats(),
+      contributions: this.contributionManager.getStats()
     };
   }
 
@@ -429,18 +1130,30 @@ export class ProofOfVibe {
    */
   getEpochInfo(): {
     epoch: number;
-    startTime: number;
-    endTime: number;
-    remainingTime: number;
+    startHeight: number;
+    endHeight: number;
+    remainingBlocks: number;
     activeValidators: number;
+    validators: string[];
   } {
-    const epochInfo = this.votingManager.getEpochInfo();
+    const nextBoundary = (this.state.currentEpoch + 1) * this.config.epochLength;
     return {
-      ...epochInfo,
-      activeValidators: this.state.activeValidators.length
+      epoch: this.state.currentEpoch,
+      startHeight: this.state.epochStartHeight,
+      endHeight: nextBoundary - 1,
+      remainingBlocks: Math.max(nextBoundary - this.state.lastBlockHeight - 1, 0),
+      activeValidators: this.state.activeValidators.length,
+      validators: [...this.state.epochValidators]
     };
   }
 
+  /**
+   * Current producer rotation (epoch validators that are not jailed)
+   */
+  getActiveValidators(): string[] {
+    return [...this.state.activeValidators];
+  }
+
   // ==================== PERSISTENCE ====================
 
   /**
@@ -451,9 +1164,16 @@ export class ProofOfVibe {
       config: this.config,
       state: this.state,
       stakes: this.stakingManager.exportStakes(),
+      delegations: this.stakingManager.exportDelegations(),
+      unbonding: this.stakingManager.exportUnbonding(),
+      rewards: this.rewardManager.exportRewards(),
+      governance: this.governanceManager.exportGovernance(),
+      contributions: this.contributionManager.exportContributions(),
       votes: this.votingManager.exportVotes(),
       validators: this.validatorManager.exportValidators(),
-      vibeScores: this.vibeScores
+      performance: this.validatorManager.exportPerformance(),
+      vibeScores: this.vibeScores,
+      processedEvidence: Array.from(this.processedEvidence)
     };
   }
 
@@ -463,16 +1183,40 @@ export class ProofOfVibe {
   importState(data: any): void {
     if (data.config) {
       this.config = { ...DEFAULT_POV_CONFIG, ...data.config };
+      this.stakingManager.setMinStake(this.config.minStake);
     }
 
     if (data.state) {
-      this.state = data.state;
+      this.state = { ...this.state, ...data.state };
+      if (!data.state.epochValidators) {
+        this.state.epochValidators = [...this.state.activeValidators];
+      }
     }
 
     if (data.stakes) {
       this.stakingManager.importStakes(data.stakes);
     }
 
+    if (data.delegations) {
+      this.stakingManager.importDelegations(data.delegations);
+    }
+
+    if (data.unbonding) {
+      this.stakingManager.importUnbonding(data.unbonding);
+    }
+
+    if (data.rewards) {
+      this.rewardManager.importRewards(data.rewards);
+    }
+
+    if (data.governance) {
+      this.governanceManager.importGovernance(data.governance);
+    }
+
+    if (data.contributions) {
+      this.contributionManager.importContributions(data.contributions);
+    }
+
     if (data.votes) {
       this.votingManager.importVotes(data.votes);
     }
@@ -481,9 +1225,17 @@ export class ProofOfVibe {
       this.validatorManager.importValidators(data.validators);
     }
 
+    if (data.performance) {
+      this.validatorManager.importPerformance(data.performance);
+    }
+
     if (data.vibeScores) {
       this.vibeScores = data.vibeScores;
     }
+
+    if (data.processedEvidence) {
+      this.processedEvidence = new Set(data.processedEvidence);
+    }
   }
 
   // ==================== ACCESS TO MANAGERS ====================
@@ -500,6 +1252,14 @@ export class ProofOfVibe {
     return this.validatorManager;
   }
 
+  getGovernanceManager(): GovernanceManager {
+    return this.governanceManager;
+  }
+
+  getContributionManager(): ContributionManager {
+    return this.contributionManager;
+  }
+
   getConfig(): PoVConfig {
     return { ...this.config };
   }
@@ -0,0 +1,122 @@
+/**
+ * VibeCoin Reward Accounting - Delegator and voter rewards of Proof of Vibe
+ *
+ * The producer is paid at once by the reward transaction of its block: its
+ * commission plus the share earned by its own stake. Delegator and voter
+ * shares are not paid in the block; they accrue here and are paid out by
+ * claimRewards transactions.
+ *
+ * Delegator rewards accrue lazily: each block adds the delegators' share per
+ * delegated base unit to the validator's reward index, and a delegation
+ * collects stake * (index - index at its last settlement) when it changes or
+ * is claimed. No block ever iterates over delegators.
+ */
+import { formatVibe } from '../core/Units';
+
+export const REWARD_CONFIG = {
+  INDEX_PRECISION: 10n ** 18n    // Reward indexes are scaled by this factor
+};
+
+export class RewardManager {
+  private rewardIndex: Map<string, bigint> = new Map();    // validator -> reward per delegated base unit (scaled)
+  private settledIndex: Map<string, bigint> = new Map();   // delegator:validator -> index at last settlement
+  private accrued: Map<string, bigint> = new Map();        // address -> settled, unclaimed rewards
+
+  private static delegationKey(delegator: string, validator: string): string {
+    return `${delegator}:${validator}`;
+  }
+
+  /**
+   * Share a validator's delegator reward among its delegated stake
+   */
+  addDelegatorRewards(validator: string, amount: bigint, totalDelegated: bigint): void {
+    if (amount <= 0n || totalDelegated <= 0n) return;
+
+    const index = this.rewardIndex.get(validator) || 0n;
+    this.rewardIndex.set(validator, index + (amount * REWARD_CONFIG.INDEX_PRECISION) / totalDelegated);
+  }
+
+  /**
+   * Rewards earned by a delegation since its last settlement
+   */
+  getPending(delegator: string, validator: string, stake: bigint): bigint {
+    const index = this.rewardIndex.get(validator) || 0n;
+    const settled = this.settledIndex.get(RewardManager.delegationKey(delegator, validator)) ?? index;
+    return (stake * (index - settled)) / REWARD_CONFIG.INDEX_PRECISION;
+  }
+
+  /**
+   * Move a delegation's pending rewards to its accrued balance
+   * Call before the delegated stake changes
+   */
+  settle(delegator: string, validator: string, stake: bigint): void {
+    this.credit(delegator, this.getPending(delegator, validator, stake));
+    this.settledIndex.set(RewardManager.delegationKey(delegator, validator), this.rewardIndex.get(validator) || 0n);
+  }
+
+  /**
+   * Credit rewards to an address (voter rewards, settled delegations)
+   */
+  credit(address: string, amount: bigint): void {
+    if (amount <= 0n) return;
+    this.accrued.set(address, (this.accrued.get(address) || 0n) + amount);
+  }
+
+  /**
+   * Settled rewards of an address that can be claimed
+   */
+  getAccrued(address: string): bigint {
+    return this.accrued.get(address) || 0n;
+  }
+
+  /**
+   * Pay out an amount of accrued rewards
+   */
+  claim(address: string, amount: bigint): { success: boolean; error?: string } {
+    const accrued = this.getAccrued(address);
+    if (amount <= 0n || amount > accrued) {
+      return { success: false, error: `Claimable rewards: ${formatVibe(accrued)} VIBE` };
+    }
+
+    if (amount === accrued) {
+      this.accrued.delete(address);
+    } else {
+      this.accrued.set(address, accrued - amount);
+    }
+    return { success: true };
+  }
+
+  /**
+   * Export reward accounting for persistence (amounts as base-unit strings)
+   */
+  exportRewards(): {
+    rewardIndex: Array<[string, string]>;
+    settledIndex: Array<[string, string]>;
+    accrued: Array<[string, string]>;
+  } {
+    const toEntries = (map: Map<string, bigint>): Array<[string, string]> =>
+      Array.from(map.entries()).map(([key, value]) => [key, value.toString()]);
+
+    return {
+      rewardIndex: toEntries(this.rewardIndex),
+      settledIndex: toEntries(this.settledIndex),
+      accrued: toEntries(this.accrued)
+    };
+  }
+
+  /**
+   * Import reward accounting from persistence
+   */
+  importRewards(data: {
+    rewardIndex?: Array<[string, string]>;
+    settledIndex?: Array<[string, string]>;
+    accrued?: Array<[string, string]>;
+  }): void {
+    const toMap = (entries: Array<[string, string]> = []) =>
+      new Map(entries.map(([key, value]): [string, bigint] => [key, BigInt(value)]));
+
+    this.rewardIndex = toMap(data.rewardIndex);
+    this.settledIndex = toMap(data.settledIndex);
+    this.accrued = toMap(data.accrued);
+  }
+}
@@ -1,21 +1,49 @@
 /**
  * VibeCoin Staking System
  * Manages stake deposits, withdrawals, and stake-based calculations
+ * Stake amounts are integer base units; config thresholds are in VIBE
+ * Operations take the time they happen at (the block timestamp when executed from the chain)
+ *
+ * Delegations are kept per (delegator, validator) pair: an address can back
+ * several validators, release part of a delegation, or move it to another
+ * validator at once (redelegation). Stake that arrived by redelegation cannot
+ * hop again before a cooldown.
+ *
+ * Unstaked and undelegated amounts are not released at once: they enter an
+ * unbonding queue, mature after the lock period, stay slashable until then and
+ * are withdrawn once mature.
  */
 
+import { toBaseUnits, fromBaseUnits, formatVibe, percentOf } from '../core/Units';
+
 export interface StakeInfo {
   address: string;
-  amount: number;
+  amount: bigint;
   stakedAt: number;
-  lockedUntil: number;
   isValidator: boolean;
-  delegatedTo?: string;
+}
+
+export interface Delegation {
+  delegator: string;
+  validator: string;
+  amount: bigint;
+  delegatedAt: number;
+  redelegationLockedUntil: number;   // Set when stake is redelegated in: the pair cannot redelegate out before
+}
+
+export interface UnbondingEntry {
+  address: string;
+  validator: string;             // Validator the stake backed (the address itself for own stake, GOVERNANCE for a refunded deposit)
+  amount: bigint;
+  startedAt: number;
+  maturesAt: number;
 }
 
 export interface StakingConfig {
   minStakeAmount: number;        // Minimum to become validator candidate
   minDelegateAmount: number;     // Minimum to delegate
-  lockPeriod: number;            // Lock period in ms (for unstaking)
+  lockPeriod: number;            // Unbonding period in ms
+  redelegationCooldown: number;  // Time in ms before redelegated stake can be redelegated again
   maxValidators: number;         // Maximum active validators
   epochDuration: number;         // Duration of an epoch in ms
   slashingRates: {
@@ -28,7 +56,8 @@ export interface StakingConfig {
 export const DEFAULT_STAKING_CONFIG: StakingConfig = {
   minStakeAmount: 100,           // 100 VIBE to become validator
   minDelegateAmount: 1,          // 1 VIBE to delegate
-  lockPeriod: 7 * 24 * 60 * 60 * 1000, // 7 days lock
+  lockPeriod: 7 * 24 * 60 * 60 * 1000, // 7 days unbonding
+  redelegationCooldown: 7 * 24 * 60 * 60 * 1000, // 7 days between hops
   maxValidators: 21,             // Top 21 validators
   epochDuration: 24 * 60 * 60 * 1000,  // 24 hours per epoch
   slashingRates: {
@@ -40,8 +69,10 @@ export const DEFAULT_STAKING_CONFIG: StakingConfig = {
 
 export class StakingManager {
   private stakes: Map<string, StakeInfo> = new Map();
+  private delegations: Map<string, Delegation> = new Map();       // delegator:validator -> delegation
+  private unbonding: Map<string, UnbondingEntry[]> = new Map();   // address -> entries, oldest first
   private config: StakingConfig;
-  private totalStaked: number = 0;
+  private totalStaked: bigint = 0n;
 
   constructor(config: Partial<StakingConfig> = {}) {
     this.config = { ...DEFAULT_STAKING_CONFIG, ...config };
@@ -50,15 +81,22 @@ export class StakingManager {
   /**
    * Stake tokens to become a validator candidate
    */
-  stake(address: string, amount: number, isValidator: boolean = false): { success: boolean; error?: string } {
-    if (amount < this.config.minStakeAmount && isValidator) {
+  stake(
+    address: string,
+    amount: bigint,
+    isValidator: boolean = false,
+    now: number = Date.now()
+  ): { success: boolean; error?: string } {
+    const minStake = toBaseUnits(this.config.minStakeAmount);
+
+    if (amount < minStake && isValidator) {
       return {
         success: false,
         error: `Minimum stake for validator is ${this.config.minStakeAmount} VIBE`
       };
     }
 
-    if (amount < this.config.minDelegateAmount) {
+    if (amount < toBaseUnits(this.config.minDelegateAmount)) {
       return {
         success: false,
         error: `Minimum stake is ${this.config.minDelegateAmount} VIBE`
@@ -66,13 +104,10 @@ export class StakingManager {
     }
 
     const existing = this.stakes.get(address);
-    const now = Date.now();
-
     if (existing) {
       // Add to existing stake
       existing.amount += amount;
-      existing.lockedUntil = now + this.config.lockPeriod;
-      if (isValidator && existing.amount >= this.config.minStakeAmount) {
+      if (isValidator && existing.amount >= minStake) {
         existing.isValidator = true;
       }
     } else {
@@ -81,8 +116,7 @@ export class StakingManager {
         address,
         amount,
         stakedAt: now,
-        lockedUntil: now + this.config.lockPeriod,
-        isValidator: isValidator && amount >= this.config.minStakeAmount
+        isValidator: isValidator && amount >= minStake
       });
     }
 
@@ -91,103 +125,321 @@ export class StakingManager {
   }
 
   /**
-   * Request to unstake tokens (subject to lock period)
+   * Unstake tokens: the amount starts unbonding and can be withdrawn once mature
    */
-  unstake(address: string, amount: number): { success: boolean; error?: string; availableAt?: number } {
+  unstake(
+    address: string,
+    amount: bigint,
+    now: number = Date.now()
+  ): { success: boolean; error?: string; availableAt?: number } {
     const stake = this.stakes.get(address);
 
     if (!stake) {
       return { success: false, error: 'No stake found for this address' };
     }
 
+    if (amount <= 0n) {
+      return { success: false, error: 'Amount must be positive' };
+    }
+
     if (amount > stake.amount) {
-      return { success: false, error: `Insufficient stake. You have ${stake.amount} VIBE staked` };
+      return { success: false, error: `Insufficient stake. You have ${formatVibe(stake.amount)} VIBE staked` };
+    }
+
+    stake.amount -= amount;
+    if (stake.amount < toBaseUnits(this.config.minStakeAmount)) {
+      stake.isValidator = false;
+    }
+    if (stake.amount === 0n) {
+      this.stakes.delete(address);
     }
 
-    const now = Date.now();
+    const entry = this.startUnbonding(address, address, amount, now);
+    return { success: true, availableAt: entry.maturesAt };
+  }
+
+  /**
+   * Withdraw part or all of a delegation: the amount starts unbonding
+   */
+  undelegate(
+    fromAddress: string,
+    validator: string,
+    amount: bigint,
+    now: number = Date.now()
+  ): { success: boolean; error?: string; availableAt?: number } {
+    const delegation = this.delegations.get(StakingManager.delegationKey(fromAddress, validator));
+
+    if (!delegation) {
+      return { success: false, error: 'No delegation to this validator' };
+    }
+
+    if (amount <= 0n) {
+      return { success: false, error: 'Amount must be positive' };
+    }
+
+    if (amount > delegation.amount) {
+      return { success: false, error: `Insufficient delegation. You delegate ${formatVibe(delegation.amount)} VIBE to this validator` };
+    }
+
+    this.reduceDelegation(delegation, amount);
+
+    const entry = this.startUnbonding(fromAddress, validator, amount, now);
+    return { success: true, availableAt: entry.maturesAt };
+  }
+
+  /**
+   * Move stake released from a validator to the unbonding queue
+   */
+  private startUnbonding(address: string, validator: string, amount: bigint, now: number): UnbondingEntry {
+    const entry: UnbondingEntry = {
+      address,
+      validator,
+      amount,
+      startedAt: now,
+      maturesAt: now + this.config.lockPeriod
+    };
+    const entries = this.unbonding.get(address) || [];
+    entries.push(entry);
+    this.unbonding.set(address, entries);
+
+    this.totalStaked -= amount;
+    return entry;
+  }
+
+  /**
+   * Queue a refunded governance deposit: it is withdrawable at once, like matured stake
+   */
+  queueRefund(address: string, amount: bigint, now: number = Date.now()): void {
+    const entries = this.unbonding.get(address) || [];
+    entries.push({ address, validator: 'GOVERNANCE', amount, startedAt: now, maturesAt: now });
+    this.unbonding.set(address, entries);
+  }
+
+  /**
+   * Withdraw an amount from matured unbonding entries, oldest first
+   */
+  withdraw(
+    address: string,
+    amount: bigint,
+    now: number = Date.now()
+  ): { success: boolean; error?: string } {
+    if (amount <= 0n) {
+      return { success: false, error: 'Amount must be positive' };
+    }
 
-    if (now < stake.lockedUntil) {
+    const withdrawable = this.getWithdrawable(address, now);
+    if (amount > withdrawable) {
       return {
         success: false,
-        error: 'Stake is still locked',
-        availableAt: stake.lockedUntil
+        error: `Only ${formatVibe(withdrawable)} VIBE of unbonded stake is mature`
       };
     }
 
-    stake.amount -= amount;
-    this.totalStaked -= amount;
+    const entries = this.unbonding.get(address)!;
+    let remaining = amount;
+    for (const entry of entries) {
+      if (remaining === 0n) break;
+      if (entry.maturesAt > now) continue;
 
-    if (stake.amount < this.config.minStakeAmount) {
-      stake.isValidator = false;
+      const taken = entry.amount < remaining ? entry.amount : remaining;
+      entry.amount -= taken;
+      remaining -= taken;
     }
 
-    if (stake.amount === 0) {
-      this.stakes.delete(address);
+    const left = entries.filter(entry => entry.amount > 0n);
+    if (left.length > 0) {
+      this.unbonding.set(address, left);
+    } else {
+      this.unbonding.delete(address);
     }
 
     return { success: true };
   }
 
+  /**
+   * Unbonding entries of an address, oldest first
+   */
+  getUnbonding(address: string): UnbondingEntry[] {
+    return (this.unbonding.get(address) || []).map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Total unbonding for an address, matured or not
+   */
+  getTotalUnbonding(address: string): bigint {
+    return (this.unbonding.get(address) || []).reduce((sum, entry) => sum + entry.amount, 0n);
+  }
+
+  /**
+   * Unbonded amount of an address that has matured and can be withdrawn
+   */
+  getWithdrawable(address: string, now: number = Date.now()): bigint {
+    return (this.unbonding.get(address) || [])
+      .filter(entry => entry.maturesAt <= now)
+      .reduce((sum, entry) => sum + entry.amount, 0n);
+  }
+
   /**
    * Delegate stake to a validator
    */
-  delegate(fromAddress: string, toValidator: string, amount: number): { success: boolean; error?: string } {
-    if (amount < this.config.minDelegateAmount) {
+  delegate(
+    fromAddress: string,
+    toValidator: string,
+    amount: bigint,
+    now: number = Date.now()
+  ): { success: boolean; error?: string } {
+    if (amount < toBaseUnits(this.config.minDelegateAmount)) {
       return {
         success: false,
         error: `Minimum delegation is ${this.config.minDelegateAmount} VIBE`
       };
     }
 
-    const validatorStake = this.stakes.get(toValidator);
+    const targetCheck = this.checkDelegationTarget(fromAddress, toValidator);
+    if (!targetCheck.success) {
+      return targetCheck;
+    }
+
+    this.addDelegation(fromAddress, toValidator, amount, now);
+    this.totalStaked += amount;
+    return { success: true };
+  }
+
+  /**
+   * Move part or all of a delegation to another validator at once
+   * The moved stake cannot be redelegated again before the cooldown
+   */
+  redelegate(
+    fromAddress: string,
+    sourceValidator: string,
+    targetValidator: string,
+    amount: bigint,
+    now: number = Date.now()
+  ): { success: boolean; error?: string; availableAt?: number } {
+    if (sourceValidator === targetValidator) {
+      return { success: false, error: 'Source and target validator are the same' };
+    }
+
+    const source = this.delegations.get(StakingManager.delegationKey(fromAddress, sourceValidator));
+    if (!source) {
+      return { success: false, error: 'No delegation to the source validator' };
+    }
+
+    if (amount < toBaseUnits(this.config.minDelegateAmount)) {
+      return {
+        success: false,
+        error: `Minimum delegation is ${this.config.minDelegateAmount} VIBE`
+      };
+    }
+
+    if (amount > source.amount) {
+      return { success: false, error: `Insufficient delegation. You delegate ${formatVibe(source.amount)} VIBE to this validator` };
+    }
+
+    if (now < source.redelegationLockedUntil) {
+      return {
+        success: false,
+        error: 'Stake redelegated to this validator cannot move again yet',
+        availableAt: source.redelegationLockedUntil
+      };
+    }
+
+    const targetCheck = this.checkDelegationTarget(fromAddress, targetValidator);
+    if (!targetCheck.success) {
+      return targetCheck;
+    }
+
+    this.reduceDelegation(source, amount);
+    const target = this.addDelegation(fromAddress, targetValidator, amount, now);
+    target.redelegationLockedUntil = now + this.config.redelegationCooldown;
+
+    return { success: true };
+  }
+
+  private static delegationKey(delegator: string, validator: string): string {
+    return `${delegator}:${validator}`;
+  }
+
+  /**
+   * Delegations go to validator candidates, never to oneself
+   */
+  private checkDelegationTarget(fromAddress: string, validator: string): { success: boolean; error?: string } {
+    if (fromAddress === validator) {
+      return { success: false, error: 'Validators back themselves with stake, not delegation' };
+    }
+
+    const validatorStake = this.stakes.get(validator);
     if (!validatorStake || !validatorStake.isValidator) {
       return { success: false, error: 'Target is not a registered validator' };
     }
 
-    // Create or update delegator stake
-    const existing = this.stakes.get(fromAddress);
-    const now = Date.now();
+    return { success: true };
+  }
 
+  private addDelegation(delegator: string, validator: string, amount: bigint, now: number): Delegation {
+    const key = StakingManager.delegationKey(delegator, validator);
+    const existing = this.delegations.get(key);
     if (existing) {
       existing.amount += amount;
-      existing.delegatedTo = toValidator;
-      existing.lockedUntil = now + this.config.lockPeriod;
-    } else {
-      this.stakes.set(fromAddress, {
-        address: fromAddress,
-        amount,
-        stakedAt: now,
-        lockedUntil: now + this.config.lockPeriod,
-        isValidator: false,
-        delegatedTo: toValidator
-      });
+      return existing;
     }
 
-    this.totalStaked += amount;
-    return { success: true };
+    const delegation: Delegation = { delegator, validator, amount, delegatedAt: now, redelegationLockedUntil: 0 };
+    this.delegations.set(key, delegation);
+    return delegation;
+  }
+
+  private reduceDelegation(delegation: Delegation, amount: bigint): void {
+    delegation.amount -= amount;
+    if (delegation.amount === 0n) {
+      this.delegations.delete(StakingManager.delegationKey(delegation.delegator, delegation.validator));
+    }
   }
 
   /**
    * Slash a validator's stake (penalty)
+   * Its own stake still unbonding at that time is slashed at the same rate
    */
-  slash(address: string, reason: 'missedBlock' | 'doubleSign' | 'inactivity', hours: number = 1): number {
-    const stake = this.stakes.get(address);
-    if (!stake) return 0;
-
+  slash(
+    address: string,
+    reason: 'missedBlock' | 'doubleSign' | 'inactivity',
+    hours: number = 1,
+    now: number = Date.now()
+  ): bigint {
     let slashRate = this.config.slashingRates[reason];
     if (reason === 'inactivity') {
       slashRate *= hours;
     }
 
-    const slashAmount = stake.amount * (slashRate / 100);
-    stake.amount -= slashAmount;
-    this.totalStaked -= slashAmount;
+    // Integer math so every node slashes exactly the same amount
+    const slashOf = (amount: bigint) => {
+      const slashed = percentOf(amount, slashRate);
+      return slashed > amount ? amount : slashed;
+    };
 
-    if (stake.amount < this.config.minStakeAmount) {
-      stake.isValidator = false;
+    let slashAmount = 0n;
+    const stake = this.stakes.get(address);
+    if (stake) {
+      slashAmount = slashOf(stake.amount);
+      stake.amount -= slashAmount;
+      this.totalStaked -= slashAmount;
+
+      if (stake.amount < toBaseUnits(this.config.minStakeAmount)) {
+        stake.isValidator = false;
+      }
+    }
+
+    for (const entry of this.unbonding.get(address) || []) {
+      if (entry.validator !== address || entry.maturesAt <= now) continue;
+
+      const slashed = slashOf(entry.amount);
+      entry.amount -= slashed;
+      slashAmount += slashed;
     }
 
-    console.log(`⚠️ Slashed ${slashAmount.toFixed(4)} VIBE from ${address.substring(0, 8)}... (${reason})`);
+    if (slashAmount === 0n) return 0n;
+
+    console.log(`⚠️ Slashed ${formatVibe(slashAmount)} VIBE from ${address.substring(0, 8)}... (${reason})`);
     return slashAmount;
   }
 
@@ -204,73 +456,163 @@ export class StakingManager {
   getValidatorCandidates(): StakeInfo[] {
     return Array.from(this.stakes.values())
       .filter(s => s.isValidator)
-      .sort((a, b) => b.amount - a.amount);
+      .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0));
   }
 
   /**
-   * Get all delegators for a validator
+   * Get all delegations to a validator
    */
-  getDelegators(validatorAddress: string): StakeInfo[] {
-    return Array.from(this.stakes.values())
-      .filter(s => s.delegatedTo === validatorAddress);
+  getDelegators(validatorAddress: string): Delegation[] {
+    return Array.from(this.delegations.values())
+      .filter(d => d.validator === validatorAddress);
+  }
+
+  /**
+   * Get all delegations of an address
+   */
+  getDelegations(delegator: string): Delegation[] {
+    return Array.from(this.delegations.values())
+      .filter(d => d.delegator === delegator);
+  }
+
+  /**
+   * Get the delegation of an address to one validator
+   */
+  getDelegation(delegator: string, validator: string): Delegation | undefined {
+    return this.delegations.get(StakingManager.delegationKey(delegator, validator));
   }
 
   /**
    * Get total delegated amount for a validator
    */
-  getTotalDelegated(validatorAddress: string): number {
+  getTotalDelegated(validatorAddress: string): bigint {
     return this.getDelegators(validatorAddress)
-      .reduce((sum, s) => sum + s.amount, 0);
+      .reduce((sum, d) => sum + d.amount, 0n);
   }
 
   /**
    * Get effective stake (own stake + delegations)
    */
-  getEffectiveStake(validatorAddress: string): number {
-    const ownStake = this.stakes.get(validatorAddress)?.amount || 0;
+  getEffectiveStake(validatorAddress: string): bigint {
+    const ownStake = this.stakes.get(validatorAddress)?.amount || 0n;
     const delegated = this.getTotalDelegated(validatorAddress);
     return ownStake + delegated;
   }
 
+  /**
+   * Addresses with own stake or delegations
+   */
+  getStakeholders(): string[] {
+    const addresses = new Set(this.stakes.keys());
+    for (const delegation of this.delegations.values()) {
+      addresses.add(delegation.delegator);
+    }
+    return Array.from(addresses);
+  }
+
+  /**
+   * Minimum stake of a validator, in VIBE (changed by governance)
+   */
+  setMinStake(amount: number): void {
+    this.config.minStakeAmount = amount;
+  }
+
   /**
    * Get total staked in the network
    */
-  getTotalStaked(): number {
+  getTotalStaked(): bigint {
     return this.totalStaked;
   }
 
   /**
-   * Get staking statistics
+   * Get staking statistics (amounts in VIBE for display)
    */
   getStats(): object {
     const validators = this.getValidatorCandidates();
     return {
-      totalStaked: this.totalStaked,
+      totalStaked: fromBaseUnits(this.totalStaked),
       validatorCount: validators.length,
       averageStake: validators.length > 0
-        ? this.totalStaked / validators.length
+        ? fromBaseUnits(this.totalStaked / BigInt(validators.length))
         : 0,
       topValidator: validators[0]?.address.substring(0, 16) + '...',
-      topValidatorStake: validators[0]?.amount || 0
+      topValidatorStake: fromBaseUnits(validators[0]?.amount || 0n)
     };
   }
 
   /**
-   * Export stakes for persistence
+   * Export stakes for persistence (amounts as base-unit strings)
    */
-  exportStakes(): StakeInfo[] {
-    return Array.from(this.stakes.values());
+  exportStakes(): Array<Omit<StakeInfo, 'amount'> & { amount: string }> {
+    return Array.from(this.stakes.values()).map(stake => ({
+      ...stake,
+      amount: stake.amount.toString()
+    }));
   }
 
   /**
    * Import stakes from persistence
+   * Stakes saved with a delegatedTo field (single delegation per address) become delegations
    */
-  importStakes(stakes: StakeInfo[]): void {
+  importStakes(stakes: Array<Omit<StakeInfo, 'amount'> & { amount: string | number; delegatedTo?: string }>): void {
     this.stakes.clear();
-    this.totalStaked = 0;
+    this.delegations.clear();
+    this.totalStaked = 0n;
     for (const stake of stakes) {
-      this.stakes.set(stake.address, stake);
-      this.totalStaked += stake.amount;
+      const amount = typeof stake.amount === 'string' ? BigInt(stake.amount) : toBaseUnits(stake.amount);
+      const { address, stakedAt, isValidator, delegatedTo } = stake;
+      if (delegatedTo) {
+        this.addDelegation(address, delegatedTo, amount, stakedAt);
+      } else {
+        this.stakes.set(address, { address, amount, stakedAt, isValidator });
+      }
+      this.totalStaked += amount;
+    }
+  }
+
+  /**
+   * Export delegations for persistence (amounts as base-unit strings)
+   */
+  exportDelegations(): Array<Omit<Delegation, 'amount'> & { amount: string }> {
+    return Array.from(this.delegations.values()).map(delegation => ({
+      ...delegation,
+      amount: delegation.amount.toString()
+    }));
+  }
+
+  /**
+   * Import delegations from persistence (after importStakes)
+   */
+  importDelegations(delegations: Array<Omit<Delegation, 'amount'> & { amount: string }>): void {
+    for (const delegation of delegations) {
+      const amount = BigInt(delegation.amount);
+      this.delegations.set(
+        StakingManager.delegationKey(delegation.delegator, delegation.validator),
+        { ...delegation, amount }
+      );
+      this.totalStaked += amount;
+    }
+  }
+
+  /**
+   * Export the unbonding queue for persistence (amounts as base-unit strings)
+   */
+  exportUnbonding(): Array<Omit<UnbondingEntry, 'amount'> & { amount: string }> {
+    return Array.from(this.unbonding.values()).flat().map(entry => ({
+      ...entry,
+      amount: entry.amount.toString()
+    }));
+  }
+
+  /**
+   * Import the unbonding queue from persistence
+   */
+  importUnbonding(entries: Array<Omit<UnbondingEntry, 'amount'> & { amount: string }>): void {
+    this.unbonding.clear();
+    for (const entry of entries) {
+      const queue = this.unbonding.get(entry.address) || [];
+      queue.push({ ...entry, amount: BigInt(entry.amount) });
+      this.unbonding.set(entry.address, queue);
     }
   }
 }
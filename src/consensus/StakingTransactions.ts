@@ -0,0 +1,222 @@
+/**
+ * VibeCoin Staking Transactions - Payloads of the Proof of Vibe transaction types
+ *
+ *   stake / unstake        amount locked or released, sent to STAKING_ADDRESS
+ *   delegate / undelegate  amount locked or released, sent to the validator
+ *   redelegate             amount moved to the validator it is sent to, data = source validator address
+ *   vote                   no amount, data = JSON array of validator addresses (equal split)
+ *                          or JSON object of validator address -> relative weight
+ *   withdraw               amount of matured unbonding stake released
+ *   claimRewards           amount of accrued delegator and voter rewards paid out
+ *   registerValidator      amount = self-stake, data = JSON { name, website?, description?, commission? }
+ *   updateValidator        no amount, data = JSON { website?, description?, commission? }
+ *   submitProposal         amount = deposit, data = JSON proposal (see Governance.ts, spendAmount in base units)
+ *   depositProposal        amount added to the deposit, data = proposal id
+ *   voteProposal           no amount, data = JSON { proposal, option }
+ *   attestContribution     no amount, data = JSON { validator, points, reason, reference } (authorized attesters)
+ *
+ * The transactions are signed like transfers and executed by ProofOfVibe when
+ * their block is connected.
+ */
+import { ProposalDraft, VoteOption } from './Governance';
+import { ContributionAward } from './Contributions';
+
+export interface ValidatorRegistration {
+  name: string;
+  website?: string;
+  description?: string;
+  commission?: number;       // % of the staking reward kept before delegators are paid
+}
+
+export type ValidatorUpdate = Omit<ValidatorRegistration, 'name'>;
+
+/**
+ * Validators a vote transaction is for, with their relative weights (equal split when omitted)
+ */
+export interface Ballot {
+  validators: string[];
+  weights?: number[];
+}
+
+/**
+ * Data of a vote transaction
+ */
+export function encodeVote(validators: string[], weights?: number[]): string {
+  if (!weights) {
+    return JSON.stringify(validators);
+  }
+  return JSON.stringify(Object.fromEntries(validators.map((validator, i) => [validator, weights[i]])));
+}
+
+/**
+ * Ballot carried by a vote transaction, or null if the data is malformed
+ */
+export function decodeVote(data: string): Ballot | null {
+  try {
+    const ballot = JSON.parse(data);
+    if (Array.isArray(ballot)) {
+      return ballot.every(v => typeof v === 'string') ? { validators: ballot } : null;
+    }
+    if (ballot && typeof ballot === 'object' && Object.values(ballot).every(w => typeof w === 'number')) {
+      return { validators: Object.keys(ballot), weights: Object.values(ballot) as number[] };
+    }
+  } catch {
+    // Malformed payload
+  }
+  return null;
+}
+
+/**
+ * Data of a registerValidator transaction
+ */
+export function encodeRegistration(registration: ValidatorRegistration): string {
+  const { name, website, description, commission } = registration;
+  return JSON.stringify({ name, website, description, commission });
+}
+
+/**
+ * Registration carried by a registerValidator transaction, or null if the data is malformed
+ */
+export function decodeRegistration(data: string): ValidatorRegistration | null {
+  try {
+    const registration = JSON.parse(data);
+    if (registration && typeof registration.name === 'string' && isValidatorUpdate(registration)) {
+      const { name, website, description, commission } = registration;
+      return { name, website, description, commission };
+    }
+  } catch {
+    // Malformed payload
+  }
+  return null;
+}
+
+/**
+ * Data of an updateValidator transaction
+ */
+export function encodeValidatorUpdate(update: ValidatorUpdate): string {
+  const { website, description, commission } = update;
+  return JSON.stringify({ website, description, commission });
+}
+
+/**
+ * Changes carried by an updateValidator transaction, or null if the data is malformed
+ */
+export function decodeValidatorUpdate(data: string): ValidatorUpdate | null {
+  try {
+    const update = JSON.parse(data);
+    if (isValidatorUpdate(update)) {
+      const { website, description, commission } = update;
+      return { website, description, commission };
+    }
+  } catch {
+    // Malformed payload
+  }
+  return null;
+}
+
+function isValidatorUpdate(data: any): boolean {
+  return !!data &&
+    typeof data === 'object' &&
+    (data.website === undefined || typeof data.website === 'string') &&
+    (data.description === undefined || typeof data.description === 'string') &&
+    (data.commission === undefined || typeof data.commission === 'number');
+}
+
+/**
+ * Data of a submitProposal transaction
+ */
+export function encodeProposal(draft: ProposalDraft): string {
+  const { type, title, description, parameter, value, recipient, spendAmount, reference, activationHeight } = draft;
+  return JSON.stringify({
+    type, title, description, parameter, value, recipient, spendAmount: spendAmount?.toString(), reference, activationHeight
+  });
+}
+
+/**
+ * Proposal carried by a submitProposal transaction, or null if the data is malformed
+ * (the content itself is checked by GovernanceManager.validateDraft)
+ */
+export function decodeProposal(data: string): ProposalDraft | null {
+  try {
+    const draft = JSON.parse(data);
+    if (draft &&
+        typeof draft.type === 'string' &&
+        typeof draft.title === 'string' &&
+        (draft.description === undefined || typeof draft.description === 'string') &&
+        (draft.parameter === undefined || typeof draft.parameter === 'string') &&
+        (draft.value === undefined || typeof draft.value === 'number') &&
+        (draft.recipient === undefined || typeof draft.recipient === 'string') &&
+        (draft.spendAmount === undefined || (typeof draft.spendAmount === 'string' && /^\d+$/.test(draft.spendAmount))) &&
+        (draft.reference === undefined || typeof draft.reference === 'string') &&
+        (draft.activationHeight === undefined || typeof draft.activationHeight === 'number')) {
+      const { type, title, description, parameter, value, recipient, spendAmount, reference, activationHeight } = draft;
+      return {
+        type, title, description: description ?? '', parameter, value, recipient,
+        spendAmount: spendAmount !== undefined ? BigInt(spendAmount) : undefined,
+        reference,
+        activationHeight
+      };
+    }
+  } catch {
+    // Malformed payload
+  }
+  return null;
+}
+
+/**
+ * Proposal id named by a depositProposal transaction, or null if the data is malformed
+ */
+export function decodeProposalId(data: string): number | null {
+  return /^[1-9]\d*$/.test(data) && Number.isSafeInteger(Number(data)) ? Number(data) : null;
+}
+
+/**
+ * Data of a voteProposal transaction
+ */
+export function encodeProposalVote(proposal: number, option: VoteOption): string {
+  return JSON.stringify({ proposal, option });
+}
+
+/**
+ * Proposal and option of a voteProposal transaction, or null if the data is malformed
+ */
+export function decodeProposalVote(data: string): { proposal: number; option: VoteOption } | null {
+  try {
+    const vote = JSON.parse(data);
+    if (vote && Number.isSafeInteger(vote.proposal) && typeof vote.option === 'string') {
+      return { proposal: vote.proposal, option: vote.option };
+    }
+  } catch {
+    // Malformed payload
+  }
+  return null;
+}
+
+/**
+ * Data of an attestContribution transaction
+ */
+export function encodeAttestation(award: ContributionAward): string {
+  const { validator, points, reason, reference } = award;
+  return JSON.stringify({ validator, points, reason, reference });
+}
+
+/**
+ * Award carried by an attestContribution transaction, or null if the data is malformed
+ * (the content itself is checked by ContributionManager.validateAward)
+ */
+export function decodeAttestation(data: string): ContributionAward | null {
+  try {
+    const award = JSON.parse(data);
+    if (award &&
+        typeof award.validator === 'string' &&
+        typeof award.points === 'number' &&
+        typeof award.reason === 'string' &&
+        typeof award.reference === 'string') {
+      const { validator, points, reason, reference } = award;
+      return { validator, points, reason, reference };
+    }
+  } catch {
+    // Malformed payload
+  }
+  return null;
+}
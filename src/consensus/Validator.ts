@@ -3,6 +3,26 @@
  * Manages validator registration, reputation, and performance tracking
  */
 
+export const JAIL_CONFIG = {
+  MISSED_SLOTS_TO_JAIL: 10,   // Consecutive missed slots before a validator is jailed
+  COOLDOWN_BLOCKS: 100        // Blocks a jailed validator must wait before unjailing
+};
+
+export const COMMISSION_CONFIG = {
+  DEFAULT_RATE: 10,           // % of the staking reward a validator keeps before its delegators' share
+  MAX_RATE: 100
+};
+
+export const PERFORMANCE_CONFIG = {
+  HISTORY_SLOTS: 4096,                      // Slot records kept per validator (a week of a 21-validator rotation is ~2,900 slots)
+  DAY: 24 * 60 * 60 * 1000,
+  WEEK: 7 * 24 * 60 * 60 * 1000
+};
+
+export type LeaderboardSort = 'blocks' | 'uptime' | 'reliability24h' | 'reliability7d' | 'latency' | 'streak';
+
+export const LEADERBOARD_SORTS: LeaderboardSort[] = ['blocks', 'uptime', 'reliability24h', 'reliability7d', 'latency', 'streak'];
+
 export interface ValidatorInfo {
   address: string;
   name: string;
@@ -14,16 +34,51 @@ export interface ValidatorInfo {
   blocksMissed: number;
   totalRewards: number;
   isActive: boolean;
-  contributionScore: number;
+  contributionScore: number;  // Decayed on-chain contribution awards (see Contributions.ts)
   uptime: number; // Percentage
+  consecutiveMissed: number;  // Slots missed since the last produced block
+  jailed: boolean;            // Removed from the active set until unjailed
+  jailedAt: number;           // Height the validator was last jailed at
+  commission: number;         // % of the staking reward kept before delegators are paid
 }
 
 export interface ValidatorPerformance {
   address: string;
   recentBlocks: number;      // Blocks in last 24h
   recentMissed: number;      // Missed in last 24h
-  averageBlockTime: number;  // Average time to produce block
-  reliability: number;       // Percentage
+  weeklyBlocks: number;      // Blocks in last 7 days
+  weeklyMissed: number;      // Missed in last 7 days
+  reliability24h: number;    // Percentage of the last 24h's slots produced
+  reliability7d: number;     // Percentage of the last 7 days' slots produced
+  averageLatency: number | null;  // Average ms between the scheduled slot and the block over 7 days (null without blocks)
+  currentStreak: number;     // Slots produced in a row since the last miss
+  streakStartedAt: number;   // Timestamp of the first block of the current streak (0 without one)
+  longestStreak: number;
+  uptime: number;            // Lifetime percentage
+}
+
+/**
+ * A produced block, or the missed slots revealed by a block
+ */
+export interface SlotRecord {
+  at: number;                // Block timestamp
+  produced: boolean;
+  count: number;             // Slots: 1 for a produced block, the slots missed in a row otherwise
+  latency: number;           // ms between the scheduled slot and the block (0 for misses)
+}
+
+/**
+ * Rolling slot history of a validator: a ring buffer of its last HISTORY_SLOTS
+ * records, overwritten oldest first once full (next is the slot to overwrite)
+ * The buffer keeps the consensus state bounded; when a validator gets more slots
+ * than it holds, the 7-day window only covers the records still in it
+ */
+export interface PerformanceHistory {
+  records: SlotRecord[];
+  next: number;
+  currentStreak: number;
+  streakStartedAt: number;
+  longestStreak: number;
 }
 
 export interface VibeScore {
@@ -38,6 +93,7 @@ export interface VibeScore {
 export class ValidatorManager {
   private validators: Map<string, ValidatorInfo> = new Map();
   private activeValidators: Set<string> = new Set();
+  private performance: Map<string, PerformanceHistory> = new Map();
   private maxValidators: number;
 
   constructor(maxValidators: number = 21) {
@@ -50,21 +106,12 @@ export class ValidatorManager {
   registerValidator(
     address: string,
     name: string,
-    options: { website?: string; description?: string } = {}
+    options: { website?: string; description?: string; commission?: number } = {},
+    now: number = Date.now()
   ): { success: boolean; error?: string } {
-    if (this.validators.has(address)) {
-      return { success: false, error: 'Validator already registered' };
-    }
-
-    if (name.length < 3 || name.length > 32) {
-      return { success: false, error: 'Name must be 3-32 characters' };
-    }
-
-    // Check for duplicate names
-    for (const [_, validator] of this.validators) {
-      if (validator.name.toLowerCase() === name.toLowerCase()) {
-        return { success: false, error: 'Validator name already taken' };
-      }
+    const check = this.canRegister(address, name, options.commission);
+    if (!check.success) {
+      return check;
     }
 
     this.validators.set(address, {
@@ -72,32 +119,66 @@ export class ValidatorManager {
       name,
       website: options.website,
       description: options.description,
-      registeredAt: Date.now(),
+      registeredAt: now,
       lastBlockProduced: 0,
       blocksProduced: 0,
       blocksMissed: 0,
       totalRewards: 0,
       isActive: false,
       contributionScore: 0,
-      uptime: 100
+      uptime: 100,
+      consecutiveMissed: 0,
+      jailed: false,
+      jailedAt: 0,
+      commission: options.commission ?? COMMISSION_CONFIG.DEFAULT_RATE
     });
 
     console.log(`✅ Validator "${name}" registered: ${address.substring(0, 16)}...`);
     return { success: true };
   }
 
+  /**
+   * Check that an address and name are free for a new validator
+   */
+  canRegister(address: string, name: string, commission?: number): { success: boolean; error?: string } {
+    if (this.validators.has(address)) {
+      return { success: false, error: 'Validator already registered' };
+    }
+
+    if (name.length < 3 || name.length > 32) {
+      return { success: false, error: 'Name must be 3-32 characters' };
+    }
+
+    if (commission !== undefined && !ValidatorManager.isValidCommission(commission)) {
+      return { success: false, error: `Commission must be 0-${COMMISSION_CONFIG.MAX_RATE}%` };
+    }
+
+    // Check for duplicate names
+    for (const [_, validator] of this.validators) {
+      if (validator.name.toLowerCase() === name.toLowerCase()) {
+        return { success: false, error: 'Validator name already taken' };
+      }
+    }
+
+    return { success: true };
+  }
+
   /**
    * Update validator info
    */
   updateValidator(
     address: string,
-    updates: Partial<Pick<ValidatorInfo, 'name' | 'website' | 'description'>>
+    updates: Partial<Pick<ValidatorInfo, 'name' | 'website' | 'description' | 'commission'>>
   ): { success: boolean; error?: string } {
     const validator = this.validators.get(address);
     if (!validator) {
       return { success: false, error: 'Validator not found' };
     }
 
+    if (updates.commission !== undefined && !ValidatorManager.isValidCommission(updates.commission)) {
+      return { success: false, error: `Commission must be 0-${COMMISSION_CONFIG.MAX_RATE}%` };
+    }
+
     if (updates.name) {
       if (updates.name.length < 3 || updates.name.length > 32) {
         return { success: false, error: 'Name must be 3-32 characters' };
@@ -107,32 +188,129 @@ export class ValidatorManager {
 
     if (updates.website !== undefined) validator.website = updates.website;
     if (updates.description !== undefined) validator.description = updates.description;
+    if (updates.commission !== undefined) validator.commission = updates.commission;
 
     return { success: true };
   }
 
+  /**
+   * Commission rates are percentages with at most two decimals (basis points)
+   */
+  static isValidCommission(commission: number): boolean {
+    return Number.isFinite(commission) &&
+      commission >= 0 &&
+      commission <= COMMISSION_CONFIG.MAX_RATE &&
+      Math.abs(commission * 100 - Math.round(commission * 100)) < 1e-9;
+  }
+
   /**
    * Record block production
+   * @param at Block timestamp
+   * @param latency Time between the block's scheduled slot and its timestamp (ms)
    */
-  recordBlockProduced(address: string, reward: number): void {
+  recordBlockProduced(address: string, reward: number, at: number = Date.now(), latency: number = 0): void {
     const validator = this.validators.get(address);
     if (validator) {
       validator.blocksProduced++;
-      validator.lastBlockProduced = Date.now();
+      validator.consecutiveMissed = 0;
+      validator.lastBlockProduced = at;
       validator.totalRewards += reward;
       this.updateUptime(address);
+
+      const history = this.getHistory(address);
+      ValidatorManager.addRecord(history, { at, produced: true, count: 1, latency });
+
+      if (history.currentStreak === 0) {
+        history.streakStartedAt = at;
+      }
+      history.currentStreak++;
+      history.longestStreak = Math.max(history.longestStreak, history.currentStreak);
     }
   }
 
   /**
-   * Record missed block
+   * Record missed block slots
+   * @param at Timestamp of the block that revealed the misses
    */
-  recordBlockMissed(address: string): void {
+  recordBlockMissed(address: string, count: number = 1, at: number = Date.now()): void {
     const validator = this.validators.get(address);
     if (validator) {
-      validator.blocksMissed++;
+      validator.blocksMissed += count;
+      validator.consecutiveMissed += count;
       this.updateUptime(address);
+
+      const history = this.getHistory(address);
+      ValidatorManager.addRecord(history, { at, produced: false, count, latency: 0 });
+      history.currentStreak = 0;
+      history.streakStartedAt = 0;
+    }
+  }
+
+  private getHistory(address: string): PerformanceHistory {
+    let history = this.performance.get(address);
+    if (!history) {
+      history = { records: [], next: 0, currentStreak: 0, streakStartedAt: 0, longestStreak: 0 };
+      this.performance.set(address, history);
     }
+    return history;
+  }
+
+  /**
+   * Add a slot record, overwriting the oldest one once the buffer is full
+   */
+  private static addRecord(history: PerformanceHistory, record: SlotRecord): void {
+    if (history.records.length < PERFORMANCE_CONFIG.HISTORY_SLOTS) {
+      history.records.push(record);
+      return;
+    }
+    history.records[history.next] = record;
+    history.next = (history.next + 1) % PERFORMANCE_CONFIG.HISTORY_SLOTS;
+  }
+
+  /**
+   * Jail a validator: it leaves the active set and cannot be selected until unjailed
+   */
+  jailValidator(address: string, height: number): void {
+    const validator = this.validators.get(address);
+    if (!validator || validator.jailed) return;
+
+    validator.jailed = true;
+    validator.jailedAt = height;
+    validator.isActive = false;
+    this.activeValidators.delete(address);
+
+    console.log(`🔒 Validator "${validator.name}" jailed at height ${height} after ${validator.consecutiveMissed} missed slots`);
+  }
+
+  /**
+   * Release a jailed validator once the cooldown has passed
+   */
+  unjailValidator(address: string, height: number): { success: boolean; error?: string } {
+    const validator = this.validators.get(address);
+    if (!validator) {
+      return { success: false, error: 'Validator not found' };
+    }
+    if (!validator.jailed) {
+      return { success: false, error: 'Validator is not jailed' };
+    }
+
+    const releaseHeight = validator.jailedAt + JAIL_CONFIG.COOLDOWN_BLOCKS;
+    if (height < releaseHeight) {
+      return { success: false, error: `Jail cooldown ends at height ${releaseHeight}` };
+    }
+
+    validator.jailed = false;
+    validator.consecutiveMissed = 0;
+
+    console.log(`🔓 Validator "${validator.name}" unjailed at height ${height}`);
+    return { success: true };
+  }
+
+  /**
+   * Check if a validator is jailed
+   */
+  isJailed(address: string): boolean {
+    return this.validators.get(address)?.jailed === true;
   }
 
   /**
@@ -149,13 +327,12 @@ export class ValidatorManager {
   }
 
   /**
-   * Add contribution score to validator
+   * Set a validator's contribution score (rebuilt from on-chain awards, see Contributions.ts)
    */
-  addContributionScore(address: string, points: number, reason: string): void {
+  setContributionScore(address: string, score: number): void {
     const validator = this.validators.get(address);
     if (validator) {
-      validator.contributionScore += points;
-      console.log(`🌟 +${points} contribution points to ${validator.name}: ${reason}`);
+      validator.contributionScore = score;
     }
   }
 
@@ -196,8 +373,8 @@ export class ValidatorManager {
       });
     }
 
-    // Sort by total score and assign ranks
-    scores.sort((a, b) => b.totalScore - a.totalScore);
+    // Sort by total score (ties by address, so every node ranks alike) and assign ranks
+    scores.sort((a, b) => b.totalScore - a.totalScore || (a.address < b.address ? -1 : a.address > b.address ? 1 : 0));
     scores.forEach((score, index) => {
       score.rank = index + 1;
     });
@@ -205,21 +382,35 @@ export class ValidatorManager {
     return scores;
   }
 
+  /**
+   * Top validators by VibeScore, in rank order (jailed validators sit out)
+   */
+  electValidators(vibeScores: VibeScore[]): string[] {
+    return vibeScores
+      .filter(score => !this.validators.get(score.address)?.jailed)
+      .slice(0, this.maxValidators)
+      .map(score => score.address);
+  }
+
   /**
    * Select active validators based on VibeScore
    */
   selectActiveValidators(vibeScores: VibeScore[]): string[] {
+    const selected = this.electValidators(vibeScores);
+    this.setActiveValidators(selected);
+    return selected;
+  }
+
+  /**
+   * Mark exactly these validators as active (the validator set of an epoch)
+   */
+  setActiveValidators(selected: string[]): void {
     // Deactivate all first
     for (const [_, validator] of this.validators) {
       validator.isActive = false;
     }
     this.activeValidators.clear();
 
-    // Activate top validators
-    const selected = vibeScores
-      .slice(0, this.maxValidators)
-      .map(score => score.address);
-
     for (const address of selected) {
       const validator = this.validators.get(address);
       if (validator) {
@@ -229,7 +420,6 @@ export class ValidatorManager {
     }
 
     console.log(`\n🎯 Active validators for this epoch: ${selected.length}`);
-    return selected;
   }
 
   /**
@@ -277,27 +467,90 @@ export class ValidatorManager {
   }
 
   /**
-   * Get validator performance metrics
+   * Get validator performance metrics over the last 24 hours and 7 days before a time
    */
-  getPerformance(address: string): ValidatorPerformance | null {
+  getPerformance(address: string, now: number = Date.now()): ValidatorPerformance | null {
     const validator = this.validators.get(address);
     if (!validator) return null;
 
+    const history = this.performance.get(address);
+    const records = history?.records ?? [];
+    const day = ValidatorManager.sumRecords(records, now - PERFORMANCE_CONFIG.DAY, now);
+    const week = ValidatorManager.sumRecords(records, now - PERFORMANCE_CONFIG.WEEK, now);
+
     return {
       address,
-      recentBlocks: validator.blocksProduced, // TODO: Track 24h window
-      recentMissed: validator.blocksMissed,
-      averageBlockTime: 10, // TODO: Calculate actual
-      reliability: validator.uptime
+      recentBlocks: day.produced,
+      recentMissed: day.missed,
+      weeklyBlocks: week.produced,
+      weeklyMissed: week.missed,
+      reliability24h: ValidatorManager.getReliability(day.produced, day.missed),
+      reliability7d: ValidatorManager.getReliability(week.produced, week.missed),
+      averageLatency: week.produced > 0 ? week.totalLatency / week.produced : null,
+      currentStreak: history?.currentStreak ?? 0,
+      streakStartedAt: history?.streakStartedAt ?? 0,
+      longestStreak: history?.longestStreak ?? 0,
+      uptime: validator.uptime
     };
   }
 
+  /**
+   * Slots recorded after since, up to now
+   */
+  private static sumRecords(
+    records: SlotRecord[],
+    since: number,
+    now: number
+  ): { produced: number; missed: number; totalLatency: number } {
+    const sum = { produced: 0, missed: 0, totalLatency: 0 };
+    for (const record of records) {
+      if (record.at <= since || record.at > now) continue;
+      if (record.produced) {
+        sum.produced += record.count;
+        sum.totalLatency += record.latency;
+      } else {
+        sum.missed += record.count;
+      }
+    }
+    return sum;
+  }
+
+  private static getReliability(produced: number, missed: number): number {
+    const total = produced + missed;
+    return total > 0 ? (produced / total) * 100 : 100;
+  }
+
   /**
    * Get leaderboard
+   * Sorted by lifetime blocks produced, or by a performance metric: best first, validators
+   * with more blocks in the window first on ties, and validators without blocks last by latency
    */
-  getLeaderboard(limit: number = 10): ValidatorInfo[] {
+  getLeaderboard(limit: number = 10, sortBy: LeaderboardSort = 'blocks', now: number = Date.now()): ValidatorInfo[] {
+    const compare = (a: ValidatorInfo, b: ValidatorInfo): number => {
+      const pa = this.getPerformance(a.address, now)!;
+      const pb = this.getPerformance(b.address, now)!;
+      switch (sortBy) {
+        case 'uptime':
+          return b.uptime - a.uptime || b.blocksProduced - a.blocksProduced;
+        case 'reliability24h':
+          return pb.reliability24h - pa.reliability24h || pb.recentBlocks - pa.recentBlocks;
+        case 'reliability7d':
+          return pb.reliability7d - pa.reliability7d || pb.weeklyBlocks - pa.weeklyBlocks;
+        case 'latency':
+          // Validators without blocks in the window have no latency and come last
+          if (pa.averageLatency === null || pb.averageLatency === null) {
+            return (pa.averageLatency === null ? 1 : 0) - (pb.averageLatency === null ? 1 : 0);
+          }
+          return pa.averageLatency - pb.averageLatency || pb.weeklyBlocks - pa.weeklyBlocks;
+        case 'streak':
+          return pb.currentStreak - pa.currentStreak || pb.longestStreak - pa.longestStreak;
+        default:
+          return b.blocksProduced - a.blocksProduced;
+      }
+    };
+
     return Array.from(this.validators.values())
-      .sort((a, b) => b.blocksProduced - a.blocksProduced)
+      .sort((a, b) => compare(a, b) || (a.address < b.address ? -1 : 1))
       .slice(0, limit);
   }
 
@@ -318,6 +571,7 @@ export class ValidatorManager {
     return {
       totalValidators: all.length,
       activeValidators: active.length,
+      jailedValidators: all.filter(v => v.jailed).length,
       maxValidators: this.maxValidators,
       totalBlocksProduced: all.reduce((sum, v) => sum + v.blocksProduced, 0),
       totalRewardsDistributed: all.reduce((sum, v) => sum + v.totalRewards, 0),
@@ -334,6 +588,31 @@ export class ValidatorManager {
     return Array.from(this.validators.values());
   }
 
+  /**
+   * Export slot histories for persistence
+   */
+  exportPerformance(): Record<string, PerformanceHistory> {
+    return Object.fromEntries(this.performance);
+  }
+
+  /**
+   * Import slot histories from persistence
+   */
+  importPerformance(data: Record<string, PerformanceHistory>): void {
+    this.performance = new Map(
+      Object.entries(data).map(([address, history]) => [
+        address,
+        {
+          records: (history.records ?? []).map(record => ({ ...record })),   // Histories saved as hourly buckets start empty
+          next: history.next ?? 0,
+          currentStreak: history.currentStreak,
+          streakStartedAt: history.streakStartedAt,
+          longestStreak: history.longestStreak
+        }
+      ])
+    );
+  }
+
   /**
    * Import validators from persistence
    */
@@ -342,7 +621,13 @@ export class ValidatorManager {
     this.activeValidators.clear();
 
     for (const validator of validators) {
-      this.validators.set(validator.address, validator);
+      this.validators.set(validator.address, {
+        ...validator,
+        consecutiveMissed: validator.consecutiveMissed ?? 0,
+        jailed: validator.jailed ?? false,
+        jailedAt: validator.jailedAt ?? 0,
+        commission: validator.commission ?? COMMISSION_CONFIG.DEFAULT_RATE
+      });
       if (validator.isActive) {
         this.activeValidators.add(validator.address);
       }
@@ -1,6 +1,13 @@
 /**
  * VibeCoin Voting System
  * Democratic validator election through community votes
+ *
+ * Voting power is computed from the voter's on-chain stake by a pluggable
+ * strategy chosen in VotingConfig (the whitepaper formula by default):
+ *   linear-capped          min(stake, votePowerCap)
+ *   quadratic              sqrt(stake)
+ *   contribution-boosted   sqrt(stake) * (1 + min(contributionScore / 1000, 0.5))
+ * A voter splits its power equally between validators, or by custom weights.
  */
 
 export interface Vote {
@@ -12,23 +19,46 @@ export interface Vote {
 
 export interface VoteRecord {
   voter: string;
-  votes: Map<string, number>; // validator -> weight
+  votes: Map<string, number>;   // validator -> weight
+  shares: Map<string, number>;  // validator -> fraction of the voter's power (sums to 1)
   totalVotingPower: number;
   lastVoted: number;
 }
 
+/**
+ * On-chain data a voting power is computed from
+ */
+export interface VotingPowerInput {
+  stake: number;                  // VIBE staked or delegated by the voter
+  contributionScore: number;      // Voter's contribution score (0 if it is not a validator)
+}
+
+export type VotingPowerStrategy = (input: VotingPowerInput, config: VotingConfig) => number;
+
+/**
+ * Voting power strategies by name - add an entry to plug in another one
+ */
+export const VOTING_POWER_STRATEGIES: Record<string, VotingPowerStrategy> = {
+  'linear-capped': ({ stake }, config) => Math.min(stake, config.votePowerCap),
+  'quadratic': ({ stake }) => Math.sqrt(stake),
+  'contribution-boosted': ({ stake, contributionScore }) =>
+    Math.sqrt(stake) * (1 + Math.min(Math.max(contributionScore, 0) / 1000, 0.5))
+};
+
 export interface VotingConfig {
   maxVotesPerAddress: number;     // Max validators one can vote for
-  votePowerCap: number;           // Max vote power per voter (prevents whale dominance)
+  votePowerCap: number;           // Max vote power per voter for linear-capped (prevents whale dominance)
   voteCooldown: number;           // Time between vote changes in ms
-  epochDuration: number;          // Voting epoch duration
+  epochLength: number;            // Voting epoch length in blocks
+  powerStrategy: string;          // Name in VOTING_POWER_STRATEGIES
 }
 
 export const DEFAULT_VOTING_CONFIG: VotingConfig = {
   maxVotesPerAddress: 10,         // Can vote for up to 10 validators
   votePowerCap: 10000,            // Max 10,000 VIBE voting power
   voteCooldown: 60 * 60 * 1000,   // 1 hour cooldown between changes
-  epochDuration: 24 * 60 * 60 * 1000 // 24 hours
+  epochLength: 8640,              // 24 hours of 10 second blocks
+  powerStrategy: 'contribution-boosted'
 };
 
 export class VotingManager {
@@ -36,22 +66,36 @@ export class VotingManager {
   private validatorVotes: Map<string, number> = new Map();
   private config: VotingConfig;
   private currentEpoch: number = 0;
-  private epochStartTime: number = Date.now();
+  private epochStartHeight: number = 0;
 
   constructor(config: Partial<VotingConfig> = {}) {
     this.config = { ...DEFAULT_VOTING_CONFIG, ...config };
+    if (!VOTING_POWER_STRATEGIES[this.config.powerStrategy]) {
+      throw new Error(`Unknown voting power strategy: ${this.config.powerStrategy}`);
+    }
+  }
+
+  /**
+   * Voting power of on-chain stake under the configured strategy
+   */
+  calculateVotingPower(input: VotingPowerInput): number {
+    return VOTING_POWER_STRATEGIES[this.config.powerStrategy](input, this.config);
   }
 
   /**
    * Cast votes for validators
    * @param voter Address of the voter
-   * @param votingPower The voter's VIBE balance/stake
+   * @param power The voter's on-chain stake and contribution score
    * @param validators Array of validator addresses to vote for
+   * @param now Time of the vote (the block timestamp for on-chain votes)
+   * @param weights Relative weight per validator (equal split when omitted)
    */
   vote(
     voter: string,
-    votingPower: number,
-    validators: string[]
+    power: VotingPowerInput,
+    validators: string[],
+    now: number = Date.now(),
+    weights?: number[]
   ): { success: boolean; error?: string } {
     if (validators.length > this.config.maxVotesPerAddress) {
       return {
@@ -70,7 +114,15 @@ export class VotingManager {
       return { success: false, error: 'Duplicate validators in vote' };
     }
 
-    const now = Date.now();
+    if (weights && (weights.length !== validators.length || weights.some(w => !Number.isFinite(w) || w <= 0))) {
+      return { success: false, error: 'Vote weights must be positive numbers, one per validator' };
+    }
+
+    const votingPower = this.calculateVotingPower(power);
+    if (!(votingPower > 0)) {
+      return { success: false, error: 'No voting power: stake or delegate VIBE to vote' };
+    }
+
     const existingRecord = this.votes.get(voter);
 
     // Check cooldown
@@ -84,13 +136,31 @@ export class VotingManager {
       };
     }
 
-    // Cap voting power to prevent whale dominance
-    const cappedPower = Math.min(votingPower, this.config.votePowerCap);
+    // Share of the power per validator (equal distribution by default)
+    const totalWeight = weights ? weights.reduce((sum, w) => sum + w, 0) : validators.length;
+    const shares = new Map<string, number>();
+    validators.forEach((validator, i) => shares.set(validator, (weights ? weights[i] : 1) / totalWeight));
+
+    this.setVotes(voter, shares, votingPower, now);
+    return { success: true };
+  }
 
-    // Calculate vote weight per validator (equal distribution)
-    const weightPerValidator = cappedPower / validators.length;
+  /**
+   * Recompute the weights of a voter's votes after its stake changed (no cooldown)
+   */
+  updateVotingPower(voter: string, power: VotingPowerInput): void {
+    const record = this.votes.get(voter);
+    if (!record) return;
 
+    this.setVotes(voter, record.shares, this.calculateVotingPower(power), record.lastVoted);
+  }
+
+  /**
+   * Replace a voter's votes, keeping the per-validator totals in step
+   */
+  private setVotes(voter: string, shares: Map<string, number>, votingPower: number, lastVoted: number): void {
     // Remove old votes if they exist
+    const existingRecord = this.votes.get(voter);
     if (existingRecord) {
       for (const [validator, weight] of existingRecord.votes) {
         const currentVotes = this.validatorVotes.get(validator) || 0;
@@ -100,20 +170,20 @@ export class VotingManager {
 
     // Create new vote record
     const newVotes = new Map<string, number>();
-    for (const validator of validators) {
-      newVotes.set(validator, weightPerValidator);
+    for (const [validator, share] of shares) {
+      const weight = votingPower * share;
+      newVotes.set(validator, weight);
       const currentVotes = this.validatorVotes.get(validator) || 0;
-      this.validatorVotes.set(validator, currentVotes + weightPerValidator);
+      this.validatorVotes.set(validator, currentVotes + weight);
     }
 
     this.votes.set(voter, {
       voter,
       votes: newVotes,
-      totalVotingPower: cappedPower,
-      lastVoted: now
+      shares: new Map(shares),
+      totalVotingPower: votingPower,
+      lastVoted
     });
-
-    return { success: true };
   }
 
   /**
@@ -175,33 +245,30 @@ export class VotingManager {
   }
 
   /**
-   * Check if epoch needs rotation
+   * Check if the block at a height starts a new epoch, and rotate if so
    */
-  checkEpochRotation(): boolean {
-    const now = Date.now();
-    if (now - this.epochStartTime >= this.config.epochDuration) {
-      this.currentEpoch++;
-      this.epochStartTime = now;
+  checkEpochRotation(height: number): boolean {
+    const epoch = Math.floor(height / this.config.epochLength);
+    if (epoch > this.currentEpoch) {
+      this.currentEpoch = epoch;
+      this.epochStartHeight = height;
       return true;
     }
     return false;
   }
 
   /**
-   * Get current epoch info
+   * Get current epoch info (heights)
    */
   getEpochInfo(): {
     epoch: number;
-    startTime: number;
-    endTime: number;
-    remainingTime: number;
+    startHeight: number;
+    endHeight: number;
   } {
-    const endTime = this.epochStartTime + this.config.epochDuration;
     return {
       epoch: this.currentEpoch,
-      startTime: this.epochStartTime,
-      endTime,
-      remainingTime: Math.max(0, endTime - Date.now())
+      startHeight: this.epochStartHeight,
+      endHeight: (this.currentEpoch + 1) * this.config.epochLength - 1
     };
   }
 
@@ -214,9 +281,7 @@ export class VotingManager {
       totalVoters: this.votes.size,
       totalValidatorsWithVotes: this.validatorVotes.size,
       currentEpoch: this.currentEpoch,
-      epochRemainingHours: Math.round(
-        (this.epochStartTime + this.config.epochDuration - Date.now()) / 3600000
-      ),
+      epochEndHeight: this.getEpochInfo().endHeight,
       topValidators: topValidators.map(v => ({
         address: v.validator.substring(0, 16) + '...',
         votes: Math.round(v.votes)
@@ -228,14 +293,21 @@ export class VotingManager {
    * Export votes for persistence
    */
   exportVotes(): {
-    votes: Array<{ voter: string; votes: [string, number][]; totalVotingPower: number; lastVoted: number }>;
+    votes: Array<{
+      voter: string;
+      votes: [string, number][];
+      shares: [string, number][];
+      totalVotingPower: number;
+      lastVoted: number;
+    }>;
     validatorVotes: [string, number][];
     epoch: number;
-    epochStartTime: number;
+    epochStartHeight: number;
   } {
     const votesArray = Array.from(this.votes.values()).map(record => ({
       voter: record.voter,
       votes: Array.from(record.votes.entries()),
+      shares: Array.from(record.shares.entries()),
       totalVotingPower: record.totalVotingPower,
       lastVoted: record.lastVoted
     }));
@@ -244,7 +316,7 @@ export class VotingManager {
       votes: votesArray,
       validatorVotes: Array.from(this.validatorVotes.entries()),
       epoch: this.currentEpoch,
-      epochStartTime: this.epochStartTime
+      epochStartHeight: this.epochStartHeight
     };
   }
 
@@ -252,18 +324,27 @@ export class VotingManager {
    * Import votes from persistence
    */
   importVotes(data: {
-    votes: Array<{ voter: string; votes: [string, number][]; totalVotingPower: number; lastVoted: number }>;
+    votes: Array<{
+      voter: string;
+      votes: [string, number][];
+      shares?: [string, number][];
+      totalVotingPower: number;
+      lastVoted: number;
+    }>;
     validatorVotes: [string, number][];
     epoch: number;
-    epochStartTime: number;
+    epochStartHeight?: number;
   }): void {
     this.votes.clear();
     this.validatorVotes.clear();
 
     for (const record of data.votes) {
+      // Votes saved before custom weights were equal splits
+      const shares = record.shares ?? record.votes.map(([validator]): [string, number] => [validator, 1 / record.votes.length]);
       this.votes.set(record.voter, {
         voter: record.voter,
         votes: new Map(record.votes),
+        shares: new Map(shares),
         totalVotingPower: record.totalVotingPower,
         lastVoted: record.lastVoted
       });
@@ -274,6 +355,6 @@ export class VotingManager {
     }
 
     this.currentEpoch = data.epoch;
-    this.epochStartTime = data.epochStartTime;
+    this.epochStartHeight = data.epochStartHeight ?? 0;
   }
 }
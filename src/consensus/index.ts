@@ -3,7 +3,70 @@
  * Proof of Vibe (PoV) - Hybrid PoS + DPoS + Reputation
  */
 
-export { ProofOfVibe, PoVConfig, DEFAULT_POV_CONFIG } from './ProofOfVibe';
-export { StakingManager, StakeInfo, StakingConfig, DEFAULT_STAKING_CONFIG } from './Staking';
-export { VotingManager, Vote, VoteRecord, VotingConfig, DEFAULT_VOTING_CONFIG } from './Voting';
-export { ValidatorManager, ValidatorInfo, ValidatorPerformance, VibeScore } from './Validator';
+export { ProofOfVibe, PoVConfig, GenesisValidator, DEFAULT_POV_CONFIG, UnjailRequest } from './ProofOfVibe';
+export { PoVConsensus, ConsensusSnapshot, SavedConsensusState, SNAPSHOT_CONFIG } from './PoVConsensus';
+export { EvidencePool, EVIDENCE_CONFIG, DoubleSignEvidence, SignedHeader } from './Evidence';
+export {
+  ValidatorRegistration,
+  ValidatorUpdate,
+  Ballot,
+  encodeVote,
+  decodeVote,
+  encodeRegistration,
+  decodeRegistration,
+  encodeValidatorUpdate,
+  decodeValidatorUpdate,
+  encodeProposal,
+  decodeProposal,
+  decodeProposalId,
+  encodeProposalVote,
+  decodeProposalVote,
+  encodeAttestation,
+  decodeAttestation
+} from './StakingTransactions';
+export { RewardManager, REWARD_CONFIG } from './Rewards';
+export {
+  GovernanceManager,
+  GOVERNANCE_CONFIG,
+  PROPOSAL_TYPES,
+  VOTE_OPTIONS,
+  Proposal,
+  ProposalDraft,
+  ProposalType,
+  ProposalStatus,
+  Chamber,
+  ChamberTally,
+  VoteOption,
+  Electorate,
+  GovernanceOutcome
+} from './Governance';
+export {
+  ContributionManager,
+  CONTRIBUTION_CONFIG,
+  ContributionAward,
+  ContributionRecord
+} from './Contributions';
+export { StakingManager, StakeInfo, Delegation, UnbondingEntry, StakingConfig, DEFAULT_STAKING_CONFIG } from './Staking';
+export {
+  VotingManager,
+  Vote,
+  VoteRecord,
+  VotingConfig,
+  VotingPowerInput,
+  VotingPowerStrategy,
+  DEFAULT_VOTING_CONFIG,
+  VOTING_POWER_STRATEGIES
+} from './Voting';
+export {
+  ValidatorManager,
+  ValidatorInfo,
+  ValidatorPerformance,
+  SlotRecord,
+  PerformanceHistory,
+  LeaderboardSort,
+  LEADERBOARD_SORTS,
+  VibeScore,
+  JAIL_CONFIG,
+  COMMISSION_CONFIG,
+  PERFORMANCE_CONFIG
+} from './Validator';
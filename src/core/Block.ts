@@ -1,5 +1,11 @@
 import * as crypto from 'crypto';
+import { ec as EC } from 'elliptic';
 import { Transaction } from './Transaction';
+import { INITIAL_BITS, hashMeetsTarget } from './Difficulty';
+import { DoubleSignEvidence, SignedHeader } from '../consensus/Evidence';
+import { UnjailRequest } from '../consensus/ProofOfVibe';
+
+const ec = new EC('secp256k1');
 
 export type ConsensusType = 'PoW' | 'PoV';
 
@@ -12,10 +18,11 @@ export class Block {
   public index: number;
   public timestamp: number;
   public transactions: Transaction[];
+  public merkleRoot: string;        // Merkle root of transaction IDs
   public previousHash: string;
   public hash: string;
   public nonce: number;
-  public difficulty: number;
+  public difficulty: number;        // Compact target (bits) the hash must meet
   public miner: string;
 
   // Proof of Vibe fields
@@ -25,18 +32,22 @@ export class Block {
   public vibeScore: number;         // Validator's vibe score when block was produced
   public signature: string;         // Validator's signature (PoV)
   public epoch: number;             // Epoch number (PoV)
+  public validatorSet: string[];    // Validator set elected for the epoch (PoV epoch boundary blocks)
+  public evidence: DoubleSignEvidence[];  // Double-sign evidence to slash (PoV)
+  public unjails: UnjailRequest[];        // Jailed validators rejoining the active set (PoV)
 
   constructor(
     index: number,
     transactions: Transaction[],
     previousHash: string,
-    difficulty: number = 4,
+    difficulty: number = INITIAL_BITS,
     miner: string = '',
     consensusType: ConsensusType = 'PoW'
   ) {
     this.index = index;
     this.timestamp = Date.now();
     this.transactions = transactions;
+    this.merkleRoot = Block.calculateMerkleRoot(transactions.map(tx => tx.id));
     this.previousHash = previousHash;
     this.difficulty = difficulty;
     this.miner = miner;
@@ -47,40 +58,189 @@ export class Block {
     this.vibeScore = 0;
     this.signature = '';
     this.epoch = 0;
+    this.validatorSet = [];
+    this.evidence = [];
+    this.unjails = [];
     this.hash = this.calculateHash();
   }
 
   /**
    * Calculate the SHA-256 hash of the block
+   * Transactions are committed through the merkle root, and a PoV block's
+   * hash also commits to the validator signature
    */
   calculateHash(): string {
-    const data = JSON.stringify({
+    const signingHash = this.calculateSigningHash();
+    if (this.consensusType !== 'PoV') {
+      return signingHash;
+    }
+
+    return crypto.createHash('sha256').update(signingHash + this.signature).digest('hex');
+  }
+
+  /**
+   * Hash of the header without the signature - what a PoV validator signs
+   */
+  calculateSigningHash(): string {
+    const data = JSON.stringify(this.getHashData());
+
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  /**
+   * Fields hashed by calculateHash, in hashing order
+   * External miners hash JSON.stringify of this object with their own nonce
+   * The validator set of an epoch boundary block is part of the header; evidence and
+   * unjail requests are committed through evidenceRoot and unjailRoot. All three are
+   * present only when the block carries them
+   */
+  getHashData(): object {
+    return {
       index: this.index,
       timestamp: this.timestamp,
-      transactions: this.transactions.map(tx => tx.toJSON()),
+      merkleRoot: this.merkleRoot,
       previousHash: this.previousHash,
       nonce: this.nonce,
+      difficulty: this.difficulty,
       miner: this.miner,
       consensusType: this.consensusType,
       validator: this.validator,
       vibeScore: this.vibeScore,
-      epoch: this.epoch
-    });
+      epoch: this.epoch,
+      ...(this.validatorSet.length > 0 ? { validatorSet: this.validatorSet } : {}),
+      ...(this.evidence.length > 0 ? { evidenceRoot: Block.calculateEvidenceRoot(this.evidence) } : {}),
+      ...(this.unjails.length > 0 ? { unjailRoot: Block.calculateUnjailRoot(this.unjails) } : {})
+    };
+  }
 
-    return crypto.createHash('sha256').update(data).digest('hex');
+  /**
+   * Signed header: the hashed fields plus the validator signature (double-sign evidence)
+   */
+  getSignedHeader(): SignedHeader {
+    return { ...this.getHashData(), signature: this.signature } as SignedHeader;
   }
 
   /**
-   * Mine the block - Find a nonce that produces a hash with required difficulty
-   * Difficulty = number of leading zeros required
+   * Commitment to the evidence carried by a block
    */
-  mine(): void {
-    const target = '0'.repeat(this.difficulty);
+  static calculateEvidenceRoot(evidence: DoubleSignEvidence[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(evidence)).digest('hex');
+  }
+
+  /**
+   * Commitment to the unjail requests carried by a block
+   */
+  static calculateUnjailRoot(unjails: UnjailRequest[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(unjails)).digest('hex');
+  }
+
+  /**
+   * Calculate the merkle root of a list of transaction IDs
+   * Odd levels duplicate their last hash, like Bitcoin
+   */
+  static calculateMerkleRoot(txIds: string[]): string {
+    if (txIds.length === 0) return '0'.repeat(64);
+
+    let level = txIds;
+    while (level.length > 1) {
+      level = Block.nextMerkleLevel(level);
+    }
+
+    return level[0];
+  }
+
+  /**
+   * Hash pairs of a merkle tree level into the level above it
+   */
+  private static nextMerkleLevel(level: string[]): string[] {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1] || left;
+      next.push(crypto.createHash('sha256').update(left + right).digest('hex'));
+    }
+    return next;
+  }
+
+  /**
+   * Build the merkle proof (sibling hashes from leaf to root) for a transaction
+   */
+  getMerkleProof(txIndex: number): string[] {
+    if (txIndex < 0 || txIndex >= this.transactions.length) {
+      throw new Error(`Transaction index ${txIndex} out of range`);
+    }
+
+    const proof: string[] = [];
+    let level = this.transactions.map(tx => tx.id);
+    let index = txIndex;
+
+    while (level.length > 1) {
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+      proof.push(level[siblingIndex] || level[index]);
+      level = Block.nextMerkleLevel(level);
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+
+  /**
+   * Verify that a transaction ID is included under a merkle root
+   */
+  static verifyMerkleProof(txId: string, txIndex: number, proof: string[], merkleRoot: string): boolean {
+    let hash = txId;
+    let index = txIndex;
+
+    for (const sibling of proof) {
+      const data = index % 2 === 0 ? hash + sibling : sibling + hash;
+      hash = crypto.createHash('sha256').update(data).digest('hex');
+      index = Math.floor(index / 2);
+    }
 
+    return index === 0 && hash === merkleRoot;
+  }
+
+  /**
+   * Build an SPV inclusion proof for a transaction of this block
+   */
+  getTransactionProof(txId: string): {
+    txId: string;
+    blockHash: string;
+    blockIndex: number;
+    merkleProof: string[];
+    txIndex: number;
+  } | null {
+    const txIndex = this.transactions.findIndex(tx => tx.id === txId);
+    if (txIndex === -1) return null;
+
+    return {
+      txId,
+      blockHash: this.hash,
+      blockIndex: this.index,
+      merkleProof: this.getMerkleProof(txIndex),
+      txIndex
+    };
+  }
+
+  /**
+   * Check that the merkle root matches the transactions and their IDs match their contents
+   */
+  hasValidMerkleRoot(): boolean {
+    if (this.transactions.some(tx => tx.id !== tx.calculateId())) {
+      return false;
+    }
+    return this.merkleRoot === Block.calculateMerkleRoot(this.transactions.map(tx => tx.id));
+  }
+
+  /**
+   * Mine the block - Find a nonce that produces a hash below the target
+   * encoded by the block's compact difficulty bits
+   */
+  mine(): void {
     console.log(`⛏️  Mining block ${this.index}...`);
     const startTime = Date.now();
 
-    while (this.hash.substring(0, this.difficulty) !== target) {
+    while (!hashMeetsTarget(this.hash, this.difficulty)) {
       this.nonce++;
       this.hash = this.calculateHash();
 
@@ -108,19 +268,22 @@ export class Block {
       return false;
     }
 
+    // Transactions must match the committed merkle root
+    if (!this.hasValidMerkleRoot()) {
+      return false;
+    }
+
     // Consensus-specific validation
     if (this.consensusType === 'PoW') {
       // Check if hash meets difficulty requirement
-      const target = '0'.repeat(this.difficulty);
-      if (this.hash.substring(0, this.difficulty) !== target) {
+      if (!hashMeetsTarget(this.hash, this.difficulty)) {
         return false;
       }
     } else if (this.consensusType === 'PoV') {
-      // For PoV, check that validator is set
-      if (!this.validator) {
+      // For PoV, the named validator must have signed the block
+      if (!this.hasValidSignature()) {
         return false;
       }
-      // Note: Signature verification would be done by the consensus layer
     }
 
     // Validate all transactions
@@ -151,10 +314,34 @@ export class Block {
   }
 
   /**
-   * Sign the block (for PoV)
+   * Sign the block with the validator's private key (for PoV)
+   * Call after setValidator; the hash is recomputed to commit to the signature
+   */
+  sign(privateKey: string): void {
+    const keyPair = ec.keyFromPrivate(privateKey, 'hex');
+
+    // Only the named validator can sign
+    if (!this.validator || keyPair.getPublic('hex') !== this.validator) {
+      throw new Error('Cannot sign block for another validator!');
+    }
+
+    this.signature = keyPair.sign(this.calculateSigningHash()).toDER('hex');
+    this.hash = this.calculateHash();
+  }
+
+  /**
+   * Verify the validator's secp256k1 signature over the signing hash
    */
-  sign(signature: string): void {
-    this.signature = signature;
+  hasValidSignature(): boolean {
+    if (!this.validator || !this.signature) {
+      return false;
+    }
+
+    try {
+      return ec.keyFromPublic(this.validator, 'hex').verify(this.calculateSigningHash(), this.signature);
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -186,6 +373,7 @@ export class Block {
       index: this.index,
       timestamp: this.timestamp,
       transactions: this.transactions.map(tx => tx.toJSON()),
+      merkleRoot: this.merkleRoot,
       previousHash: this.previousHash,
       hash: this.hash,
       nonce: this.nonce,
@@ -196,7 +384,37 @@ export class Block {
       validatorName: this.validatorName,
       vibeScore: this.vibeScore,
       signature: this.signature,
-      epoch: this.epoch
+      epoch: this.epoch,
+      validatorSet: this.validatorSet,
+      evidence: this.evidence,
+      unjails: this.unjails
+    };
+  }
+
+  /**
+   * Get block as human-readable JSON (transaction amounts in VIBE) for API responses
+   */
+  toDisplayJSON(): object {
+    return {
+      ...this.toJSON(),
+      transactions: this.transactions.map(tx => tx.toDisplayJSON())
+    };
+  }
+
+  /**
+   * Get the block header (what light nodes store)
+   */
+  getHeader(): object {
+    return {
+      index: this.index,
+      timestamp: this.timestamp,
+      previousHash: this.previousHash,
+      hash: this.hash,
+      merkleRoot: this.merkleRoot,
+      difficulty: this.difficulty,
+      nonce: this.nonce,
+      transactionCount: this.transactions.length,
+      ...(this.validatorSet.length > 0 ? { validatorSet: this.validatorSet } : {})
     };
   }
 
@@ -213,6 +431,7 @@ export class Block {
       data.consensusType || 'PoW'
     );
     block.timestamp = data.timestamp;
+    block.merkleRoot = data.merkleRoot || block.merkleRoot;
     block.nonce = data.nonce;
     block.hash = data.hash;
     // PoV fields
@@ -221,6 +440,9 @@ export class Block {
     block.vibeScore = data.vibeScore || 0;
     block.signature = data.signature || '';
     block.epoch = data.epoch || 0;
+    block.validatorSet = data.validatorSet || [];
+    block.evidence = data.evidence || [];
+    block.unjails = data.unjails || [];
     return block;
   }
 
@@ -228,15 +450,20 @@ export class Block {
    * Create the genesis block (first block of the chain)
    */
   static createGenesis(): Block {
+    const genesisTime = 1704067200000; // Jan 1, 2024 00:00:00 UTC
     const genesisTransaction = new Transaction(
       'GENESIS',
       'GENESIS',
-      0,
-      'The VibeCoin Genesis Block - Code with vibes!'
+      0n,
+      'The VibeCoin Genesis Block - Code with vibes!',
+      0n
     );
+    // Every node must derive the exact same genesis to share a common ancestor
+    genesisTransaction.timestamp = genesisTime;
+    genesisTransaction.id = genesisTransaction.calculateId();
 
-    const genesis = new Block(0, [genesisTransaction], '0', 1);
-    genesis.timestamp = 1704067200000; // Jan 1, 2024 00:00:00 UTC
+    const genesis = new Block(0, [genesisTransaction], '0', INITIAL_BITS);
+    genesis.timestamp = genesisTime;
     genesis.hash = genesis.calculateHash();
 
     return genesis;
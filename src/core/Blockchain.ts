@@ -1,14 +1,19 @@
-import { Block } from './Block';
+import { Block, ConsensusType } from './Block';
 import { Transaction } from './Transaction';
+import { WorldState, SlashRecord } from './WorldState';
+import { Mempool } from './Mempool';
+import { INITIAL_BITS, retarget, getDifficulty, getWork } from './Difficulty';
+import { DECIMALS, toBaseUnits, fromBaseUnits, formatVibe, parseAmount } from './Units';
 
 /**
  * VibeCoin Blockchain Configuration
+ * Amounts are expressed in VIBE here and converted to base units where used
  */
 export const BLOCKCHAIN_CONFIG = {
   // Token info
   NAME: 'VibeCoin',
   SYMBOL: 'VIBE',
-  DECIMALS: 8,
+  DECIMALS,
 
   // Supply
   MAX_SUPPLY: 21_000_000,
@@ -16,31 +21,56 @@ export const BLOCKCHAIN_CONFIG = {
   HALVING_INTERVAL: 210_000, // blocks
 
   // Mining
-  INITIAL_DIFFICULTY: 4,
+  INITIAL_DIFFICULTY: INITIAL_BITS, // compact target, see Difficulty.ts
   BLOCK_TIME_TARGET: 10_000, // 10 seconds in ms
   DIFFICULTY_ADJUSTMENT_INTERVAL: 10, // blocks
 
   // Transactions
-  MIN_FEE: 0.001,
+  MIN_FEE: 0.001, // Enforced by the mempool
   MAX_TRANSACTIONS_PER_BLOCK: 100,
-  MAX_PENDING_TRANSACTIONS: 1000 // Limit mempool size
+  MAX_PENDING_TRANSACTIONS: 1000 // Limit mempool size (cheapest transactions are evicted)
 };
 
+/**
+ * Extra block rules of a consensus other than proof of work (see consensus/PoVConsensus.ts)
+ */
+export interface ConsensusRules {
+  validateBlock(block: Block, previousBlock: Block): { valid: boolean; error?: string };
+  validateTransaction(transaction: Transaction): { valid: boolean; error?: string };
+  blockConnected(block: Block): void;
+  blockDisconnected(block: Block): void;   // Called after the block left the chain (reorg)
+}
+
 /**
  * Blockchain - The main chain that holds all blocks
  * Manages mining, validation, and consensus
  */
 export class Blockchain {
   public chain: Block[];
-  public difficulty: number;
-  public pendingTransactions: Transaction[];
-  public miningReward: number;
+  public difficulty: number;   // Compact target (bits) required for the next block
+  public mempool: Mempool;
+  public miningReward: bigint;
+  public state: WorldState;
+  public consensusType: ConsensusType = 'PoW';
+  public consensus: ConsensusRules | null = null;
+  private heldTransactions: Transaction[] = [];   // Restored before the consensus was attached
 
   constructor() {
     this.chain = [Block.createGenesis()];
     this.difficulty = BLOCKCHAIN_CONFIG.INITIAL_DIFFICULTY;
-    this.pendingTransactions = [];
-    this.miningReward = BLOCKCHAIN_CONFIG.INITIAL_REWARD;
+    this.mempool = Blockchain.createMempool();
+    this.miningReward = toBaseUnits(BLOCKCHAIN_CONFIG.INITIAL_REWARD);
+    this.state = WorldState.fromChain(this.chain);
+  }
+
+  /**
+   * Create an empty mempool with the chain's size and fee limits
+   */
+  static createMempool(): Mempool {
+    return new Mempool({
+      maxSize: BLOCKCHAIN_CONFIG.MAX_PENDING_TRANSACTIONS,
+      minFee: toBaseUnits(BLOCKCHAIN_CONFIG.MIN_FEE)
+    });
   }
 
   /**
@@ -74,169 +104,313 @@ export class Blockchain {
       return false;
     }
 
+    // Rewards are paid by the block that creates them, never from the pool
+    if (transaction.isCoinbase()) {
+      console.log('❌ Reward transactions are only created in block templates');
+      return false;
+    }
+
     if (!transaction.isValid()) {
       console.log('❌ Invalid transaction signature');
       return false;
     }
 
-    // Check sender balance (except for coinbase)
-    if (!transaction.isCoinbase()) {
-      const balance = this.getBalance(transaction.from);
-      if (balance < transaction.getTotalCost()) {
-        console.log(`❌ Insufficient balance. Has: ${balance}, Needs: ${transaction.getTotalCost()}`);
+    // Amount and recipient must fit the transaction type
+    const typeError = transaction.getTypeError();
+    if (typeError) {
+      console.log(`❌ ${typeError}`);
+      return false;
+    }
+
+    // Staking transactions must be executable by the consensus
+    if (transaction.isStaking()) {
+      const check = this.consensus
+        ? this.consensus.validateTransaction(transaction)
+        : { valid: false, error: 'Staking transactions require Proof of Vibe consensus' };
+      if (!check.valid) {
+        console.log(`❌ Invalid ${transaction.type} transaction: ${check.error}`);
         return false;
       }
     }
 
-    // Check for double spending in pending transactions
-    const pendingAmount = this.getPendingBalance(transaction.from);
-    const totalPending = pendingAmount + transaction.getTotalCost();
+    // A pending transaction with the same nonce is a replace-by-fee candidate
+    const replacing = this.mempool.findByNonce(transaction.from, transaction.nonce);
+
+    // Check sender nonce - must be the next unused sequence number for the account
+    if (!replacing) {
+      const expectedNonce = this.getNextNonce(transaction.from);
+      if (transaction.nonce !== expectedNonce) {
+        console.log(`❌ Invalid nonce. Expected: ${expectedNonce}, Got: ${transaction.nonce}`);
+        return false;
+      }
+    }
+
+    // Check sender balance
     const balance = this.getBalance(transaction.from);
+    if (balance < transaction.getTotalCost()) {
+      console.log(`❌ Insufficient balance. Has: ${formatVibe(balance)}, Needs: ${formatVibe(transaction.getTotalCost())}`);
+      return false;
+    }
 
-    if (!transaction.isCoinbase() && totalPending > balance) {
+    // Check for double spending in pending transactions (a replaced transaction no longer counts)
+    const pendingAmount = this.getPendingBalance(transaction.from) - (replacing?.getTotalCost() || 0n);
+    const totalPending = pendingAmount + transaction.getTotalCost();
+
+    if (totalPending > balance) {
       console.log('❌ Double spending detected in pending transactions');
       return false;
     }
 
-    // Check mempool size limit
-    if (this.pendingTransactions.length >= BLOCKCHAIN_CONFIG.MAX_PENDING_TRANSACTIONS) {
-      console.log('❌ Transaction pool is full. Please wait for next block.');
+    // Pool policy: minimum fee, per-sender limit, eviction when full, replace-by-fee
+    const result = this.mempool.add(transaction);
+    if (!result.success) {
+      console.log(`❌ ${result.error}`);
       return false;
     }
 
-    this.pendingTransactions.push(transaction);
     console.log(`✅ Transaction added to pending pool: ${transaction.toString()}`);
     return true;
   }
 
   /**
-   * Mine pending transactions into a new block
+   * Run the chain under a consensus other than proof of work, then admit the
+   * pending transactions held until its rules were known
    */
-  minePendingTransactions(minerAddress: string): Block {
+  setConsensus(type: ConsensusType, consensus: ConsensusRules): void {
+    this.consensusType = type;
+    this.consensus = consensus;
+
+    const held = this.heldTransactions;
+    this.heldTransactions = [];
+    for (const tx of held) {
+      this.addTransaction(tx);
+    }
+  }
+
+  /**
+   * Re-admit saved pending transactions (restart); without a consensus yet, staking
+   * transactions and the later ones of their senders are held until setConsensus
+   */
+  restorePendingTransactions(transactions: Transaction[]): void {
+    const holding = new Set<string>();
+    for (const tx of transactions) {
+      if (!this.consensus && (tx.isStaking() || holding.has(tx.from))) {
+        holding.add(tx.from);
+        this.heldTransactions.push(tx);
+        continue;
+      }
+      this.addTransaction(tx);
+    }
+  }
+
+  /**
+   * Build an unmined block on top of the current tip from the mempool
+   */
+  createBlockTemplate(minerAddress: string): Block {
     // Create coinbase transaction (mining reward)
     const rewardTx = Transaction.createCoinbase(minerAddress, this.miningReward);
 
-    // Get transactions to include (limited by max per block)
+    // Get transactions to include (highest fee rate first, limited by max per block)
     const transactions = [
       rewardTx,
-      ...this.pendingTransactions.slice(0, BLOCKCHAIN_CONFIG.MAX_TRANSACTIONS_PER_BLOCK - 1)
+      ...this.mempool.selectTransactions(BLOCKCHAIN_CONFIG.MAX_TRANSACTIONS_PER_BLOCK - 1)
     ];
 
     // Calculate total fees for miner
     const totalFees = transactions
       .filter(tx => !tx.isCoinbase())
-      .reduce((sum, tx) => sum + tx.fee, 0);
+      .reduce((sum, tx) => sum + tx.fee, 0n);
 
     // Add fees to reward transaction
     rewardTx.amount += totalFees;
+    rewardTx.id = rewardTx.calculateId();
 
-    // Create new block
-    const block = new Block(
+    return new Block(
       this.chain.length,
       transactions,
       this.getLatestBlock().hash,
       this.difficulty,
       minerAddress
     );
+  }
+
+  /**
+   * Mine pending transactions into a new block (blocking, on the calling thread)
+   */
+  minePendingTransactions(minerAddress: string): Block {
+    const block = this.createBlockTemplate(minerAddress);
 
     // Mine the block
     block.mine();
 
+    this.addMinedBlock(block);
+    return block;
+  }
+
+  /**
+   * Append a block mined from one of our templates
+   * Returns false if the tip moved while it was being mined
+   */
+  addMinedBlock(block: Block): boolean {
+    if (block.previousHash !== this.getLatestBlock().hash) {
+      console.log(`⚠️  Mined block ${block.index} is stale (tip moved), discarding`);
+      return false;
+    }
+
     // Add block to chain
-    this.chain.push(block);
+    this.addBlock(block);
 
     // Remove mined transactions from pending pool
-    const minedTxIds = new Set(transactions.map(tx => tx.id));
-    this.pendingTransactions = this.pendingTransactions.filter(
-      tx => !minedTxIds.has(tx.id)
-    );
+    this.mempool.removeConfirmed(block.transactions, address => this.getNonce(address));
+
+    console.log(`\n🎉 Block ${block.index} added to blockchain!`);
+    console.log(`   Transactions: ${block.transactions.length}`);
+    console.log(`   Miner reward: ${formatVibe(block.transactions[0].amount)} VIBE\n`);
+
+    return true;
+  }
+
+  /**
+   * Append an already validated block and apply it to the world state
+   */
+  addBlock(block: Block): void {
+    this.state.applyBlock(block);
+    this.chain.push(block);
+    this.consensus?.blockConnected(block);
 
     // Adjust difficulty if needed
     this.adjustDifficulty();
 
     // Check for halving
     this.checkHalving();
+  }
 
-    console.log(`\n🎉 Block ${block.index} added to blockchain!`);
-    console.log(`   Transactions: ${transactions.length}`);
-    console.log(`   Miner reward: ${rewardTx.amount} VIBE\n`);
+  /**
+   * Remove the tip block and undo its effect on the world state (chain reorganization)
+   */
+  disconnectTip(): Block {
+    if (this.chain.length <= 1) {
+      throw new Error('Cannot disconnect the genesis block');
+    }
+
+    const block = this.chain.pop()!;
+    this.state.revertBlock(block);
+    this.consensus?.blockDisconnected(block);
+
+    this.adjustDifficulty();
+    this.checkHalving();
 
     return block;
   }
 
   /**
-   * Get balance of an address
+   * Cumulative proof of work of a chain up to (and including) a height
    */
-  getBalance(address: string): number {
-    let balance = 0;
-
-    for (const block of this.chain) {
-      for (const tx of block.transactions) {
-        if (tx.from === address) {
-          balance -= tx.amount + tx.fee;
-        }
-        if (tx.to === address) {
-          balance += tx.amount;
-        }
-      }
+  static getChainWork(chain: Block[], upToIndex: number = chain.length - 1): bigint {
+    let work = 0n;
+    for (let i = 0; i <= upToIndex && i < chain.length; i++) {
+      work += getWork(chain[i].difficulty);
     }
+    return work;
+  }
 
-    return balance;
+  /**
+   * Rebuild the world state by replaying the whole chain
+   * Needed whenever the chain array is replaced or loaded; stake slashed in its
+   * blocks is burned again from the journal (of the current state by default)
+   */
+  rebuildState(slashes: Map<string, SlashRecord[]> = this.state.getSlashes()): void {
+    this.state = WorldState.fromChain(this.chain, slashes);
+  }
+
+  /**
+   * Get balance of an address
+   */
+  getBalance(address: string): bigint {
+    return this.state.getBalance(address);
+  }
+
+  /**
+   * Get VIBE of an address locked by staking transactions (not spendable)
+   */
+  getLockedBalance(address: string): bigint {
+    return this.state.getLocked(address);
   }
 
   /**
    * Get pending balance (transactions waiting to be mined)
    */
-  getPendingBalance(address: string): number {
-    let pending = 0;
+  getPendingBalance(address: string): bigint {
+    return this.mempool.getBySender(address)
+      .reduce((sum, tx) => sum + tx.getTotalCost(), 0n);
+  }
 
-    for (const tx of this.pendingTransactions) {
-      if (tx.from === address) {
-        pending += tx.getTotalCost();
-      }
-    }
+  /**
+   * Get confirmed nonce of an address (number of transactions it has sent)
+   */
+  getNonce(address: string): number {
+    return this.state.getNonce(address);
+  }
 
-    return pending;
+  /**
+   * Get the nonce the next transaction from an address must use
+   * (confirmed nonce + transactions already waiting in the pending pool)
+   */
+  getNextNonce(address: string): number {
+    return this.getNonce(address) + this.mempool.getSenderCount(address);
   }
 
   /**
    * Get all transactions for an address
    */
   getTransactionHistory(address: string): Transaction[] {
-    const history: Transaction[] = [];
+    const history = this.state.getHistory(address)
+      .map(([blockIndex, txIndex]) => this.chain[blockIndex].transactions[txIndex]);
 
-    for (const block of this.chain) {
-      for (const tx of block.transactions) {
-        if (tx.from === address || tx.to === address) {
-          history.push(tx);
-        }
-      }
+    return history.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Compute the difficulty (compact bits) a block at the given height must declare
+   * Deterministic from chain history - validators use this same rule
+   */
+  static getNextDifficulty(chain: Block[], height: number = chain.length): number {
+    const interval = BLOCKCHAIN_CONFIG.DIFFICULTY_ADJUSTMENT_INTERVAL;
+    const previousBlock = chain[height - 1];
+
+    if (!previousBlock) {
+      return BLOCKCHAIN_CONFIG.INITIAL_DIFFICULTY;
     }
 
-    return history.sort((a, b) => b.timestamp - a.timestamp);
+    // Genesis carries a fixed historical timestamp, so the first window never retargets
+    if (height % interval !== 0 || height === interval) {
+      return previousBlock.difficulty;
+    }
+
+    const previousAdjustmentBlock = chain[height - interval];
+    const timeExpected = BLOCKCHAIN_CONFIG.BLOCK_TIME_TARGET * interval;
+    const timeTaken = previousBlock.timestamp - previousAdjustmentBlock.timestamp;
+
+    return retarget(previousBlock.difficulty, timeTaken, timeExpected);
   }
 
   /**
    * Adjust mining difficulty based on block times
    */
   adjustDifficulty(): void {
-    if (this.chain.length % BLOCKCHAIN_CONFIG.DIFFICULTY_ADJUSTMENT_INTERVAL !== 0) {
+    const next = Blockchain.getNextDifficulty(this.chain);
+    if (next === this.difficulty) {
       return;
     }
 
-    const interval = BLOCKCHAIN_CONFIG.DIFFICULTY_ADJUSTMENT_INTERVAL;
-    const latestBlock = this.getLatestBlock();
-    const previousAdjustmentBlock = this.chain[this.chain.length - interval];
+    const before = getDifficulty(this.difficulty);
+    const after = getDifficulty(next);
+    this.difficulty = next;
 
-    const timeExpected = BLOCKCHAIN_CONFIG.BLOCK_TIME_TARGET * interval;
-    const timeTaken = latestBlock.timestamp - previousAdjustmentBlock.timestamp;
-
-    if (timeTaken < timeExpected / 2) {
-      this.difficulty++;
-      console.log(`📈 Difficulty increased to ${this.difficulty}`);
-    } else if (timeTaken > timeExpected * 2) {
-      this.difficulty = Math.max(1, this.difficulty - 1);
-      console.log(`📉 Difficulty decreased to ${this.difficulty}`);
+    if (after > before) {
+      console.log(`📈 Difficulty increased to ${after}`);
+    } else {
+      console.log(`📉 Difficulty decreased to ${after}`);
     }
   }
 
@@ -245,11 +419,11 @@ export class Blockchain {
    */
   checkHalving(): void {
     const halvings = Math.floor(this.chain.length / BLOCKCHAIN_CONFIG.HALVING_INTERVAL);
-    const newReward = BLOCKCHAIN_CONFIG.INITIAL_REWARD / Math.pow(2, halvings);
+    const newReward = toBaseUnits(BLOCKCHAIN_CONFIG.INITIAL_REWARD) >> BigInt(halvings);
 
-    if (newReward !== this.miningReward && newReward >= 0.00000001) {
+    if (newReward !== this.miningReward) {
       this.miningReward = newReward;
-      console.log(`🔄 Halving! New mining reward: ${this.miningReward} VIBE`);
+      console.log(`🔄 Halving! New mining reward: ${formatVibe(this.miningReward)} VIBE`);
     }
   }
 
@@ -273,6 +447,12 @@ export class Blockchain {
         return false;
       }
 
+      // Check declared difficulty follows the retarget rule
+      if (currentBlock.difficulty !== Blockchain.getNextDifficulty(this.chain, i)) {
+        console.log(`❌ Block ${i} has unexpected difficulty`);
+        return false;
+      }
+
       // Check hash is correctly calculated
       if (currentBlock.hash !== currentBlock.calculateHash()) {
         console.log(`❌ Block ${i} hash mismatch`);
@@ -286,32 +466,22 @@ export class Blockchain {
   /**
    * Get total circulating supply
    */
-  getCirculatingSupply(): number {
-    let supply = 0;
-
-    for (const block of this.chain) {
-      for (const tx of block.transactions) {
-        if (tx.isCoinbase() || tx.from === 'GENESIS') {
-          supply += tx.amount;
-        }
-      }
-    }
-
-    return supply;
+  getCirculatingSupply(): bigint {
+    return this.state.getCirculatingSupply();
   }
 
   /**
-   * Get blockchain statistics
+   * Get blockchain statistics (amounts in VIBE for display)
    */
   getStats(): object {
     return {
       name: BLOCKCHAIN_CONFIG.NAME,
       symbol: BLOCKCHAIN_CONFIG.SYMBOL,
       blocks: this.chain.length,
-      difficulty: this.difficulty,
-      pendingTransactions: this.pendingTransactions.length,
-      miningReward: this.miningReward,
-      circulatingSupply: this.getCirculatingSupply(),
+      difficulty: getDifficulty(this.difficulty),
+      pendingTransactions: this.mempool.getSize(),
+      miningReward: fromBaseUnits(this.miningReward),
+      circulatingSupply: fromBaseUnits(this.getCirculatingSupply()),
       maxSupply: BLOCKCHAIN_CONFIG.MAX_SUPPLY,
       latestBlockHash: this.getLatestBlock().hash.substring(0, 16) + '...'
     };
@@ -324,8 +494,8 @@ export class Blockchain {
     return {
       chain: this.chain.map(block => block.toJSON()),
       difficulty: this.difficulty,
-      pendingTransactions: this.pendingTransactions.map(tx => tx.toJSON()),
-      miningReward: this.miningReward
+      pendingTransactions: this.mempool.getAll().map(tx => tx.toJSON()),
+      miningReward: this.miningReward.toString()
     };
   }
 
@@ -335,11 +505,12 @@ export class Blockchain {
   static fromJSON(data: any): Blockchain {
     const blockchain = new Blockchain();
     blockchain.chain = data.chain.map((blockData: any) => Block.fromJSON(blockData));
-    blockchain.difficulty = data.difficulty;
-    blockchain.pendingTransactions = data.pendingTransactions.map((txData: any) =>
-      Transaction.fromJSON(txData)
-    );
-    blockchain.miningReward = data.miningReward;
+    blockchain.difficulty = Blockchain.getNextDifficulty(blockchain.chain);
+    blockchain.miningReward = parseAmount(data.miningReward);
+    blockchain.rebuildState();
+
+    // Pending transactions are re-validated against the rebuilt state (staking ones once setConsensus is called)
+    blockchain.restorePendingTransactions(data.pendingTransactions.map((txData: any) => Transaction.fromJSON(txData)));
     return blockchain;
   }
 }
@@ -8,12 +8,15 @@
  * 1. No single entity can modify the chain unilaterally
  * 2. All nodes independently verify every block
  * 3. Invalid blocks are rejected regardless of source
- * 4. The longest VALID chain always wins
+ * 4. The VALID chain with the most cumulative work always wins
  */
 
-import { Block } from './Block';
+import { Block, ConsensusType } from './Block';
 import { Transaction } from './Transaction';
+import { Multisig } from './Multisig';
 import { Blockchain, BLOCKCHAIN_CONFIG } from './Blockchain';
+import { toBaseUnits, formatVibe } from './Units';
+import { hashMeetsTarget, getDifficulty } from './Difficulty';
 import * as crypto from 'crypto';
 
 // Validation error types
@@ -29,9 +32,12 @@ export enum ValidationError {
   INVALID_TRANSACTION = 'INVALID_TRANSACTION',
   INVALID_COINBASE = 'INVALID_COINBASE',
   DOUBLE_SPEND = 'DOUBLE_SPEND',
+  INVALID_NONCE = 'INVALID_NONCE',
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
   INVALID_SIGNATURE = 'INVALID_SIGNATURE',
   CHAIN_TOO_SHORT = 'CHAIN_TOO_SHORT',
   FORK_DETECTED = 'FORK_DETECTED',
+  INVALID_CONSENSUS = 'INVALID_CONSENSUS',
 }
 
 export interface ValidationResult {
@@ -89,13 +95,22 @@ export class ChainValidator {
     // Track all spent outputs to detect double spending
     const spentOutputs = new Set<string>();
 
+    // Track account nonces to detect replayed transactions
+    const nonces = new Map<string, number>();
+
     // Validate each block
     for (let i = 1; i < chain.length; i++) {
       const block = chain[i];
       const previousBlock = chain[i - 1];
 
       // Validate block structure
-      const blockResult = this.validateBlock(block, previousBlock, i);
+      const blockResult = this.validateBlock(
+        block,
+        previousBlock,
+        i,
+        Blockchain.getNextDifficulty(chain, i),
+        blockchain.consensusType
+      );
       if (!blockResult.valid) {
         return { ...blockResult, blockIndex: i };
       }
@@ -120,7 +135,7 @@ export class ChainValidator {
         }
 
         // Validate transaction
-        const txResult = this.validateTransaction(tx, j === 0, blockchain, i);
+        const txResult = this.validateTransaction(tx, j === 0, blockchain, i, nonces);
         if (!txResult.valid) {
           return { ...txResult, blockIndex: i, txIndex: j };
         }
@@ -185,8 +200,25 @@ export class ChainValidator {
 
   /**
    * Validate a single block
+   * @param expectedDifficulty Bits required by the retarget rule (Blockchain.getNextDifficulty)
+   * @param consensusType Consensus the chain runs; PoV blocks carry no proof of work
    */
-  static validateBlock(block: Block, previousBlock: Block, expectedIndex: number): ValidationResult {
+  static validateBlock(
+    block: Block,
+    previousBlock: Block,
+    expectedIndex: number,
+    expectedDifficulty: number,
+    consensusType: ConsensusType = 'PoW'
+  ): ValidationResult {
+    // Blocks of the other consensus are never accepted
+    if (block.consensusType !== consensusType) {
+      return {
+        valid: false,
+        error: ValidationError.INVALID_CONSENSUS,
+        message: `Expected a ${consensusType} block, got ${block.consensusType}`
+      };
+    }
+
     // Check index is sequential
     if (block.index !== expectedIndex) {
       return {
@@ -205,6 +237,15 @@ export class ChainValidator {
       };
     }
 
+    // Verify transactions match the merkle root committed in the header
+    if (!block.hasValidMerkleRoot()) {
+      return {
+        valid: false,
+        error: ValidationError.INVALID_MERKLE_ROOT,
+        message: `Merkle root mismatch in block ${block.index}`
+      };
+    }
+
     // Verify hash is correctly calculated
     const calculatedHash = block.calculateHash();
     if (block.hash !== calculatedHash) {
@@ -215,17 +256,43 @@ export class ChainValidator {
       };
     }
 
-    // Verify proof of work (hash starts with required zeros)
-    const target = '0'.repeat(block.difficulty);
-    if (!block.hash.startsWith(target)) {
+    // Difficulty is derived from chain history, never trusted from the block
+    if (block.difficulty !== expectedDifficulty) {
+      return {
+        valid: false,
+        error: ValidationError.INVALID_DIFFICULTY,
+        message: `Unexpected difficulty bits 0x${block.difficulty.toString(16)}, expected 0x${expectedDifficulty.toString(16)}`
+      };
+    }
+
+    // Verify proof of work (hash is below the target)
+    if (consensusType === 'PoW' && !hashMeetsTarget(block.hash, block.difficulty)) {
       return {
         valid: false,
         error: ValidationError.INVALID_DIFFICULTY,
-        message: `Block does not meet difficulty requirement of ${block.difficulty}`
+        message: `Block does not meet difficulty requirement of ${getDifficulty(block.difficulty)}`
       };
     }
 
-    // Verify timestamp is reasonable (not too far in future)
+    // PoV blocks must name the validator that produced them and carry its signature
+    if (consensusType === 'PoV') {
+      if (!block.validator) {
+        return {
+          valid: false,
+          error: ValidationError.INVALID_CONSENSUS,
+          message: `Block ${block.index} has no validator`
+        };
+      }
+      if (!block.hasValidSignature()) {
+        return {
+          valid: false,
+          error: ValidationError.INVALID_SIGNATURE,
+          message: `Block ${block.index} is not signed by validator ${block.validator.substring(0, 16)}...`
+        };
+      }
+    }
+
+    // Verify timestamp is reasonable (not too far in future; PoV holds blocks to one block time)
     const maxFutureTime = Date.now() + 2 * 60 * 60 * 1000; // 2 hours
     if (block.timestamp > maxFutureTime) {
       return {
@@ -251,14 +318,62 @@ export class ChainValidator {
     };
   }
 
+  /**
+   * Validate all transactions of a block about to be appended to the chain
+   * Nonces and spendable balances are checked against the confirmed state of the
+   * current chain, followed through the block
+   */
+  static validateBlockTransactions(block: Block, blockchain: Blockchain): ValidationResult {
+    const nonces = new Map<string, number>();
+    const balances = new Map<string, bigint>();
+    const balanceOf = (address: string) => balances.get(address) ?? blockchain.getBalance(address);
+
+    for (let j = 0; j < block.transactions.length; j++) {
+      const tx = block.transactions[j];
+
+      if (!tx.isCoinbase() && !nonces.has(tx.from)) {
+        nonces.set(tx.from, blockchain.getNonce(tx.from));
+      }
+
+      const txResult = this.validateTransaction(tx, j === 0, blockchain, block.index, nonces);
+      if (!txResult.valid) {
+        return { ...txResult, txIndex: j };
+      }
+
+      // Same balance effects as WorldState.applyTransaction
+      if (!tx.isCoinbase()) {
+        if (balanceOf(tx.from) < tx.getTotalCost()) {
+          return {
+            valid: false,
+            error: ValidationError.INSUFFICIENT_BALANCE,
+            message: `Insufficient balance for ${tx.from.substring(0, 16)}... Has: ${formatVibe(balanceOf(tx.from))}, Needs: ${formatVibe(tx.getTotalCost())}`,
+            txIndex: j
+          };
+        }
+        balances.set(tx.from, balanceOf(tx.from) + tx.getSenderBalanceChange());
+      }
+      if (!tx.isStaking()) {
+        balances.set(tx.to, balanceOf(tx.to) + tx.amount);
+      }
+    }
+
+    return {
+      valid: true,
+      error: ValidationError.NONE,
+      message: 'Block transactions valid'
+    };
+  }
+
   /**
    * Validate a transaction
+   * @param nonces Expected next nonce per sender, advanced as transactions are accepted
    */
   static validateTransaction(
     tx: Transaction,
     isCoinbase: boolean,
     blockchain: Blockchain,
-    blockIndex: number
+    blockIndex: number,
+    nonces: Map<string, number> = new Map()
   ): ValidationResult {
     // Coinbase (mining reward) has special rules
     if (isCoinbase) {
@@ -272,11 +387,11 @@ export class ChainValidator {
 
       // Verify coinbase amount doesn't exceed block reward + fees
       const maxReward = this.calculateBlockReward(blockIndex);
-      if (tx.amount > maxReward * 2) { // Allow for fees
+      if (tx.amount > maxReward * 2n) { // Allow for fees
         return {
           valid: false,
           error: ValidationError.INVALID_COINBASE,
-          message: `Coinbase amount ${tx.amount} exceeds maximum ${maxReward * 2}`
+          message: `Coinbase amount ${formatVibe(tx.amount)} exceeds maximum ${formatVibe(maxReward * 2n)}`
         };
       }
 
@@ -287,6 +402,18 @@ export class ChainValidator {
       };
     }
 
+    // Multisig accounts need threshold member signatures over the transaction
+    if (tx.isMultisig()) {
+      const multisigResult = Multisig.verify(tx.from, tx.multisig, tx.calculateHash());
+      if (!multisigResult.valid) {
+        return {
+          valid: false,
+          error: ValidationError.INVALID_SIGNATURE,
+          message: multisigResult.error!
+        };
+      }
+    }
+
     // Regular transaction must have valid signature
     if (!tx.isValid()) {
       return {
@@ -296,37 +423,77 @@ export class ChainValidator {
       };
     }
 
-    // Must have positive amount
-    if (tx.amount <= 0) {
+    // Must have valid addresses
+    if (!tx.from || !tx.to) {
       return {
         valid: false,
         error: ValidationError.INVALID_TRANSACTION,
-        message: 'Transaction amount must be positive'
+        message: 'Transaction must have from and to addresses'
       };
     }
 
-    // Must have valid addresses
-    if (!tx.from || !tx.to) {
+    // Amount and recipient rules of the transaction type
+    const typeResult = this.validateTransactionType(tx, blockchain.consensus !== null);
+    if (!typeResult.valid) {
+      return typeResult;
+    }
+
+    // Nonce must be exactly the sender's next sequence number (prevents replays)
+    if (!tx.isCoinbase()) {
+      const expectedNonce = nonces.get(tx.from) || 0;
+      if (tx.nonce !== expectedNonce) {
+        return {
+          valid: false,
+          error: ValidationError.INVALID_NONCE,
+          message: `Invalid nonce for ${tx.from.substring(0, 16)}... Expected: ${expectedNonce}, Got: ${tx.nonce}`
+        };
+      }
+      nonces.set(tx.from, expectedNonce + 1);
+    }
+
+    return {
+      valid: true,
+      error: ValidationError.NONE,
+      message: 'Transaction valid'
+    };
+  }
+
+  /**
+   * Check the amount and recipient a transaction type requires (see Transaction.getTypeError)
+   * Staking types only exist under Proof of Vibe: a chain without it would mint claimed
+   * rewards and release stake nobody locked
+   */
+  static validateTransactionType(tx: Transaction, stakingEnabled: boolean): ValidationResult {
+    if (tx.isStaking() && !stakingEnabled) {
       return {
         valid: false,
         error: ValidationError.INVALID_TRANSACTION,
-        message: 'Transaction must have from and to addresses'
+        message: `${tx.type} transactions require Proof of Vibe consensus`
+      };
+    }
+
+    const typeError = tx.getTypeError();
+    if (typeError) {
+      return {
+        valid: false,
+        error: ValidationError.INVALID_TRANSACTION,
+        message: typeError
       };
     }
 
     return {
       valid: true,
       error: ValidationError.NONE,
-      message: 'Transaction valid'
+      message: 'Transaction type valid'
     };
   }
 
   /**
-   * Calculate block reward with halving
+   * Calculate block reward with halving (in base units)
    */
-  static calculateBlockReward(blockIndex: number): number {
+  static calculateBlockReward(blockIndex: number): bigint {
     const halvings = Math.floor(blockIndex / BLOCKCHAIN_CONFIG.HALVING_INTERVAL);
-    return BLOCKCHAIN_CONFIG.INITIAL_REWARD / Math.pow(2, halvings);
+    return toBaseUnits(BLOCKCHAIN_CONFIG.INITIAL_REWARD) >> BigInt(halvings);
   }
 
   /**
@@ -334,8 +501,8 @@ export class ChainValidator {
    * Returns the better chain or null if current is better
    */
   static compareChains(currentChain: Block[], newChain: Block[]): Block[] | null {
-    // New chain must be longer
-    if (newChain.length <= currentChain.length) {
+    // New chain must carry more cumulative work (not just more blocks)
+    if (Blockchain.getChainWork(newChain) <= Blockchain.getChainWork(currentChain)) {
       return null;
     }
 
@@ -372,7 +539,7 @@ export class ChainValidator {
       genesisHash: chain[0]?.hash,
       latestHash: chain[chain.length - 1]?.hash,
       latestIndex: chain.length - 1,
-      totalDifficulty: chain.reduce((sum, b) => sum + b.difficulty, 0),
+      totalWork: Blockchain.getChainWork(chain).toString(),
       checkpointsValid: this.verifyCheckpoints(chain),
       timestamp: Date.now(),
       // Merkle root of all block hashes for compact verification
@@ -0,0 +1,101 @@
+/**
+ * VibeCoin Difficulty - Compact proof-of-work targets
+ *
+ * A block's difficulty is stored as a compact target ("bits"), like Bitcoin:
+ *   bits = exponent << 24 | mantissa   ->   target = mantissa * 256^(exponent - 3)
+ * A hash is valid when, read as a 256-bit number, it is <= target.
+ * This lets retargeting move in small steps instead of 16x leading-zero jumps.
+ */
+
+export const DIFFICULTY_CONFIG = {
+  // Easiest allowed target: one leading hex zero
+  MIN_LEADING_ZEROS: 1,
+
+  // Starting target: four leading hex zeros (the original default difficulty)
+  INITIAL_LEADING_ZEROS: 4,
+
+  // A single retarget can change the target by at most this factor
+  MAX_ADJUSTMENT_FACTOR: 4
+};
+
+/**
+ * Decode compact bits into the full 256-bit target
+ */
+export function bitsToTarget(bits: number): bigint {
+  const exponent = bits >>> 24;
+  const mantissa = BigInt(bits & 0xffffff);
+
+  if (exponent <= 3) {
+    return mantissa >> BigInt(8 * (3 - exponent));
+  }
+  return mantissa << BigInt(8 * (exponent - 3));
+}
+
+/**
+ * Encode a target as compact bits (keeps the 3 most significant bytes)
+ */
+export function targetToBits(target: bigint): number {
+  if (target <= 0n) return 0;
+
+  const size = Math.ceil(target.toString(16).length / 2);
+  const mantissa = size <= 3
+    ? target << BigInt(8 * (3 - size))
+    : target >> BigInt(8 * (size - 3));
+
+  return ((size << 24) | Number(mantissa)) >>> 0;
+}
+
+/**
+ * Compact bits for a target requiring the given number of leading hex zeros
+ */
+export function bitsFromLeadingZeros(zeros: number): number {
+  return targetToBits((1n << BigInt(256 - 4 * zeros)) - 1n);
+}
+
+// Easiest target any block may use
+export const MAX_TARGET = bitsToTarget(bitsFromLeadingZeros(DIFFICULTY_CONFIG.MIN_LEADING_ZEROS));
+
+// Bits of the genesis block and every block until the first retarget
+export const INITIAL_BITS = bitsFromLeadingZeros(DIFFICULTY_CONFIG.INITIAL_LEADING_ZEROS);
+
+/**
+ * Check whether a block hash satisfies a compact target
+ */
+export function hashMeetsTarget(hash: string, bits: number): boolean {
+  if (!/^[0-9a-f]{64}$/.test(hash)) return false;
+  return BigInt('0x' + hash) <= bitsToTarget(bits);
+}
+
+/**
+ * Human-readable difficulty: how many times harder than the easiest target
+ */
+export function getDifficulty(bits: number): number {
+  const target = bitsToTarget(bits);
+  if (target === 0n) return Infinity;
+  return Number((MAX_TARGET * 1000n) / target) / 1000;
+}
+
+/**
+ * Expected number of hashes needed to meet a target (used to compare chain work)
+ */
+export function getWork(bits: number): bigint {
+  return (1n << 256n) / (bitsToTarget(bits) + 1n);
+}
+
+/**
+ * Scale a target by how long the last interval actually took
+ * Faster than expected -> smaller target (harder), slower -> larger target (easier)
+ */
+export function retarget(bits: number, timeTaken: number, timeExpected: number): number {
+  const factor = DIFFICULTY_CONFIG.MAX_ADJUSTMENT_FACTOR;
+  const clampedTime = Math.min(
+    Math.max(Math.round(timeTaken), Math.floor(timeExpected / factor)),
+    timeExpected * factor
+  );
+
+  let target = (bitsToTarget(bits) * BigInt(clampedTime)) / BigInt(timeExpected);
+  if (target > MAX_TARGET) target = MAX_TARGET;
+  if (target < 1n) target = 1n;
+
+  return targetToBits(target);
+}
@@ -0,0 +1,321 @@
+/**
+ * VibeCoin Fork Choice - Side-chain tracking and chain reorganization
+ *
+ * Blocks that do not extend our tip are kept as side-chain blocks.
+ * When a side branch accumulates more proof of work than the main chain,
+ * the node rolls back to the common ancestor and re-applies the branch.
+ */
+
+import { Block } from './Block';
+import { Blockchain } from './Blockchain';
+import { ChainValidator, ValidationResult, ValidationError, CHECKPOINTS } from './ChainValidator';
+import { getWork } from './Difficulty';
+
+export const FORK_CHOICE_CONFIG = {
+  MAX_SIDE_BLOCKS: 1000,   // Side-chain blocks kept in memory
+  MAX_REORG_DEPTH: 100     // Deepest rollback we accept
+};
+
+export type BlockAcceptStatus =
+  | 'extended'      // Block appended to the main chain
+  | 'reorganized'   // Block made a side branch the main chain
+  | 'side-chain'    // Valid block stored on a branch with less or equal work
+  | 'duplicate'     // Block already known
+  | 'orphan'        // Parent unknown
+  | 'invalid';      // Block failed validation
+
+export interface BlockAcceptResult {
+  status: BlockAcceptStatus;
+  message: string;
+  connected: Block[];     // Blocks added to the main chain
+  disconnected: Block[];  // Blocks removed from the main chain (reorg only)
+}
+
+export class ForkChoice {
+  private blockchain: Blockchain;
+  private sideBlocks: Map<string, Block> = new Map();
+
+  constructor(blockchain: Blockchain) {
+    this.blockchain = blockchain;
+  }
+
+  /**
+   * Process a block received from the network
+   */
+  processBlock(block: Block): BlockAcceptResult {
+    if (this.isKnown(block.hash)) {
+      return this.result('duplicate', `Block ${block.index} already known`);
+    }
+
+    // Common case: block extends our tip
+    if (block.previousHash === this.blockchain.getLatestBlock().hash) {
+      const validation = this.validateNextBlock(block);
+      if (!validation.valid) {
+        return this.result('invalid', validation.message);
+      }
+
+      this.blockchain.addBlock(block);
+      this.removeConfirmedTransactions([block]);
+      return this.result('extended', `Block ${block.index} extends the chain`, [block]);
+    }
+
+    const parent = this.getBlock(block.previousHash);
+    if (!parent) {
+      return this.result('orphan', `Parent of block ${block.index} is unknown`);
+    }
+
+    return this.processSideBlock(block, parent);
+  }
+
+  /**
+   * Check whether a block hash is on the main chain or a tracked side branch
+   */
+  isKnown(hash: string): boolean {
+    return this.sideBlocks.has(hash) || this.blockchain.getBlockByHash(hash) !== undefined;
+  }
+
+  /**
+   * Number of side-chain blocks currently tracked
+   */
+  getSideBlockCount(): number {
+    return this.sideBlocks.size;
+  }
+
+  /**
+   * Validate a block that directly extends the current tip
+   */
+  validateNextBlock(block: Block): ValidationResult {
+    const latestBlock = this.blockchain.getLatestBlock();
+
+    const blockResult = ChainValidator.validateBlock(
+      block,
+      latestBlock,
+      latestBlock.index + 1,
+      Blockchain.getNextDifficulty(this.blockchain.chain),
+      this.blockchain.consensusType
+    );
+    if (!blockResult.valid) {
+      return blockResult;
+    }
+
+    // Producer schedule and rewards of the active consensus (PoV)
+    const consensusResult = this.blockchain.consensus?.validateBlock(block, latestBlock);
+    if (consensusResult && !consensusResult.valid) {
+      return {
+        valid: false,
+        error: ValidationError.INVALID_CONSENSUS,
+        message: `Block ${block.index} rejected by consensus: ${consensusResult.error}`
+      };
+    }
+
+    if (!block.isValid()) {
+      return {
+        valid: false,
+        error: ValidationError.INVALID_HASH,
+        message: `Block ${block.index} failed proof of work or signature checks`
+      };
+    }
+
+    // Transactions (signatures, amounts, nonces) against our chain state
+    return ChainValidator.validateBlockTransactions(block, this.blockchain);
+  }
+
+  /**
+   * Store a block that builds on a side branch and switch if the branch has more work
+   */
+  private processSideBlock(block: Block, parent: Block): BlockAcceptResult {
+    const branch = this.getBranch(parent);
+    if (!branch) {
+      return this.result('orphan', `Branch of block ${block.index} does not reach the main chain`);
+    }
+
+    // Context checks against the block's own branch (transactions are checked on switch)
+    const chain = this.blockchain.chain;
+    const branchChain = chain.slice(0, branch.ancestorIndex + 1).concat(branch.blocks);
+    const blockResult = ChainValidator.validateBlock(
+      block,
+      parent,
+      parent.index + 1,
+      Blockchain.getNextDifficulty(branchChain, block.index),
+      this.blockchain.consensusType
+    );
+    if (!blockResult.valid) {
+      return this.result('invalid', blockResult.message);
+    }
+    if (!block.isValid()) {
+      return this.result('invalid', `Block ${block.index} failed proof of work or signature checks`);
+    }
+
+    this.storeSideBlock(block);
+    branch.blocks.push(block);
+
+    const branchWork = Blockchain.getChainWork(chain, branch.ancestorIndex) +
+      branch.blocks.reduce((sum, b) => sum + getWork(b.difficulty), 0n);
+    const mainWork = Blockchain.getChainWork(chain);
+
+    // Equal work keeps the first-seen chain
+    if (branchWork <= mainWork) {
+      return this.result('side-chain', `Stored side-chain block ${block.index} (fork at ${branch.ancestorIndex})`);
+    }
+
+    return this.reorganize(branch.ancestorIndex, branch.blocks);
+  }
+
+  /**
+   * Walk back from a block to the main chain
+   * Returns the common ancestor height and the side blocks after it (oldest first)
+   */
+  private getBranch(tip: Block): { ancestorIndex: number; blocks: Block[] } | null {
+    const blocks: Block[] = [];
+    let current: Block | undefined = tip;
+
+    while (current && this.sideBlocks.has(current.hash)) {
+      blocks.unshift(current);
+      current = this.getBlock(current.previousHash);
+    }
+
+    if (!current || this.blockchain.getBlock(current.index)?.hash !== current.hash) {
+      return null;
+    }
+
+    return { ancestorIndex: current.index, blocks };
+  }
+
+  /**
+   * Roll back to the common ancestor and apply the heavier branch
+   */
+  private reorganize(ancestorIndex: number, branch: Block[]): BlockAcceptResult {
+    const depth = this.blockchain.chain.length - 1 - ancestorIndex;
+    if (depth > FORK_CHOICE_CONFIG.MAX_REORG_DEPTH) {
+      return this.result('side-chain', `Refusing reorg of depth ${depth} (max ${FORK_CHOICE_CONFIG.MAX_REORG_DEPTH})`);
+    }
+
+    for (const [index] of CHECKPOINTS) {
+      if (index > ancestorIndex && index < this.blockchain.chain.length) {
+        return this.result('side-chain', `Refusing reorg below checkpoint ${index}`);
+      }
+    }
+
+    console.log(`🔀 Reorganizing: rolling back ${depth} blocks to ${ancestorIndex}, applying ${branch.length}`);
+
+    const disconnected: Block[] = [];
+    while (this.blockchain.chain.length - 1 > ancestorIndex) {
+      disconnected.unshift(this.blockchain.disconnectTip());
+    }
+
+    const connected: Block[] = [];
+    for (const block of branch) {
+      const validation = this.validateNextBlock(block);
+      if (!validation.valid) {
+        // Restore the previous main chain
+        while (connected.length > 0) {
+          connected.pop();
+          this.blockchain.disconnectTip();
+        }
+        for (const original of disconnected) {
+          this.blockchain.addBlock(original);
+        }
+        this.dropSideBranch(block);
+
+        return this.result('invalid', `Reorg aborted at block ${block.index}: ${validation.message}`);
+      }
+
+      this.blockchain.addBlock(block);
+      this.sideBlocks.delete(block.hash);
+      connected.push(block);
+    }
+
+    // The old main chain becomes a side branch we can switch back to
+    for (const block of disconnected) {
+      this.storeSideBlock(block);
+    }
+
+    this.returnOrphanedTransactions(disconnected, connected);
+
+    console.log(`✅ Reorg complete. New tip: ${this.blockchain.getLatestBlock().index}`);
+    return this.result('reorganized', `Switched to branch from ${ancestorIndex}`, connected, disconnected);
+  }
+
+  /**
+   * Put transactions from disconnected blocks back into the pending pool
+   * Every candidate is re-validated against the new chain state
+   */
+  private returnOrphanedTransactions(disconnected: Block[], connected: Block[]): void {
+    const confirmed = new Set(connected.flatMap(b => b.transactions.map(tx => tx.id)));
+
+    // Skip each block's own reward transaction
+    const candidates = [
+      ...disconnected.flatMap(b => b.transactions.slice(1)),
+      ...this.blockchain.mempool.getAll()
+    ].filter(tx => !confirmed.has(tx.id));
+
+    this.blockchain.mempool.clear();
+    let restored = 0;
+    for (const tx of candidates) {
+      if (this.blockchain.addTransaction(tx)) {
+        restored++;
+      }
+    }
+
+    console.log(`♻️  ${restored}/${candidates.length} transactions returned to the pending pool`);
+  }
+
+  /**
+   * Remove transactions included in new main-chain blocks from the pending pool
+   */
+  private removeConfirmedTransactions(blocks: Block[]): void {
+    this.blockchain.mempool.removeConfirmed(
+      blocks.flatMap(b => b.transactions),
+      address => this.blockchain.getNonce(address)
+    );
+  }
+
+  /**
+   * Find a block on the main chain or a side branch
+   */
+  getBlock(hash: string): Block | undefined {
+    return this.sideBlocks.get(hash) || this.blockchain.getBlockByHash(hash);
+  }
+
+  /**
+   * Track a side-chain block, evicting the oldest one when full
+   */
+  private storeSideBlock(block: Block): void {
+    if (this.sideBlocks.size >= FORK_CHOICE_CONFIG.MAX_SIDE_BLOCKS) {
+      const oldest = this.sideBlocks.keys().next().value;
+      if (oldest !== undefined) {
+        this.sideBlocks.delete(oldest);
+      }
+    }
+    this.sideBlocks.set(block.hash, block);
+  }
+
+  /**
+   * Forget an invalid side block and everything built on it
+   */
+  private dropSideBranch(block: Block): void {
+    const invalid = new Set([block.hash]);
+    this.sideBlocks.delete(block.hash);
+
+    let removed = true;
+    while (removed) {
+      removed = false;
+      for (const [hash, side] of this.sideBlocks) {
+        if (invalid.has(side.previousHash)) {
+          invalid.add(hash);
+          this.sideBlocks.delete(hash);
+          removed = true;
+        }
+      }
+    }
+  }
+
+  private result(
+    status: BlockAcceptStatus,
+    message: string,
+    connected: Block[] = [],
+    disconnected: Block[] = []
+  ): BlockAcceptResult {
+    return { status, message, connected, disconnected };
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * VibeCoin Mempool - Pending transaction pool
+ *
+ * Holds validated transactions until they are mined. Block templates pick
+ * the highest fee rate first (while keeping each sender's nonce order),
+ * a full pool evicts its cheapest transactions, and transactions that
+ * wait too long expire.
+ *
+ * Balance and nonce checks against the chain stay in Blockchain.addTransaction;
+ * this class only enforces pool policy. Every pooled transaction is a signed,
+ * fee-paying transaction: reward transactions are created with the block
+ * template that pays them and are never pooled, so no zero-fee system
+ * transaction can be evicted or turned away by a full pool.
+ */
+import { Transaction } from './Transaction';
+import { formatVibe } from './Units';
+
+export const MEMPOOL_CONFIG = {
+  MAX_PER_SENDER: 25,                  // Pending transactions a single address may have
+  EXPIRY_MS: 3 * 60 * 60 * 1000,       // Drop transactions not mined within 3 hours
+  MAX_REPLACED_HISTORY: 1000           // Replaced transaction ids remembered for lookups
+};
+
+export interface MempoolConfig {
+  maxSize: number;       // Total transactions kept
+  minFee: bigint;        // Minimum fee in base units
+                         // A replacement must also pay at least this much more than the original
+  maxPerSender: number;
+  expiryMs: number;
+}
+
+export interface MempoolEntry {
+  tx: Transaction;
+  receivedAt: number;
+  size: number;          // Serialized size in bytes
+  feeRate: number;       // Base units per byte
+}
+
+export interface MempoolAddResult {
+  success: boolean;
+  error?: string;
+  evicted?: Transaction[];
+  replaced?: Transaction;
+}
+
+export interface ReplacedTransaction {
+  tx: Transaction;
+  replacedBy: string;
+  replacedAt: number;
+}
+
+export class Mempool {
+  private config: MempoolConfig;
+  private entries: Map<string, MempoolEntry> = new Map();
+  private bySender: Map<string, string[]> = new Map();   // Sender -> tx ids in nonce order
+  private replaced: Map<string, ReplacedTransaction> = new Map();
+
+  constructor(config: Pick<MempoolConfig, 'maxSize' | 'minFee'> & Partial<MempoolConfig>) {
+    this.config = {
+      maxPerSender: MEMPOOL_CONFIG.MAX_PER_SENDER,
+      expiryMs: MEMPOOL_CONFIG.EXPIRY_MS,
+      ...config
+    };
+  }
+
+  /**
+   * Add a transaction that already passed chain validation
+   */
+  add(tx: Transaction): MempoolAddResult {
+    this.removeExpired();
+
+    if (tx.isCoinbase()) {
+      return { success: false, error: 'Reward transactions are only created in block templates' };
+    }
+
+    if (this.entries.has(tx.id)) {
+      return { success: false, error: 'Transaction already in mempool' };
+    }
+
+    // Same sender and nonce as a pending transaction: replace-by-fee
+    const existing = this.findByNonce(tx.from, tx.nonce);
+    if (existing) {
+      return this.replace(existing, tx);
+    }
+
+    if (tx.fee < this.config.minFee) {
+      return {
+        success: false,
+        error: `Fee too low. Minimum: ${formatVibe(this.config.minFee)} VIBE`
+      };
+    }
+
+    const senderCount = this.getSenderCount(tx.from);
+    if (senderCount >= this.config.maxPerSender) {
+      return {
+        success: false,
+        error: `Sender already has ${senderCount} pending transactions (max ${this.config.maxPerSender})`
+      };
+    }
+
+    const entry = this.createEntry(tx);
+    const evicted: Transaction[] = [];
+
+    if (this.entries.size >= this.config.maxSize) {
+      const victim = this.findEvictionCandidate(tx.from);
+      if (!victim || victim.feeRate >= entry.feeRate) {
+        return { success: false, error: 'Mempool is full and the fee rate is too low to replace anything' };
+      }
+
+      this.remove(victim.tx.id);
+      evicted.push(victim.tx);
+      console.log(`🗑️  Evicted ${victim.tx.id.substring(0, 16)}... from full mempool`);
+    }
+
+    this.entries.set(tx.id, entry);
+    const ids = this.bySender.get(tx.from) || [];
+    ids.push(tx.id);
+    this.bySender.set(tx.from, ids);
+
+    return { success: true, evicted };
+  }
+
+  /**
+   * Replace a pending transaction with a higher-fee one using the same nonce
+   * Only transactions that signaled replaceability can be replaced
+   */
+  private replace(original: Transaction, tx: Transaction): MempoolAddResult {
+    if (!original.replaceable) {
+      return { success: false, error: `Pending transaction ${original.id.substring(0, 16)}... is not replaceable` };
+    }
+
+    const required = original.fee + this.config.minFee;
+    if (tx.fee < required) {
+      return {
+        success: false,
+        error: `Replacement fee too low. Minimum: ${formatVibe(required)} VIBE`
+      };
+    }
+
+    const entry = this.createEntry(tx);
+    if (entry.feeRate <= this.entries.get(original.id)!.feeRate) {
+      return { success: false, error: 'Replacement must pay a higher fee rate' };
+    }
+
+    // Keep the sender's nonce order: the replacement takes the original's slot
+    const ids = this.bySender.get(tx.from)!;
+    ids[ids.indexOf(original.id)] = tx.id;
+    this.entries.delete(original.id);
+    this.entries.set(tx.id, entry);
+
+    this.recordReplacement(original, tx.id);
+    console.log(`🔁 Replaced ${original.id.substring(0, 16)}... with ${tx.id.substring(0, 16)}... (fee ${formatVibe(original.fee)} → ${formatVibe(tx.fee)} VIBE)`);
+
+    return { success: true, evicted: [], replaced: original };
+  }
+
+  /**
+   * Pending transaction of a sender with the given nonce
+   */
+  findByNonce(sender: string, nonce: number): Transaction | undefined {
+    for (const id of this.bySender.get(sender) || []) {
+      const tx = this.entries.get(id)!.tx;
+      if (tx.nonce === nonce) {
+        return tx;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Look up a transaction that was replaced while pending
+   * replacedBy follows the chain of replacements to the most recent one
+   */
+  getReplacement(id: string): ReplacedTransaction | undefined {
+    const record = this.replaced.get(id);
+    if (!record) return undefined;
+
+    let replacedBy = record.replacedBy;
+    const seen = new Set([id]);
+    while (this.replaced.has(replacedBy) && !seen.has(replacedBy)) {
+      seen.add(replacedBy);
+      replacedBy = this.replaced.get(replacedBy)!.replacedBy;
+    }
+
+    return { ...record, replacedBy };
+  }
+
+  private recordReplacement(original: Transaction, replacedBy: string): void {
+    if (this.replaced.size >= MEMPOOL_CONFIG.MAX_REPLACED_HISTORY) {
+      const oldest = this.replaced.keys().next().value;
+      if (oldest !== undefined) {
+        this.replaced.delete(oldest);
+      }
+    }
+    this.replaced.set(original.id, { tx: original, replacedBy, replacedAt: Date.now() });
+  }
+
+  /**
+   * Pick transactions for a block template, highest fee rate first
+   * A sender's transactions are only taken in nonce order
+   */
+  selectTransactions(limit: number): Transaction[] {
+    this.removeExpired();
+
+    // Next candidate of every sender
+    const queues = new Map<string, MempoolEntry[]>();
+    const candidates: MempoolEntry[] = [];
+
+    for (const [sender, ids] of this.bySender) {
+      const queue = ids.map(id => this.entries.get(id)!);
+      candidates.push(queue.shift()!);
+      queues.set(sender, queue);
+    }
+
+    const selected: Transaction[] = [];
+    while (selected.length < limit && candidates.length > 0) {
+      let best = 0;
+      for (let i = 1; i < candidates.length; i++) {
+        if (candidates[i].feeRate > candidates[best].feeRate) {
+          best = i;
+        }
+      }
+
+      const [entry] = candidates.splice(best, 1);
+      selected.push(entry.tx);
+
+      const next = queues.get(entry.tx.from)?.shift();
+      if (next) {
+        candidates.push(next);
+      }
+    }
+
+    return selected;
+  }
+
+  /**
+   * Remove mined transactions, and any left behind by the sender's new confirmed nonce
+   */
+  removeConfirmed(transactions: Transaction[], getConfirmedNonce: (address: string) => number): number {
+    let removed = 0;
+
+    for (const tx of transactions) {
+      if (this.remove(tx.id)) {
+        removed++;
+      }
+    }
+
+    const senders = new Set(transactions.filter(tx => !tx.isCoinbase()).map(tx => tx.from));
+    for (const sender of senders) {
+      const confirmedNonce = getConfirmedNonce(sender);
+      for (const id of [...(this.bySender.get(sender) || [])]) {
+        if (this.entries.get(id)!.tx.nonce < confirmedNonce && this.remove(id)) {
+          removed++;
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Drop transactions that waited longer than the expiry
+   * Later transactions of the same sender go too, since their nonce can no longer be used
+   */
+  removeExpired(now: number = Date.now()): number {
+    const cutoff = now - this.config.expiryMs;
+    let removed = 0;
+
+    for (const [id, entry] of this.entries) {
+      if (entry.receivedAt >= cutoff || !this.entries.has(id)) {
+        continue;
+      }
+      removed += this.removeWithDescendants(entry.tx);
+    }
+
+    if (removed > 0) {
+      console.log(`⌛ ${removed} expired transactions removed from mempool`);
+    }
+    return removed;
+  }
+
+  /**
+   * Check if a transaction is pending
+   */
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Get a pending transaction by id
+   */
+  get(id: string): Transaction | undefined {
+    return this.entries.get(id)?.tx;
+  }
+
+  /**
+   * All pending transactions in arrival order
+   */
+  getAll(): Transaction[] {
+    return Array.from(this.entries.values()).map(entry => entry.tx);
+  }
+
+  /**
+   * Pending transactions sent by an address, in nonce order
+   */
+  getBySender(address: string): Transaction[] {
+    return (this.bySender.get(address) || []).map(id => this.entries.get(id)!.tx);
+  }
+
+  /**
+   * Number of pending transactions sent by an address
+   */
+  getSenderCount(address: string): number {
+    return this.bySender.get(address)?.length || 0;
+  }
+
+  /**
+   * Number of pending transactions
+   */
+  getSize(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Remove every transaction
+   */
+  clear(): void {
+    this.entries.clear();
+    this.bySender.clear();
+  }
+
+  /**
+   * Get mempool statistics
+   */
+  getStats(): object {
+    const entries = Array.from(this.entries.values());
+    const feeRates = entries.map(entry => entry.feeRate).sort((a, b) => a - b);
+
+    return {
+      size: entries.length,
+      maxSize: this.config.maxSize,
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      senders: this.bySender.size,
+      replaced: this.replaced.size,
+      minFee: formatVibe(this.config.minFee),
+      minFeeRate: feeRates[0] || 0,
+      medianFeeRate: feeRates[Math.floor(feeRates.length / 2)] || 0,
+      maxFeeRate: feeRates[feeRates.length - 1] || 0
+    };
+  }
+
+  private createEntry(tx: Transaction): MempoolEntry {
+    const size = Buffer.byteLength(JSON.stringify(tx.toJSON()));
+    return {
+      tx,
+      receivedAt: Date.now(),
+      size,
+      feeRate: Number(tx.fee) / size
+    };
+  }
+
+  /**
+   * Cheapest transaction that can be dropped without breaking a nonce sequence:
+   * the last pending transaction of each other sender
+   */
+  private findEvictionCandidate(exceptSender: string): MempoolEntry | undefined {
+    let candidate: MempoolEntry | undefined;
+
+    const consider = (entry: MempoolEntry) => {
+      if (!candidate || entry.feeRate < candidate.feeRate) {
+        candidate = entry;
+      }
+    };
+
+    for (const [sender, ids] of this.bySender) {
+      if (sender !== exceptSender) {
+        consider(this.entries.get(ids[ids.length - 1])!);
+      }
+    }
+
+    return candidate;
+  }
+
+  private removeWithDescendants(tx: Transaction): number {
+    let removed = 0;
+    for (const id of [...(this.bySender.get(tx.from) || [])]) {
+      if (this.entries.get(id)!.tx.nonce >= tx.nonce && this.remove(id)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    this.entries.delete(id);
+
+    const ids = this.bySender.get(entry.tx.from);
+    if (ids) {
+      const remaining = ids.filter(other => other !== id);
+      if (remaining.length > 0) {
+        this.bySender.set(entry.tx.from, remaining);
+      } else {
+        this.bySender.delete(entry.tx.from);
+      }
+    }
+
+    return true;
+  }
+}
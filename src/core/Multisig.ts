@@ -0,0 +1,158 @@
+/**
+ * VibeCoin Multisig Accounts - M-of-N accounts spent by several keys
+ *
+ * A multisig account has no key of its own. Its address is the hash of the
+ * threshold and the sorted member public keys, so anyone holding the member
+ * list can derive it and nobody can spend from it without the members.
+ * A transaction from a multisig address carries a witness: the threshold, the
+ * member keys (which must hash to the address) and the member signatures over
+ * the transaction hash. It is valid once threshold distinct members signed.
+ */
+import * as crypto from 'crypto';
+import { ec as EC } from 'elliptic';
+
+const ec = new EC('secp256k1');
+
+export const MULTISIG_CONFIG = {
+  ADDRESS_PREFIX: 'ms',    // Distinguishes multisig addresses from public-key addresses
+  MAX_MEMBERS: 20
+};
+
+export interface MultisigAccount {
+  threshold: number;
+  publicKeys: string[];      // Sorted member public keys
+  address: string;
+}
+
+/**
+ * Multisig data carried by a transaction: the account definition and member signatures
+ */
+export interface MultisigWitness {
+  threshold: number;
+  publicKeys: string[];
+  signatures: Record<string, string>;    // member public key -> DER signature of the transaction hash
+}
+
+export class Multisig {
+  /**
+   * Check an account definition: threshold within 1..members, distinct valid member keys
+   */
+  static validateAccount(threshold: number, publicKeys: string[]): { valid: boolean; error?: string } {
+    if (!Array.isArray(publicKeys) || publicKeys.length === 0) {
+      return { valid: false, error: 'A multisig account needs at least one member' };
+    }
+    if (publicKeys.length > MULTISIG_CONFIG.MAX_MEMBERS) {
+      return { valid: false, error: `A multisig account has at most ${MULTISIG_CONFIG.MAX_MEMBERS} members` };
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > publicKeys.length) {
+      return { valid: false, error: `Threshold must be between 1 and ${publicKeys.length}` };
+    }
+    if (new Set(publicKeys).size !== publicKeys.length) {
+      return { valid: false, error: 'Multisig members must be distinct' };
+    }
+    for (const publicKey of publicKeys) {
+      if (!Multisig.isPublicKey(publicKey)) {
+        return { valid: false, error: `Invalid member public key: ${String(publicKey).substring(0, 16)}...` };
+      }
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Create an M-of-N account (throws on an invalid definition)
+   */
+  static createAccount(threshold: number, publicKeys: string[]): MultisigAccount {
+    const check = Multisig.validateAccount(threshold, publicKeys);
+    if (!check.valid) {
+      throw new Error(check.error);
+    }
+    const sorted = [...publicKeys].sort();
+    return { threshold, publicKeys: sorted, address: Multisig.getAddress(threshold, sorted) };
+  }
+
+  /**
+   * Deterministic address of an account - independent of the member order
+   */
+  static getAddress(threshold: number, publicKeys: string[]): string {
+    const sorted = [...publicKeys].sort();
+    const hash = crypto.createHash('sha256').update(`${threshold}:${sorted.join(',')}`).digest('hex');
+    return `${MULTISIG_CONFIG.ADDRESS_PREFIX}${hash}`;
+  }
+
+  /**
+   * Check if an address is a multisig address (prefix + 64 hex characters)
+   */
+  static isAddress(address: string): boolean {
+    return typeof address === 'string' && new RegExp(`^${MULTISIG_CONFIG.ADDRESS_PREFIX}[0-9a-f]{64}$`).test(address);
+  }
+
+  /**
+   * Sign a transaction hash as a member, adding the signature to the witness
+   */
+  static sign(witness: MultisigWitness, hash: string, privateKey: string): void {
+    const keyPair = ec.keyFromPrivate(privateKey, 'hex');
+    const publicKey = keyPair.getPublic('hex');
+    if (!witness.publicKeys.includes(publicKey)) {
+      throw new Error('Key is not a member of this multisig account');
+    }
+    witness.signatures[publicKey] = keyPair.sign(hash).toDER('hex');
+  }
+
+  /**
+   * Verify one member signature over a transaction hash
+   */
+  static verifySignature(publicKey: string, hash: string, signature: string): boolean {
+    try {
+      return ec.keyFromPublic(publicKey, 'hex').verify(hash, signature);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Number of members that validly signed the hash
+   */
+  static countSignatures(witness: MultisigWitness, hash: string): number {
+    return witness.publicKeys.filter(publicKey => {
+      const signature = witness.signatures[publicKey];
+      return !!signature && Multisig.verifySignature(publicKey, hash, signature);
+    }).length;
+  }
+
+  /**
+   * Verify that a witness authorizes a transaction from a multisig address:
+   * it defines the account behind the address and threshold members signed the hash
+   */
+  static verify(address: string, witness: MultisigWitness | null, hash: string): { valid: boolean; error?: string } {
+    if (!witness || typeof witness !== 'object' || !witness.signatures || typeof witness.signatures !== 'object') {
+      return { valid: false, error: 'Multisig transaction has no witness' };
+    }
+
+    const account = Multisig.validateAccount(witness.threshold, witness.publicKeys);
+    if (!account.valid) {
+      return account;
+    }
+    if (Multisig.getAddress(witness.threshold, witness.publicKeys) !== address) {
+      return { valid: false, error: 'Multisig witness does not match the sender address' };
+    }
+    if (Object.keys(witness.signatures).some(publicKey => !witness.publicKeys.includes(publicKey))) {
+      return { valid: false, error: 'Multisig witness is signed by a non-member' };
+    }
+
+    const signed = Multisig.countSignatures(witness, hash);
+    if (signed < witness.threshold) {
+      return { valid: false, error: `Multisig transaction has ${signed} of ${witness.threshold} required signatures` };
+    }
+    return { valid: true };
+  }
+
+  private static isPublicKey(publicKey: string): boolean {
+    try {
+      if (typeof publicKey !== 'string' || publicKey.length !== 130) return false;
+      ec.keyFromPublic(publicKey, 'hex');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,28 +1,79 @@
 import * as crypto from 'crypto';
 import { ec as EC } from 'elliptic';
+import { toBaseUnits, fromBaseUnits, formatVibe, parseAmount } from './Units';
+import { Multisig, MultisigWitness } from './Multisig';
 
 const ec = new EC('secp256k1');
 
+// Default fee in base units (0.001 VIBE)
+export const DEFAULT_FEE = toBaseUnits(0.001);
+
+/**
+ * Transfers move VIBE between accounts; the other types are Proof of Vibe
+ * operations executed by the consensus when their block is applied
+ */
+export type TransactionType =
+  | 'transfer'
+  | 'stake'
+  | 'unstake'
+  | 'delegate'
+  | 'undelegate'
+  | 'redelegate'
+  | 'withdraw'
+  | 'claimRewards'
+  | 'vote'
+  | 'registerValidator'
+  | 'updateValidator'
+  | 'submitProposal'
+  | 'depositProposal'
+  | 'voteProposal'
+  | 'attestContribution';
+
+export const TRANSACTION_TYPES: TransactionType[] = [
+  'transfer', 'stake', 'unstake', 'delegate', 'undelegate', 'redelegate', 'withdraw', 'claimRewards',
+  'vote', 'registerValidator', 'updateValidator', 'submitProposal', 'depositProposal', 'voteProposal',
+  'attestContribution'
+];
+
+// Recipient of the staking transactions that do not name a validator (never credited)
+export const STAKING_ADDRESS = 'STAKING';
+
+// Staking types that carry no amount
+const NO_AMOUNT_TYPES = new Set<TransactionType>(['vote', 'updateValidator', 'voteProposal', 'attestContribution']);
+
+// Staking types that lock the amount, and the one that releases it back to the balance.
+// Unstaked amounts and refunded proposal deposits stay locked until a withdraw transaction.
+const LOCKING_TYPES = new Set<TransactionType>(['stake', 'delegate', 'registerValidator', 'submitProposal', 'depositProposal']);
+const UNLOCKING_TYPES = new Set<TransactionType>(['withdraw']);
+
 /**
  * Transaction - Represents a transfer of VIBE between addresses
  * Uses ECDSA signatures for authentication
+ * Amounts and fees are integer base units (see Units.ts)
  */
 export class Transaction {
   public id: string;
   public from: string;
   public to: string;
-  public amount: number;
+  public amount: bigint;
   public timestamp: number;
   public data: string;
   public signature: string;
-  public fee: number;
+  public fee: bigint;
+  public nonce: number;             // Per-account sequence number (replay protection)
+  public replaceable: boolean;      // Signals that a higher-fee transaction with the same nonce may replace it
+  public type: TransactionType;
+  public multisig: MultisigWitness | null = null;    // Member signatures when sent from a multisig address
 
   constructor(
     from: string,
     to: string,
-    amount: number,
+    amount: bigint,
     data: string = '',
-    fee: number = 0.001
+    fee: bigint = DEFAULT_FEE,
+    nonce: number = 0,
+    replaceable: boolean = false,
+    type: TransactionType = 'transfer'
   ) {
     this.from = from;
     this.to = to;
@@ -30,28 +81,51 @@ export class Transaction {
     this.timestamp = Date.now();
     this.data = data;
     this.fee = fee;
+    this.nonce = nonce;
+    this.replaceable = replaceable;
+    this.type = type;
     this.signature = '';
     this.id = this.calculateId();
   }
 
   /**
    * Calculate unique transaction ID
+   * Includes the sender nonce so two otherwise identical transfers never share an ID
    */
   calculateId(): string {
-    const data = `${this.from}${this.to}${this.amount}${this.timestamp}${this.data}`;
-    return crypto.createHash('sha256').update(data).digest('hex');
+    return crypto.createHash('sha256').update(this.getSigningPayload()).digest('hex');
   }
 
   /**
    * Calculate hash for signing
+   * The nonce is part of the signed payload so it cannot be altered to replay the transfer
    */
   calculateHash(): string {
     return crypto
       .createHash('sha256')
-      .update(`${this.from}${this.to}${this.amount}${this.timestamp}${this.data}${this.fee}`)
+      .update(this.getSigningPayload())
       .digest('hex');
   }
 
+  /**
+   * Fields covered by the ID and signature
+   * Serialized as a JSON array in a fixed order, so adjacent fields can never be
+   * re-split into different values with the same payload
+   */
+  private getSigningPayload(): string {
+    return JSON.stringify([
+      this.from,
+      this.to,
+      this.amount.toString(),
+      this.timestamp,
+      this.data,
+      this.fee.toString(),
+      this.nonce,
+      this.type,
+      this.replaceable
+    ]);
+  }
+
   /**
    * Sign the transaction with a private key
    */
@@ -62,6 +136,15 @@ export class Transaction {
       return;
     }
 
+    // Multisig accounts collect one signature per member in the witness
+    if (this.isMultisig()) {
+      if (!this.multisig) {
+        throw new Error('Multisig transactions need a witness before signing');
+      }
+      Multisig.sign(this.multisig, this.calculateHash(), privateKey);
+      return;
+    }
+
     const keyPair = ec.keyFromPrivate(privateKey, 'hex');
     const publicKey = keyPair.getPublic('hex');
 
@@ -84,6 +167,15 @@ export class Transaction {
       return true;
     }
 
+    // Multisig accounts are authorized by threshold member signatures
+    if (this.isMultisig()) {
+      const check = Multisig.verify(this.from, this.multisig, this.calculateHash());
+      if (!check.valid) {
+        console.log(`❌ ${check.error}`);
+      }
+      return check.valid;
+    }
+
     // Check if signature exists
     if (!this.signature || this.signature.length === 0) {
       console.log('❌ Transaction has no signature');
@@ -109,25 +201,122 @@ export class Transaction {
   }
 
   /**
-   * Get total cost (amount + fee)
+   * Check if this transaction is sent from a multisig account
+   */
+  isMultisig(): boolean {
+    return Multisig.isAddress(this.from);
+  }
+
+  /**
+   * Check if this is a Proof of Vibe operation rather than a transfer
+   */
+  isStaking(): boolean {
+    return this.type !== 'transfer';
+  }
+
+  /**
+   * Check the amount and recipient the transaction type requires
+   * Transfers and staking transactions move a positive amount; votes move none.
+   * Delegations name the validator as recipient, other staking types STAKING_ADDRESS
+   * Returns the reason the transaction is malformed, or null
+   */
+  getTypeError(): string | null {
+    if (!TRANSACTION_TYPES.includes(this.type)) {
+      return `Unknown transaction type: ${this.type}`;
+    }
+
+    if (NO_AMOUNT_TYPES.has(this.type)) {
+      if (this.amount !== 0n) {
+        return `A ${this.type} transaction cannot move an amount`;
+      }
+    } else if (this.amount <= 0n) {
+      return 'Transaction amount must be positive';
+    }
+
+    if (this.type === 'registerValidator' && this.isMultisig()) {
+      return 'A multisig account cannot sign blocks, so it cannot register as a validator';
+    }
+
+    if (this.type === 'delegate' || this.type === 'undelegate' || this.type === 'redelegate') {
+      if (this.to === STAKING_ADDRESS || this.to === this.from) {
+        return `A ${this.type} transaction must name the validator as recipient`;
+      }
+    } else if (this.isStaking() && this.to !== STAKING_ADDRESS) {
+      return `A ${this.type} transaction must be sent to ${STAKING_ADDRESS}`;
+    } else if (!this.isStaking() && this.to === STAKING_ADDRESS) {
+      return `Transfers to ${STAKING_ADDRESS} are not allowed`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Change of the sender's locked (staked) balance: positive when the amount
+   * is locked, negative when it is released
    */
-  getTotalCost(): number {
+  getLockedChange(): bigint {
+    if (LOCKING_TYPES.has(this.type)) return this.amount;
+    if (UNLOCKING_TYPES.has(this.type)) return -this.amount;
+    return 0n;
+  }
+
+  /**
+   * Staking rewards paid out to the sender (claimRewards transactions)
+   */
+  getClaimedAmount(): bigint {
+    return this.type === 'claimRewards' ? this.amount : 0n;
+  }
+
+  /**
+   * Change of the sender's spendable balance when the transaction is applied
+   */
+  getSenderBalanceChange(): bigint {
+    if (!this.isStaking()) {
+      return -(this.amount + this.fee);
+    }
+    return this.getClaimedAmount() - this.getLockedChange() - this.fee;
+  }
+
+  /**
+   * Get total cost taken from the spendable balance (amount + fee)
+   * Staking transactions that lock nothing only cost the fee
+   */
+  getTotalCost(): bigint {
+    if (this.isStaking() && !LOCKING_TYPES.has(this.type)) {
+      return this.fee;
+    }
     return this.amount + this.fee;
   }
 
   /**
-   * Get transaction as JSON
+   * Get transaction as JSON (canonical format: amounts as base-unit strings)
+   * The multisig witness is only included for multisig senders
    */
   toJSON(): object {
     return {
       id: this.id,
       from: this.from,
       to: this.to,
-      amount: this.amount,
+      amount: this.amount.toString(),
       timestamp: this.timestamp,
       data: this.data,
-      fee: this.fee,
-      signature: this.signature
+      fee: this.fee.toString(),
+      nonce: this.nonce,
+      replaceable: this.replaceable,
+      type: this.type,
+      signature: this.signature,
+      ...(this.multisig && { multisig: this.multisig })
+    };
+  }
+
+  /**
+   * Get transaction as human-readable JSON (amounts in VIBE) for API responses
+   */
+  toDisplayJSON(): object {
+    return {
+      ...this.toJSON(),
+      amount: fromBaseUnits(this.amount),
+      fee: fromBaseUnits(this.fee)
     };
   }
 
@@ -138,28 +327,39 @@ export class Transaction {
     const tx = new Transaction(
       data.from,
       data.to,
-      data.amount,
+      parseAmount(data.amount),
       data.data,
-      data.fee
+      parseAmount(data.fee),
+      data.nonce || 0,
+      data.replaceable === true,
+      data.type || 'transfer'
     );
     tx.id = data.id;
     tx.timestamp = data.timestamp;
     tx.signature = data.signature;
+    if (data.multisig) {
+      tx.multisig = {
+        threshold: data.multisig.threshold,
+        publicKeys: data.multisig.publicKeys,
+        signatures: { ...data.multisig.signatures }
+      };
+    }
     return tx;
   }
 
   /**
    * Create a mining reward transaction
    */
-  static createCoinbase(minerAddress: string, reward: number): Transaction {
+  static createCoinbase(minerAddress: string, reward: bigint): Transaction {
     const tx = new Transaction(
       'MINING_REWARD',
       minerAddress,
       reward,
       'Block mining reward'
     );
-    tx.fee = 0;
+    tx.fee = 0n;
     tx.signature = 'SYSTEM';
+    tx.id = tx.calculateId();
     return tx;
   }
 
@@ -169,6 +369,7 @@ export class Transaction {
   toString(): string {
     const fromShort = this.from.substring(0, 8) + '...';
     const toShort = this.to.substring(0, 8) + '...';
-    return `TX ${this.id.substring(0, 8)}: ${fromShort} → ${toShort} | ${this.amount} VIBE`;
+    const kind = this.isStaking() ? ` [${this.type}]` : '';
+    return `TX ${this.id.substring(0, 8)}${kind}: ${fromShort} → ${toShort} | ${formatVibe(this.amount)} VIBE`;
   }
 }
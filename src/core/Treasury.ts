@@ -0,0 +1,226 @@
+/**
+ * VibeCoin Treasury - Community funds held by a multisig account
+ *
+ * The treasury is an M-of-N multisig account (5 of 7 keyholders by default,
+ * see the whitepaper). Spending from it is a regular transfer from the
+ * treasury address that needs threshold member signatures: a spend is
+ * created unsigned, keyholders add their signatures one by one (each signs
+ * the spend hash offline or through the API) and the spend is submitted to
+ * the mempool once enough signatures were collected.
+ *
+ * Spends are collected on the node they are created on and are not persisted.
+ * Their nonces are allocated in creation order; a ready spend is only
+ * submitted when its nonce is the treasury's next one.
+ */
+import { Transaction, DEFAULT_FEE } from './Transaction';
+import { Multisig, MultisigAccount } from './Multisig';
+
+export const TREASURY_CONFIG = {
+  THRESHOLD: 5,                          // Default signatures required (whitepaper: multi-sig 5/7)
+  MAX_OPEN_SPENDS: 50,
+  SPEND_EXPIRY: 7 * 24 * 60 * 60 * 1000  // Spends that do not collect their signatures within a week are dropped
+};
+
+export type SpendStatus = 'collecting' | 'ready' | 'submitted';
+
+export interface TreasurySpend {
+  id: string;                  // Transaction id
+  transaction: Transaction;
+  description: string;
+  createdAt: number;
+  status: SpendStatus;
+}
+
+export class Treasury {
+  private account: MultisigAccount;
+  private spends: Map<string, TreasurySpend> = new Map();
+
+  constructor(account: MultisigAccount) {
+    this.account = account;
+  }
+
+  /**
+   * Treasury of a set of keyholders (threshold defaults to TREASURY_CONFIG.THRESHOLD, capped at the member count)
+   */
+  static fromKeys(publicKeys: string[], threshold?: number): Treasury {
+    const required = threshold ?? Math.min(TREASURY_CONFIG.THRESHOLD, publicKeys.length);
+    return new Treasury(Multisig.createAccount(required, publicKeys));
+  }
+
+  getAccount(): MultisigAccount {
+    return this.account;
+  }
+
+  getAddress(): string {
+    return this.account.address;
+  }
+
+  /**
+   * Create an unsigned spend from the treasury
+   * @param nextNonce The treasury's next free nonce on chain and in the mempool
+   * @param nonce Explicit nonce, e.g. to replace an abandoned spend
+   */
+  createSpend(
+    to: string,
+    amount: bigint,
+    description: string,
+    nextNonce: number,
+    nonce?: number,
+    fee: bigint = DEFAULT_FEE
+  ): { success: boolean; spend?: TreasurySpend; error?: string } {
+    this.pruneExpired();
+
+    if (amount <= 0n) {
+      return { success: false, error: 'Spend amount must be positive' };
+    }
+    if (to === this.account.address) {
+      return { success: false, error: 'The treasury cannot pay itself' };
+    }
+    if (this.getOpenSpends().length >= TREASURY_CONFIG.MAX_OPEN_SPENDS) {
+      return { success: false, error: `At most ${TREASURY_CONFIG.MAX_OPEN_SPENDS} spends can collect signatures at once` };
+    }
+    if (nonce !== undefined && (!Number.isInteger(nonce) || nonce < nextNonce)) {
+      return { success: false, error: `Nonce must be at least ${nextNonce}` };
+    }
+
+    const transaction = new Transaction(
+      this.account.address, to, amount, description, fee, nonce ?? this.allocateNonce(nextNonce)
+    );
+    transaction.multisig = { threshold: this.account.threshold, publicKeys: [...this.account.publicKeys], signatures: {} };
+
+    const spend: TreasurySpend = {
+      id: transaction.id,
+      transaction,
+      description,
+      createdAt: Date.now(),
+      status: 'collecting'
+    };
+    this.spends.set(spend.id, spend);
+
+    console.log(`🏦 Treasury spend ${spend.id.substring(0, 8)} created: ${transaction.toString()}`);
+    return { success: true, spend };
+  }
+
+  /**
+   * Add a keyholder signature over the spend hash (Transaction.calculateHash)
+   * The spend becomes ready once it carries threshold valid signatures
+   */
+  addSignature(id: string, publicKey: string, signature: string): { success: boolean; spend?: TreasurySpend; error?: string } {
+    const spend = this.spends.get(id);
+    if (!spend) {
+      return { success: false, error: 'Spend not found' };
+    }
+    if (spend.status === 'submitted') {
+      return { success: false, error: 'Spend was already submitted' };
+    }
+    if (!this.account.publicKeys.includes(publicKey)) {
+      return { success: false, error: 'Not a treasury keyholder' };
+    }
+
+    const witness = spend.transaction.multisig!;
+    if (witness.signatures[publicKey]) {
+      return { success: false, error: 'Keyholder already signed this spend' };
+    }
+    if (!Multisig.verifySignature(publicKey, spend.transaction.calculateHash(), signature)) {
+      return { success: false, error: 'Invalid signature for this spend' };
+    }
+
+    witness.signatures[publicKey] = signature;
+    if (this.getSignatureCount(spend) >= this.account.threshold) {
+      spend.status = 'ready';
+    }
+
+    console.log(`✍️  Treasury spend ${id.substring(0, 8)}: ${this.getSignatureCount(spend)}/${this.account.threshold} signatures`);
+    return { success: true, spend };
+  }
+
+  /**
+   * Ready spends whose turn has come, in nonce order
+   */
+  getSubmittable(nextNonce: number): TreasurySpend[] {
+    const ready = this.getOpenSpends()
+      .filter(spend => spend.status === 'ready')
+      .sort((a, b) => a.transaction.nonce - b.transaction.nonce);
+
+    const submittable: TreasurySpend[] = [];
+    for (const spend of ready) {
+      if (spend.transaction.nonce !== nextNonce) break;
+      submittable.push(spend);
+      nextNonce++;
+    }
+    return submittable;
+  }
+
+  /**
+   * Record that a spend entered the mempool
+   */
+  markSubmitted(id: string): void {
+    const spend = this.spends.get(id);
+    if (spend) {
+      spend.status = 'submitted';
+    }
+  }
+
+  /**
+   * Drop a spend that has not been submitted
+   */
+  cancelSpend(id: string): { success: boolean; error?: string } {
+    const spend = this.spends.get(id);
+    if (!spend) {
+      return { success: false, error: 'Spend not found' };
+    }
+    if (spend.status === 'submitted') {
+      return { success: false, error: 'Spend was already submitted' };
+    }
+    this.spends.delete(id);
+    return { success: true };
+  }
+
+  /**
+   * Drop open spends whose nonce was used by another transaction
+   */
+  dropStale(nextNonce: number): void {
+    for (const spend of this.getOpenSpends()) {
+      if (spend.transaction.nonce < nextNonce) {
+        console.log(`🗑️  Treasury spend ${spend.id.substring(0, 8)} dropped: nonce ${spend.transaction.nonce} already used`);
+        this.spends.delete(spend.id);
+      }
+    }
+  }
+
+  getSpend(id: string): TreasurySpend | undefined {
+    return this.spends.get(id);
+  }
+
+  /**
+   * All spends, newest first
+   */
+  getSpends(): TreasurySpend[] {
+    this.pruneExpired();
+    return Array.from(this.spends.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  getSignatureCount(spend: TreasurySpend): number {
+    return Multisig.countSignatures(spend.transaction.multisig!, spend.transaction.calculateHash());
+  }
+
+  private getOpenSpends(): TreasurySpend[] {
+    return Array.from(this.spends.values()).filter(spend => spend.status !== 'submitted');
+  }
+
+  /**
+   * Next nonce after the spends already collecting signatures
+   */
+  private allocateNonce(nextNonce: number): number {
+    return this.getOpenSpends().reduce((nonce, spend) => Math.max(nonce, spend.transaction.nonce + 1), nextNonce);
+  }
+
+  private pruneExpired(): void {
+    const cutoff = Date.now() - TREASURY_CONFIG.SPEND_EXPIRY;
+    for (const [id, spend] of this.spends) {
+      if (spend.createdAt < cutoff) {
+        this.spends.delete(id);
+      }
+    }
+  }
+}
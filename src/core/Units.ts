@@ -0,0 +1,87 @@
+/**
+ * VibeCoin Units - Integer base-unit arithmetic for VIBE amounts
+ *
+ * All consensus-critical values (amounts, fees, balances, rewards, stakes)
+ * are stored as bigint base units: 1 VIBE = 10^8 base units.
+ * Floating-point VIBE values only exist at the edges (API, CLI, demo)
+ * and are converted with the helpers below.
+ */
+
+// Number of decimal places of one VIBE
+export const DECIMALS = 8;
+
+// Base units in one VIBE (10^DECIMALS)
+export const BASE_UNITS_PER_VIBE = 10n ** BigInt(DECIMALS);
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Convert a human-readable VIBE amount (e.g. 12.5 or "0.001") to base units
+ * Throws if the value is not a finite number or has more than 8 decimals
+ */
+export function toBaseUnits(vibe: number | string): bigint {
+  let text: string;
+
+  if (typeof vibe === 'number') {
+    if (!Number.isFinite(vibe)) {
+      throw new Error(`Invalid VIBE amount: ${vibe}`);
+    }
+    // toFixed gives the exact decimal expansion for any amount below MAX_SUPPLY
+    text = vibe.toFixed(DECIMALS);
+  } else {
+    text = vibe.trim();
+  }
+
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`Invalid VIBE amount: ${vibe}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const significantFraction = fraction.replace(/0+$/, '');
+  if (significantFraction.length > DECIMALS) {
+    throw new Error(`VIBE amounts support at most ${DECIMALS} decimal places`);
+  }
+
+  const units = BigInt(whole) * BASE_UNITS_PER_VIBE + BigInt(significantFraction.padEnd(DECIMALS, '0'));
+  return sign ? -units : units;
+}
+
+/**
+ * Format base units as an exact decimal VIBE string (e.g. 1250000000n -> "12.5")
+ */
+export function formatVibe(units: bigint): string {
+  const negative = units < 0n;
+  const abs = negative ? -units : units;
+  const whole = abs / BASE_UNITS_PER_VIBE;
+  const fraction = (abs % BASE_UNITS_PER_VIBE).toString().padStart(DECIMALS, '0').replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? '.' + fraction : ''}`;
+}
+
+/**
+ * Convert base units to a VIBE number for human-readable JSON output
+ * Exact for every amount up to MAX_SUPPLY (2.1e15 base units < 2^53)
+ */
+export function fromBaseUnits(units: bigint): number {
+  return Number(formatVibe(units));
+}
+
+/**
+ * Parse an amount from serialized data
+ * Strings carry base units (canonical format), numbers are legacy VIBE values
+ */
+export function parseAmount(value: string | number | bigint | undefined): bigint {
+  if (value === undefined || value === null) return 0n;
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'string') return BigInt(value);
+  return toBaseUnits(value);
+}
+
+/**
+ * Apply a percentage to an amount using integer math (percent may have 2 decimals)
+ */
+export function percentOf(units: bigint, percent: number): bigint {
+  const basisPoints = BigInt(Math.round(percent * 100));
+  return (units * basisPoints) / 10_000n;
+}
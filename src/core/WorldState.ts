@@ -0,0 +1,313 @@
+/**
+ * VibeCoin World State - Incremental account index
+ *
+ * Keeps balances, nonces, circulating supply and per-address history
+ * up to date as blocks are applied, so queries no longer scan the chain.
+ * VIBE locked by staking transactions is moved out of the spendable balance
+ * until it is released; claimed staking rewards are new coins, and stake slashed
+ * by the consensus is burned from the locked balance and the supply.
+ * The state can always be rebuilt from the blocks themselves.
+ */
+import { Block } from './Block';
+import { Transaction, STAKING_ADDRESS } from './Transaction';
+
+// Senders that create new coins instead of spending existing ones
+const MINTING_SENDERS = new Set(['GENESIS', 'MINING_REWARD']);
+
+export interface AccountState {
+  balance: bigint;                     // Spendable
+  locked: bigint;                      // Staked or delegated through staking transactions
+  nonce: number;                       // Confirmed transactions sent
+  history: Array<[number, number]>;    // [blockIndex, txIndex] of every transaction touching the account
+}
+
+/**
+ * Stake slashed from an address by the consensus when a block was applied
+ */
+export interface SlashRecord {
+  address: string;
+  amount: bigint;
+}
+
+export interface WorldStateJSON {
+  height: number;
+  tipHash: string;
+  supply: string;
+  accounts: Array<{ address: string; balance: string; locked?: string; nonce: number; history: Array<[number, number]> }>;
+  slashes?: Array<{ blockHash: string; burned: Array<{ address: string; amount: string }> }>;
+}
+
+export class WorldState {
+  private accounts: Map<string, AccountState> = new Map();
+  private supply: bigint = 0n;
+  private height: number = 0;
+  private tipHash: string = '';
+  private slashes: Map<string, SlashRecord[]> = new Map();   // Burned stake per block hash
+
+  /**
+   * Build the state by replaying every block of a chain, with the slashes
+   * burned in its blocks (slashes are not part of the block data)
+   */
+  static fromChain(chain: Block[], slashes: Map<string, SlashRecord[]> = new Map()): WorldState {
+    const state = new WorldState();
+    for (const block of chain) {
+      state.applyBlock(block);
+      const burned = slashes.get(block.hash);
+      if (burned) {
+        state.burnSlashes(block, burned);
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Apply a block on top of the current state
+   * Blocks must be applied in order, starting from genesis; a block that would
+   * overdraw an account is refused and leaves the state unchanged
+   */
+  applyBlock(block: Block): void {
+    if (block.index !== this.height) {
+      throw new Error(`Cannot apply block ${block.index} to state at height ${this.height}`);
+    }
+
+    let applied = 0;
+    try {
+      for (; applied < block.transactions.length; applied++) {
+        this.applyTransaction(block.transactions[applied], block.index, applied);
+      }
+    } catch (error) {
+      while (applied-- > 0) {
+        this.revertTransaction(block.transactions[applied]);
+      }
+      throw error;
+    }
+
+    this.height = block.index + 1;
+    this.tipHash = block.hash;
+  }
+
+  /**
+   * Undo the tip block (used when the chain reorganizes)
+   */
+  revertBlock(block: Block): void {
+    if (block.index !== this.height - 1 || block.hash !== this.tipHash) {
+      throw new Error(`Cannot revert block ${block.index}: it is not the state tip`);
+    }
+
+    // Slashes were burned after the transactions
+    for (const { address, amount } of this.slashes.get(block.hash) || []) {
+      this.getOrCreateAccount(address).locked += amount;
+      this.supply += amount;
+    }
+    this.slashes.delete(block.hash);
+
+    for (let txIndex = block.transactions.length - 1; txIndex >= 0; txIndex--) {
+      this.revertTransaction(block.transactions[txIndex]);
+    }
+
+    this.height = block.index;
+    this.tipHash = block.previousHash;
+  }
+
+  /**
+   * Burn the stake the consensus slashed when a block was applied: taken from
+   * the locked balance (as far as it was locked on chain) and from the supply
+   * Recorded per block, so it is undone with the block and burned once when replayed
+   */
+  applySlashes(block: Block, slashes: SlashRecord[]): void {
+    if (slashes.length === 0 || this.slashes.has(block.hash)) return;
+
+    const burned = slashes.map(({ address, amount }) => {
+      const locked = this.getLocked(address);
+      return { address, amount: amount < locked ? amount : locked };
+    });
+    this.burnSlashes(block, burned);
+  }
+
+  private burnSlashes(block: Block, burned: SlashRecord[]): void {
+    for (const { address, amount } of burned) {
+      this.getOrCreateAccount(address).locked -= amount;
+      this.supply -= amount;
+    }
+    this.slashes.set(block.hash, burned);
+  }
+
+  /**
+   * Stake burned per block hash, to carry over when the state is rebuilt from the blocks
+   */
+  getSlashes(): Map<string, SlashRecord[]> {
+    return this.slashes;
+  }
+
+  /**
+   * Apply a single confirmed transaction
+   * Staking transactions credit nobody: they move the amount between the
+   * sender's spendable and locked balances (a delegation shows in the validator's history)
+   */
+  private applyTransaction(tx: Transaction, blockIndex: number, txIndex: number): void {
+    if (MINTING_SENDERS.has(tx.from)) {
+      this.supply += tx.amount;
+    } else {
+      const sender = this.getOrCreateAccount(tx.from);
+      if (sender.balance + tx.getSenderBalanceChange() < 0n || sender.locked + tx.getLockedChange() < 0n) {
+        throw new Error(`Transaction ${tx.id.substring(0, 16)}... overdraws ${tx.from.substring(0, 16)}...`);
+      }
+      sender.balance += tx.getSenderBalanceChange();
+      sender.locked += tx.getLockedChange();
+      sender.nonce++;
+      sender.history.push([blockIndex, txIndex]);
+
+      // Fees leave circulation here and come back through the coinbase
+      this.supply += tx.getClaimedAmount() - tx.fee;
+    }
+
+    if (tx.to === STAKING_ADDRESS) return;
+
+    const recipient = this.getOrCreateAccount(tx.to);
+    if (!tx.isStaking()) {
+      recipient.balance += tx.amount;
+    }
+    if (tx.from !== tx.to) {
+      recipient.history.push([blockIndex, txIndex]);
+    }
+  }
+
+  /**
+   * Exact inverse of applyTransaction
+   */
+  private revertTransaction(tx: Transaction): void {
+    if (tx.to !== STAKING_ADDRESS) {
+      const recipient = this.getOrCreateAccount(tx.to);
+      if (!tx.isStaking()) {
+        recipient.balance -= tx.amount;
+      }
+      if (tx.from !== tx.to) {
+        recipient.history.pop();
+      }
+    }
+
+    if (MINTING_SENDERS.has(tx.from)) {
+      this.supply -= tx.amount;
+    } else {
+      const sender = this.getOrCreateAccount(tx.from);
+      sender.balance -= tx.getSenderBalanceChange();
+      sender.locked -= tx.getLockedChange();
+      sender.nonce--;
+      sender.history.pop();
+      this.supply -= tx.getClaimedAmount() - tx.fee;
+    }
+  }
+
+  private getOrCreateAccount(address: string): AccountState {
+    let account = this.accounts.get(address);
+    if (!account) {
+      account = { balance: 0n, locked: 0n, nonce: 0, history: [] };
+      this.accounts.set(address, account);
+    }
+    return account;
+  }
+
+  /**
+   * Get confirmed balance of an address
+   */
+  getBalance(address: string): bigint {
+    return this.accounts.get(address)?.balance || 0n;
+  }
+
+  /**
+   * Get VIBE locked by the staking transactions of an address
+   */
+  getLocked(address: string): bigint {
+    return this.accounts.get(address)?.locked || 0n;
+  }
+
+  /**
+   * Get confirmed nonce of an address
+   */
+  getNonce(address: string): number {
+    return this.accounts.get(address)?.nonce || 0;
+  }
+
+  /**
+   * Get locations of the transactions touching an address, oldest first
+   */
+  getHistory(address: string): Array<[number, number]> {
+    return this.accounts.get(address)?.history || [];
+  }
+
+  /**
+   * Get total circulating supply
+   */
+  getCirculatingSupply(): bigint {
+    return this.supply;
+  }
+
+  /**
+   * Number of blocks applied
+   */
+  getHeight(): number {
+    return this.height;
+  }
+
+  /**
+   * Hash of the last applied block
+   */
+  getTipHash(): string {
+    return this.tipHash;
+  }
+
+  /**
+   * Check whether this state was built from exactly the given chain tip
+   */
+  matchesChain(chain: Block[]): boolean {
+    return this.height === chain.length &&
+      this.tipHash === chain[chain.length - 1]?.hash;
+  }
+
+  /**
+   * Export state for persistence
+   */
+  toJSON(): WorldStateJSON {
+    return {
+      height: this.height,
+      tipHash: this.tipHash,
+      supply: this.supply.toString(),
+      accounts: Array.from(this.accounts.entries()).map(([address, account]) => ({
+        address,
+        balance: account.balance.toString(),
+        locked: account.locked.toString(),
+        nonce: account.nonce,
+        history: account.history
+      })),
+      slashes: Array.from(this.slashes.entries()).map(([blockHash, burned]) => ({
+        blockHash,
+        burned: burned.map(({ address, amount }) => ({ address, amount: amount.toString() }))
+      }))
+    };
+  }
+
+  /**
+   * Import state from persistence
+   */
+  static fromJSON(data: WorldStateJSON): WorldState {
+    const state = new WorldState();
+    state.height = data.height;
+    state.tipHash = data.tipHash;
+    state.supply = BigInt(data.supply);
+
+    for (const account of data.accounts) {
+      state.accounts.set(account.address, {
+        balance: BigInt(account.balance),
+        locked: BigInt(account.locked || '0'),
+        nonce: account.nonce,
+        history: account.history
+      });
+    }
+
+    for (const { blockHash, burned } of data.slashes || []) {
+      state.slashes.set(blockHash, burned.map(({ address, amount }) => ({ address, amount: BigInt(amount) })));
+    }
+
+    return state;
+  }
+}
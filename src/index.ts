@@ -5,8 +5,28 @@
 
 // Core
 export { Block, ConsensusType } from './core/Block';
-export { Transaction } from './core/Transaction';
-export { Blockchain, BLOCKCHAIN_CONFIG } from './core/Blockchain';
+export { Transaction, TransactionType, TRANSACTION_TYPES, STAKING_ADDRESS } from './core/Transaction';
+export { Blockchain, BLOCKCHAIN_CONFIG, ConsensusRules } from './core/Blockchain';
+export { WorldState, AccountState, SlashRecord } from './core/WorldState';
+export { Mempool, MEMPOOL_CONFIG, MempoolConfig } from './core/Mempool';
+export { ForkChoice, FORK_CHOICE_CONFIG, BlockAcceptResult } from './core/ForkChoice';
+export { Multisig, MultisigAccount, MultisigWitness, MULTISIG_CONFIG } from './core/Multisig';
+export { Treasury, TreasurySpend, SpendStatus, TREASURY_CONFIG } from './core/Treasury';
+export {
+  DIFFICULTY_CONFIG,
+  bitsToTarget,
+  targetToBits,
+  hashMeetsTarget,
+  getDifficulty,
+  getWork
+} from './core/Difficulty';
+export {
+  DECIMALS,
+  BASE_UNITS_PER_VIBE,
+  toBaseUnits,
+  fromBaseUnits,
+  formatVibe
+} from './core/Units';
 
 // Wallet
 export { Wallet } from './wallet/Wallet';
@@ -15,13 +35,53 @@ export { Wallet } from './wallet/Wallet';
 export {
   ProofOfVibe,
   PoVConfig,
+  GenesisValidator,
   DEFAULT_POV_CONFIG,
+  UnjailRequest,
+  PoVConsensus,
+  EvidencePool,
+  EVIDENCE_CONFIG,
+  DoubleSignEvidence,
   StakingManager,
   StakeInfo,
+  Delegation,
+  UnbondingEntry,
   VotingManager,
+  VotingPowerStrategy,
+  VOTING_POWER_STRATEGIES,
   ValidatorManager,
   ValidatorInfo,
-  VibeScore
+  ValidatorPerformance,
+  LeaderboardSort,
+  LEADERBOARD_SORTS,
+  VibeScore,
+  JAIL_CONFIG,
+  COMMISSION_CONFIG,
+  PERFORMANCE_CONFIG,
+  RewardManager,
+  REWARD_CONFIG,
+  ValidatorRegistration,
+  ValidatorUpdate,
+  Ballot,
+  encodeVote,
+  decodeVote,
+  encodeRegistration,
+  decodeRegistration,
+  encodeValidatorUpdate,
+  decodeValidatorUpdate,
+  GovernanceManager,
+  GOVERNANCE_CONFIG,
+  Proposal,
+  ProposalDraft,
+  encodeProposal,
+  decodeProposal,
+  encodeProposalVote,
+  decodeProposalVote,
+  ContributionManager,
+  CONTRIBUTION_CONFIG,
+  ContributionAward,
+  encodeAttestation,
+  decodeAttestation
 } from './consensus';
 
 // Storage
@@ -29,9 +89,14 @@ export { Storage, StorageConfig } from './storage/Storage';
 
 // API
 export { API, APIConfig } from './api/API';
+export { MiningRPC, MINING_RPC_CONFIG, RPC_ERRORS } from './api/MiningRPC';
 
 // Network
 export { P2PNetwork, P2PConfig } from './network/P2P';
+export { OrphanPool, ORPHAN_CONFIG } from './network/OrphanPool';
+
+// Mining
+export { Miner, MINER_CONFIG } from './mining/Miner';
 
 // Node
 export { Node, NodeConfig } from './node/Node';
@@ -53,6 +118,7 @@ export {
 if (require.main === module) {
   const { Blockchain } = require('./core/Blockchain');
   const { Wallet } = require('./wallet/Wallet');
+  const { toBaseUnits, formatVibe } = require('./core/Units');
 
   console.log(`
 ╔═══════════════════════════════════════════════════════════════════╗
@@ -90,11 +156,11 @@ if (require.main === module) {
 
   // Check balances
   console.log('💰 Balances after mining:');
-  console.log(`   Miner: ${miner.getBalance(vibeCoin)} VIBE\n`);
+  console.log(`   Miner: ${formatVibe(miner.getBalance(vibeCoin))} VIBE\n`);
 
   // Miner sends to Alice
   console.log('📤 Miner sending 20 VIBE to Alice...');
-  const result = miner.send(vibeCoin, alice.publicKey, 20, 'Welcome to VibeCoin!');
+  const result = miner.send(vibeCoin, alice.publicKey, toBaseUnits(20), 'Welcome to VibeCoin!');
   if (result.success) {
     console.log(`   ✅ Transaction created: ${result.transaction?.id.substring(0, 16)}...\n`);
   }
@@ -105,9 +171,9 @@ if (require.main === module) {
 
   // Final balances
   console.log('💰 Final balances:');
-  console.log(`   Alice: ${alice.getBalance(vibeCoin)} VIBE`);
-  console.log(`   Bob:   ${bob.getBalance(vibeCoin)} VIBE`);
-  console.log(`   Miner: ${miner.getBalance(vibeCoin)} VIBE\n`);
+  console.log(`   Alice: ${formatVibe(alice.getBalance(vibeCoin))} VIBE`);
+  console.log(`   Bob:   ${formatVibe(bob.getBalance(vibeCoin))} VIBE`);
+  console.log(`   Miner: ${formatVibe(miner.getBalance(vibeCoin))} VIBE\n`);
 
   // Blockchain stats
   console.log('📊 Blockchain Stats:');
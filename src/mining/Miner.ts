@@ -0,0 +1,215 @@
+/**
+ * VibeCoin Miner - Proof-of-work search in worker threads
+ *
+ * Block.mine() blocks the event loop, freezing the API and P2P while it runs.
+ * The Miner spreads the nonce search over worker threads instead, reports
+ * its hashrate, and can drop a job at once when the chain tip moves.
+ */
+import { Worker } from 'worker_threads';
+import * as path from 'path';
+import { Block } from '../core/Block';
+import { hashMeetsTarget } from '../core/Difficulty';
+
+export const MINER_CONFIG = {
+  DEFAULT_THREADS: 1,
+  MAX_THREADS: 64,
+  PROGRESS_INTERVAL: 20_000,     // Hashes between progress reports from a worker
+  HASHRATE_WINDOW_MS: 30_000     // Hashrate is averaged over this window
+};
+
+export interface MiningJob {
+  block: object;             // Block JSON (template)
+  startNonce: number;
+  step: number;
+  progressInterval: number;
+}
+
+export type MiningWorkerMessage =
+  | { type: 'progress'; hashes: number }
+  | { type: 'found'; nonce: number; hash: string };
+
+// Workers run the compiled .js file, or the .ts source through ts-node in development
+const WORKER_EXTENSION = path.extname(__filename);
+const WORKER_FILE = path.join(__dirname, `MiningWorker${WORKER_EXTENSION}`);
+const WORKER_EXEC_ARGV = WORKER_EXTENSION === '.ts' ? ['--require', 'ts-node/register/transpile-only'] : [];
+
+interface ActiveJob {
+  block: Block;
+  startedAt: number;
+  hashes: number;
+  finish: (found: boolean) => void;
+}
+
+export class Miner {
+  private threads: number = MINER_CONFIG.DEFAULT_THREADS;
+  private workers: Worker[] = [];
+  private job: ActiveJob | null = null;
+  private samples: Array<{ time: number; hashes: number }> = [];
+  private activeSince: number = 0;
+  private totalHashes: number = 0;
+  private blocksFound: number = 0;
+  private jobsCancelled: number = 0;
+
+  constructor(threads: number = MINER_CONFIG.DEFAULT_THREADS) {
+    this.setThreads(threads);
+  }
+
+  /**
+   * Set the number of worker threads used for the next job
+   */
+  setThreads(threads: number): void {
+    this.threads = Math.min(Math.max(Math.floor(threads) || 1, 1), MINER_CONFIG.MAX_THREADS);
+  }
+
+  /**
+   * Number of worker threads
+   */
+  getThreads(): number {
+    return this.threads;
+  }
+
+  /**
+   * Search a nonce for a block template
+   * Resolves true with block.nonce and block.hash set, or false if the job was cancelled or failed
+   */
+  mine(block: Block): Promise<boolean> {
+    if (this.job) {
+      return Promise.reject(new Error(`Already mining block ${this.job.block.index}`));
+    }
+
+    console.log(`⛏️  Mining block ${block.index} on ${this.threads} thread(s)...`);
+    if (!this.activeSince) {
+      this.activeSince = Date.now();
+    }
+
+    return new Promise(resolve => {
+      const job: ActiveJob = {
+        block,
+        startedAt: Date.now(),
+        hashes: 0,
+        finish: (found: boolean) => {
+          if (this.job !== job) return;
+          this.job = null;
+          this.terminateWorkers();
+          resolve(found);
+        }
+      };
+      this.job = job;
+
+      const blockData = block.toJSON();
+      for (let i = 0; i < this.threads; i++) {
+        const jobData: MiningJob = {
+          block: blockData,
+          startNonce: i,
+          step: this.threads,
+          progressInterval: MINER_CONFIG.PROGRESS_INTERVAL
+        };
+
+        const worker = new Worker(WORKER_FILE, { workerData: jobData, execArgv: WORKER_EXEC_ARGV });
+        worker.on('message', (message: MiningWorkerMessage) => this.handleMessage(job, message));
+        worker.on('error', (error: Error) => {
+          console.error(`❌ Mining worker ${i} failed: ${error.message}`);
+          this.workers = this.workers.filter(w => w !== worker);
+          if (this.workers.length === 0) {
+            job.finish(false);
+          }
+        });
+        this.workers.push(worker);
+      }
+    });
+  }
+
+  /**
+   * Stop the current job immediately (e.g. a peer delivered a block at this height)
+   */
+  cancel(reason: string): void {
+    if (!this.job) return;
+
+    console.log(`🛑 Mining of block ${this.job.block.index} cancelled: ${reason}`);
+    this.jobsCancelled++;
+    this.job.finish(false);
+  }
+
+  /**
+   * Check if a job is running
+   */
+  isMining(): boolean {
+    return this.job !== null;
+  }
+
+  /**
+   * Template currently being mined
+   */
+  getCurrentBlock(): Block | null {
+    return this.job?.block || null;
+  }
+
+  /**
+   * Hashes per second over the recent window
+   */
+  getHashrate(): number {
+    const now = Date.now();
+    const windowStart = now - MINER_CONFIG.HASHRATE_WINDOW_MS;
+    this.samples = this.samples.filter(sample => sample.time >= windowStart);
+
+    if (!this.activeSince) return 0;
+
+    const elapsed = Math.min(now - this.activeSince, MINER_CONFIG.HASHRATE_WINDOW_MS) / 1000;
+    const hashes = this.samples.reduce((sum, sample) => sum + sample.hashes, 0);
+    return elapsed > 0 ? Math.round(hashes / elapsed) : 0;
+  }
+
+  /**
+   * Get miner statistics
+   */
+  getStats(): object {
+    return {
+      threads: this.threads,
+      mining: this.isMining(),
+      currentBlock: this.job?.block.index ?? null,
+      hashrate: this.getHashrate(),
+      totalHashes: this.totalHashes,
+      blocksFound: this.blocksFound,
+      jobsCancelled: this.jobsCancelled
+    };
+  }
+
+  private handleMessage(job: ActiveJob, message: MiningWorkerMessage): void {
+    if (this.job !== job) return;
+
+    if (message.type === 'progress') {
+      job.hashes += message.hashes;
+      this.totalHashes += message.hashes;
+      this.samples.push({ time: Date.now(), hashes: message.hashes });
+      return;
+    }
+
+    // Never trust a worker blindly: recompute the hash on the main thread
+    const block = job.block;
+    block.nonce = message.nonce;
+    block.hash = block.calculateHash();
+    if (block.hash !== message.hash || !hashMeetsTarget(block.hash, block.difficulty)) {
+      // The worker stopped after reporting it: end the job so a fresh template gets mined
+      console.error(`❌ Mining worker returned an invalid nonce for block ${block.index}`);
+      job.finish(false);
+      return;
+    }
+
+    const duration = (Date.now() - job.startedAt) / 1000;
+    this.blocksFound++;
+
+    console.log(`✅ Block ${block.index} mined!`);
+    console.log(`   Hash: ${block.hash}`);
+    console.log(`   Nonce: ${block.nonce}`);
+    console.log(`   Time: ${duration.toFixed(2)}s (${job.hashes} hashes, ${this.getHashrate()} H/s)`);
+
+    job.finish(true);
+  }
+
+  private terminateWorkers(): void {
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.workers = [];
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * VibeCoin Mining Worker - Nonce search running in a worker thread
+ *
+ * Worker i of n tries nonces i, i + n, i + 2n, ... so workers never
+ * hash the same nonce. The block is hashed with Block.calculateHash,
+ * exactly like validators do.
+ */
+import { isMainThread, parentPort, workerData } from 'worker_threads';
+import { Block } from '../core/Block';
+import { hashMeetsTarget } from '../core/Difficulty';
+import { MiningJob, MiningWorkerMessage } from './Miner';
+
+function run(job: MiningJob): void {
+  const block = Block.fromJSON(job.block);
+  let hashes = 0;
+
+  for (let nonce = job.startNonce; nonce <= Number.MAX_SAFE_INTEGER; nonce += job.step) {
+    block.nonce = nonce;
+    const hash = block.calculateHash();
+    hashes++;
+
+    if (hashMeetsTarget(hash, block.difficulty)) {
+      post({ type: 'progress', hashes });
+      post({ type: 'found', nonce, hash });
+      return;
+    }
+
+    if (hashes === job.progressInterval) {
+      post({ type: 'progress', hashes });
+      hashes = 0;
+    }
+  }
+}
+
+function post(message: MiningWorkerMessage): void {
+  parentPort!.postMessage(message);
+}
+
+if (!isMainThread && parentPort) {
+  run(workerData as MiningJob);
+}
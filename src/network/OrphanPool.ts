@@ -0,0 +1,160 @@
+/**
+ * VibeCoin Orphan Pool - Holds blocks that arrived before their parent
+ *
+ * Gossip does not guarantee ordering, so a block can reach us before the
+ * block it builds on. Instead of rejecting it, we keep it here (keyed by
+ * previousHash), ask the sender for the missing parent, and connect the
+ * orphan as soon as the parent is accepted.
+ *
+ * Orphans cannot be validated against their parent yet, so only blocks that
+ * pass the checks needing no chain context (hash, merkle root, proof of work
+ * or validator signature) are kept: forged blocks cannot crowd out real ones.
+ */
+
+import { Block } from '../core/Block';
+import { hashMeetsTarget } from '../core/Difficulty';
+
+export const ORPHAN_CONFIG = {
+  MAX_ORPHANS: 100,                   // Total orphans kept in memory
+  MAX_ORPHANS_PER_PEER: 50,           // One peer cannot fill the whole pool
+  ORPHAN_EXPIRY_MS: 10 * 60 * 1000    // Drop orphans whose parent never shows up
+};
+
+export interface OrphanEntry {
+  block: Block;
+  peerAddress: string;   // Peer that sent the block (parent requests and scoring)
+  receivedAt: number;
+}
+
+export class OrphanPool {
+  private byHash: Map<string, OrphanEntry> = new Map();
+  private byParent: Map<string, Set<string>> = new Map();
+
+  /**
+   * Check what can be checked without the parent: returns the problem, or null for a well-formed block
+   */
+  static checkBlock(block: Block): string | null {
+    if (block.hash !== block.calculateHash()) {
+      return 'hash does not match the block contents';
+    }
+    if (!block.hasValidMerkleRoot()) {
+      return 'merkle root does not match the transactions';
+    }
+    if (block.isPoV()) {
+      return block.hasValidSignature() ? null : 'missing or invalid validator signature';
+    }
+    return hashMeetsTarget(block.hash, block.difficulty) ? null : 'hash does not meet the difficulty target';
+  }
+
+  /**
+   * Add an orphan block
+   * Returns false if it is already known, malformed (see checkBlock) or the peer is over its quota
+   */
+  add(block: Block, peerAddress: string): boolean {
+    if (this.byHash.has(block.hash) || OrphanPool.checkBlock(block)) {
+      return false;
+    }
+
+    const fromPeer = Array.from(this.byHash.values())
+      .filter(entry => entry.peerAddress === peerAddress).length;
+    if (fromPeer >= ORPHAN_CONFIG.MAX_ORPHANS_PER_PEER) {
+      return false;
+    }
+
+    // Evict the oldest orphan when full (Map keeps insertion order)
+    if (this.byHash.size >= ORPHAN_CONFIG.MAX_ORPHANS) {
+      const oldest = this.byHash.keys().next().value;
+      if (oldest !== undefined) {
+        this.remove(oldest);
+      }
+    }
+
+    this.byHash.set(block.hash, { block, peerAddress, receivedAt: Date.now() });
+
+    const siblings = this.byParent.get(block.previousHash) || new Set<string>();
+    siblings.add(block.hash);
+    this.byParent.set(block.previousHash, siblings);
+
+    return true;
+  }
+
+  /**
+   * Check if a block is waiting in the pool
+   */
+  has(hash: string): boolean {
+    return this.byHash.has(hash);
+  }
+
+  /**
+   * Remove and return all orphans that build on the given parent
+   */
+  takeChildren(parentHash: string): OrphanEntry[] {
+    const hashes = this.byParent.get(parentHash);
+    if (!hashes) return [];
+
+    const children: OrphanEntry[] = [];
+    for (const hash of hashes) {
+      const entry = this.byHash.get(hash);
+      if (entry) {
+        children.push(entry);
+      }
+      this.byHash.delete(hash);
+    }
+    this.byParent.delete(parentHash);
+
+    return children;
+  }
+
+  /**
+   * Follow a chain of orphans back to the first parent we are missing
+   */
+  getMissingAncestor(hash: string): string {
+    let entry = this.byHash.get(hash);
+    let missing = entry?.block.previousHash || hash;
+
+    while (entry && this.byHash.has(entry.block.previousHash)) {
+      entry = this.byHash.get(entry.block.previousHash);
+      missing = entry!.block.previousHash;
+    }
+
+    return missing;
+  }
+
+  /**
+   * Drop orphans that waited too long for their parent
+   */
+  prune(): number {
+    const cutoff = Date.now() - ORPHAN_CONFIG.ORPHAN_EXPIRY_MS;
+    let removed = 0;
+
+    for (const [hash, entry] of this.byHash) {
+      if (entry.receivedAt < cutoff) {
+        this.remove(hash);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Number of orphans in the pool
+   */
+  getSize(): number {
+    return this.byHash.size;
+  }
+
+  private remove(hash: string): void {
+    const entry = this.byHash.get(hash);
+    if (!entry) return;
+
+    this.byHash.delete(hash);
+    const siblings = this.byParent.get(entry.block.previousHash);
+    if (siblings) {
+      siblings.delete(hash);
+      if (siblings.size === 0) {
+        this.byParent.delete(entry.block.previousHash);
+      }
+    }
+  }
+}
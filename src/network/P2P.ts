@@ -27,12 +27,20 @@ import {
   calculatePeerScore
 } from './SeedNodes';
 import { ChainValidator } from '../core/ChainValidator';
+import { ForkChoice, BlockAcceptResult } from '../core/ForkChoice';
 import { p2pSecurity, SECURITY_CONFIG } from './P2PSecurity';
+import { OrphanPool, ORPHAN_CONFIG } from './OrphanPool';
+import { EvidencePool, DoubleSignEvidence } from '../consensus/Evidence';
+import { PoVConsensus } from '../consensus/PoVConsensus';
+import { UnjailRequest } from '../consensus/ProofOfVibe';
 
 // Version for protocol compatibility
 const PROTOCOL_VERSION = '1.0.0';
 const NODE_VERSION = '0.2.0';
 
+// Max blocks per sync response (also the step used to walk back to a fork point)
+const SYNC_BATCH_SIZE = 100;
+
 // Message types
 enum MessageType {
   HANDSHAKE = 'HANDSHAKE',
@@ -50,7 +58,13 @@ enum MessageType {
   GET_NODE_INFO = 'GET_NODE_INFO',
   NODE_INFO = 'NODE_INFO',
   SYNC_REQUEST = 'SYNC_REQUEST',
-  SYNC_RESPONSE = 'SYNC_RESPONSE'
+  SYNC_RESPONSE = 'SYNC_RESPONSE',
+  // Single block by hash (used to fetch missing parents of orphans)
+  GET_BLOCK = 'GET_BLOCK',
+  BLOCK = 'BLOCK',
+  // Proof that a PoV validator signed two blocks at one height
+  DOUBLE_SIGN_EVIDENCE = 'DOUBLE_SIGN_EVIDENCE',
+  UNJAIL_REQUEST = 'UNJAIL_REQUEST'
 }
 
 interface P2PMessage {
@@ -89,15 +103,20 @@ export class P2PNetwork {
   private peers: Map<string, Peer> = new Map();
   private knownPeers: Map<string, { lastSeen: number; score: number }> = new Map();
   private blockchain: Blockchain;
+  private forkChoice: ForkChoice;
+  private orphanPool: OrphanPool = new OrphanPool();
+  private povConsensus: PoVConsensus | null = null;
   private storage: Storage;
   private config: P2PConfig;
   private nodeId: string;
   private messageHandlers: Map<MessageType, (peer: Peer, data: any) => void> = new Map();
   private discoveryInterval: NodeJS.Timeout | null = null;
   private syncInProgress: boolean = false;
+  private tipListeners: Array<(tip: Block) => void> = [];
 
   constructor(blockchain: Blockchain, storage: Storage, config: Partial<P2PConfig> = {}) {
     this.blockchain = blockchain;
+    this.forkChoice = new ForkChoice(blockchain);
     this.storage = storage;
     this.nodeId = uuidv4();
 
@@ -135,6 +154,7 @@ export class P2PNetwork {
           network: this.config.network,
           height: this.blockchain.chain.length,
           latestHash: this.blockchain.getLatestBlock().hash,
+          totalWork: Blockchain.getChainWork(this.blockchain.chain).toString(),
           capabilities: this.config.capabilities
         }
       });
@@ -161,8 +181,10 @@ export class P2PNetwork {
         return;
       }
 
-      // If peer has more blocks, request sync
-      if (data.height > this.blockchain.chain.length) {
+      // If peer has more blocks or a heavier chain, request sync
+      const peerWork = BigInt(data.totalWork || 0);
+      if (data.height > this.blockchain.chain.length ||
+          peerWork > Blockchain.getChainWork(this.blockchain.chain)) {
         this.requestSync(peer);
       }
 
@@ -184,14 +206,14 @@ export class P2PNetwork {
     });
 
     // Receive blocks
-    this.messageHandlers.set(MessageType.BLOCKS, async (_peer, data) => {
+    this.messageHandlers.set(MessageType.BLOCKS, async (peer, data) => {
       const { blocks } = data;
 
       for (const blockData of blocks) {
         const block = Block.fromJSON(blockData);
+        const result = await this.acceptBlock(block, peer);
 
-        if (this.isValidNewBlock(block)) {
-          this.blockchain.chain.push(block);
+        if (result.connected.length > 0) {
           console.log(`📦 Added block ${block.index} from sync`);
         }
       }
@@ -203,29 +225,42 @@ export class P2PNetwork {
     this.messageHandlers.set(MessageType.NEW_BLOCK, async (peer, data) => {
       const block = Block.fromJSON(data.block);
       const peerIP = this.extractIP(peer.address);
+      const result = await this.acceptBlock(block, peer);
 
-      if (this.isValidNewBlock(block)) {
-        this.blockchain.chain.push(block);
+      switch (result.status) {
+        case 'extended':
+        case 'reorganized':
+          await this.storage.saveBlockchain(this.blockchain);
+          console.log(`📦 New block ${block.index} from ${peer.nodeId.substring(0, 8)}`);
 
-        // Remove mined transactions from pending
-        const minedIds = new Set(block.transactions.map(tx => tx.id));
-        this.blockchain.pendingTransactions = this.blockchain.pendingTransactions
-          .filter(tx => !minedIds.has(tx.id));
+          // Reward good behavior
+          p2pSecurity.reportValidBlock(peerIP);
 
-        await this.storage.saveBlockchain(this.blockchain);
-        console.log(`📦 New block ${block.index} from ${peer.nodeId.substring(0, 8)}`);
+          // Broadcast to other peers
+          this.broadcastExcept(peer.nodeId, {
+            type: MessageType.NEW_BLOCK,
+            data: { block: block.toJSON() }
+          });
+          break;
 
-        // Reward good behavior
-        p2pSecurity.reportValidBlock(peerIP);
+        case 'side-chain':
+          console.log(`🌿 ${result.message}`);
+          // Waiting orphans may have made this branch the main chain
+          if (result.connected.length > 0) {
+            await this.storage.saveBlockchain(this.blockchain);
+          }
+          break;
 
-        // Broadcast to other peers
-        this.broadcastExcept(peer.nodeId, {
-          type: MessageType.NEW_BLOCK,
-          data: { block: block.toJSON() }
-        });
-      } else {
-        // Punish bad behavior
-        p2pSecurity.reportInvalidBlock(peerIP);
+        case 'orphan':
+          // Parent not here yet - kept in the orphan pool and requested (no penalty)
+          peer.blockHeight = Math.max(peer.blockHeight, block.index + 1);
+          break;
+
+        case 'invalid':
+          // Punish bad behavior
+          console.log(`❌ Block ${block.index} rejected: ${result.message}`);
+          p2pSecurity.reportInvalidBlock(peerIP);
+          break;
       }
     });
 
@@ -234,11 +269,9 @@ export class P2PNetwork {
       const tx = Transaction.fromJSON(data.transaction);
       const peerIP = this.extractIP(peer.address);
 
-      if (tx.isValid()) {
-        const exists = this.blockchain.pendingTransactions.some(t => t.id === tx.id);
-
-        if (!exists) {
-          this.blockchain.addTransaction(tx);
+      if (tx.isValid() && ChainValidator.validateTransactionType(tx, this.blockchain.consensus !== null).valid) {
+        // Relay only what our mempool accepted (fee, nonce and balance rules)
+        if (!this.blockchain.mempool.has(tx.id) && this.blockchain.addTransaction(tx)) {
           console.log(`📝 New transaction from ${peer.nodeId.substring(0, 8)}`);
 
           // Reward good behavior
@@ -308,7 +341,7 @@ export class P2PNetwork {
       const { fromHeight, toHeight } = data;
       const blocks: any[] = [];
 
-      const maxBlocks = Math.min(toHeight - fromHeight, 100); // Max 100 blocks per request
+      const maxBlocks = Math.min(toHeight - fromHeight, SYNC_BATCH_SIZE);
       for (let i = fromHeight; i < fromHeight + maxBlocks && i < this.blockchain.chain.length; i++) {
         blocks.push(this.blockchain.chain[i].toJSON());
       }
@@ -328,26 +361,40 @@ export class P2PNetwork {
       const { blocks, hasMore, totalHeight } = data;
       const peerIP = this.extractIP(peer.address);
 
-      for (const blockData of blocks) {
-        const block = Block.fromJSON(blockData);
-        if (this.isValidNewBlock(block)) {
-          this.blockchain.chain.push(block);
-          peer.score.blocksReceived++;
-          p2pSecurity.reportValidBlock(peerIP);
-        } else {
+      const received: Block[] = blocks.map((blockData: any) => Block.fromJSON(blockData));
+
+      // Peer is on a fork we don't know yet - step back to find the common ancestor
+      const first = received[0];
+      if (first && first.index > 0 && !this.forkChoice.isKnown(first.previousHash)) {
+        const fromHeight = Math.max(0, first.index - SYNC_BATCH_SIZE);
+        console.log(`🔙 Fork detected, re-syncing from height ${fromHeight}`);
+        this.sendToPeer(peer, {
+          type: MessageType.SYNC_REQUEST,
+          data: { fromHeight, toHeight: totalHeight }
+        });
+        return;
+      }
+
+      for (const block of received) {
+        const result = await this.acceptBlock(block, peer);
+        if (result.status === 'invalid') {
           peer.score.invalidBlocks++;
           p2pSecurity.reportInvalidBlock(peerIP);
+        } else if (result.status !== 'duplicate' && result.status !== 'orphan') {
+          peer.score.blocksReceived++;
+          p2pSecurity.reportValidBlock(peerIP);
         }
       }
 
       console.log(`📥 Synced ${blocks.length} blocks from ${peer.nodeId.substring(0, 8)} (${this.blockchain.chain.length}/${totalHeight})`);
 
-      // Request more if needed
-      if (hasMore && this.blockchain.chain.length < totalHeight) {
+      // Request more if needed (continue after the last block received, which may be on a side branch)
+      const nextHeight = received.length > 0 ? received[received.length - 1].index + 1 : totalHeight;
+      if (hasMore && nextHeight < totalHeight) {
         this.sendToPeer(peer, {
           type: MessageType.SYNC_REQUEST,
           data: {
-            fromHeight: this.blockchain.chain.length,
+            fromHeight: nextHeight,
             toHeight: totalHeight
           }
         });
@@ -357,6 +404,79 @@ export class P2PNetwork {
         console.log(`✅ Sync complete! Height: ${this.blockchain.chain.length}`);
       }
     });
+
+    // Single block request - answered from the main chain or a known side branch
+    this.messageHandlers.set(MessageType.GET_BLOCK, (peer, data) => {
+      const block = this.forkChoice.getBlock(data.hash);
+      if (block) {
+        this.sendToPeer(peer, {
+          type: MessageType.BLOCK,
+          data: { block: block.toJSON() }
+        });
+      }
+    });
+
+    // Single block response - usually the missing parent of an orphan
+    this.messageHandlers.set(MessageType.BLOCK, async (peer, data) => {
+      const block = Block.fromJSON(data.block);
+      const result = await this.acceptBlock(block, peer);
+
+      if (result.status === 'invalid') {
+        console.log(`❌ Block ${block.index} rejected: ${result.message}`);
+        peer.score.invalidBlocks++;
+        p2pSecurity.reportInvalidBlock(this.extractIP(peer.address));
+        return;
+      }
+
+      if (result.connected.length > 0) {
+        await this.storage.saveBlockchain(this.blockchain);
+        console.log(`📦 Connected block ${block.index} from ${peer.nodeId.substring(0, 8)}`);
+      }
+    });
+
+    // Double-sign evidence - verified, pooled for inclusion in a block and relayed
+    this.messageHandlers.set(MessageType.DOUBLE_SIGN_EVIDENCE, (peer, data) => {
+      if (!this.povConsensus) return;
+
+      const evidence = data.evidence as DoubleSignEvidence;
+      const verification = EvidencePool.verify(evidence);
+      if (!verification.valid) {
+        p2pSecurity.reportProtocolViolation(this.extractIP(peer.address), `Invalid double-sign evidence: ${verification.error}`);
+        return;
+      }
+
+      if (this.povConsensus.getEvidencePool().add(evidence).success) {
+        console.log(`🚨 Double-sign evidence against ${evidence.validator.substring(0, 16)}... received from ${peer.nodeId.substring(0, 8)}`);
+        this.broadcastExcept(peer.nodeId, {
+          type: MessageType.DOUBLE_SIGN_EVIDENCE,
+          data: { evidence }
+        });
+      }
+    });
+
+    // Unjail request - queued for inclusion in a block (accepted requests are relayed by the listener)
+    this.messageHandlers.set(MessageType.UNJAIL_REQUEST, (peer, data) => {
+      if (!this.povConsensus) return;
+
+      const request = data.request as UnjailRequest;
+      if (this.povConsensus.submitUnjail(request).success) {
+        console.log(`🔓 Unjail request for ${request.validator.substring(0, 16)}... received from ${peer.nodeId.substring(0, 8)}`);
+      }
+    });
+  }
+
+  /**
+   * Enable PoV gossip: double-sign detection on blocks (evidence goes to the
+   * consensus evidence pool) and relay of unjail requests
+   */
+  setPoVConsensus(consensus: PoVConsensus): void {
+    this.povConsensus = consensus;
+    consensus.onUnjailRequest(request => {
+      this.broadcast({
+        type: MessageType.UNJAIL_REQUEST,
+        data: { request }
+      });
+    });
   }
 
   /**
@@ -659,6 +779,7 @@ export class P2PNetwork {
           network: this.config.network,
           height: this.blockchain.chain.length,
           latestHash: this.blockchain.getLatestBlock().hash,
+          totalWork: Blockchain.getChainWork(this.blockchain.chain).toString(),
           capabilities: this.config.capabilities
         }
       });
@@ -731,37 +852,138 @@ export class P2PNetwork {
   }
 
   /**
-   * Validate new block using ChainValidator
-   * This ensures no one (including creators) can inject invalid blocks
+   * Run a block through fork choice (which validates it with ChainValidator)
+   * and keep the storage indexes in step with the main chain.
+   * Orphans are parked until their parent arrives; orphans connected as a
+   * result of this block are included in the returned connected/disconnected lists.
    */
-  private isValidNewBlock(block: Block): boolean {
-    const latestBlock = this.blockchain.getLatestBlock();
+  private async acceptBlock(block: Block, peer?: Peer): Promise<BlockAcceptResult> {
+    // Signatures need no chain context: never park or relay a forged PoV block
+    if (block.isPoV() && !block.hasValidSignature()) {
+      return {
+        status: 'invalid',
+        message: `Block ${block.index} has a missing or invalid validator signature`,
+        connected: [],
+        disconnected: []
+      };
+    }
 
-    // Basic structure checks
-    if (block.index !== latestBlock.index + 1) {
-      console.log(`❌ Block ${block.index} rejected: wrong index (expected ${latestBlock.index + 1})`);
-      return false;
+    // Any validly signed header counts, even if the block loses or fails other checks
+    const evidence = this.povConsensus?.getEvidencePool().recordHeader(block);
+    if (evidence) {
+      this.broadcast({
+        type: MessageType.DOUBLE_SIGN_EVIDENCE,
+        data: { evidence }
+      });
     }
 
-    if (block.previousHash !== latestBlock.hash) {
-      console.log(`❌ Block ${block.index} rejected: invalid previous hash`);
-      return false;
+    const result = this.forkChoice.processBlock(block);
+
+    if (result.status === 'orphan') {
+      // Not checked against a parent yet: a malformed block is rejected (and its sender penalized) instead of parked
+      const error = OrphanPool.checkBlock(block);
+      if (error) {
+        return { status: 'invalid', message: `Orphan block ${block.index}: ${error}`, connected: [], disconnected: [] };
+      }
+      if (peer) {
+        this.addOrphan(block, peer);
+      }
+    } else if (result.status !== 'invalid' && result.status !== 'duplicate') {
+      this.connectOrphans(block.hash, result);
     }
 
-    // Use ChainValidator for thorough validation
-    const validationResult = ChainValidator.validateBlock(block, latestBlock, block.index);
-    if (!validationResult.valid) {
-      console.log(`❌ Block ${block.index} rejected by ChainValidator: ${validationResult.message}`);
-      return false;
+    for (const disconnected of result.disconnected) {
+      await this.storage.unindexBlock(disconnected);
+    }
+    for (const connected of result.connected) {
+      await this.storage.indexBlock(connected);
     }
 
-    // Verify proof of work
-    if (!block.isValid()) {
-      console.log(`❌ Block ${block.index} rejected: invalid proof of work`);
-      return false;
+    if (result.connected.length > 0) {
+      this.notifyNewTip();
     }
 
-    return true;
+    return result;
+  }
+
+  /**
+   * Register a callback for when a block from the network changes our tip
+   * (used to cancel mining on a stale template)
+   */
+  onNewTip(listener: (tip: Block) => void): void {
+    this.tipListeners.push(listener);
+  }
+
+  private notifyNewTip(): void {
+    const tip = this.blockchain.getLatestBlock();
+    for (const listener of this.tipListeners) {
+      listener(tip);
+    }
+  }
+
+  /**
+   * Keep an orphan block and ask the peer that sent it for the missing parent
+   */
+  private addOrphan(block: Block, peer: Peer): void {
+    if (this.orphanPool.has(block.hash)) return;
+
+    // Too far ahead to fetch parent by parent - a regular sync is cheaper
+    if (block.index - this.blockchain.chain.length >= ORPHAN_CONFIG.MAX_ORPHANS) {
+      peer.blockHeight = Math.max(peer.blockHeight, block.index + 1);
+      this.requestSync(peer);
+      return;
+    }
+
+    if (!this.orphanPool.add(block, peer.address)) {
+      return;
+    }
+
+    const missing = this.orphanPool.getMissingAncestor(block.hash);
+    console.log(`🧩 Orphan block ${block.index} stored (${this.orphanPool.getSize()} waiting), requesting parent ${missing.substring(0, 16)}...`);
+
+    this.sendToPeer(peer, {
+      type: MessageType.GET_BLOCK,
+      data: { hash: missing }
+    });
+  }
+
+  /**
+   * Process orphans waiting on a block that was just accepted, then their children
+   */
+  private connectOrphans(parentHash: string, result: BlockAcceptResult): void {
+    const queue = [parentHash];
+
+    while (queue.length > 0) {
+      for (const entry of this.orphanPool.takeChildren(queue.shift()!)) {
+        const orphanResult = this.forkChoice.processBlock(entry.block);
+        const peerIP = this.extractIP(entry.peerAddress);
+
+        if (orphanResult.status === 'invalid') {
+          console.log(`❌ Orphan block ${entry.block.index} rejected: ${orphanResult.message}`);
+          p2pSecurity.reportInvalidBlock(peerIP);
+          continue;
+        }
+        if (orphanResult.status === 'duplicate' || orphanResult.status === 'orphan') {
+          continue;
+        }
+
+        console.log(`🧩 Orphan block ${entry.block.index} connected (${orphanResult.status})`);
+        p2pSecurity.reportValidBlock(peerIP);
+
+        // Fold into the caller's result so storage indexes follow every change
+        for (const block of orphanResult.disconnected) {
+          const connectedIndex = result.connected.indexOf(block);
+          if (connectedIndex >= 0) {
+            result.connected.splice(connectedIndex, 1);
+          } else {
+            result.disconnected.push(block);
+          }
+        }
+        result.connected.push(...orphanResult.connected);
+
+        queue.push(entry.block.hash);
+      }
+    }
   }
 
   /**
@@ -798,6 +1020,12 @@ export class P2PNetwork {
 
     await this.storage.savePeers(addresses);
 
+    // Drop orphans whose parent never arrived
+    const expired = this.orphanPool.prune();
+    if (expired > 0) {
+      console.log(`🧹 Dropped ${expired} expired orphan blocks`);
+    }
+
     // Clean up old security data
     p2pSecurity.cleanup();
   }
@@ -841,6 +1069,7 @@ export class P2PNetwork {
     knownPeers: number;
     syncStatus: string;
     blockHeight: number;
+    orphanBlocks: number;
   } {
     return {
       nodeId: this.nodeId,
@@ -849,7 +1078,8 @@ export class P2PNetwork {
       peers: this.getPeerCount(),
       knownPeers: this.knownPeers.size,
       syncStatus: this.syncInProgress ? 'syncing' : 'synced',
-      blockHeight: this.blockchain.chain.length
+      blockHeight: this.blockchain.chain.length,
+      orphanBlocks: this.orphanPool.getSize()
     };
   }
 
@@ -6,17 +6,35 @@ import { Block } from '../core/Block';
 import { Wallet } from '../wallet/Wallet';
 import { Storage, StorageConfig } from '../storage/Storage';
 import { API, APIConfig } from '../api/API';
+import { MiningRPC } from '../api/MiningRPC';
 import { P2PNetwork, P2PConfig } from '../network/P2P';
+import { Miner, MINER_CONFIG } from '../mining/Miner';
+import { ProofOfVibe, GenesisValidator } from '../consensus/ProofOfVibe';
+import { PoVConsensus } from '../consensus/PoVConsensus';
+import { encodeRegistration } from '../consensus/StakingTransactions';
+import { Treasury } from '../core/Treasury';
+import { Transaction, STAKING_ADDRESS } from '../core/Transaction';
+import { toBaseUnits } from '../core/Units';
 
 export interface NodeConfig {
   network: 'mainnet' | 'testnet' | 'local';
   dataDir: string;
   api: Partial<APIConfig>;
   p2p: Partial<P2PConfig>;
+  // Block production: proof-of-work mining or elected Proof of Vibe validators
+  consensus: 'pow' | 'pov';
+  // PoV: validators the chain starts from, the same list on every node of the network
+  genesisValidators?: GenesisValidator[];
+  // PoV: register the node wallet as a validator with a signed transaction on startup
+  validator?: {
+    name: string;
+    stake: number;    // VIBE
+  };
   mining: {
     enabled: boolean;
     address?: string;
     interval: number;
+    threads?: number;   // Worker threads for the nonce search
   };
   // Light node mode - only stores headers, syncs on demand
   lightMode: boolean;
@@ -24,6 +42,11 @@ export interface NodeConfig {
   externalAddress?: string;
   // Cloud mode: P2P WebSocket attached to HTTP server (same port)
   cloudMode?: boolean;
+  // Treasury multisig account: keyholder public keys and signatures required (default 5)
+  treasury?: {
+    publicKeys: string[];
+    threshold?: number;
+  };
 }
 
 const DEFAULT_CONFIG: NodeConfig = {
@@ -38,9 +61,11 @@ const DEFAULT_CONFIG: NodeConfig = {
     maxPeers: 25,
     seedNodes: []
   },
+  consensus: 'pow',
   mining: {
     enabled: false,
-    interval: 10000
+    interval: 10000,
+    threads: MINER_CONFIG.DEFAULT_THREADS
   },
   lightMode: false
 };
@@ -51,6 +76,9 @@ export class Node {
   private storage: Storage;
   private api: API;
   private p2p: P2PNetwork;
+  private miner: Miner;
+  private pov: ProofOfVibe | null = null;
+  private povConsensus: PoVConsensus | null = null;
   private wallet: Wallet | null = null;
   private miningInterval: NodeJS.Timeout | null = null;
   private running: boolean = false;
@@ -66,6 +94,8 @@ export class Node {
 
     this.blockchain = new Blockchain();
 
+    this.miner = new Miner(this.config.mining.threads ?? MINER_CONFIG.DEFAULT_THREADS);
+
     this.api = new API(this.blockchain, this.storage, this.config.api);
 
     // Pass network to P2P for proper seed node selection
@@ -105,11 +135,38 @@ export class Node {
       // Re-initialize API and P2P with loaded blockchain
       this.api = new API(this.blockchain, this.storage, this.config.api);
       this.p2p = new P2PNetwork(this.blockchain, this.storage, this.config.p2p);
+      if (this.wallet) {
+        this.api.setNodeWallet(this.wallet);
+      }
     } else {
       // Save genesis
       await this.storage.saveBlockchain(this.blockchain);
     }
 
+    if (this.config.consensus === 'pov') {
+      await this.setupProofOfVibe();
+    }
+
+    // Treasury spends collect keyholder signatures over the API
+    if (this.config.treasury) {
+      const treasury = Treasury.fromKeys(this.config.treasury.publicKeys, this.config.treasury.threshold);
+      const { threshold, publicKeys, address } = treasury.getAccount();
+      this.api.setTreasury(treasury);
+      console.log(`🏦 Treasury: ${threshold}-of-${publicKeys.length} multisig ${address.substring(0, 18)}...`);
+    }
+
+    // Transactions submitted over the API reach the network like the ones peers relay
+    this.api.onNewTransaction(tx => this.p2p.broadcastTransaction(tx));
+
+    // Mining runs in worker threads; drop the job when a peer or external miner moves our tip
+    this.api.setMiner(this.miner);
+    this.p2p.onNewTip(tip => this.handleNewTip(tip));
+
+    // Work distribution for external miners (POST /rpc)
+    const miningRPC = new MiningRPC(this.blockchain, this.storage, this.p2p);
+    miningRPC.onNewTip(tip => this.handleNewTip(tip));
+    this.api.setMiningRPC(miningRPC);
+
     // Initialize API (load persisted user activities)
     await this.api.init();
 
@@ -124,9 +181,22 @@ export class Node {
     }
     await this.p2p.start();
 
-    // Start mining if enabled
+    if (this.pov && this.config.validator) {
+      this.submitValidatorRegistration(this.config.validator);
+    }
+
+    // Start mining (or block production as a PoV validator) if enabled
     if (this.config.mining.enabled && this.config.mining.address) {
-      this.startMining(this.config.mining.address);
+      if (this.povConsensus) {
+        // Blocks are signed with the validator key, so the node needs the wallet itself
+        if (this.wallet?.publicKey === this.config.mining.address) {
+          this.startValidating(this.wallet);
+        } else {
+          console.log('⚠️  PoV block production needs the validator wallet (Node.setWallet)');
+        }
+      } else {
+        this.startMining(this.config.mining.address);
+      }
     }
 
     this.running = true;
@@ -151,9 +221,11 @@ export class Node {
     if (this.miningInterval) {
       clearInterval(this.miningInterval);
     }
+    this.miner.cancel('node shutting down');
 
     // Save final state
     await this.storage.saveBlockchain(this.blockchain);
+    await this.saveConsensusState();
 
     // Stop P2P
     await this.p2p.stop();
@@ -165,6 +237,120 @@ export class Node {
     process.exit(0);
   }
 
+  /**
+   * Run the chain under Proof of Vibe: restore validator state and enforce PoV block rules
+   */
+  private async setupProofOfVibe(): Promise<void> {
+    this.pov = new ProofOfVibe({
+      blockTime: this.config.mining.interval,
+      genesisValidators: this.config.genesisValidators ?? []
+    });
+    this.povConsensus = new PoVConsensus(this.blockchain, this.pov);
+
+    // Saved at another tip (crash between saves, or a branch left since): replayed from the blocks
+    const savedState = await this.storage.loadConsensusState();
+    if (savedState) {
+      this.povConsensus.restoreState(savedState);
+      console.log(`🗳️  Consensus state restored (epoch ${this.pov.getEpochInfo().epoch})`);
+    }
+
+    this.blockchain.setConsensus('PoV', this.povConsensus);
+    this.p2p.setPoVConsensus(this.povConsensus);
+    this.api.setConsensus(this.povConsensus);
+
+    await this.saveConsensusState();
+    console.log(`🗳️  Consensus: Proof of Vibe (${this.pov.getAllValidatorsWithScores().length} validators)`);
+  }
+
+  /**
+   * Register the node wallet as a validator: a signed registerValidator transaction locking
+   * the stake, relayed to the network and effective once it is in a block
+   */
+  private submitValidatorRegistration(validator: { name: string; stake: number }): Transaction | null {
+    if (!this.pov || !this.wallet) {
+      console.log('⚠️  Validator registration needs the node wallet (Node.setWallet)');
+      return null;
+    }
+
+    const address = this.wallet.publicKey;
+    const pending = this.blockchain.mempool.getBySender(address).some(tx => tx.type === 'registerValidator');
+    if (this.pov.getValidatorInfo(address) || pending) {
+      return null;
+    }
+
+    const tx = this.wallet.createStakingTransaction(
+      'registerValidator',
+      STAKING_ADDRESS,
+      toBaseUnits(validator.stake),
+      encodeRegistration({ name: validator.name }),
+      undefined,
+      this.blockchain.getNextNonce(address)
+    );
+    if (!this.blockchain.addTransaction(tx)) {
+      console.log(`❌ Validator registration of "${validator.name}" rejected (see above)`);
+      return null;
+    }
+
+    this.p2p.broadcastTransaction(tx);
+    console.log(`📝 Validator registration of "${validator.name}" submitted: ${tx.id.substring(0, 16)}...`);
+    return tx;
+  }
+
+  /**
+   * Start block production as a PoV validator - produces a block in each slot we are elected for
+   */
+  startValidating(validator: Wallet): void {
+    if (!this.pov) {
+      console.log('⚠️  Proof of Vibe is not enabled on this node');
+      return;
+    }
+    if (this.miningInterval) {
+      clearInterval(this.miningInterval);
+    }
+
+    console.log(`🗳️  Validating as ${validator.publicKey.substring(0, 16)}...`);
+
+    // Poll well within a slot so our turn is never missed
+    const pollInterval = Math.max(Math.floor(this.pov.getConfig().blockTime / 10), 100);
+    this.miningInterval = setInterval(async () => {
+      await this.produceBlock(validator);
+    }, pollInterval);
+  }
+
+  /**
+   * Produce a signed PoV block if we own the current slot
+   */
+  async produceBlock(validator: Wallet): Promise<Block | null> {
+    if (!this.pov || !this.povConsensus) {
+      return null;
+    }
+
+    const block = this.povConsensus.createBlock(validator);
+    if (!block || !this.blockchain.addMinedBlock(block)) {
+      return null;
+    }
+
+    for (const tx of block.transactions) {
+      await this.storage.indexTransaction(tx, block.index);
+    }
+
+    await this.storage.saveBlockchain(this.blockchain);
+    await this.saveConsensusState();
+    this.p2p.broadcastBlock(block);
+
+    console.log(`✅ Block ${block.index} produced by validator ${block.validatorName}`);
+    return block;
+  }
+
+  /**
+   * Persist Proof of Vibe state (validators, stakes, votes, epoch)
+   */
+  private async saveConsensusState(): Promise<void> {
+    if (this.povConsensus) {
+      await this.storage.saveConsensusState(this.povConsensus.exportState());
+    }
+  }
+
   /**
    * Start automatic mining - only mines when there are pending transactions
    */
@@ -176,41 +362,38 @@ export class Node {
     console.log(`⛏️  Mining enabled for ${address.substring(0, 16)}...`);
     console.log(`   Mode: Transaction-triggered (mines only when transactions are pending)`);
 
+    console.log(`   Threads: ${this.miner.getThreads()}`);
+
     this.miningInterval = setInterval(async () => {
       // Only mine if there are pending transactions (real testnet behavior)
-      if (this.blockchain.pendingTransactions.length > 0) {
-        const pendingCount = this.blockchain.pendingTransactions.length;
-        console.log(`\n⛏️  Mining block ${this.blockchain.chain.length} (${pendingCount} pending tx)...`);
-
-        const block = this.blockchain.minePendingTransactions(address);
-
-        // Index transactions
-        for (const tx of block.transactions) {
-          await this.storage.indexTransaction(tx, block.index);
-        }
-
-        // Save and broadcast
-        await this.storage.saveBlockchain(this.blockchain);
-        this.p2p.broadcastBlock(block);
-
-        console.log(`✅ Block ${block.index} mined with ${block.transactions.length} transactions`);
+      if (this.blockchain.mempool.getSize() > 0 && !this.miner.isMining()) {
+        await this.mineBlock(address);
       }
     }, this.config.mining.interval);
   }
 
   /**
    * Mine a single block immediately (triggered by API or transaction)
+   * Returns null if there is nothing to mine or the job was cancelled by a new tip
    */
   async mineBlock(address: string): Promise<Block | null> {
-    if (this.blockchain.pendingTransactions.length === 0) {
+    if (this.blockchain.mempool.getSize() === 0) {
       console.log('⚠️  No pending transactions to mine');
       return null;
     }
+    if (this.miner.isMining()) {
+      console.log('⚠️  Already mining a block');
+      return null;
+    }
 
-    const pendingCount = this.blockchain.pendingTransactions.length;
+    const pendingCount = this.blockchain.mempool.getSize();
     console.log(`\n⛏️  Mining block ${this.blockchain.chain.length} (${pendingCount} pending tx)...`);
 
-    const block = this.blockchain.minePendingTransactions(address);
+    const block = this.blockchain.createBlockTemplate(address);
+    const found = await this.miner.mine(block);
+    if (!found || !this.blockchain.addMinedBlock(block)) {
+      return null;
+    }
 
     // Index transactions
     for (const tx of block.transactions) {
@@ -225,6 +408,20 @@ export class Node {
     return block;
   }
 
+  /**
+   * Another block changed our tip: the template being mined is stale
+   */
+  private handleNewTip(tip: Block): void {
+    this.saveConsensusState().catch(error => {
+      console.error(`❌ Failed to save consensus state: ${error.message}`);
+    });
+
+    const current = this.miner.getCurrentBlock();
+    if (current && current.previousHash !== tip.hash) {
+      this.miner.cancel(`new tip ${tip.index} received from the network`);
+    }
+  }
+
   /**
    * Stop mining
    */
@@ -251,6 +448,7 @@ export class Node {
     return {
       running: this.running,
       network: this.config.network,
+      consensus: this.pov ? this.pov.getStats() : 'Proof of Work',
       blockchain: this.blockchain.getStats(),
       peers: this.p2p.getPeerCount(),
       api: {
@@ -260,7 +458,8 @@ export class Node {
         port: this.config.p2p.port
       },
       mining: {
-        enabled: this.miningInterval !== null
+        enabled: this.miningInterval !== null,
+        ...this.miner.getStats()
       }
     };
   }
@@ -291,9 +490,29 @@ export class Node {
    GET  /blocks/:index           - Get block by index
    GET  /blocks/latest           - Get latest block
    GET  /transactions/pending    - Pending transactions
+   GET  /mempool                 - Mempool size and fee rates
    POST /transactions            - Create transaction
+   GET  /transactions/:id/proof  - Merkle inclusion proof (SPV)
    GET  /address/:addr/balance   - Get balance
+   GET  /address/:addr/nonce     - Get next transaction nonce
    POST /mine                    - Mine a block
+   POST /rpc                     - Mining JSON-RPC (getblocktemplate, submitblock)
+   GET  /consensus               - Proof of Vibe state (PoV nodes)
+   GET  /validators              - Validators ranked by VibeScore (PoV nodes)
+   GET  /validators/leaderboard  - Validators by blocks or performance (PoV nodes)
+   GET  /validators/:address/performance - 24h/7d reliability, latency, streaks (PoV nodes)
+   GET  /validators/:address/contributions - Contribution awards (PoV nodes)
+   POST /validators/unjail       - Ask a jailed validator back in (PoV nodes)
+   GET  /staking/:address/delegations - Delegations per validator (PoV nodes)
+   GET  /staking/:address/unbonding - Unbonding stake (PoV nodes)
+   GET  /staking/:address/rewards   - Claimable staking rewards (PoV nodes)
+   GET  /governance              - Governance rules and treasury (PoV nodes)
+   GET  /governance/proposals    - Proposals, newest first (PoV nodes)
+   GET  /governance/proposals/:id - Proposal with votes and tally (PoV nodes)
+   GET  /treasury                - Treasury multisig account and balance
+   GET  /treasury/spends         - Treasury spends collecting signatures
+   POST /treasury/spends         - Create a treasury spend
+   POST /treasury/spends/:id/signatures - Add a keyholder signature
    POST /wallet/new              - Create new wallet
    POST /faucet                  - Get free testnet VIBE
     `);
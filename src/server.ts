@@ -14,6 +14,12 @@ const PORT = parseInt(process.env.PORT || '3000');
 const P2P_PORT = parseInt(process.env.P2P_PORT || '6001');
 const NODE_ENV = process.env.NODE_ENV || 'production';
 const DATA_DIR = process.env.DATA_DIR || './data';
+const MINING_THREADS = parseInt(process.env.MINING_THREADS || '1');
+const CONSENSUS = process.env.CONSENSUS === 'pov' ? 'pov' : 'pow';
+const VALIDATOR_NAME = process.env.VALIDATOR_NAME || '';
+const VALIDATOR_STAKE = parseFloat(process.env.VALIDATOR_STAKE || '100');
+// PoV genesis validators as JSON ([{"address", "name", "stake"}]), the same on every node
+const GENESIS_VALIDATORS = process.env.GENESIS_VALIDATORS ? JSON.parse(process.env.GENESIS_VALIDATORS) : [];
 
 // Fixed miner private key from environment (so wallet persists across restarts)
 // If not set, a new wallet is created each time (blockchain resets)
@@ -23,6 +29,10 @@ const MINER_PRIVATE_KEY = process.env.MINER_PRIVATE_KEY || '';
 // Format: "host1:port1,host2:port2"
 const SEED_PEERS = process.env.SEED_PEERS ? process.env.SEED_PEERS.split(',').map(s => s.trim()) : [];
 
+// Treasury multisig keyholders (comma-separated public keys) and signatures required
+const TREASURY_KEYS = process.env.TREASURY_KEYS ? process.env.TREASURY_KEYS.split(',').map(s => s.trim()) : [];
+const TREASURY_THRESHOLD = process.env.TREASURY_THRESHOLD ? parseInt(process.env.TREASURY_THRESHOLD) : undefined;
+
 console.log(`
 ╔═══════════════════════════════════════════════════════════════════╗
 ║                                                                    ║
@@ -43,6 +53,8 @@ console.log(`   Environment: ${NODE_ENV}`);
 console.log(`   API Port:    ${PORT}`);
 console.log(`   P2P Port:    ${P2P_PORT}`);
 console.log(`   Data Dir:    ${DATA_DIR}`);
+console.log(`   Consensus:   ${CONSENSUS === 'pov' ? 'Proof of Vibe' : 'Proof of Work'}`);
+console.log(`   Mining:      ${MINING_THREADS} thread(s)`);
 console.log(`   Seed Peers:  ${SEED_PEERS.length > 0 ? SEED_PEERS.join(', ') : '(none - will start fresh)'}`);
 console.log('');
 
@@ -91,10 +103,15 @@ const node = new Node({
     maxPeers: 25,
     seedNodes: SEED_PEERS
   },
+  consensus: CONSENSUS,
+  genesisValidators: GENESIS_VALIDATORS,
+  ...(VALIDATOR_NAME && { validator: { name: VALIDATOR_NAME, stake: VALIDATOR_STAKE } }),
+  ...(TREASURY_KEYS.length > 0 && { treasury: { publicKeys: TREASURY_KEYS, threshold: TREASURY_THRESHOLD } }),
   mining: {
     enabled: true,
     address: minerWallet.publicKey,
-    interval: 10000 // Check for pending transactions every 10 seconds
+    interval: 10000, // Check for pending transactions every 10 seconds
+    threads: MINING_THREADS
   }
 });
 
@@ -113,11 +130,30 @@ node.start()
     console.log(`   GET  /blocks                  - List blocks`);
     console.log(`   GET  /blocks/:index           - Get block by index`);
     console.log(`   GET  /transactions/pending    - Pending transactions`);
+    console.log(`   GET  /mempool                 - Mempool size and fee rates`);
     console.log(`   POST /transactions            - Create transaction`);
+    console.log(`   GET  /transactions/:id/proof  - Merkle inclusion proof (SPV)`);
     console.log(`   GET  /address/:addr/balance   - Get balance`);
+    console.log(`   GET  /address/:addr/nonce     - Get next transaction nonce`);
     console.log(`   POST /wallet/new              - Create new wallet`);
     console.log(`   POST /faucet                  - Get free testnet VIBE`);
     console.log(`   POST /mine                    - Mine a block`);
+    console.log(`   POST /rpc                     - Mining JSON-RPC (getblocktemplate, submitblock)`);
+    console.log(`   GET  /consensus               - Proof of Vibe state (CONSENSUS=pov)`);
+    console.log(`   GET  /validators              - Validators ranked by VibeScore`);
+    console.log(`   GET  /validators/leaderboard  - Validators by blocks or performance`);
+    console.log(`   GET  /validators/:address/performance - 24h/7d reliability, latency, streaks`);
+    console.log(`   GET  /validators/:address/contributions - Contribution awards`);
+    console.log(`   POST /validators/unjail       - Ask a jailed validator back in`);
+    console.log(`   GET  /staking/:address/delegations - Delegations per validator`);
+    console.log(`   GET  /staking/:address/unbonding - Unbonding stake`);
+    console.log(`   GET  /staking/:address/rewards   - Claimable staking rewards`);
+    console.log(`   GET  /governance              - Governance rules and treasury`);
+    console.log(`   GET  /governance/proposals    - Proposals, newest first`);
+    console.log(`   GET  /governance/proposals/:id - Proposal with votes and tally`);
+    console.log(`   GET  /treasury                - Treasury multisig account`);
+    console.log(`   POST /treasury/spends         - Create a treasury spend`);
+    console.log(`   POST /treasury/spends/:id/signatures - Add a keyholder signature`);
     console.log('');
   })
   .catch((error) => {
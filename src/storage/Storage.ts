@@ -5,10 +5,19 @@ import { Level } from 'level';
 import { Block } from '../core/Block';
 import { Transaction } from '../core/Transaction';
 import { Blockchain } from '../core/Blockchain';
+import { WorldState } from '../core/WorldState';
 import { Wallet } from '../wallet/Wallet';
+import { ChainValidator } from '../core/ChainValidator';
 import * as fs from 'fs';
 import * as path from 'path';
 
+export const STORAGE_CONFIG = {
+  // Version of the stored data; each change of the signed transaction payload changes
+  // transaction ids and block hashes, so data written in another version cannot load.
+  // 1: nonce, fee and replaceability signed. 2: payload serialized as a delimited JSON array
+  FORMAT_VERSION: 2
+};
+
 export interface StorageConfig {
   dataDir: string;
   network: 'mainnet' | 'testnet' | 'local';
@@ -37,12 +46,73 @@ export class Storage {
 
   /**
    * Initialize storage and open database
+   * Throws if the data directory holds data in a format this version cannot read
    */
   async init(): Promise<void> {
     await this.db.open();
+    await this.checkFormatVersion();
     console.log(`📂 Storage initialized at ${this.dataPath}`);
   }
 
+  /**
+   * Refuse data written in another storage format, which would fail validation on load
+   * Unversioned data is stamped with the current version only if its blocks still verify
+   */
+  private async checkFormatVersion(): Promise<void> {
+    const height = parseInt(await this.getMeta('meta:height') ?? '');
+    const version = parseInt(await this.getMeta('meta:version') ?? '0');
+
+    if (isNaN(height) || version === STORAGE_CONFIG.FORMAT_VERSION) {
+      return;
+    }
+
+    if (version === 0 && await this.blocksVerify(height)) {
+      await this.db.put('meta:version', STORAGE_CONFIG.FORMAT_VERSION.toString());
+      console.log(`📂 Storage format version ${STORAGE_CONFIG.FORMAT_VERSION} recorded`);
+      return;
+    }
+
+    throw new Error(
+      `The data in ${this.dataPath} uses ${version ? `storage format ${version}` : 'an unversioned storage format'}, ` +
+      `this version of VibeCoin reads format ${STORAGE_CONFIG.FORMAT_VERSION} ` +
+      '(transaction signatures and block hashes changed). ' +
+      'Move the directory away (or run `npm run clean`) to resync the chain from the network; ' +
+      'back up any wallets stored in it first.'
+    );
+  }
+
+  /**
+   * Check that every stored block still matches its hash, links, merkle root and signatures
+   */
+  private async blocksVerify(height: number): Promise<boolean> {
+    let previousHash: string | null = null;
+
+    for (let i = 0; i < height; i++) {
+      const block = await this.loadBlock(i);
+      if (!block) {
+        return false;
+      }
+
+      // Genesis has no proof of work to check: it must be the genesis this version derives
+      const valid = i === 0
+        ? block.hash === Block.createGenesis().hash
+        : block.previousHash === previousHash && block.isValid();
+      if (!valid) {
+        return false;
+      }
+      previousHash = block.hash;
+    }
+    return true;
+  }
+
+  private async getMeta(key: string): Promise<string | undefined> {
+    try {
+      return await this.db.get(key);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Close database connection
    */
@@ -60,9 +130,11 @@ export class Storage {
     const batch = this.db.batch();
 
     // Save chain metadata
+    batch.put('meta:version', STORAGE_CONFIG.FORMAT_VERSION.toString());
     batch.put('meta:height', blockchain.chain.length.toString());
     batch.put('meta:difficulty', blockchain.difficulty.toString());
     batch.put('meta:miningReward', blockchain.miningReward.toString());
+    batch.put('meta:state', JSON.stringify(blockchain.state.toJSON()));
 
     // Save each block
     for (const block of blockchain.chain) {
@@ -70,9 +142,10 @@ export class Storage {
     }
 
     // Save pending transactions
-    batch.put('pending:count', blockchain.pendingTransactions.length.toString());
-    for (let i = 0; i < blockchain.pendingTransactions.length; i++) {
-      batch.put(`pending:${i}`, JSON.stringify(blockchain.pendingTransactions[i].toJSON()));
+    const pending = blockchain.mempool.getAll();
+    batch.put('pending:count', pending.length.toString());
+    for (let i = 0; i < pending.length; i++) {
+      batch.put(`pending:${i}`, JSON.stringify(pending[i].toJSON()));
     }
 
     await batch.write();
@@ -107,22 +180,32 @@ export class Storage {
         return null;
       }
 
-      // Load metadata
-      const diffStr = await this.db.get('meta:difficulty');
-      const rewardStr = await this.db.get('meta:miningReward');
-      blockchain.difficulty = parseInt(diffStr) || 4;
-      blockchain.miningReward = parseFloat(rewardStr) || 50;
+      // Difficulty follows the retarget rule over the loaded chain
+      blockchain.difficulty = Blockchain.getNextDifficulty(blockchain.chain);
+      // Reward is derived from the halving schedule (older data stored it as a float)
+      blockchain.miningReward = ChainValidator.calculateBlockReward(blockchain.chain.length);
+
+      // Restore world state, rebuilding it if missing or out of sync with the blocks
+      const state = await this.loadWorldState();
+      if (state && state.matchesChain(blockchain.chain)) {
+        blockchain.state = state;
+      } else {
+        blockchain.rebuildState(state?.getSlashes());
+        console.log(`🔄 World state rebuilt from ${blockchain.chain.length} blocks`);
+      }
 
-      // Load pending transactions
-      blockchain.pendingTransactions = [];
+      // Load pending transactions (re-validated through the mempool)
+      blockchain.mempool = Blockchain.createMempool();
       try {
         const pendingCountStr = await this.db.get('pending:count');
         const pendingCount = parseInt(pendingCountStr) || 0;
 
+        const pending: Transaction[] = [];
         for (let i = 0; i < pendingCount; i++) {
-          const txData = JSON.parse(await this.db.get(`pending:${i}`));
-          blockchain.pendingTransactions.push(Transaction.fromJSON(txData));
+          pending.push(Transaction.fromJSON(JSON.parse(await this.db.get(`pending:${i}`))));
         }
+        // Staking transactions wait for the consensus the node attaches next
+        blockchain.restorePendingTransactions(pending);
       } catch {
         // No pending transactions
       }
@@ -135,6 +218,17 @@ export class Storage {
     }
   }
 
+  /**
+   * Load persisted world state
+   */
+  async loadWorldState(): Promise<WorldState | null> {
+    try {
+      return WorldState.fromJSON(JSON.parse(await this.db.get('meta:state')));
+    } catch {
+      return null;
+    }
+  }
+
   // ==================== BLOCKS ====================
 
   /**
@@ -230,6 +324,33 @@ export class Storage {
     return txIds;
   }
 
+  /**
+   * Index every transaction of a block that joined the main chain
+   */
+  async indexBlock(block: Block): Promise<void> {
+    const batch = this.db.batch();
+    for (const tx of block.transactions) {
+      batch.put(`tx:${tx.id}`, JSON.stringify({ ...tx.toJSON(), blockIndex: block.index }));
+      batch.put(`addr:${tx.from}:${tx.id}`, tx.id);
+      batch.put(`addr:${tx.to}:${tx.id}`, tx.id);
+    }
+    await batch.write();
+  }
+
+  /**
+   * Remove a block that left the main chain (reorg) from the hash, transaction and address indexes
+   */
+  async unindexBlock(block: Block): Promise<void> {
+    const batch = this.db.batch();
+    batch.del(`block:hash:${block.hash}`);
+    for (const tx of block.transactions) {
+      batch.del(`tx:${tx.id}`);
+      batch.del(`addr:${tx.from}:${tx.id}`);
+      batch.del(`addr:${tx.to}:${tx.id}`);
+    }
+    await batch.write();
+  }
+
   // ==================== WALLETS ====================
 
   /**
@@ -289,6 +410,26 @@ export class Storage {
     }
   }
 
+  // ==================== CONSENSUS ====================
+
+  /**
+   * Save consensus state with the tip it was taken at (PoVConsensus.exportState)
+   */
+  async saveConsensusState(state: object): Promise<void> {
+    await this.db.put('consensus', JSON.stringify(state));
+  }
+
+  /**
+   * Load consensus state, or null if none was saved
+   */
+  async loadConsensusState(): Promise<any | null> {
+    try {
+      return JSON.parse(await this.db.get('consensus'));
+    } catch {
+      return null;
+    }
+  }
+
   // ==================== USER ACTIVITY (Rewards) ====================
 
   /**
@@ -1,8 +1,12 @@
 import * as crypto from 'crypto';
 import { ec as EC } from 'elliptic';
 import * as bip39 from 'bip39';
-import { Transaction } from '../core/Transaction';
+import { Transaction, TransactionType, DEFAULT_FEE } from '../core/Transaction';
 import { Blockchain } from '../core/Blockchain';
+import { Multisig } from '../core/Multisig';
+import { Block } from '../core/Block';
+import { ProofOfVibe, UnjailRequest } from '../consensus/ProofOfVibe';
+import { formatVibe } from '../core/Units';
 
 const ec = new EC('secp256k1');
 
@@ -47,32 +51,82 @@ export class Wallet {
   }
 
   /**
-   * Create and sign a transaction
+   * Create and sign a transaction (amount and fee in base units)
+   * Set replaceable to allow bumping the fee later with the same nonce
    */
-  createTransaction(to: string, amount: number, data: string = '', fee: number = 0.001): Transaction {
-    const transaction = new Transaction(this.publicKey, to, amount, data, fee);
+  createTransaction(
+    to: string,
+    amount: bigint,
+    data: string = '',
+    fee: bigint = DEFAULT_FEE,
+    nonce: number = 0,
+    replaceable: boolean = false
+  ): Transaction {
+    const transaction = new Transaction(this.publicKey, to, amount, data, fee, nonce, replaceable);
     transaction.sign(this.privateKey);
     return transaction;
   }
 
+  /**
+   * Create and sign a Proof of Vibe staking transaction (see StakingTransactions for to and data)
+   */
+  createStakingTransaction(
+    type: TransactionType,
+    to: string,
+    amount: bigint,
+    data: string = '',
+    fee: bigint = DEFAULT_FEE,
+    nonce: number = 0
+  ): Transaction {
+    const transaction = new Transaction(this.publicKey, to, amount, data, fee, nonce, false, type);
+    transaction.sign(this.privateKey);
+    return transaction;
+  }
+
+  /**
+   * Add this wallet's signature to a transaction from a multisig account it is a member of
+   */
+  signMultisig(transaction: Transaction): void {
+    if (!transaction.isMultisig()) {
+      throw new Error('Not a multisig transaction');
+    }
+    transaction.sign(this.privateKey);
+  }
+
+  /**
+   * Sign a Proof of Vibe block produced by this wallet as validator
+   */
+  signBlock(block: Block): void {
+    block.sign(this.privateKey);
+  }
+
+  /**
+   * Sign a request to leave jail for this wallet's validator (jailedAt from the validator info)
+   */
+  signUnjailRequest(jailedAt: number): UnjailRequest {
+    const key = ec.keyFromPrivate(this.privateKey, 'hex');
+    const signature = key.sign(ProofOfVibe.getUnjailHash(this.publicKey, jailedAt)).toDER('hex');
+    return { validator: this.publicKey, jailedAt, signature };
+  }
+
   /**
    * Get balance from blockchain
    */
-  getBalance(blockchain: Blockchain): number {
+  getBalance(blockchain: Blockchain): bigint {
     return blockchain.getBalance(this.publicKey);
   }
 
   /**
    * Get pending balance
    */
-  getPendingBalance(blockchain: Blockchain): number {
+  getPendingBalance(blockchain: Blockchain): bigint {
     return blockchain.getPendingBalance(this.publicKey);
   }
 
   /**
    * Get available balance (confirmed - pending outgoing)
    */
-  getAvailableBalance(blockchain: Blockchain): number {
+  getAvailableBalance(blockchain: Blockchain): bigint {
     return this.getBalance(blockchain) - this.getPendingBalance(blockchain);
   }
 
@@ -84,28 +138,29 @@ export class Wallet {
   }
 
   /**
-   * Send VIBE to another address
+   * Send VIBE to another address (amount in base units)
    */
   send(
     blockchain: Blockchain,
     to: string,
-    amount: number,
+    amount: bigint,
     data: string = ''
   ): { success: boolean; transaction?: Transaction; error?: string } {
     // Check available balance
     const available = this.getAvailableBalance(blockchain);
-    const fee = 0.001;
+    const fee = DEFAULT_FEE;
     const total = amount + fee;
 
     if (available < total) {
       return {
         success: false,
-        error: `Insufficient balance. Available: ${available} VIBE, Required: ${total} VIBE`
+        error: `Insufficient balance. Available: ${formatVibe(available)} VIBE, Required: ${formatVibe(total)} VIBE`
       };
     }
 
-    // Create and sign transaction
-    const transaction = this.createTransaction(to, amount, data, fee);
+    // Create and sign transaction with the next account nonce
+    const nonce = blockchain.getNextNonce(this.publicKey);
+    const transaction = this.createTransaction(to, amount, data, fee, nonce);
 
     // Add to pending pool
     const added = blockchain.addTransaction(transaction);
@@ -191,9 +246,10 @@ export class Wallet {
   }
 
   /**
-   * Verify if an address is valid
+   * Verify if an address is valid (a public key or a multisig address)
    */
   static isValidAddress(address: string): boolean {
+    if (Multisig.isAddress(address)) return true;
     try {
       // Check if it's a valid public key
       if (address.length !== 130) return false;
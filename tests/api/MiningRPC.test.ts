@@ -0,0 +1,82 @@
+import * as crypto from 'crypto';
+import { Blockchain } from '../../src/core/Blockchain';
+import { MiningRPC, RPC_ERRORS } from '../../src/api/MiningRPC';
+import { Storage } from '../../src/storage/Storage';
+import { P2PNetwork } from '../../src/network/P2P';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, mineBlock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+/**
+ * What an external miner does with a template: hash the header with increasing nonces
+ */
+function solve(template: any): number {
+  const target = BigInt('0x' + template.target);
+  for (let nonce = 0; ; nonce++) {
+    const hash = crypto.createHash('sha256').update(JSON.stringify({ ...template.header, nonce })).digest('hex');
+    if (BigInt('0x' + hash) <= target) {
+      return nonce;
+    }
+  }
+}
+
+describe('MiningRPC', () => {
+  const miner = new Wallet();
+  let chain: Blockchain;
+  let rpc: MiningRPC;
+  let broadcast: jest.Mock;
+
+  beforeEach(() => {
+    useFakeClock();
+    chain = new Blockchain();
+    broadcast = jest.fn();
+    const storage = { indexBlock: async () => undefined, saveBlockchain: async () => undefined } as unknown as Storage;
+    rpc = new MiningRPC(chain, storage, { broadcastBlock: broadcast } as unknown as P2PNetwork);
+  });
+
+  async function call(method: string, params?: object) {
+    return rpc.handle({ jsonrpc: '2.0', method, params, id: 1 });
+  }
+
+  test('a solved template becomes the new tip and is relayed', async () => {
+    const { result: template } = await call('getblocktemplate', { minerAddress: miner.publicKey });
+    expect(template.height).toBe(1);
+
+    const response = await call('submitblock', { templateId: template.templateId, nonce: solve(template) });
+    expect(response.error).toBeUndefined();
+    expect(response.result).toMatchObject({ accepted: true, height: 1 });
+    expect(chain.getLatestBlock().hash).toBe(response.result.hash);
+    expect(broadcast).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects a nonce that does not meet the target and keeps the template', async () => {
+    const { result: template } = await call('getblocktemplate', { minerAddress: miner.publicKey });
+    const target = BigInt('0x' + template.target);
+    let nonce = 0;
+    while (BigInt('0x' + crypto.createHash('sha256').update(JSON.stringify({ ...template.header, nonce })).digest('hex')) <= target) {
+      nonce++;
+    }
+
+    const bad = await call('submitblock', { templateId: template.templateId, nonce });
+    expect(bad.error?.code).toBe(RPC_ERRORS.INVALID_BLOCK);
+
+    const good = await call('submitblock', { templateId: template.templateId, nonce: solve(template) });
+    expect(good.result?.accepted).toBe(true);
+  });
+
+  test('reports stale work once the tip moved', async () => {
+    const { result: template } = await call('getblocktemplate', { minerAddress: miner.publicKey });
+    mineBlock(chain, miner.publicKey, { advance: () => undefined });
+
+    const response = await call('submitblock', { templateId: template.templateId, nonce: 0 });
+    expect(response.error?.code).toBe(RPC_ERRORS.STALE_WORK);
+  });
+
+  test('validates requests and parameters', async () => {
+    expect((await rpc.handle({ jsonrpc: '1.0' } as any)).error?.code).toBe(RPC_ERRORS.INVALID_REQUEST);
+    expect((await call('nope')).error?.code).toBe(RPC_ERRORS.METHOD_NOT_FOUND);
+    expect((await call('getblocktemplate', { minerAddress: 'x' })).error?.code).toBe(RPC_ERRORS.INVALID_PARAMS);
+    expect((await call('submitblock', { templateId: 'ffffffff', nonce: 1 })).error?.code).toBe(RPC_ERRORS.UNKNOWN_TEMPLATE);
+  });
+});
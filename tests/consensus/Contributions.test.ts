@@ -0,0 +1,79 @@
+import { ContributionManager, ContributionAward } from '../../src/consensus/Contributions';
+import { encodeAttestation } from '../../src/consensus/StakingTransactions';
+import { STAKING_ADDRESS } from '../../src/core/Transaction';
+import { Wallet } from '../../src/wallet/Wallet';
+import { createPoVChain, produceBlock, silenceConsole, useFakeClock } from '../helpers';
+
+silenceConsole();
+
+const AWARD: ContributionAward = { validator: 'v1', points: 40, reason: 'Fork choice rewrite', reference: 'PR #128' };
+
+describe('ContributionManager', () => {
+  test('awards need points in range, a reason and a reference', () => {
+    expect(ContributionManager.validateAward(AWARD)).toBeNull();
+    expect(ContributionManager.validateAward({ ...AWARD, points: 101 })).toBe('Points must be an integer between 1 and 100');
+    expect(ContributionManager.validateAward({ ...AWARD, points: 2.5 })).toBe('Points must be an integer between 1 and 100');
+    expect(ContributionManager.validateAward({ ...AWARD, reason: '' })).toBe('Reason must be 1-200 characters');
+    expect(ContributionManager.validateAward({ ...AWARD, reference: '' })).toBe('Reference must be 1-200 characters');
+  });
+
+  test('awards decay every epoch until they no longer count', () => {
+    const contributions = new ContributionManager();
+    contributions.record(AWARD, 'attester', 10, 2);
+    expect(contributions.getScore('v1', 2)).toBe(40);
+    expect(contributions.getScore('v1', 3)).toBeCloseTo(38);
+
+    contributions.record({ ...AWARD, points: 20 }, 'proposal:3', 50, 4);
+    expect(contributions.getScore('v1', 4)).toBeCloseTo(40 * 0.95 ** 2 + 20);
+    expect(contributions.getScore('v1', 92)).toBeCloseTo(20 * 0.95 ** 88);
+    expect(contributions.getScore('v1', 200)).toBe(0);
+    expect(contributions.getScore('v2', 4)).toBe(0);
+  });
+
+  test('every award is kept with its source as an audit trail', () => {
+    const contributions = new ContributionManager();
+    contributions.record(AWARD, 'attester', 10, 2);
+    contributions.record({ ...AWARD, validator: 'v2' }, 'proposal:3', 50, 4);
+
+    expect(contributions.getRecords().map(record => record.source)).toEqual(['proposal:3', 'attester']);
+    expect(contributions.getRecords('v1')).toEqual([{ ...AWARD, id: 1, source: 'attester', height: 10, epoch: 2 }]);
+
+    const copy = new ContributionManager();
+    copy.importContributions(JSON.parse(JSON.stringify(contributions.exportContributions())));
+    expect(copy.getRecords()).toEqual(contributions.getRecords());
+  });
+});
+
+describe('contribution attestations on chain', () => {
+  test('only authorized attesters award points, replayed with the chain and decayed by epoch', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet(), new Wallet()];
+    const [validator, attester] = wallets;
+    const { chain, consensus, pov } = createPoVChain(wallets, { attesters: [attester.publicKey], epochLength: 5 });
+    produceBlock(chain, consensus, wallets, clock);
+    produceBlock(chain, consensus, wallets, clock);
+
+    const award = encodeAttestation({ ...AWARD, validator: validator.publicKey });
+    const forged = validator.createStakingTransaction('attestContribution', STAKING_ADDRESS, 0n, award, undefined, chain.getNextNonce(validator.publicKey));
+    expect(consensus.validateTransaction(forged).error).toBe('Sender is not an authorized contribution attester');
+    expect(chain.addTransaction(forged)).toBe(false);
+
+    const attestation = attester.createStakingTransaction('attestContribution', STAKING_ADDRESS, 0n, award, undefined, chain.getNextNonce(attester.publicKey));
+    expect(chain.addTransaction(attestation)).toBe(true);
+    const block = produceBlock(chain, consensus, wallets, clock);
+    expect(block.index).toBe(3);
+    expect(pov.getValidatorInfo(validator.publicKey)?.info.contributionScore).toBe(40);
+    expect(pov.getContributionManager().getRecords(validator.publicKey)[0]).toMatchObject({ source: attester.publicKey, height: 3, epoch: 0 });
+
+    // Height 5 starts epoch 1: the award lost 5% of its weight
+    produceBlock(chain, consensus, wallets, clock);
+    produceBlock(chain, consensus, wallets, clock);
+    expect(pov.getValidatorInfo(validator.publicKey)?.info.contributionScore).toBeCloseTo(38);
+
+    for (let i = 0; i < 3; i++) {
+      chain.disconnectTip();
+    }
+    expect(pov.getValidatorInfo(validator.publicKey)?.info.contributionScore).toBe(0);
+    expect(pov.getContributionManager().getRecords()).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { Block } from '../../src/core/Block';
+import { Transaction } from '../../src/core/Transaction';
+import { toBaseUnits } from '../../src/core/Units';
+import { EvidencePool } from '../../src/consensus/Evidence';
+import { Wallet } from '../../src/wallet/Wallet';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+function signedBlock(validator: Wallet, height: number, vibeScore: number): Block {
+  const block = new Block(height, [Transaction.createCoinbase(validator.publicKey, toBaseUnits(5))], 'parent', 1, validator.publicKey, 'PoV');
+  block.setValidator(validator.publicKey, 'validator-1', vibeScore, 0);
+  validator.signBlock(block);
+  return block;
+}
+
+describe('EvidencePool', () => {
+  test('two different headers signed at one height are evidence, the same header twice is not', () => {
+    const validator = new Wallet();
+    const pool = new EvidencePool();
+    const block = signedBlock(validator, 3, 50);
+
+    expect(pool.recordHeader(block)).toBeNull();
+    expect(pool.recordHeader(block)).toBeNull();
+    expect(pool.recordHeader(signedBlock(validator, 4, 60))).toBeNull();
+
+    const evidence = pool.recordHeader(signedBlock(validator, 3, 60));
+    expect(evidence).toMatchObject({ validator: validator.publicKey, height: 3 });
+    expect(EvidencePool.verify(evidence!)).toEqual({ valid: true });
+    expect(pool.getPending()).toEqual([evidence]);
+  });
+
+  test('refuses evidence it cannot verify, and offences already slashed', () => {
+    const validator = new Wallet();
+    const first = signedBlock(validator, 3, 50).getSignedHeader();
+    const second = signedBlock(validator, 3, 60).getSignedHeader();
+    const evidence = { validator: validator.publicKey, height: 3, headers: [first, second] as [typeof first, typeof second], detectedAt: 0 };
+
+    expect(new EvidencePool().add({ ...evidence, headers: [first, first] }).error).toBe('Evidence headers are identical');
+    expect(new EvidencePool().add({ ...evidence, headers: [first, { ...second, vibeScore: 70 }] }).error)
+      .toBe('Evidence header signature is invalid');
+    expect(new EvidencePool().add({ ...evidence, validator: new Wallet().publicKey }).error)
+      .toBe('Evidence header does not match the accused validator and height');
+
+    const slashed = new EvidencePool(id => id === EvidencePool.getEvidenceId(evidence));
+    expect(slashed.add(evidence).error).toBe('Evidence already known');
+    expect(new EvidencePool().add(evidence)).toEqual({ success: true });
+  });
+});
@@ -0,0 +1,154 @@
+import { GovernanceManager, GOVERNANCE_CONFIG, ProposalDraft, VoteOption } from '../../src/consensus/Governance';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { createPoVChain, produceBlock, silenceConsole, useFakeClock } from '../helpers';
+
+silenceConsole();
+
+const { DEPOSIT_PERIOD, VOTING_PERIOD, ACTIVATION_DELAY } = GOVERNANCE_CONFIG;
+
+const POWER: Record<string, number> = { v1: 10, v2: 10, v3: 10, alice: 30 };
+
+const PARAMETER_CHANGE: ProposalDraft = {
+  type: 'parameter',
+  title: 'Raise the block reward',
+  description: '',
+  parameter: 'blockReward',
+  value: 6
+};
+
+describe('GovernanceManager', () => {
+  let governance: GovernanceManager;
+
+  beforeEach(() => {
+    governance = new GovernanceManager({
+      getChamberMembers: chamber => (chamber === 'council' ? ['v1', 'v2'] : ['v1', 'v2', 'v3']),
+      getAssemblyMembers: () => Object.keys(POWER),
+      getVotingPower: address => POWER[address] || 0
+    });
+  });
+
+  const castVotes = (id: number, votes: Record<string, VoteOption>, height: number) => {
+    for (const [voter, option] of Object.entries(votes)) {
+      expect(governance.vote(voter, id, option, height)).toEqual({ success: true });
+    }
+  };
+
+  test('drafts are checked against their type', () => {
+    expect(GovernanceManager.validateDraft(PARAMETER_CHANGE)).toBeNull();
+    expect(GovernanceManager.validateDraft({ ...PARAMETER_CHANGE, parameter: 'epochLength' }))
+      .toBe('Parameter must be one of: blockReward, voterRewardShare, minStake');
+    expect(GovernanceManager.validateDraft({ ...PARAMETER_CHANGE, value: 51 })).toBe('blockReward must be between 0 and 50');
+    expect(GovernanceManager.validateDraft({ type: 'treasury', title: 'Grant', description: '', recipient: 'bob' }))
+      .toBe('A treasury proposal needs a positive spend amount');
+    expect(GovernanceManager.validateDraft({ ...PARAMETER_CHANGE, title: '' })).toBe('Title must be 1-100 characters');
+  });
+
+  test('voting opens once the deposit reaches the minimum of the type', () => {
+    const { id } = governance.submit('alice', PARAMETER_CHANGE, toBaseUnits(60), 1);
+    expect(governance.getProposal(id!)?.status).toBe('deposit');
+    expect(governance.vote('alice', id!, 'yes', 2).error).toBe(`Proposal #${id} is not open for voting`);
+
+    expect(governance.deposit('bob', id!, toBaseUnits(40), 5)).toEqual({ success: true });
+    const proposal = governance.getProposal(id!)!;
+    expect(proposal.status).toBe('voting');
+    expect(proposal.votingEndHeight).toBe(5 + VOTING_PERIOD);
+    expect(proposal.senate).toEqual(['v1', 'v2', 'v3']);
+    expect(governance.deposit('bob', id!, toBaseUnits(1), 6).error).toBe(`Proposal #${id} is not collecting deposits`);
+  });
+
+  test('a proposal short of its deposit expires and refunds its depositors', () => {
+    const { id } = governance.submit('alice', PARAMETER_CHANGE, toBaseUnits(60), 1);
+    governance.deposit('bob', id!, toBaseUnits(10), 2);
+
+    expect(governance.processBlock(DEPOSIT_PERIOD).refunds).toEqual([]);
+    expect(governance.processBlock(1 + DEPOSIT_PERIOD).refunds).toEqual([
+      { address: 'alice', amount: toBaseUnits(60) },
+      { address: 'bob', amount: toBaseUnits(10) }
+    ]);
+    expect(governance.getProposal(id!)?.status).toBe('expired');
+  });
+
+  test('a passed parameter change takes effect at its activation height', () => {
+    const { id } = governance.submit('alice', PARAMETER_CHANGE, toBaseUnits(100), 1);
+    castVotes(id!, { v1: 'yes', v2: 'yes', v3: 'no', alice: 'yes' }, 2);
+    expect(governance.vote('bob', id!, 'yes', 2).error).toBe('No voting power: stake or delegate VIBE to vote');
+
+    const end = 1 + VOTING_PERIOD;
+    expect(governance.processBlock(end).refunds).toEqual([{ address: 'alice', amount: toBaseUnits(100) }]);
+    const proposal = governance.getProposal(id!)!;
+    expect(proposal.status).toBe('passed');
+    expect(proposal.activationHeight).toBe(end + ACTIVATION_DELAY);
+    expect(proposal.tally!.map(tally => [tally.chamber, tally.yes, tally.no])).toEqual([['senate', 20, 10], ['assembly', 50, 10]]);
+
+    expect(governance.processBlock(end + ACTIVATION_DELAY - 1).parameterChanges).toEqual([]);
+    expect(governance.processBlock(end + ACTIVATION_DELAY).parameterChanges).toEqual([{ parameter: 'blockReward', value: 6 }]);
+    expect(governance.getProposal(id!)?.status).toBe('executed');
+  });
+
+  test('every chamber of the type must approve, and votes can change until the end', () => {
+    const { id } = governance.submit('alice', PARAMETER_CHANGE, toBaseUnits(100), 1);
+    castVotes(id!, { v1: 'yes', v2: 'yes', v3: 'no', alice: 'yes' }, 2);
+    castVotes(id!, { alice: 'no' }, VOTING_PERIOD);
+
+    const { refunds } = governance.processBlock(1 + VOTING_PERIOD);
+    const proposal = governance.getProposal(id!)!;
+    expect(proposal.status).toBe('rejected');
+    expect(proposal.tally!.map(tally => tally.approved)).toEqual([true, false]);
+    expect(refunds).toHaveLength(1);
+  });
+
+  test('deposits of a proposal without quorum go to the treasury, which pays passed spends', () => {
+    const text = governance.submit('alice', { type: 'text', title: 'Adopt a logo', description: '' }, toBaseUnits(10), 1);
+    castVotes(text.id!, { v1: 'yes' }, 2);
+    expect(governance.processBlock(1 + VOTING_PERIOD).refunds).toEqual([]);
+    expect(governance.getProposal(text.id!)?.status).toBe('rejected');
+    expect(governance.getTreasury()).toBe(toBaseUnits(10));
+
+    const spend = governance.submit('v1', {
+      type: 'treasury',
+      title: 'Fund the explorer',
+      description: '',
+      recipient: 'bob',
+      spendAmount: toBaseUnits(4)
+    }, toBaseUnits(50), 10);
+    castVotes(spend.id!, { v1: 'yes', v2: 'yes', alice: 'yes' }, 11);
+    governance.processBlock(10 + VOTING_PERIOD);
+
+    const { payouts } = governance.processBlock(10 + VOTING_PERIOD + ACTIVATION_DELAY);
+    expect(payouts).toEqual([{ recipient: 'bob', amount: toBaseUnits(4) }]);
+    expect(governance.getTreasury()).toBe(toBaseUnits(6));
+  });
+
+  test('proposals survive an export and import', () => {
+    const { id } = governance.submit('alice', PARAMETER_CHANGE, toBaseUnits(100), 1);
+    castVotes(id!, { v1: 'yes', alice: 'no' }, 2);
+
+    const copy = new GovernanceManager({ getChamberMembers: () => [], getAssemblyMembers: () => [], getVotingPower: () => 0 });
+    copy.importGovernance(JSON.parse(JSON.stringify(governance.exportGovernance())));
+    expect(copy.getProposal(id!)).toEqual(governance.getProposal(id!));
+  });
+});
+
+describe('ProofOfVibe governance', () => {
+  test('a passed parameter change updates the consensus config and refunds the deposit', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+    produceBlock(chain, consensus, wallets, clock);
+    const validator = wallets[0].publicKey;
+
+    expect(pov.getChamberMembers('senate')).toEqual([validator]);
+    const governance = pov.getGovernanceManager();
+    const { id } = governance.submit(validator, PARAMETER_CHANGE, toBaseUnits(100), 2);
+    expect(governance.vote(validator, id!, 'yes', 3)).toEqual({ success: true });
+
+    const end = 2 + VOTING_PERIOD;
+    pov.processGovernance(end, 0);
+    expect(pov.getUnbonding(validator).total).toBe(toBaseUnits(100));
+    expect(pov.calculateRewards(validator).reward).toBe(toBaseUnits(4.5));
+
+    pov.processGovernance(end + ACTIVATION_DELAY, 0);
+    expect(pov.calculateRewards(validator).reward).toBe(toBaseUnits(5.4));
+  });
+});
@@ -0,0 +1,83 @@
+import { ValidatorManager, PERFORMANCE_CONFIG } from '../../src/consensus/Validator';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+const HOUR = 60 * 60 * 1000;
+const { DAY, WEEK, HISTORY_SLOTS } = PERFORMANCE_CONFIG;
+
+describe('ValidatorManager performance', () => {
+  // A time in the middle of an hour, so hour-aligned windows would show
+  const NOW = 100 * WEEK + 30 * 60 * 1000;
+  let validators: ValidatorManager;
+
+  beforeEach(() => {
+    validators = new ValidatorManager();
+    validators.registerValidator('alice', 'alice', {}, 0);
+    validators.registerValidator('bob', 'bob', {}, 0);
+  });
+
+  test('the 24 hour window ends now and starts exactly a day before', () => {
+    validators.recordBlockProduced('alice', 5, NOW - DAY - 1000, 100);   // Same hour as the cutoff, but before it
+    validators.recordBlockProduced('alice', 5, NOW - DAY + 1000, 300);
+    validators.recordBlockMissed('alice', 2, NOW - HOUR);
+
+    const performance = validators.getPerformance('alice', NOW)!;
+    expect(performance).toMatchObject({ recentBlocks: 1, recentMissed: 2, weeklyBlocks: 2, weeklyMissed: 2, averageLatency: 200 });
+    expect(performance.reliability24h).toBeCloseTo(100 / 3);
+    expect(performance.reliability7d).toBe(50);
+  });
+
+  test('records leave the 7 day window as time passes, and later ones are not counted yet', () => {
+    validators.recordBlockProduced('alice', 5, NOW - WEEK + HOUR, 0);
+    validators.recordBlockMissed('alice', 1, NOW - 2 * DAY);
+
+    expect(validators.getPerformance('alice', NOW)).toMatchObject({ weeklyBlocks: 1, weeklyMissed: 1 });
+    expect(validators.getPerformance('alice', NOW + HOUR)).toMatchObject({ weeklyBlocks: 0, weeklyMissed: 1, averageLatency: null });
+    expect(validators.getPerformance('alice', NOW - 3 * DAY)).toMatchObject({ weeklyBlocks: 1, weeklyMissed: 0 });
+    expect(validators.getPerformance('bob', NOW)).toMatchObject({ weeklyBlocks: 0, reliability7d: 100 });
+  });
+
+  test('the slot history is a ring buffer that overwrites its oldest records', () => {
+    for (let i = 0; i < HISTORY_SLOTS + 10; i++) {
+      validators.recordBlockProduced('alice', 5, NOW - WEEK + 1 + i, i < 10 ? 1000 : 0);
+    }
+
+    const history = validators.exportPerformance().alice;
+    expect(history.records).toHaveLength(HISTORY_SLOTS);
+    expect(history.next).toBe(10);
+    expect(validators.getPerformance('alice', NOW)).toMatchObject({ weeklyBlocks: HISTORY_SLOTS, averageLatency: 0 });
+  });
+
+  test('streaks count produced slots since the last miss', () => {
+    validators.recordBlockProduced('alice', 5, NOW - 3000);
+    validators.recordBlockProduced('alice', 5, NOW - 2000);
+    validators.recordBlockMissed('alice', 1, NOW - 1500);
+    validators.recordBlockProduced('alice', 5, NOW - 1000);
+
+    expect(validators.getPerformance('alice', NOW)).toMatchObject({ currentStreak: 1, streakStartedAt: NOW - 1000, longestStreak: 2 });
+  });
+
+  test('the leaderboard ranks by a performance metric', () => {
+    validators.recordBlockProduced('alice', 5, NOW - 4000, 900);
+    validators.recordBlockProduced('alice', 5, NOW - 3000, 900);
+    validators.recordBlockMissed('alice', 1, NOW - 2000);
+    validators.recordBlockProduced('bob', 5, NOW - 1000, 100);
+
+    const ranking = (sort: Parameters<ValidatorManager['getLeaderboard']>[1]) =>
+      validators.getLeaderboard(10, sort, NOW).map(info => info.address);
+    expect(ranking('blocks')).toEqual(['alice', 'bob']);
+    expect(ranking('reliability24h')).toEqual(['bob', 'alice']);
+    expect(ranking('latency')).toEqual(['bob', 'alice']);
+  });
+
+  test('slot histories survive an export and import', () => {
+    validators.recordBlockProduced('alice', 5, NOW - 1000, 250);
+    validators.recordBlockMissed('alice', 3, NOW - 500);
+
+    const copy = new ValidatorManager();
+    copy.importValidators(validators.exportValidators());
+    copy.importPerformance(JSON.parse(JSON.stringify(validators.exportPerformance())));
+    expect(copy.getPerformance('alice', NOW)).toEqual(validators.getPerformance('alice', NOW));
+  });
+});
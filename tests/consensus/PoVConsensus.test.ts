@@ -0,0 +1,434 @@
+import { Block } from '../../src/core/Block';
+import { Blockchain } from '../../src/core/Blockchain';
+import { Transaction, STAKING_ADDRESS, DEFAULT_FEE } from '../../src/core/Transaction';
+import { toBaseUnits } from '../../src/core/Units';
+import { WorldState } from '../../src/core/WorldState';
+import { DoubleSignEvidence } from '../../src/consensus/Evidence';
+import { JAIL_CONFIG } from '../../src/consensus/Validator';
+import { DEFAULT_STAKING_CONFIG } from '../../src/consensus/Staking';
+import { ProofOfVibe } from '../../src/consensus/ProofOfVibe';
+import { PoVConsensus } from '../../src/consensus/PoVConsensus';
+import { encodeRegistration } from '../../src/consensus/StakingTransactions';
+import { Wallet } from '../../src/wallet/Wallet';
+import { copyBlock, createPoVChain, fundNewWallet, produceBlock, registerNewValidator, silenceConsole, useFakeClock } from '../helpers';
+
+silenceConsole();
+
+describe('genesis validators', () => {
+  test('produce the first blocks, and every node with the same list accepts them', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet(), new Wallet()];
+    const producer = createPoVChain(wallets);
+    const peer = createPoVChain(wallets);
+
+    for (let i = 0; i < 4; i++) {
+      const block = produceBlock(producer.chain, producer.consensus, wallets, clock);
+      expect(peer.forkChoice.processBlock(copyBlock(block)).status).toBe('extended');
+    }
+
+    expect(peer.chain.getLatestBlock().hash).toBe(producer.chain.getLatestBlock().hash);
+    expect(peer.consensus.exportState().state).toEqual(producer.consensus.exportState().state);
+  });
+
+  test('are registered with their stake on a fresh consensus state', () => {
+    const wallets = [new Wallet()];
+    const { pov } = createPoVChain(wallets);
+
+    expect(pov.getAllValidatorsWithScores().map(v => v.info.address)).toEqual([wallets[0].publicKey]);
+    expect(pov.getValidatorInfo(wallets[0].publicKey)?.stake).toBe(toBaseUnits(100));
+  });
+
+  test('reject an invalid genesis list', () => {
+    const address = new Wallet().publicKey;
+    const pov = new ProofOfVibe({ genesisValidators: [{ address, name: 'x', stake: 100 }] });
+
+    expect(() => new PoVConsensus(new Blockchain(), pov)).toThrow('Invalid genesis validator');
+  });
+
+  test('cannot withdraw genesis stake, which was never locked on chain', () => {
+    const wallets = [new Wallet()];
+    const { chain, consensus } = createPoVChain(wallets);
+
+    const withdraw = wallets[0].createStakingTransaction('withdraw', STAKING_ADDRESS, toBaseUnits(100));
+
+    expect(consensus.validateTransaction(withdraw)).toEqual({
+      valid: false,
+      error: 'Cannot release more than the 0 VIBE locked on chain'
+    });
+    expect(chain.addTransaction(withdraw)).toBe(false);
+  });
+});
+
+describe('validator registration', () => {
+  test('takes effect when the signed registerValidator transaction is in a block', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const newcomer = new Wallet();
+    const { chain, consensus, pov } = createPoVChain(wallets);
+
+    produceBlock(chain, consensus, wallets, clock);
+    expect(chain.addTransaction(wallets[0].createTransaction(newcomer.publicKey, toBaseUnits(3), '', undefined, 0))).toBe(true);
+    produceBlock(chain, consensus, wallets, clock);
+
+    const registration = newcomer.createStakingTransaction(
+      'registerValidator',
+      STAKING_ADDRESS,
+      toBaseUnits(2),
+      encodeRegistration({ name: 'newcomer' }),
+      undefined,
+      0
+    );
+    expect(chain.addTransaction(registration)).toBe(true);
+    expect(pov.getValidatorInfo(newcomer.publicKey)).toBeNull();
+
+    produceBlock(chain, consensus, wallets, clock);
+
+    expect(pov.getValidatorInfo(newcomer.publicKey)?.info.name).toBe('newcomer');
+    expect(chain.getLockedBalance(newcomer.publicKey)).toBe(toBaseUnits(2));
+  });
+});
+
+describe('block signatures', () => {
+  test('a peer refuses a block signed by a validator out of its slot, or with a forged signature', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet(), new Wallet()];
+    const producer = createPoVChain(wallets);
+    const peer = createPoVChain(wallets);
+
+    clock.advance(producer.pov.getConfig().blockTime);
+    const owner = wallets.find(wallet => wallet.publicKey === producer.consensus.getCurrentProducer())!;
+    const other = wallets.find(wallet => wallet !== owner)!;
+
+    const usurped = producer.consensus.createBlock(owner)!;
+    usurped.setValidator(other.publicKey, 'genesis-x', usurped.vibeScore, usurped.epoch);
+    other.signBlock(usurped);
+    expect(peer.forkChoice.processBlock(copyBlock(usurped)).status).toBe('invalid');
+
+    const forged = producer.consensus.createBlock(owner)!;
+    forged.signature = usurped.signature;
+    forged.hash = forged.calculateHash();
+    expect(peer.forkChoice.processBlock(copyBlock(forged)).status).toBe('invalid');
+
+    expect(peer.forkChoice.processBlock(copyBlock(producer.consensus.createBlock(owner)!)).status).toBe('extended');
+  });
+});
+
+describe('double-sign slashing', () => {
+  function doubleSign(validator: Wallet, height: number): DoubleSignEvidence {
+    const headers = [50, 60].map(vibeScore => {
+      const block = new Block(height, [Transaction.createCoinbase(validator.publicKey, 1n)], 'parent', 1, validator.publicKey, 'PoV');
+      block.setValidator(validator.publicKey, 'offender', vibeScore, 0);
+      validator.signBlock(block);
+      return block.getSignedHeader();
+    });
+    return { validator: validator.publicKey, height, headers: [headers[0], headers[1]], detectedAt: 0 };
+  }
+
+  test('burns the slashed stake from the locked balance and the supply, and restores it with the block', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+    const offender = registerNewValidator(chain, consensus, wallets, clock, 'offender', toBaseUnits(2));
+    const supply = chain.getCirculatingSupply();
+
+    expect(consensus.getEvidencePool().add(doubleSign(offender, 2))).toEqual({ success: true });
+    const block = produceBlock(chain, consensus, wallets, clock);
+
+    expect(block.evidence).toHaveLength(1);
+    expect(pov.getValidatorInfo(offender.publicKey)?.stake).toBe(toBaseUnits(1.8));
+    expect(chain.getLockedBalance(offender.publicKey)).toBe(toBaseUnits(1.8));
+    expect(chain.getCirculatingSupply()).toBe(supply + block.transactions[0].amount - toBaseUnits(0.2));
+
+    chain.disconnectTip();
+
+    expect(pov.getValidatorInfo(offender.publicKey)?.stake).toBe(toBaseUnits(2));
+    expect(chain.getLockedBalance(offender.publicKey)).toBe(toBaseUnits(2));
+    expect(chain.getCirculatingSupply()).toBe(supply);
+    expect(consensus.getEvidencePool().getSize()).toBe(1);
+  });
+
+  test('burns once when the consensus replays the block, and again after the state is rebuilt', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus } = createPoVChain(wallets);
+    const offender = registerNewValidator(chain, consensus, wallets, clock, 'offender', toBaseUnits(2));
+
+    consensus.getEvidencePool().add(doubleSign(offender, 2));
+    produceBlock(chain, consensus, wallets, clock);
+    const supply = chain.getCirculatingSupply();
+    produceBlock(chain, consensus, wallets, clock);
+
+    // The consensus state is replayed from genesis, through the slashing block
+    chain.disconnectTip();
+    expect(chain.getLockedBalance(offender.publicKey)).toBe(toBaseUnits(1.8));
+    expect(chain.getCirculatingSupply()).toBe(supply);
+
+    const reloaded = WorldState.fromJSON(JSON.parse(JSON.stringify(chain.state.toJSON())));
+    chain.rebuildState(reloaded.getSlashes());
+    expect(chain.getLockedBalance(offender.publicKey)).toBe(toBaseUnits(1.8));
+    expect(chain.getCirculatingSupply()).toBe(supply);
+  });
+});
+
+describe('missed slots', () => {
+  /**
+   * Produce the next block with the only validator still online, leaving other validators' slots empty
+   */
+  function produceOnline(chain: Blockchain, consensus: PoVConsensus, online: Wallet, clock: { advance: (ms: number) => void }): Block {
+    do {
+      clock.advance(consensus.getProofOfVibe().getConfig().blockTime);
+    } while (consensus.getCurrentProducer() !== online.publicKey);
+    const block = consensus.createBlock(online)!;
+    expect(chain.addMinedBlock(block)).toBe(true);
+    return block;
+  }
+
+  test('count against the validator that skipped its slot, and producing resets the count', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet(), new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+
+    produceBlock(chain, consensus, wallets, clock);
+    const absent = wallets.find(wallet => wallet.publicKey === consensus.getCurrentProducer())!;
+    const online = wallets.find(wallet => wallet !== absent)!;
+
+    produceOnline(chain, consensus, online, clock);
+    expect(pov.getValidatorInfo(absent.publicKey)?.info).toMatchObject({ blocksMissed: 1, consecutiveMissed: 1 });
+    expect(pov.getValidatorInfo(absent.publicKey)?.stake).toBe(toBaseUnits(99));
+    expect(pov.getValidatorInfo(online.publicKey)?.info.blocksMissed).toBe(0);
+
+    while (consensus.getCurrentProducer(Date.now() + pov.getConfig().blockTime) !== absent.publicKey) {
+      produceBlock(chain, consensus, wallets, clock);
+    }
+    produceBlock(chain, consensus, wallets, clock);
+    expect(pov.getValidatorInfo(absent.publicKey)?.info).toMatchObject({ blocksMissed: 1, consecutiveMissed: 0 });
+  });
+
+  test('jail a validator that keeps missing, which can ask to rejoin only after the cooldown', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet(), new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+    const [online, absent] = wallets;
+
+    while (!pov.getValidatorInfo(absent.publicKey)?.info.jailed) {
+      produceOnline(chain, consensus, online, clock);
+    }
+
+    const { info, stake } = pov.getValidatorInfo(absent.publicKey)!;
+    expect(info.consecutiveMissed).toBe(JAIL_CONFIG.MISSED_SLOTS_TO_JAIL);
+    expect(info.jailedAt).toBe(chain.getLatestBlock().index);
+    expect(stake).toBeLessThan(toBaseUnits(90));
+    expect(pov.getActiveValidators()).toEqual([online.publicKey]);
+
+    // The remaining validator owns every slot
+    expect(produceBlock(chain, consensus, [online], clock).validator).toBe(online.publicKey);
+
+    expect(consensus.submitUnjail(absent.signUnjailRequest(info.jailedAt))).toEqual({
+      success: false,
+      error: `Jail cooldown ends at height ${info.jailedAt + JAIL_CONFIG.COOLDOWN_BLOCKS}`
+    });
+  });
+
+  test('never jail the last active validator', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+
+    produceBlock(chain, consensus, wallets, clock);
+    clock.advance(pov.getConfig().blockTime * (JAIL_CONFIG.MISSED_SLOTS_TO_JAIL + 2));
+    produceBlock(chain, consensus, wallets, clock);
+
+    expect(pov.getValidatorInfo(wallets[0].publicKey)?.info).toMatchObject({ jailed: false, blocksMissed: JAIL_CONFIG.MISSED_SLOTS_TO_JAIL + 2 });
+    expect(pov.getActiveValidators()).toEqual([wallets[0].publicKey]);
+  });
+});
+
+describe('epochs', () => {
+  test('boundary blocks commit the elected set, and a new validator joins at the next boundary', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets, { epochLength: 5 });
+
+    const newcomer = registerNewValidator(chain, consensus, wallets, clock, 'newcomer', toBaseUnits(2));
+    expect(chain.getBlock(1)!.validatorSet).toEqual([wallets[0].publicKey]);
+    expect(chain.getBlock(2)!.validatorSet).toEqual([]);
+    expect(pov.getActiveValidators()).toEqual([wallets[0].publicKey]);
+
+    while (chain.getLatestBlock().index < 4) {
+      produceBlock(chain, consensus, wallets, clock);
+    }
+    const boundary = produceBlock(chain, consensus, [...wallets, newcomer], clock);
+
+    expect(boundary.epoch).toBe(1);
+    expect(boundary.validatorSet).toHaveLength(2);
+    expect(boundary.validatorSet).toContain(newcomer.publicKey);
+    expect(pov.getActiveValidators()).toEqual(boundary.validatorSet);
+
+    const produced = new Set<string>();
+    for (let i = 0; i < 4; i++) {
+      produced.add(produceBlock(chain, consensus, [...wallets, newcomer], clock).validator);
+    }
+    expect(produced).toEqual(new Set([wallets[0].publicKey, newcomer.publicKey]));
+  });
+
+  test('a peer refuses a wrong epoch number or a validator set outside a boundary', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const producer = createPoVChain(wallets, { epochLength: 5 });
+    const peer = createPoVChain(wallets, { epochLength: 5 });
+
+    expect(peer.forkChoice.processBlock(copyBlock(produceBlock(producer.chain, producer.consensus, wallets, clock))).status).toBe('extended');
+    clock.advance(producer.pov.getConfig().blockTime);
+
+    const wrongEpoch = producer.consensus.createBlock(wallets[0])!;
+    wrongEpoch.setValidator(wrongEpoch.validator, wrongEpoch.validatorName, wrongEpoch.vibeScore, 1);
+    wallets[0].signBlock(wrongEpoch);
+    expect(peer.forkChoice.processBlock(copyBlock(wrongEpoch)).message).toContain('Wrong epoch 1, expected 0');
+
+    const withSet = producer.consensus.createBlock(wallets[0])!;
+    withSet.validatorSet = [wallets[0].publicKey];
+    withSet.setValidator(withSet.validator, withSet.validatorName, withSet.vibeScore, withSet.epoch);
+    wallets[0].signBlock(withSet);
+    expect(peer.forkChoice.processBlock(copyBlock(withSet)).message).toContain('Validator set outside an epoch boundary');
+  });
+});
+
+describe('block timestamps', () => {
+  test('a producer cannot stamp its block into a later slot of its own', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet(), new Wallet()];
+    const producer = createPoVChain(wallets);
+    const peer = createPoVChain(wallets);
+    const blockTime = producer.pov.getConfig().blockTime;
+
+    const parent = produceBlock(producer.chain, producer.consensus, wallets, clock);
+    expect(peer.forkChoice.processBlock(copyBlock(parent)).status).toBe('extended');
+
+    // The slot after the current one belongs to the other validator
+    clock.set(parent.timestamp + blockTime);
+    const owner = producer.consensus.getCurrentProducer();
+    const jumper = wallets.find(wallet => wallet.publicKey !== owner)!;
+
+    clock.set(parent.timestamp + 2 * blockTime + 1);
+    const early = producer.consensus.createBlock(jumper)!;
+    expect(early.validator).toBe(jumper.publicKey);
+
+    clock.set(parent.timestamp + blockTime);
+    expect(peer.forkChoice.processBlock(copyBlock(early)).message)
+      .toContain('Block timestamp is more than one block time in the future');
+    expect(peer.pov.getValidatorInfo(owner!)?.info.blocksMissed).toBe(0);
+
+    // Within one block time of drift the block is accepted once its slot is near
+    clock.set(parent.timestamp + 2 * blockTime - 1000);
+    expect(peer.forkChoice.processBlock(copyBlock(early)).status).toBe('extended');
+  });
+});
+
+describe('staking transactions on chain', () => {
+  test('a block spending more than the sender holds is refused, whatever its type', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+    produceBlock(chain, consensus, wallets, clock);
+    clock.advance(pov.getConfig().blockTime);
+
+    const empty = new Wallet();
+    const transfer = empty.createTransaction(new Wallet().publicKey, toBaseUnits(5000), '', undefined, 0);
+    const stake = empty.createStakingTransaction('stake', STAKING_ADDRESS, toBaseUnits(5000), '', undefined, 0);
+
+    for (const tx of [transfer, stake]) {
+      const tip = chain.getLatestBlock();
+      const validator = wallets[0].publicKey;
+      const reward = pov.calculateRewards(validator).reward + tx.fee;
+      const block = new Block(tip.index + 1, [Transaction.createCoinbase(validator, reward), tx], tip.hash, chain.difficulty, validator, 'PoV');
+      block.setValidator(validator, 'genesis-1', 0, pov.getEpoch(block.index));
+      wallets[0].signBlock(block);
+
+      expect(consensus.validateBlock(block, tip).error).toContain('Insufficient balance. Has: 0, Needs: 5000.001');
+    }
+  });
+
+  test('pending staking transactions survive a restart, once the consensus is attached', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+    produceBlock(chain, consensus, wallets, clock);
+
+    const staker = wallets[0];
+    const stake = staker.createStakingTransaction('stake', STAKING_ADDRESS, toBaseUnits(1), '', undefined, 0);
+    const transfer = staker.createTransaction(new Wallet().publicKey, toBaseUnits(1), '', undefined, 1);
+    expect(chain.addTransaction(stake)).toBe(true);
+    expect(chain.addTransaction(transfer)).toBe(true);
+
+    const restored = Blockchain.fromJSON(JSON.parse(JSON.stringify(chain.toJSON())));
+    expect(restored.mempool.getSize()).toBe(0);
+
+    const restoredPov = new ProofOfVibe(pov.getConfig());
+    const restoredConsensus = new PoVConsensus(restored, restoredPov);
+    restoredConsensus.restoreState(consensus.exportState());
+    restored.setConsensus('PoV', restoredConsensus);
+
+    expect(restored.mempool.getAll().map(tx => tx.id)).toEqual([stake.id, transfer.id]);
+  });
+});
+
+describe('unbonding on chain', () => {
+  test('unstaked VIBE stays locked until a withdraw after the lock period', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus } = createPoVChain(wallets);
+    const staker = registerNewValidator(chain, consensus, wallets, clock, 'staker', toBaseUnits(3));
+    const balance = chain.getBalance(staker.publicKey);
+
+    expect(chain.addTransaction(staker.createStakingTransaction('unstake', STAKING_ADDRESS, toBaseUnits(1), '', undefined, 1))).toBe(true);
+    produceBlock(chain, consensus, wallets, clock);
+    expect(chain.getLockedBalance(staker.publicKey)).toBe(toBaseUnits(3));
+
+    const early = staker.createStakingTransaction('withdraw', STAKING_ADDRESS, toBaseUnits(1), '', undefined, 2);
+    expect(consensus.validateTransaction(early).error).toBe('Only 0 VIBE of unbonded stake is mature');
+
+    clock.advance(DEFAULT_STAKING_CONFIG.lockPeriod);
+    produceBlock(chain, consensus, wallets, clock);
+    const withdraw = staker.createStakingTransaction('withdraw', STAKING_ADDRESS, toBaseUnits(1), '', undefined, 2);
+    expect(chain.addTransaction(withdraw)).toBe(true);
+    produceBlock(chain, consensus, wallets, clock);
+
+    expect(chain.getLockedBalance(staker.publicKey)).toBe(toBaseUnits(2));
+    expect(chain.getBalance(staker.publicKey)).toBe(balance + toBaseUnits(1) - 2n * DEFAULT_FEE);
+    expect(consensus.getProofOfVibe().getUnbonding(staker.publicKey).total).toBe(0n);
+  });
+});
+
+describe('delegator rewards on chain', () => {
+  test('accrue to a delegation every block and are minted by a claimRewards transaction', () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+    const delegator = fundNewWallet(chain, consensus, wallets, clock, toBaseUnits(3));
+    const validator = wallets[0].publicKey;
+
+    expect(chain.addTransaction(delegator.createStakingTransaction('delegate', validator, toBaseUnits(2), '', undefined, 0))).toBe(true);
+    produceBlock(chain, consensus, wallets, clock);
+
+    const { delegatorReward } = pov.calculateRewards(validator);
+    expect(delegatorReward).toBeGreaterThan(0n);
+    for (let i = 0; i < 3; i++) {
+      produceBlock(chain, consensus, wallets, clock);
+    }
+    const claimable = pov.getClaimableRewards(delegator.publicKey).total;
+    expect(claimable).toBe(3n * delegatorReward);
+
+    const balance = chain.getBalance(delegator.publicKey);
+    const supply = chain.getCirculatingSupply();
+    const claim = delegator.createStakingTransaction('claimRewards', STAKING_ADDRESS, claimable, '', undefined, 1);
+    expect(chain.addTransaction(claim)).toBe(true);
+    const block = produceBlock(chain, consensus, wallets, clock);
+
+    expect(chain.getBalance(delegator.publicKey)).toBe(balance + claimable - DEFAULT_FEE);
+    expect(chain.getCirculatingSupply()).toBe(supply + block.transactions[0].amount + claimable - DEFAULT_FEE);
+    expect(pov.getClaimableRewards(delegator.publicKey).total).toBe(delegatorReward);
+
+    const overclaim = delegator.createStakingTransaction('claimRewards', STAKING_ADDRESS, 2n * delegatorReward, '', undefined, 2);
+    expect(chain.addTransaction(overclaim)).toBe(false);
+  });
+});
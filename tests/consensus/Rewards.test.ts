@@ -0,0 +1,87 @@
+import { ProofOfVibe } from '../../src/consensus/ProofOfVibe';
+import { RewardManager } from '../../src/consensus/Rewards';
+import { toBaseUnits } from '../../src/core/Units';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+describe('RewardManager', () => {
+  test('delegations collect their share of the index since their last settlement', () => {
+    const rewards = new RewardManager();
+    rewards.settle('alice', 'v', toBaseUnits(10));
+
+    rewards.addDelegatorRewards('v', toBaseUnits(4), toBaseUnits(40));
+    expect(rewards.getPending('alice', 'v', toBaseUnits(10))).toBe(toBaseUnits(1));
+
+    // Bob joins after the first block and only shares the second
+    rewards.settle('bob', 'v', toBaseUnits(30));
+    rewards.addDelegatorRewards('v', toBaseUnits(4), toBaseUnits(40));
+    expect(rewards.getPending('alice', 'v', toBaseUnits(10))).toBe(toBaseUnits(2));
+    expect(rewards.getPending('bob', 'v', toBaseUnits(30))).toBe(toBaseUnits(3));
+
+    rewards.settle('alice', 'v', toBaseUnits(10));
+    expect(rewards.getAccrued('alice')).toBe(toBaseUnits(2));
+    expect(rewards.getPending('alice', 'v', toBaseUnits(10))).toBe(0n);
+  });
+
+  test('claims never exceed the accrued rewards', () => {
+    const rewards = new RewardManager();
+    rewards.credit('alice', toBaseUnits(1.5));
+
+    expect(rewards.claim('alice', toBaseUnits(2))).toEqual({ success: false, error: 'Claimable rewards: 1.5 VIBE' });
+    expect(rewards.claim('alice', toBaseUnits(1))).toEqual({ success: true });
+    expect(rewards.getAccrued('alice')).toBe(toBaseUnits(0.5));
+  });
+});
+
+describe('ProofOfVibe block rewards', () => {
+  let pov: ProofOfVibe;
+
+  beforeEach(() => {
+    pov = new ProofOfVibe({ minStake: 1 });
+    pov.registerValidator('validator', 'validator-1', toBaseUnits(100), {}, 0);
+  });
+
+  test('without delegators or voters the validator keeps the staking reward, and the voter pool is not minted', () => {
+    expect(pov.calculateRewards('validator')).toEqual({
+      reward: toBaseUnits(4.5),
+      delegatorReward: 0n,
+      voterRewards: new Map()
+    });
+  });
+
+  test('delegators share the staking reward after commission, pro rata to their stake', () => {
+    pov.delegate('alice', 'validator', toBaseUnits(25), 0);
+    pov.delegate('bob', 'validator', toBaseUnits(75), 0);
+
+    // 4.5 VIBE staking reward (0.5 is the voter pool), 10% commission,
+    // the remaining 4.05 split half to own stake and half to the delegators
+    const { reward, delegatorReward } = pov.calculateRewards('validator');
+    expect(delegatorReward).toBe(toBaseUnits(2.025));
+    expect(reward).toBe(toBaseUnits(2.475));
+
+    pov.distributeRewards('validator');
+    expect(pov.getClaimableRewards('alice').total).toBe(toBaseUnits(0.50625));
+    expect(pov.getClaimableRewards('bob').total).toBe(toBaseUnits(1.51875));
+  });
+
+  test('the commission rate set by the validator applies to the next block', () => {
+    pov.delegate('alice', 'validator', toBaseUnits(100), 0);
+    expect(pov.updateValidator('validator', { commission: 50 })).toEqual({ success: true });
+
+    expect(pov.calculateRewards('validator').delegatorReward).toBe(toBaseUnits(1.125));
+  });
+
+  test('voters share the voter pool', () => {
+    pov.addStake('carol', toBaseUnits(10), 0);
+    expect(pov.vote('carol', ['validator'], 0)).toEqual({ success: true });
+
+    const { reward, voterRewards } = pov.calculateRewards('validator');
+    expect(voterRewards).toEqual(new Map([['carol', toBaseUnits(0.5)]]));
+    expect(reward).toBe(toBaseUnits(4.5));
+
+    pov.distributeRewards('validator');
+    expect(pov.claimRewards('carol', toBaseUnits(0.5))).toEqual({ success: true });
+    expect(pov.getClaimableRewards('carol').total).toBe(0n);
+  });
+});
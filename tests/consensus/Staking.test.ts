@@ -0,0 +1,154 @@
+import { StakingManager, DEFAULT_STAKING_CONFIG } from '../../src/consensus/Staking';
+import { toBaseUnits } from '../../src/core/Units';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+const DAY = 24 * 60 * 60 * 1000;
+const LOCK = DEFAULT_STAKING_CONFIG.lockPeriod;
+
+describe('StakingManager unbonding', () => {
+  let staking: StakingManager;
+
+  beforeEach(() => {
+    staking = new StakingManager();
+    staking.stake('alice', toBaseUnits(300), true, 0);
+  });
+
+  test('unstaked VIBE unbonds for the lock period before it can be withdrawn', () => {
+    expect(staking.unstake('alice', toBaseUnits(100), DAY)).toEqual({ success: true, availableAt: DAY + LOCK });
+    expect(staking.getStake('alice')?.amount).toBe(toBaseUnits(200));
+    expect(staking.getTotalUnbonding('alice')).toBe(toBaseUnits(100));
+
+    expect(staking.withdraw('alice', toBaseUnits(100), DAY + LOCK - 1)).toEqual({
+      success: false,
+      error: 'Only 0 VIBE of unbonded stake is mature'
+    });
+    expect(staking.withdraw('alice', toBaseUnits(100), DAY + LOCK)).toEqual({ success: true });
+    expect(staking.getUnbonding('alice')).toEqual([]);
+  });
+
+  test('each unstake is its own entry, withdrawn oldest first and in part', () => {
+    staking.unstake('alice', toBaseUnits(50), 0);
+    staking.unstake('alice', toBaseUnits(70), 2 * DAY);
+
+    expect(staking.getWithdrawable('alice', LOCK)).toBe(toBaseUnits(50));
+    expect(staking.withdraw('alice', toBaseUnits(60), LOCK).success).toBe(false);
+    expect(staking.withdraw('alice', toBaseUnits(30), LOCK)).toEqual({ success: true });
+
+    expect(staking.getUnbonding('alice').map(entry => entry.amount)).toEqual([toBaseUnits(20), toBaseUnits(70)]);
+    expect(staking.withdraw('alice', toBaseUnits(90), 2 * DAY + LOCK)).toEqual({ success: true });
+    expect(staking.getTotalUnbonding('alice')).toBe(0n);
+  });
+
+  test('undelegated VIBE unbonds like own stake', () => {
+    expect(staking.delegate('bob', 'alice', toBaseUnits(40), 0).success).toBe(true);
+    expect(staking.undelegate('bob', 'alice', toBaseUnits(15), DAY).availableAt).toBe(DAY + LOCK);
+
+    expect(staking.getUnbonding('bob')).toEqual([
+      { address: 'bob', validator: 'alice', amount: toBaseUnits(15), startedAt: DAY, maturesAt: DAY + LOCK }
+    ]);
+    expect(staking.getWithdrawable('bob', DAY + LOCK)).toBe(toBaseUnits(15));
+  });
+
+  test("a validator's own unbonding stake is still slashed until it matures", () => {
+    staking.unstake('alice', toBaseUnits(100), 0);
+
+    expect(staking.slash('alice', 'doubleSign', 1, DAY)).toBe(toBaseUnits(30));
+    expect(staking.getStake('alice')?.amount).toBe(toBaseUnits(180));
+    expect(staking.getTotalUnbonding('alice')).toBe(toBaseUnits(90));
+
+    expect(staking.slash('alice', 'doubleSign', 1, LOCK)).toBe(toBaseUnits(18));
+    expect(staking.getTotalUnbonding('alice')).toBe(toBaseUnits(90));
+  });
+
+  test('the unbonding queue survives an export and import', () => {
+    staking.unstake('alice', toBaseUnits(25), DAY);
+
+    const copy = new StakingManager();
+    copy.importUnbonding(JSON.parse(JSON.stringify(staking.exportUnbonding())));
+    expect(copy.getUnbonding('alice')).toEqual(staking.getUnbonding('alice'));
+  });
+});
+
+describe('StakingManager delegations', () => {
+  const COOLDOWN = DEFAULT_STAKING_CONFIG.redelegationCooldown;
+  let staking: StakingManager;
+
+  beforeEach(() => {
+    staking = new StakingManager();
+    staking.stake('alice', toBaseUnits(300), true, 0);
+    staking.stake('carol', toBaseUnits(200), true, 0);
+  });
+
+  test('each delegator and validator pair is its own position', () => {
+    staking.delegate('bob', 'alice', toBaseUnits(40), 0);
+    staking.delegate('bob', 'carol', toBaseUnits(10), 0);
+    staking.delegate('bob', 'alice', toBaseUnits(5), DAY);
+    staking.delegate('dave', 'alice', toBaseUnits(20), DAY);
+
+    expect(staking.getDelegation('bob', 'alice')?.amount).toBe(toBaseUnits(45));
+    expect(staking.getDelegation('bob', 'carol')?.amount).toBe(toBaseUnits(10));
+    expect(staking.getDelegations('bob')).toHaveLength(2);
+    expect(staking.getTotalDelegated('alice')).toBe(toBaseUnits(65));
+    expect(staking.getEffectiveStake('alice')).toBe(toBaseUnits(365));
+    expect(staking.getEffectiveStake('carol')).toBe(toBaseUnits(210));
+  });
+
+  test('partial undelegation only reduces the named pair', () => {
+    staking.delegate('bob', 'alice', toBaseUnits(40), 0);
+    staking.delegate('bob', 'carol', toBaseUnits(10), 0);
+
+    expect(staking.undelegate('bob', 'alice', toBaseUnits(50), DAY).error).toBe('Insufficient delegation. You delegate 40 VIBE to this validator');
+    expect(staking.undelegate('bob', 'alice', toBaseUnits(30), DAY).success).toBe(true);
+    expect(staking.getEffectiveStake('alice')).toBe(toBaseUnits(310));
+    expect(staking.getEffectiveStake('carol')).toBe(toBaseUnits(210));
+
+    staking.undelegate('bob', 'alice', toBaseUnits(10), DAY);
+    expect(staking.getDelegation('bob', 'alice')).toBeUndefined();
+    expect(staking.getDelegations('bob').map(delegation => delegation.validator)).toEqual(['carol']);
+  });
+
+  test('delegations go to registered validators, never to oneself', () => {
+    expect(staking.delegate('bob', 'dave', toBaseUnits(10), 0).error).toBe('Target is not a registered validator');
+    expect(staking.delegate('alice', 'alice', toBaseUnits(10), 0).error).toBe('Validators back themselves with stake, not delegation');
+    expect(staking.delegate('bob', 'alice', toBaseUnits(0.5), 0).error).toBe('Minimum delegation is 1 VIBE');
+  });
+
+  test('redelegation moves stake at once without unbonding', () => {
+    staking.delegate('bob', 'alice', toBaseUnits(40), 0);
+
+    expect(staking.redelegate('bob', 'alice', 'carol', toBaseUnits(15), DAY)).toEqual({ success: true });
+    expect(staking.getDelegation('bob', 'alice')?.amount).toBe(toBaseUnits(25));
+    expect(staking.getDelegation('bob', 'carol')?.amount).toBe(toBaseUnits(15));
+    expect(staking.getTotalUnbonding('bob')).toBe(0n);
+    expect(staking.getTotalStaked()).toBe(toBaseUnits(540));
+
+    expect(staking.redelegate('bob', 'alice', 'alice', toBaseUnits(5), DAY).error).toBe('Source and target validator are the same');
+    expect(staking.redelegate('bob', 'carol', 'dave', toBaseUnits(5), COOLDOWN + DAY).error).toBe('Target is not a registered validator');
+  });
+
+  test('redelegated stake cannot hop again before the cooldown', () => {
+    staking.stake('erin', toBaseUnits(100), true, 0);
+    staking.delegate('bob', 'alice', toBaseUnits(40), 0);
+    staking.redelegate('bob', 'alice', 'carol', toBaseUnits(15), DAY);
+
+    expect(staking.redelegate('bob', 'carol', 'erin', toBaseUnits(5), 2 * DAY)).toEqual({
+      success: false,
+      error: 'Stake redelegated to this validator cannot move again yet',
+      availableAt: DAY + COOLDOWN
+    });
+    expect(staking.redelegate('bob', 'alice', 'erin', toBaseUnits(5), 2 * DAY).success).toBe(true);
+    expect(staking.undelegate('bob', 'carol', toBaseUnits(5), 2 * DAY).success).toBe(true);
+    expect(staking.redelegate('bob', 'carol', 'erin', toBaseUnits(5), DAY + COOLDOWN).success).toBe(true);
+  });
+
+  test('delegations survive an export and import', () => {
+    staking.delegate('bob', 'alice', toBaseUnits(40), 0);
+    staking.redelegate('bob', 'alice', 'carol', toBaseUnits(15), DAY);
+
+    const copy = new StakingManager();
+    copy.importDelegations(JSON.parse(JSON.stringify(staking.exportDelegations())));
+    expect(copy.getDelegations('bob')).toEqual(staking.getDelegations('bob'));
+  });
+});
@@ -0,0 +1,103 @@
+import { ProofOfVibe } from '../../src/consensus/ProofOfVibe';
+import { VotingManager, DEFAULT_VOTING_CONFIG } from '../../src/consensus/Voting';
+import { toBaseUnits } from '../../src/core/Units';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+const HOUR = 60 * 60 * 1000;
+
+describe('voting power strategies', () => {
+  test('the default is the whitepaper formula: sqrt stake boosted by up to 50% of contribution', () => {
+    const voting = new VotingManager();
+    expect(DEFAULT_VOTING_CONFIG.powerStrategy).toBe('contribution-boosted');
+
+    expect(voting.calculateVotingPower({ stake: 400, contributionScore: 0 })).toBe(20);
+    expect(voting.calculateVotingPower({ stake: 400, contributionScore: 250 })).toBe(25);
+    expect(voting.calculateVotingPower({ stake: 400, contributionScore: 5000 })).toBe(30);
+  });
+
+  test('linear-capped and quadratic strategies are selected through the config', () => {
+    const linear = new VotingManager({ powerStrategy: 'linear-capped', votePowerCap: 1000 });
+    expect(linear.calculateVotingPower({ stake: 400, contributionScore: 500 })).toBe(400);
+    expect(linear.calculateVotingPower({ stake: 5000, contributionScore: 0 })).toBe(1000);
+
+    const quadratic = new VotingManager({ powerStrategy: 'quadratic' });
+    expect(quadratic.calculateVotingPower({ stake: 400, contributionScore: 500 })).toBe(20);
+
+    expect(() => new VotingManager({ powerStrategy: 'plutocratic' })).toThrow('Unknown voting power strategy: plutocratic');
+  });
+});
+
+describe('VotingManager votes', () => {
+  let voting: VotingManager;
+
+  beforeEach(() => {
+    voting = new VotingManager();
+  });
+
+  test('power is split equally by default, or by custom weights', () => {
+    voting.vote('alice', { stake: 400, contributionScore: 0 }, ['v1', 'v2'], 0);
+    expect(voting.getValidatorVotes('v1')).toBe(10);
+    expect(voting.getValidatorVotes('v2')).toBe(10);
+
+    voting.vote('bob', { stake: 100, contributionScore: 0 }, ['v1', 'v2'], 0, [3, 1]);
+    expect(voting.getValidatorVotes('v1')).toBe(17.5);
+    expect(voting.getValidatorVotes('v2')).toBe(12.5);
+  });
+
+  test('votes without stake, with bad weights or inside the cooldown are refused', () => {
+    expect(voting.vote('alice', { stake: 0, contributionScore: 0 }, ['v1'], 0).error).toBe('No voting power: stake or delegate VIBE to vote');
+    expect(voting.vote('alice', { stake: 100, contributionScore: 0 }, ['v1', 'v2'], 0, [1]).error)
+      .toBe('Vote weights must be positive numbers, one per validator');
+    expect(voting.vote('alice', { stake: 100, contributionScore: 0 }, ['v1', 'v2'], 0, [1, 0]).error)
+      .toBe('Vote weights must be positive numbers, one per validator');
+
+    expect(voting.vote('alice', { stake: 100, contributionScore: 0 }, ['v1'], 0).success).toBe(true);
+    expect(voting.vote('alice', { stake: 100, contributionScore: 0 }, ['v2'], HOUR / 2).error).toBe('Vote cooldown active. Try again in 30 minutes');
+    expect(voting.vote('alice', { stake: 100, contributionScore: 0 }, ['v2'], HOUR).success).toBe(true);
+    expect(voting.getValidatorVotes('v1')).toBe(0);
+    expect(voting.getValidatorVotes('v2')).toBe(10);
+  });
+
+  test('a stake change re-weights the votes with the same shares', () => {
+    voting.vote('alice', { stake: 100, contributionScore: 0 }, ['v1', 'v2'], 0, [4, 1]);
+    voting.updateVotingPower('alice', { stake: 400, contributionScore: 0 });
+
+    expect(voting.getVoteRecord('alice')?.totalVotingPower).toBe(20);
+    expect(voting.getValidatorVotes('v1')).toBe(16);
+    expect(voting.getValidatorVotes('v2')).toBe(4);
+  });
+});
+
+describe('ProofOfVibe voting', () => {
+  let pov: ProofOfVibe;
+
+  beforeEach(() => {
+    pov = new ProofOfVibe({ minStake: 1 });
+    pov.registerValidator('v1', 'validator-1', toBaseUnits(100), {}, 0);
+    pov.registerValidator('v2', 'validator-2', toBaseUnits(100), {}, 0);
+  });
+
+  test('voting power comes from on-chain stake and delegations, not from the caller', () => {
+    expect(pov.vote('alice', ['v1'], 0).success).toBe(false);
+
+    pov.delegate('alice', 'v1', toBaseUnits(9), 0);
+    pov.delegate('alice', 'v2', toBaseUnits(16), 0);
+    expect(pov.getVotingPower('alice')).toBe(5);
+
+    expect(pov.vote('alice', ['v1', 'v2'], 0, [1, 4]).success).toBe(true);
+    expect(pov.getVotingManager().getValidatorVotes('v2')).toBe(4);
+
+    pov.undelegate('alice', 'v2', toBaseUnits(16), 0);
+    expect(pov.getVotingManager().getValidatorVotes('v2')).toBeCloseTo(2.4);
+  });
+
+  test("a validator's contribution score boosts its voting power", () => {
+    pov.getValidatorManager().setContributionScore('v1', 200);
+
+    expect(pov.getVotingPowerInput('v1')).toEqual({ stake: 100, contributionScore: 200 });
+    expect(pov.getVotingPower('v1')).toBe(12);
+    expect(pov.getVotingPower('v2')).toBe(10);
+  });
+});
@@ -0,0 +1,114 @@
+import * as crypto from 'crypto';
+import { Block } from '../../src/core/Block';
+import { Transaction } from '../../src/core/Transaction';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+function buildBlock(count: number): Block {
+  const sender = new Wallet();
+  const transactions = [Transaction.createCoinbase(sender.publicKey, toBaseUnits(50))];
+  for (let nonce = 0; nonce < count - 1; nonce++) {
+    transactions.push(sender.createTransaction(new Wallet().publicKey, toBaseUnits(1), '', undefined, nonce));
+  }
+  return new Block(1, transactions, Block.createGenesis().hash, Block.createGenesis().difficulty);
+}
+
+describe('Block merkle root', () => {
+  test('every transaction has a verifying inclusion proof', () => {
+    for (const count of [1, 2, 3, 5, 8]) {
+      const block = buildBlock(count);
+      block.transactions.forEach((tx, index) => {
+        const proof = block.getTransactionProof(tx.id)!;
+        expect(proof.txIndex).toBe(index);
+        expect(Block.verifyMerkleProof(tx.id, index, proof.merkleProof, block.merkleRoot)).toBe(true);
+      });
+    }
+  });
+
+  test('a proof does not verify for another transaction or position', () => {
+    const block = buildBlock(4);
+    const proof = block.getMerkleProof(1);
+    const otherId = crypto.createHash('sha256').update('other').digest('hex');
+
+    expect(Block.verifyMerkleProof(otherId, 1, proof, block.merkleRoot)).toBe(false);
+    expect(Block.verifyMerkleProof(block.transactions[1].id, 2, proof, block.merkleRoot)).toBe(false);
+  });
+
+  test('the header commits to the transactions', () => {
+    const block = buildBlock(3);
+    expect(block.hasValidMerkleRoot()).toBe(true);
+
+    const altered = Block.fromJSON(JSON.parse(JSON.stringify(block.toJSON())));
+    altered.transactions[1].amount = toBaseUnits(1000);
+    expect(altered.hasValidMerkleRoot()).toBe(false);
+
+    const reordered = Block.fromJSON(JSON.parse(JSON.stringify(block.toJSON())));
+    reordered.transactions.reverse();
+    expect(reordered.hasValidMerkleRoot()).toBe(false);
+
+    const extended = Block.fromJSON(JSON.parse(JSON.stringify(block.toJSON())));
+    extended.merkleRoot = Block.calculateMerkleRoot(extended.transactions.map(tx => tx.id));
+    extended.transactions.pop();
+    expect(extended.hasValidMerkleRoot()).toBe(false);
+  });
+
+  test('changing the merkle root changes the block hash', () => {
+    const block = buildBlock(2);
+    const hash = block.calculateHash();
+    block.merkleRoot = '0'.repeat(64);
+    expect(block.calculateHash()).not.toBe(hash);
+  });
+});
+
+describe('PoV validator signature', () => {
+  function signedBlock(validator: Wallet): Block {
+    const block = new Block(1, [Transaction.createCoinbase(validator.publicKey, toBaseUnits(5))], Block.createGenesis().hash, 1, validator.publicKey, 'PoV');
+    block.setValidator(validator.publicKey, 'validator-1', 50, 0);
+    validator.signBlock(block);
+    return block;
+  }
+
+  test('a block signed by its validator verifies, and the hash commits to the signature', () => {
+    const validator = new Wallet();
+    const block = signedBlock(validator);
+
+    expect(block.hasValidSignature()).toBe(true);
+    expect(block.isValid()).toBe(true);
+    expect(block.hash).toBe(block.calculateHash());
+    expect(Block.fromJSON(JSON.parse(JSON.stringify(block.toJSON()))).isValid()).toBe(true);
+  });
+
+  test('only the named validator can sign', () => {
+    const block = signedBlock(new Wallet());
+
+    expect(() => new Wallet().signBlock(block)).toThrow('Cannot sign block for another validator!');
+  });
+
+  test('a changed header or another validator no longer matches the signature', () => {
+    const validator = new Wallet();
+
+    const rescored = signedBlock(validator);
+    rescored.vibeScore = 99;
+    rescored.hash = rescored.calculateHash();
+    expect(rescored.hasValidSignature()).toBe(false);
+    expect(rescored.isValid()).toBe(false);
+
+    const impersonated = signedBlock(validator);
+    impersonated.validator = new Wallet().publicKey;
+    impersonated.hash = impersonated.calculateHash();
+    expect(impersonated.isValid()).toBe(false);
+  });
+
+  test('an unsigned PoV block is invalid', () => {
+    const validator = new Wallet();
+    const block = signedBlock(validator);
+    block.signature = '';
+    block.hash = block.calculateHash();
+
+    expect(block.hasValidSignature()).toBe(false);
+    expect(block.isValid()).toBe(false);
+  });
+});
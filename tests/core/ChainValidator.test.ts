@@ -0,0 +1,84 @@
+import { Block } from '../../src/core/Block';
+import { Blockchain } from '../../src/core/Blockchain';
+import { ChainValidator, ValidationError } from '../../src/core/ChainValidator';
+import { ForkChoice } from '../../src/core/ForkChoice';
+import { Transaction, STAKING_ADDRESS } from '../../src/core/Transaction';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, mineBlock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+/**
+ * Mine a block carrying transactions the mempool would never have accepted
+ */
+function mineWith(chain: Blockchain, transactions: Transaction[], clock: { advance: (ms: number) => void }): Block {
+  clock.advance(10000);
+  const tip = chain.getLatestBlock();
+  const coinbase = Transaction.createCoinbase(new Wallet().publicKey, chain.miningReward);
+  const block = new Block(tip.index + 1, [coinbase, ...transactions], tip.hash, chain.difficulty);
+  block.mine();
+  return block;
+}
+
+describe('ChainValidator on a proof-of-work chain', () => {
+  let clock: ReturnType<typeof useFakeClock>;
+  let chain: Blockchain;
+  let forkChoice: ForkChoice;
+
+  beforeEach(() => {
+    clock = useFakeClock();
+    chain = new Blockchain();
+    forkChoice = new ForkChoice(chain);
+  });
+
+  test('refuses a block that claims staking rewards or withdraws stake', () => {
+    const wallet = new Wallet();
+    const claim = wallet.createStakingTransaction('claimRewards', STAKING_ADDRESS, toBaseUnits(1_000_000), '', undefined, 0);
+    const withdraw = wallet.createStakingTransaction('withdraw', STAKING_ADDRESS, toBaseUnits(10), '', undefined, 0);
+
+    for (const tx of [claim, withdraw]) {
+      const result = forkChoice.processBlock(mineWith(chain, [tx], clock));
+      expect(result.status).toBe('invalid');
+      expect(result.message).toContain(`${tx.type} transactions require Proof of Vibe consensus`);
+    }
+    expect(chain.getLatestBlock().index).toBe(0);
+    expect(chain.getBalance(wallet.publicKey)).toBe(0n);
+  });
+
+  test('refuses a transfer the sender cannot pay, following balances through the block', () => {
+    const miner = new Wallet();
+    const recipient = new Wallet();
+    mineBlock(chain, miner.publicKey, clock);
+
+    const overdraft = new Wallet().createTransaction(recipient.publicKey, toBaseUnits(5000), '', undefined, 0);
+    const empty = mineWith(chain, [overdraft], clock);
+    expect(ChainValidator.validateBlockTransactions(empty, chain)).toMatchObject({
+      valid: false,
+      error: ValidationError.INSUFFICIENT_BALANCE,
+      txIndex: 1
+    });
+    expect(forkChoice.processBlock(empty).status).toBe('invalid');
+
+    // The miner's 50 VIBE pay the first transfer, not the second
+    const first = miner.createTransaction(recipient.publicKey, toBaseUnits(30), '', undefined, 0);
+    const second = miner.createTransaction(recipient.publicKey, toBaseUnits(30), '', undefined, 1);
+    expect(ChainValidator.validateBlockTransactions(mineWith(chain, [first, second], clock), chain)).toMatchObject({
+      valid: false,
+      error: ValidationError.INSUFFICIENT_BALANCE,
+      txIndex: 2
+    });
+
+    const spent = mineWith(chain, [first], clock);
+    expect(forkChoice.processBlock(spent).status).toBe('extended');
+    expect(chain.getBalance(recipient.publicKey)).toBe(toBaseUnits(30));
+  });
+
+  test('drops staking transactions from peers while the chain has no PoV consensus', () => {
+    const tx = new Wallet().createStakingTransaction('stake', STAKING_ADDRESS, toBaseUnits(1));
+
+    expect(ChainValidator.validateTransactionType(tx, false).valid).toBe(false);
+    expect(ChainValidator.validateTransactionType(tx, true).valid).toBe(true);
+    expect(chain.addTransaction(tx)).toBe(false);
+  });
+});
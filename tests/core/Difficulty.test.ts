@@ -0,0 +1,91 @@
+import { Block } from '../../src/core/Block';
+import { Blockchain, BLOCKCHAIN_CONFIG } from '../../src/core/Blockchain';
+import { ChainValidator, ValidationError } from '../../src/core/ChainValidator';
+import {
+  INITIAL_BITS,
+  MAX_TARGET,
+  DIFFICULTY_CONFIG,
+  bitsToTarget,
+  targetToBits,
+  retarget,
+  getWork
+} from '../../src/core/Difficulty';
+
+const INTERVAL = BLOCKCHAIN_CONFIG.DIFFICULTY_ADJUSTMENT_INTERVAL;
+const BLOCK_TIME = BLOCKCHAIN_CONFIG.BLOCK_TIME_TARGET;
+
+/**
+ * Headers-only chain whose blocks are spaced by the given times
+ */
+function chainWithSpacing(spacing: (height: number) => number, length: number): Block[] {
+  const chain = [Block.createGenesis()];
+  let timestamp = 1_800_000_000_000;
+  for (let height = 1; height < length; height++) {
+    timestamp += spacing(height);
+    const block = new Block(height, [], chain[height - 1].hash, Blockchain.getNextDifficulty(chain, height));
+    block.timestamp = timestamp;
+    block.hash = block.calculateHash();
+    chain.push(block);
+  }
+  return chain;
+}
+
+describe('Compact targets', () => {
+  test('round-trip through compact bits', () => {
+    expect(targetToBits(bitsToTarget(INITIAL_BITS))).toBe(INITIAL_BITS);
+    expect(bitsToTarget(INITIAL_BITS)).toBe((1n << 240n) - (1n << 216n));
+  });
+
+  test('a smaller target is more work', () => {
+    expect(getWork(retarget(INITIAL_BITS, 1, 2)) > getWork(INITIAL_BITS)).toBe(true);
+  });
+
+  test('retargeting is clamped and never easier than the minimum', () => {
+    const factor = BigInt(DIFFICULTY_CONFIG.MAX_ADJUSTMENT_FACTOR);
+    const target = bitsToTarget(INITIAL_BITS);
+
+    expect(bitsToTarget(retarget(INITIAL_BITS, 1, 1000))).toBe(bitsToTarget(targetToBits(target / factor)));
+    expect(bitsToTarget(retarget(INITIAL_BITS, 1_000_000, 1000))).toBe(bitsToTarget(targetToBits(target * factor)));
+    expect(bitsToTarget(retarget(targetToBits(MAX_TARGET), 4000, 1000)) <= MAX_TARGET).toBe(true);
+  });
+});
+
+describe('Difficulty retargeting', () => {
+  test('keeps the difficulty inside an adjustment window', () => {
+    const chain = chainWithSpacing(() => BLOCK_TIME / 10, INTERVAL * 2 + 5);
+    for (let height = INTERVAL * 2 + 1; height < chain.length; height++) {
+      expect(chain[height].difficulty).toBe(chain[INTERVAL * 2].difficulty);
+    }
+  });
+
+  test('raises the difficulty when blocks come too fast and lowers it when slow', () => {
+    const fast = chainWithSpacing(() => BLOCK_TIME / 2, INTERVAL * 2 + 1);
+    const slow = chainWithSpacing(() => BLOCK_TIME * 2, INTERVAL * 2 + 1);
+
+    expect(bitsToTarget(fast[INTERVAL * 2].difficulty) < bitsToTarget(INITIAL_BITS)).toBe(true);
+    expect(bitsToTarget(slow[INTERVAL * 2].difficulty) > bitsToTarget(INITIAL_BITS)).toBe(true);
+  });
+
+  test('the first window never retargets from the genesis timestamp', () => {
+    const chain = chainWithSpacing(() => BLOCK_TIME, INTERVAL + 1);
+    expect(chain[INTERVAL].difficulty).toBe(INITIAL_BITS);
+  });
+
+  test('validators reject blocks that declare other bits than the rule', () => {
+    const chain = chainWithSpacing(() => BLOCK_TIME / 2, INTERVAL * 2 + 1);
+    const previous = chain[INTERVAL * 2 - 1];
+    const block = new Block(INTERVAL * 2, [], previous.hash, INITIAL_BITS);
+    block.timestamp = previous.timestamp + BLOCK_TIME;
+    block.hash = block.calculateHash();
+
+    const result = ChainValidator.validateBlock(
+      block,
+      previous,
+      INTERVAL * 2,
+      Blockchain.getNextDifficulty(chain, INTERVAL * 2)
+    );
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe(ValidationError.INVALID_DIFFICULTY);
+    expect(result.message).toMatch(/Unexpected difficulty bits/);
+  });
+});
@@ -0,0 +1,86 @@
+import { Block } from '../../src/core/Block';
+import { Blockchain } from '../../src/core/Blockchain';
+import { ForkChoice } from '../../src/core/ForkChoice';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, mineBlock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+function copy(block: Block): Block {
+  return Block.fromJSON(JSON.parse(JSON.stringify(block.toJSON())));
+}
+
+describe('ForkChoice', () => {
+  const alice = new Wallet();
+  const bob = new Wallet();
+  let clock: ReturnType<typeof useFakeClock>;
+  let main: Blockchain;
+  let rival: Blockchain;
+  let forkChoice: ForkChoice;
+
+  // Both chains share block 1 (paying alice), then diverge
+  beforeEach(() => {
+    clock = useFakeClock();
+    main = new Blockchain();
+    rival = new Blockchain();
+    forkChoice = new ForkChoice(main);
+
+    const shared = mineBlock(rival, alice.publicKey, clock);
+    expect(forkChoice.processBlock(copy(shared)).status).toBe('extended');
+  });
+
+  test('extends the tip and ignores duplicates', () => {
+    const block = mineBlock(rival, bob.publicKey, clock);
+    expect(forkChoice.processBlock(copy(block)).status).toBe('extended');
+    expect(forkChoice.processBlock(copy(block)).status).toBe('duplicate');
+    expect(main.getLatestBlock().hash).toBe(block.hash);
+  });
+
+  test('reports blocks with an unknown parent as orphans', () => {
+    mineBlock(rival, bob.publicKey, clock);
+    const child = mineBlock(rival, bob.publicKey, clock);
+    expect(forkChoice.processBlock(copy(child)).status).toBe('orphan');
+  });
+
+  test('keeps the first-seen branch on equal work and switches to more work', () => {
+    main.addTransaction(alice.createTransaction(bob.publicKey, toBaseUnits(5), '', undefined, 0));
+    const ours = mineBlock(main, alice.publicKey, clock);
+
+    const side1 = mineBlock(rival, bob.publicKey, clock);
+    const side2 = mineBlock(rival, bob.publicKey, clock);
+
+    expect(forkChoice.processBlock(copy(side1)).status).toBe('side-chain');
+    expect(main.getLatestBlock().hash).toBe(ours.hash);
+
+    const result = forkChoice.processBlock(copy(side2));
+    expect(result.status).toBe('reorganized');
+    expect(result.disconnected.map(b => b.hash)).toEqual([ours.hash]);
+    expect(result.connected.map(b => b.hash)).toEqual([side1.hash, side2.hash]);
+    expect(main.getLatestBlock().hash).toBe(side2.hash);
+
+    // State follows the new branch; the dropped transfer is pending again
+    expect(main.getBalance(bob.publicKey)).toBe(toBaseUnits(100));
+    expect(main.getBalance(alice.publicKey)).toBe(toBaseUnits(50));
+    expect(main.mempool.getAll().map(tx => tx.id)).toEqual([ours.transactions[1].id]);
+    expect(main.isValid()).toBe(true);
+  });
+
+  test('aborts a reorg to an invalid branch and restores the main chain', () => {
+    const ours = mineBlock(main, alice.publicKey, clock);
+
+    // A branch replaying a nonce alice never reached: the headers are fine, the transactions are not
+    const skipped = alice.createTransaction(bob.publicKey, toBaseUnits(1), '', undefined, 3);
+    const side1 = mineBlock(rival, bob.publicKey, clock);
+    rival.mempool.add(skipped);
+    const side2 = mineBlock(rival, bob.publicKey, clock);
+    expect(side2.transactions).toHaveLength(2);
+
+    forkChoice.processBlock(copy(side1));
+    const result = forkChoice.processBlock(copy(side2));
+
+    expect(result.status).toBe('invalid');
+    expect(main.getLatestBlock().hash).toBe(ours.hash);
+    expect(main.getBalance(alice.publicKey)).toBe(toBaseUnits(100));
+  });
+});
@@ -0,0 +1,126 @@
+import { Mempool } from '../../src/core/Mempool';
+import { Transaction } from '../../src/core/Transaction';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+const MIN_FEE = toBaseUnits(0.001);
+const alice = new Wallet();
+const bob = new Wallet();
+const carol = new Wallet();
+
+function createPool(maxSize: number = 100, maxPerSender?: number): Mempool {
+  return new Mempool({ maxSize, minFee: MIN_FEE, ...(maxPerSender && { maxPerSender }), expiryMs: 60_000 });
+}
+
+function send(from: Wallet, nonce: number, fee: number, replaceable: boolean = false): Transaction {
+  return from.createTransaction(carol.publicKey, toBaseUnits(1), '', toBaseUnits(fee), nonce, replaceable);
+}
+
+describe('Mempool', () => {
+  test('selects the highest fee rate first without breaking nonce order', () => {
+    const pool = createPool();
+    const a0 = send(alice, 0, 0.001);
+    const a1 = send(alice, 1, 0.05);
+    const b0 = send(bob, 0, 0.01);
+    [a0, a1, b0].forEach(tx => expect(pool.add(tx).success).toBe(true));
+
+    expect(pool.selectTransactions(10).map(tx => tx.id)).toEqual([b0.id, a0.id, a1.id]);
+    expect(pool.selectTransactions(1).map(tx => tx.id)).toEqual([b0.id]);
+  });
+
+  test('refuses reward transactions, duplicates and fees under the minimum', () => {
+    const pool = createPool();
+    const tx = send(alice, 0, 0.001);
+
+    expect(pool.add(Transaction.createCoinbase(alice.publicKey, toBaseUnits(50))).error).toMatch(/block templates/);
+    expect(pool.add(send(alice, 0, 0.0001)).error).toMatch(/Fee too low/);
+    expect(pool.add(tx).success).toBe(true);
+    expect(pool.add(tx).error).toMatch(/already in mempool/);
+  });
+
+  test('limits pending transactions per sender', () => {
+    const pool = createPool(100, 2);
+    expect(pool.add(send(alice, 0, 0.001)).success).toBe(true);
+    expect(pool.add(send(alice, 1, 0.001)).success).toBe(true);
+    expect(pool.add(send(alice, 2, 0.001)).error).toMatch(/max 2/);
+  });
+
+  test('a full pool evicts the cheapest transaction of another sender', () => {
+    const pool = createPool(2);
+    const cheap = send(alice, 0, 0.001);
+    const middle = send(bob, 0, 0.002);
+    pool.add(cheap);
+    pool.add(middle);
+
+    expect(pool.add(send(carol, 0, 0.001)).error).toMatch(/Mempool is full/);
+
+    const rich = send(carol, 0, 0.01);
+    const result = pool.add(rich);
+    expect(result.success).toBe(true);
+    expect(result.evicted!.map(tx => tx.id)).toEqual([cheap.id]);
+    expect(pool.has(middle.id) && pool.has(rich.id)).toBe(true);
+  });
+
+  test('expired transactions leave with the later ones of their sender', () => {
+    const clock = useFakeClock();
+    const pool = createPool();
+    pool.add(send(alice, 0, 0.001));
+    clock.advance(30_000);
+    pool.add(send(alice, 1, 0.001));
+    const other = send(bob, 0, 0.001);
+    pool.add(other);
+
+    clock.advance(30_001);
+    expect(pool.removeExpired()).toBe(2);
+    expect(pool.getAll().map(tx => tx.id)).toEqual([other.id]);
+  });
+
+  test('confirmed nonces clear the transactions they supersede', () => {
+    const pool = createPool();
+    const a0 = send(alice, 0, 0.001);
+    const a1 = send(alice, 1, 0.001);
+    pool.add(a0);
+    pool.add(a1);
+
+    pool.removeConfirmed([a0], () => 2);
+    expect(pool.getSize()).toBe(0);
+  });
+});
+
+describe('Replace-by-fee', () => {
+  test('replaces a signaled transaction that pays enough more', () => {
+    const pool = createPool();
+    const original = send(alice, 0, 0.001, true);
+    const next = send(alice, 1, 0.001);
+    pool.add(original);
+    pool.add(next);
+
+    expect(pool.add(send(alice, 0, 0.0015, true)).error).toMatch(/Replacement fee too low/);
+
+    const bump = send(alice, 0, 0.002, true);
+    const result = pool.add(bump);
+    expect(result.success).toBe(true);
+    expect(result.replaced!.id).toBe(original.id);
+    expect(pool.getBySender(alice.publicKey).map(tx => tx.id)).toEqual([bump.id, next.id]);
+  });
+
+  test('never replaces a transaction that did not signal', () => {
+    const pool = createPool();
+    pool.add(send(alice, 0, 0.001));
+    expect(pool.add(send(alice, 0, 0.01, true)).error).toMatch(/not replaceable/);
+  });
+
+  test('follows chains of replacements', () => {
+    const pool = createPool();
+    const first = send(alice, 0, 0.001, true);
+    const second = send(alice, 0, 0.002, true);
+    const third = send(alice, 0, 0.003, true);
+    [first, second, third].forEach(tx => expect(pool.add(tx).success).toBe(true));
+
+    expect(pool.getReplacement(first.id)!.replacedBy).toBe(third.id);
+    expect(pool.getSize()).toBe(1);
+  });
+});
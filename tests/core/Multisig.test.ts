@@ -0,0 +1,162 @@
+import { Block } from '../../src/core/Block';
+import { Blockchain } from '../../src/core/Blockchain';
+import { ChainValidator, ValidationError } from '../../src/core/ChainValidator';
+import { ForkChoice } from '../../src/core/ForkChoice';
+import { Multisig, MultisigWitness } from '../../src/core/Multisig';
+import { Transaction, DEFAULT_FEE } from '../../src/core/Transaction';
+import { Treasury } from '../../src/core/Treasury';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, mineBlock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+/**
+ * Signature of a keyholder over a spend, as produced offline
+ */
+function signSpend(wallet: Wallet, transaction: Transaction): string {
+  const witness: MultisigWitness = { ...transaction.multisig!, signatures: {} };
+  Multisig.sign(witness, transaction.calculateHash(), wallet.getPrivateKey());
+  return witness.signatures[wallet.publicKey];
+}
+
+describe('Multisig accounts', () => {
+  const members = [new Wallet(), new Wallet(), new Wallet()];
+  const keys = members.map(member => member.publicKey);
+
+  test('the address only depends on the threshold and the member set', () => {
+    const account = Multisig.createAccount(2, keys);
+
+    expect(Multisig.isAddress(account.address)).toBe(true);
+    expect(Wallet.isValidAddress(account.address)).toBe(true);
+    expect(Multisig.getAddress(2, [...keys].reverse())).toBe(account.address);
+    expect(Multisig.getAddress(3, keys)).not.toBe(account.address);
+    expect(account.publicKeys).toEqual([...keys].sort());
+  });
+
+  test('account definitions are checked', () => {
+    expect(Multisig.validateAccount(0, keys).error).toBe('Threshold must be between 1 and 3');
+    expect(Multisig.validateAccount(4, keys).error).toBe('Threshold must be between 1 and 3');
+    expect(Multisig.validateAccount(1, [keys[0], keys[0]]).error).toBe('Multisig members must be distinct');
+    expect(Multisig.validateAccount(1, ['04abc']).error).toBe('Invalid member public key: 04abc...');
+    expect(() => Multisig.createAccount(1, [])).toThrow('A multisig account needs at least one member');
+  });
+
+  test('a transaction from the account needs threshold member signatures', () => {
+    const account = Multisig.createAccount(2, keys);
+    const tx = new Transaction(account.address, new Wallet().publicKey, toBaseUnits(1), '', DEFAULT_FEE, 0);
+    tx.multisig = { threshold: 2, publicKeys: account.publicKeys, signatures: {} };
+
+    members[0].signMultisig(tx);
+    expect(Multisig.verify(account.address, tx.multisig, tx.calculateHash()).error)
+      .toBe('Multisig transaction has 1 of 2 required signatures');
+    expect(tx.isValid()).toBe(false);
+
+    members[2].signMultisig(tx);
+    expect(tx.isValid()).toBe(true);
+    expect(Transaction.fromJSON(JSON.parse(JSON.stringify(tx.toJSON()))).isValid()).toBe(true);
+
+    expect(() => new Wallet().signMultisig(tx)).toThrow('Key is not a member of this multisig account');
+    tx.amount = toBaseUnits(2);
+    expect(tx.isValid()).toBe(false);
+  });
+
+  test('a witness for another account does not authorize the address', () => {
+    const account = Multisig.createAccount(1, keys);
+    const witness: MultisigWitness = { threshold: 1, publicKeys: [keys[0]], signatures: {} };
+    Multisig.sign(witness, 'ab'.repeat(32), members[0].getPrivateKey());
+
+    expect(Multisig.verify(account.address, witness, 'ab'.repeat(32)).error).toBe('Multisig witness does not match the sender address');
+  });
+});
+
+describe('Treasury spends', () => {
+  const keyholders = Array.from({ length: 7 }, () => new Wallet());
+  let clock: ReturnType<typeof useFakeClock>;
+  let chain: Blockchain;
+  let treasury: Treasury;
+  const recipient = new Wallet();
+
+  beforeEach(() => {
+    clock = useFakeClock();
+    chain = new Blockchain();
+    treasury = Treasury.fromKeys(keyholders.map(keyholder => keyholder.publicKey));
+
+    const miner = new Wallet();
+    mineBlock(chain, miner.publicKey, clock);
+    chain.addTransaction(miner.createTransaction(treasury.getAddress(), toBaseUnits(20), '', undefined, 0));
+    mineBlock(chain, miner.publicKey, clock);
+  });
+
+  test('the default treasury is 5 of 7 keyholders', () => {
+    expect(treasury.getAccount().threshold).toBe(5);
+    expect(chain.getBalance(treasury.getAddress())).toBe(toBaseUnits(20));
+  });
+
+  test('a spend collects signatures until it is ready, then pays out from the treasury', () => {
+    const { spend } = treasury.createSpend(recipient.publicKey, toBaseUnits(3), 'Explorer grant', chain.getNextNonce(treasury.getAddress()));
+    const tx = spend!.transaction;
+
+    for (const keyholder of keyholders.slice(0, 4)) {
+      expect(treasury.addSignature(spend!.id, keyholder.publicKey, signSpend(keyholder, tx)).success).toBe(true);
+    }
+    expect(spend!.status).toBe('collecting');
+    expect(chain.addTransaction(tx)).toBe(false);
+
+    expect(treasury.addSignature(spend!.id, keyholders[0].publicKey, signSpend(keyholders[0], tx)).error)
+      .toBe('Keyholder already signed this spend');
+    expect(treasury.addSignature(spend!.id, keyholders[4].publicKey, signSpend(keyholders[5], tx)).error)
+      .toBe('Invalid signature for this spend');
+    expect(treasury.addSignature(spend!.id, recipient.publicKey, signSpend(keyholders[4], tx)).error)
+      .toBe('Not a treasury keyholder');
+
+    treasury.addSignature(spend!.id, keyholders[4].publicKey, signSpend(keyholders[4], tx));
+    expect(spend!.status).toBe('ready');
+    expect(treasury.getSubmittable(chain.getNextNonce(treasury.getAddress()))).toEqual([spend]);
+
+    expect(chain.addTransaction(tx)).toBe(true);
+    treasury.markSubmitted(spend!.id);
+    mineBlock(chain, new Wallet().publicKey, clock);
+
+    expect(chain.getBalance(recipient.publicKey)).toBe(toBaseUnits(3));
+    expect(chain.getBalance(treasury.getAddress())).toBe(toBaseUnits(17) - DEFAULT_FEE);
+  });
+
+  test('spends are submitted in nonce order', () => {
+    const small = Treasury.fromKeys(keyholders.slice(0, 3).map(keyholder => keyholder.publicKey), 2);
+    const first = small.createSpend(recipient.publicKey, toBaseUnits(1), '', 0).spend!;
+    const second = small.createSpend(recipient.publicKey, toBaseUnits(1), '', 0).spend!;
+    expect(second.transaction.nonce).toBe(1);
+
+    for (const keyholder of keyholders.slice(0, 2)) {
+      small.addSignature(second.id, keyholder.publicKey, signSpend(keyholder, second.transaction));
+    }
+    expect(small.getSubmittable(0)).toEqual([]);
+
+    for (const keyholder of keyholders.slice(1, 3)) {
+      small.addSignature(first.id, keyholder.publicKey, signSpend(keyholder, first.transaction));
+    }
+    expect(small.getSubmittable(0)).toEqual([first, second]);
+  });
+
+  test('a mined block spending from the treasury without enough signatures is refused', () => {
+    const { spend } = treasury.createSpend(recipient.publicKey, toBaseUnits(3), '', 0);
+    for (const keyholder of keyholders.slice(0, 4)) {
+      keyholder.signMultisig(spend!.transaction);
+    }
+
+    clock.advance(10000);
+    const tip = chain.getLatestBlock();
+    const coinbase = Transaction.createCoinbase(new Wallet().publicKey, chain.miningReward);
+    const block = new Block(tip.index + 1, [coinbase, spend!.transaction], tip.hash, chain.difficulty);
+    block.mine();
+
+    expect(ChainValidator.validateTransaction(spend!.transaction, false, chain, block.index)).toMatchObject({
+      valid: false,
+      error: ValidationError.INVALID_SIGNATURE,
+      message: 'Multisig transaction has 4 of 5 required signatures'
+    });
+    expect(new ForkChoice(chain).processBlock(block).status).toBe('invalid');
+    expect(chain.getBalance(recipient.publicKey)).toBe(0n);
+  });
+});
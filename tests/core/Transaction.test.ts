@@ -0,0 +1,99 @@
+import { Transaction } from '../../src/core/Transaction';
+import { Blockchain } from '../../src/core/Blockchain';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, mineBlock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+describe('Transaction signing payload', () => {
+  const sender = new Wallet();
+  const recipient = new Wallet();
+
+  function transfer(fee: bigint, nonce: number): Transaction {
+    const tx = new Transaction(sender.publicKey, recipient.publicKey, toBaseUnits(1), '', fee, nonce);
+    tx.timestamp = 1_700_000_000_000;
+    tx.id = tx.calculateId();
+    return tx;
+  }
+
+  test('fee and nonce cannot be re-split into another valid pair', () => {
+    const original = transfer(123456n, 7);
+    original.sign(sender.getPrivateKey());
+
+    const forged = transfer(12345n, 67);
+    forged.signature = original.signature;
+
+    expect(forged.id).not.toBe(original.id);
+    expect(original.isValid()).toBe(true);
+    expect(forged.isValid()).toBe(false);
+  });
+
+  test('changing the nonce, fee, type or replaceability invalidates the signature', () => {
+    const tx = transfer(toBaseUnits(0.001), 3);
+    tx.sign(sender.getPrivateKey());
+
+    const variants: Array<(copy: Transaction) => void> = [
+      copy => { copy.nonce = 4; },
+      copy => { copy.fee = toBaseUnits(0.002); },
+      copy => { copy.type = 'stake'; },
+      copy => { copy.replaceable = true; }
+    ];
+
+    for (const change of variants) {
+      const copy = Transaction.fromJSON(tx.toJSON());
+      change(copy);
+      expect(copy.isValid()).toBe(false);
+    }
+    expect(Transaction.fromJSON(tx.toJSON()).isValid()).toBe(true);
+  });
+});
+
+describe('Account nonces', () => {
+  test('a confirmed transaction cannot be replayed', () => {
+    const clock = useFakeClock();
+    const chain = new Blockchain();
+    const sender = new Wallet();
+    const recipient = new Wallet();
+    mineBlock(chain, sender.publicKey, clock);
+
+    const tx = sender.createTransaction(recipient.publicKey, toBaseUnits(1), '', undefined, 0);
+    expect(chain.addTransaction(tx)).toBe(true);
+    mineBlock(chain, sender.publicKey, clock);
+
+    expect(chain.getNonce(sender.publicKey)).toBe(1);
+    expect(chain.addTransaction(Transaction.fromJSON(tx.toJSON()))).toBe(false);
+    expect(chain.getBalance(recipient.publicKey)).toBe(toBaseUnits(1));
+  });
+
+  test('a nonce ahead of the account sequence is refused', () => {
+    const clock = useFakeClock();
+    const chain = new Blockchain();
+    const sender = new Wallet();
+    mineBlock(chain, sender.publicKey, clock);
+
+    const tx = sender.createTransaction(new Wallet().publicKey, toBaseUnits(1), '', undefined, 1);
+    expect(chain.addTransaction(tx)).toBe(false);
+  });
+});
+
+describe('Replace-by-fee against the chain', () => {
+  test('a replacement only needs the balance for itself, not the transaction it replaces', () => {
+    const clock = useFakeClock();
+    const chain = new Blockchain();
+    const sender = new Wallet();
+    const recipient = new Wallet();
+    mineBlock(chain, sender.publicKey, clock);
+
+    const original = sender.createTransaction(recipient.publicKey, toBaseUnits(40), '', toBaseUnits(0.001), 0, true);
+    expect(chain.addTransaction(original)).toBe(true);
+
+    const bump = sender.createTransaction(recipient.publicKey, toBaseUnits(40), '', toBaseUnits(0.01), 0, true);
+    expect(chain.addTransaction(bump)).toBe(true);
+    expect(chain.mempool.getAll().map(tx => tx.id)).toEqual([bump.id]);
+
+    mineBlock(chain, sender.publicKey, clock);
+    expect(chain.getBalance(recipient.publicKey)).toBe(toBaseUnits(40));
+    expect(chain.getNonce(sender.publicKey)).toBe(1);
+  });
+});
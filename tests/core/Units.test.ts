@@ -0,0 +1,49 @@
+import { toBaseUnits, fromBaseUnits, formatVibe, parseAmount, percentOf, BASE_UNITS_PER_VIBE } from '../../src/core/Units';
+import { Transaction } from '../../src/core/Transaction';
+import { Wallet } from '../../src/wallet/Wallet';
+
+describe('Units', () => {
+  test('converts VIBE to exact base units', () => {
+    expect(toBaseUnits(1)).toBe(BASE_UNITS_PER_VIBE);
+    expect(toBaseUnits(0.1) + toBaseUnits(0.2)).toBe(toBaseUnits(0.3));
+    expect(toBaseUnits('0.00000001')).toBe(1n);
+    expect(toBaseUnits('-2.5')).toBe(-250_000_000n);
+    expect(toBaseUnits(21_000_000)).toBe(2_100_000_000_000_000n);
+  });
+
+  test('rejects amounts that are not finite or too precise', () => {
+    expect(() => toBaseUnits(NaN)).toThrow();
+    expect(() => toBaseUnits(Infinity)).toThrow();
+    expect(() => toBaseUnits('0.000000001')).toThrow(/8 decimal places/);
+    expect(() => toBaseUnits('1e5')).toThrow();
+  });
+
+  test('formats base units without rounding', () => {
+    expect(formatVibe(1_250_000_000n)).toBe('12.5');
+    expect(formatVibe(1n)).toBe('0.00000001');
+    expect(formatVibe(-100_000n)).toBe('-0.001');
+    expect(fromBaseUnits(toBaseUnits('20999999.99999999'))).toBe(20999999.99999999);
+  });
+
+  test('parses canonical strings as base units and legacy numbers as VIBE', () => {
+    expect(parseAmount('150')).toBe(150n);
+    expect(parseAmount(1.5)).toBe(150_000_000n);
+    expect(parseAmount(undefined)).toBe(0n);
+  });
+
+  test('applies percentages with integer math', () => {
+    expect(percentOf(toBaseUnits(10), 12.5)).toBe(toBaseUnits(1.25));
+    expect(percentOf(3n, 50)).toBe(1n);
+  });
+
+  test('transactions keep amounts as base-unit strings through JSON', () => {
+    const wallet = new Wallet();
+    const tx = wallet.createTransaction(new Wallet().publicKey, toBaseUnits('0.30000001'));
+    const json = JSON.parse(JSON.stringify(tx.toJSON()));
+
+    expect(json.amount).toBe('30000001');
+    const restored = Transaction.fromJSON(json);
+    expect(restored.amount).toBe(30_000_001n);
+    expect(restored.isValid()).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import { Block } from '../../src/core/Block';
+import { Blockchain } from '../../src/core/Blockchain';
+import { Transaction } from '../../src/core/Transaction';
+import { WorldState } from '../../src/core/WorldState';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, mineBlock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+describe('WorldState', () => {
+  const miner = new Wallet();
+  const recipient = new Wallet();
+  let chain: Blockchain;
+
+  beforeEach(() => {
+    const clock = useFakeClock();
+    chain = new Blockchain();
+    mineBlock(chain, miner.publicKey, clock);
+    chain.addTransaction(miner.createTransaction(recipient.publicKey, toBaseUnits(10), '', toBaseUnits(0.01), 0));
+    mineBlock(chain, miner.publicKey, clock);
+  });
+
+  test('tracks balances, nonces, supply and history incrementally', () => {
+    expect(chain.getBalance(recipient.publicKey)).toBe(toBaseUnits(10));
+    // Two rewards, minus the transfer; the fee comes back through the second coinbase
+    expect(chain.getBalance(miner.publicKey)).toBe(toBaseUnits(90));
+    expect(chain.getNonce(miner.publicKey)).toBe(1);
+    expect(chain.getCirculatingSupply()).toBe(toBaseUnits(100));
+    expect(chain.state.getHistory(recipient.publicKey)).toEqual([[2, 1]]);
+  });
+
+  test('matches a full replay of the chain', () => {
+    const replayed = WorldState.fromChain(chain.chain);
+    expect(replayed.toJSON()).toEqual(chain.state.toJSON());
+    expect(replayed.matchesChain(chain.chain)).toBe(true);
+  });
+
+  test('reverting the tip restores the previous state exactly', () => {
+    const before = WorldState.fromChain(chain.chain.slice(0, 2)).toJSON();
+    chain.disconnectTip();
+
+    const after = chain.state.toJSON();
+    expect(after.height).toBe(before.height);
+    expect(after.supply).toBe(before.supply);
+    expect(chain.getBalance(recipient.publicKey)).toBe(0n);
+    expect(chain.getNonce(miner.publicKey)).toBe(0);
+    expect(chain.getBalance(miner.publicKey)).toBe(toBaseUnits(50));
+  });
+
+  test('refuses blocks out of order', () => {
+    const state = new WorldState();
+    expect(() => state.applyBlock(chain.chain[1])).toThrow(/Cannot apply block 1/);
+    expect(() => chain.state.revertBlock(chain.chain[1])).toThrow(/not the state tip/);
+  });
+
+  test('survives a JSON round trip', () => {
+    const restored = WorldState.fromJSON(JSON.parse(JSON.stringify(chain.state.toJSON())));
+    expect(restored.getBalance(recipient.publicKey)).toBe(toBaseUnits(10));
+    expect(restored.getTipHash()).toBe(chain.getLatestBlock().hash);
+  });
+
+  test('refuses a block that overdraws an account and leaves the state as it was', () => {
+    const tip = chain.getLatestBlock();
+    const block = new Block(tip.index + 1, [
+      Transaction.createCoinbase(new Wallet().publicKey, toBaseUnits(50)),
+      recipient.createTransaction(miner.publicKey, toBaseUnits(4), '', undefined, 0),
+      recipient.createTransaction(miner.publicKey, toBaseUnits(100), '', undefined, 1)
+    ], tip.hash);
+
+    expect(() => chain.state.applyBlock(block)).toThrow('overdraws');
+    expect(chain.state.getHeight()).toBe(tip.index + 1);
+    expect(chain.getBalance(recipient.publicKey)).toBe(toBaseUnits(10));
+    expect(chain.getBalance(miner.publicKey)).toBe(toBaseUnits(90));
+    expect(chain.getNonce(recipient.publicKey)).toBe(0);
+    expect(chain.getCirculatingSupply()).toBe(toBaseUnits(100));
+  });
+});
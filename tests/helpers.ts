@@ -0,0 +1,127 @@
+import { Blockchain, BLOCKCHAIN_CONFIG } from '../src/core/Blockchain';
+import { Block } from '../src/core/Block';
+import { ForkChoice } from '../src/core/ForkChoice';
+import { STAKING_ADDRESS } from '../src/core/Transaction';
+import { toBaseUnits } from '../src/core/Units';
+import { ProofOfVibe, PoVConfig } from '../src/consensus/ProofOfVibe';
+import { PoVConsensus } from '../src/consensus/PoVConsensus';
+import { encodeRegistration } from '../src/consensus/StakingTransactions';
+import { Wallet } from '../src/wallet/Wallet';
+
+/**
+ * Controllable clock: Date.now returns the value set here until restored
+ */
+export function useFakeClock(start: number = Date.now() + 1000): { now: () => number; advance: (ms: number) => void; set: (ms: number) => void } {
+  let clock = start;
+  jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  return {
+    now: () => clock,
+    advance: (ms: number) => { clock += ms; },
+    set: (ms: number) => { clock = ms; }
+  };
+}
+
+/**
+ * Mine the mempool into a block one target block time after the tip
+ */
+export function mineBlock(chain: Blockchain, minerAddress: string, clock: { advance: (ms: number) => void }): Block {
+  clock.advance(BLOCKCHAIN_CONFIG.BLOCK_TIME_TARGET);
+  return chain.minePendingTransactions(minerAddress);
+}
+
+/**
+ * Silence the node's console output in every test of a file
+ */
+export function silenceConsole(): void {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+}
+
+/**
+ * Copy of a block as a peer receives it
+ */
+export function copyBlock(block: Block): Block {
+  return Block.fromJSON(JSON.parse(JSON.stringify(block.toJSON())));
+}
+
+/**
+ * Chain running Proof of Vibe from genesis validators, one wallet each
+ * Blocks from peers go through forkChoice, which validates them
+ */
+export function createPoVChain(
+  wallets: Wallet[],
+  config: Partial<PoVConfig> = {}
+): { chain: Blockchain; consensus: PoVConsensus; pov: ProofOfVibe; forkChoice: ForkChoice } {
+  const chain = new Blockchain();
+  const pov = new ProofOfVibe({
+    minStake: 1,
+    ...config,
+    genesisValidators: wallets.map((wallet, i) => ({ address: wallet.publicKey, name: `genesis-${i + 1}`, stake: 100 }))
+  });
+  const consensus = new PoVConsensus(chain, pov);
+  chain.setConsensus('PoV', consensus);
+  return { chain, consensus, pov, forkChoice: new ForkChoice(chain) };
+}
+
+/**
+ * Produce the next PoV block one block time after the tip, signed by the slot's producer
+ */
+export function produceBlock(
+  chain: Blockchain,
+  consensus: PoVConsensus,
+  wallets: Wallet[],
+  clock: { advance: (ms: number) => void }
+): Block {
+  clock.advance(consensus.getProofOfVibe().getConfig().blockTime);
+  const producer = wallets.find(wallet => wallet.publicKey === consensus.getCurrentProducer());
+  const block = producer && consensus.createBlock(producer);
+  if (!block || !chain.addMinedBlock(block)) {
+    throw new Error(`No block produced at height ${chain.getLatestBlock().index + 1}`);
+  }
+  return block;
+}
+
+/**
+ * Fund a new wallet from the rewards of the next block's producer (at most 4 VIBE)
+ */
+export function fundNewWallet(
+  chain: Blockchain,
+  consensus: PoVConsensus,
+  wallets: Wallet[],
+  clock: { advance: (ms: number) => void },
+  amount: bigint
+): Wallet {
+  const wallet = new Wallet();
+  const funder = wallets.find(candidate => candidate.publicKey === produceBlock(chain, consensus, wallets, clock).validator)!;
+  const funding = funder.createTransaction(wallet.publicKey, amount, '', undefined, chain.getNextNonce(funder.publicKey));
+  if (!chain.addTransaction(funding)) {
+    throw new Error('Funding transaction refused');
+  }
+  produceBlock(chain, consensus, wallets, clock);
+  return wallet;
+}
+
+/**
+ * Fund a new wallet, then register it as validator with a registerValidator
+ * transaction locking stake (at most 3.5 VIBE)
+ */
+export function registerNewValidator(
+  chain: Blockchain,
+  consensus: PoVConsensus,
+  wallets: Wallet[],
+  clock: { advance: (ms: number) => void },
+  name: string,
+  stake: bigint
+): Wallet {
+  const validator = fundNewWallet(chain, consensus, wallets, clock, stake + toBaseUnits(0.5));
+
+  const registration = validator.createStakingTransaction('registerValidator', STAKING_ADDRESS, stake, encodeRegistration({ name }), undefined, 0);
+  if (!chain.addTransaction(registration)) {
+    throw new Error('Registration refused');
+  }
+  produceBlock(chain, consensus, wallets, clock);
+  return validator;
+}
@@ -0,0 +1,53 @@
+import { Blockchain } from '../../src/core/Blockchain';
+import { hashMeetsTarget } from '../../src/core/Difficulty';
+import { Miner } from '../../src/mining/Miner';
+import { Wallet } from '../../src/wallet/Wallet';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+describe('Miner', () => {
+  const miner = new Wallet();
+
+  test('finds a valid nonce in worker threads', async () => {
+    const chain = new Blockchain();
+    const template = chain.createBlockTemplate(miner.publicKey);
+    const workers = new Miner(2);
+
+    await expect(workers.mine(template)).resolves.toBe(true);
+    expect(template.hash).toBe(template.calculateHash());
+    expect(hashMeetsTarget(template.hash, template.difficulty)).toBe(true);
+    expect(chain.addMinedBlock(template)).toBe(true);
+    expect(workers.isMining()).toBe(false);
+  }, 60_000);
+
+  test('cancelling resolves the job as not found', async () => {
+    const chain = new Blockchain();
+    const template = chain.createBlockTemplate(miner.publicKey);
+    template.difficulty = 0x1d00ffff;   // Far out of reach
+    const workers = new Miner(1);
+
+    const result = workers.mine(template);
+    await expect(workers.mine(template)).rejects.toThrow(/Already mining/);
+    workers.cancel('new tip');
+
+    await expect(result).resolves.toBe(false);
+    expect(workers.isMining()).toBe(false);
+    expect(workers.getStats()).toMatchObject({ jobsCancelled: 1, blocksFound: 0 });
+  }, 60_000);
+
+  test('a nonce that does not verify ends the job', async () => {
+    const chain = new Blockchain();
+    const template = chain.createBlockTemplate(miner.publicKey);
+    template.difficulty = 0x1d00ffff;
+    const workers = new Miner(1);
+
+    const result = workers.mine(template);
+    const job = (workers as any).job;
+    (workers as any).handleMessage(job, { type: 'found', nonce: 7, hash: 'f'.repeat(64) });
+
+    await expect(result).resolves.toBe(false);
+    expect(workers.isMining()).toBe(false);
+    expect(workers.getStats()).toMatchObject({ blocksFound: 0 });
+  }, 60_000);
+});
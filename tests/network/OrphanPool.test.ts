@@ -0,0 +1,83 @@
+import { Block } from '../../src/core/Block';
+import { Blockchain } from '../../src/core/Blockchain';
+import { OrphanPool, ORPHAN_CONFIG } from '../../src/network/OrphanPool';
+import { toBaseUnits } from '../../src/core/Units';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, mineBlock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+describe('OrphanPool', () => {
+  const miner = new Wallet();
+  let clock: ReturnType<typeof useFakeClock>;
+  let blocks: Block[];
+
+  beforeAll(() => {
+    clock = useFakeClock();
+    const chain = new Blockchain();
+    blocks = [1, 2, 3].map(() => mineBlock(chain, miner.publicKey, clock));
+  });
+
+  beforeEach(() => {
+    clock = useFakeClock(blocks[2].timestamp);
+  });
+
+  test('connects chains of orphans back to the first missing parent', () => {
+    const pool = new OrphanPool();
+    expect(pool.add(blocks[2], 'peer-a')).toBe(true);
+    expect(pool.add(blocks[1], 'peer-a')).toBe(true);
+    expect(pool.add(blocks[1], 'peer-a')).toBe(false);
+
+    expect(pool.getMissingAncestor(blocks[2].hash)).toBe(blocks[0].hash);
+
+    const children = pool.takeChildren(blocks[0].hash);
+    expect(children.map(entry => entry.block.hash)).toEqual([blocks[1].hash]);
+    expect(pool.takeChildren(blocks[1].hash).map(entry => entry.block.hash)).toEqual([blocks[2].hash]);
+    expect(pool.getSize()).toBe(0);
+  });
+
+  test('refuses blocks that fail the context-free checks', () => {
+    const pool = new OrphanPool();
+
+    const tampered = Block.fromJSON(JSON.parse(JSON.stringify(blocks[1].toJSON())));
+    tampered.transactions[0].amount = toBaseUnits(1000);
+    expect(OrphanPool.checkBlock(tampered)).toMatch(/merkle root/);
+
+    const unmined = new Block(5, [], blocks[2].hash, blocks[2].difficulty);
+    unmined.nonce = 1;
+    unmined.hash = unmined.calculateHash();
+    expect(OrphanPool.checkBlock(unmined)).toMatch(/difficulty target/);
+
+    const relabeled = Block.fromJSON(JSON.parse(JSON.stringify(blocks[1].toJSON())));
+    relabeled.previousHash = 'f'.repeat(64);
+    expect(OrphanPool.checkBlock(relabeled)).toMatch(/hash does not match/);
+
+    expect(pool.add(tampered, 'peer-a')).toBe(false);
+    expect(pool.add(unmined, 'peer-a')).toBe(false);
+    expect(pool.getSize()).toBe(0);
+  });
+
+  test('limits orphans per peer', () => {
+    const limit = ORPHAN_CONFIG.MAX_ORPHANS_PER_PEER;
+    ORPHAN_CONFIG.MAX_ORPHANS_PER_PEER = 1;
+    try {
+      const pool = new OrphanPool();
+      expect(pool.add(blocks[1], 'peer-a')).toBe(true);
+      expect(pool.add(blocks[2], 'peer-a')).toBe(false);
+      expect(pool.add(blocks[2], 'peer-b')).toBe(true);
+    } finally {
+      ORPHAN_CONFIG.MAX_ORPHANS_PER_PEER = limit;
+    }
+  });
+
+  test('expires orphans whose parent never arrives', () => {
+    const pool = new OrphanPool();
+    pool.add(blocks[2], 'peer-a');
+
+    clock.advance(ORPHAN_CONFIG.ORPHAN_EXPIRY_MS - 1);
+    expect(pool.prune()).toBe(0);
+    clock.advance(2);
+    expect(pool.prune()).toBe(1);
+    expect(pool.has(blocks[2].hash)).toBe(false);
+  });
+});
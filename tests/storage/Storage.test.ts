@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Storage, STORAGE_CONFIG } from '../../src/storage/Storage';
+import { Blockchain } from '../../src/core/Blockchain';
+import { STAKING_ADDRESS } from '../../src/core/Transaction';
+import { toBaseUnits } from '../../src/core/Units';
+import { ProofOfVibe } from '../../src/consensus/ProofOfVibe';
+import { PoVConsensus } from '../../src/consensus/PoVConsensus';
+import { Wallet } from '../../src/wallet/Wallet';
+import { useFakeClock, mineBlock, createPoVChain, produceBlock, silenceConsole } from '../helpers';
+
+silenceConsole();
+
+describe('Storage format version', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibecoin-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function saveChain(): Promise<Blockchain> {
+    const clock = useFakeClock();
+    const chain = new Blockchain();
+    mineBlock(chain, new Wallet().publicKey, clock);
+
+    const storage = new Storage({ dataDir, network: 'local' });
+    await storage.init();
+    await storage.saveBlockchain(chain);
+    await storage.close();
+    return chain;
+  }
+
+  async function writeMeta(key: string, value: string | null): Promise<void> {
+    const storage = new Storage({ dataDir, network: 'local' });
+    await storage.init();
+    const db = (storage as any).db;
+    await (value === null ? db.del(key) : db.put(key, value));
+    await storage.close();
+  }
+
+  test('reloads a chain saved in the current format', async () => {
+    const chain = await saveChain();
+
+    const storage = new Storage({ dataDir, network: 'local' });
+    await storage.init();
+    const loaded = await storage.loadBlockchain();
+    await storage.close();
+
+    expect(loaded?.getLatestBlock().hash).toBe(chain.getLatestBlock().hash);
+  });
+
+  test('refuses data written in an older format with a clear message', async () => {
+    await saveChain();
+    await writeMeta('meta:version', String(STORAGE_CONFIG.FORMAT_VERSION - 1));
+
+    const storage = new Storage({ dataDir, network: 'local' });
+    await expect(storage.init()).rejects.toThrow(/storage format 1.*reads format 2/);
+    await storage.close();
+  });
+
+  test('stamps unversioned data whose blocks still verify', async () => {
+    await saveChain();
+    await writeMeta('meta:version', null);
+
+    const storage = new Storage({ dataDir, network: 'local' });
+    await storage.init();
+    expect(await (storage as any).getMeta('meta:version')).toBe(String(STORAGE_CONFIG.FORMAT_VERSION));
+    await storage.close();
+  });
+
+  test('refuses unversioned data signed with another payload', async () => {
+    await saveChain();
+    await writeMeta('meta:version', null);
+
+    const storage = new Storage({ dataDir, network: 'local' });
+    await storage.init();
+    const db = (storage as any).db;
+    const block = JSON.parse(await db.get('block:1'));
+    block.transactions[0].id = 'f'.repeat(64);
+    await db.put('block:1', JSON.stringify(block));
+    await db.del('meta:version');
+    await storage.close();
+
+    const reopened = new Storage({ dataDir, network: 'local' });
+    await expect(reopened.init()).rejects.toThrow(/unversioned storage format/);
+    await reopened.close();
+  });
+});
+
+describe('Storage pending transactions', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibecoin-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('keeps staking transactions of a PoV chain until the consensus is attached on restart', async () => {
+    const clock = useFakeClock();
+    const wallets = [new Wallet()];
+    const { chain, consensus, pov } = createPoVChain(wallets);
+    produceBlock(chain, consensus, wallets, clock);
+    const stake = wallets[0].createStakingTransaction('stake', STAKING_ADDRESS, toBaseUnits(1), '', undefined, 0);
+    expect(chain.addTransaction(stake)).toBe(true);
+
+    const storage = new Storage({ dataDir, network: 'local' });
+    await storage.init();
+    await storage.saveBlockchain(chain);
+    await storage.saveConsensusState(consensus.exportState());
+    await storage.close();
+
+    const reopened = new Storage({ dataDir, network: 'local' });
+    await reopened.init();
+    const loaded = (await reopened.loadBlockchain())!;
+    const restored = new PoVConsensus(loaded, new ProofOfVibe(pov.getConfig()));
+    restored.restoreState(await reopened.loadConsensusState());
+    await reopened.close();
+
+    expect(loaded.mempool.has(stake.id)).toBe(false);
+    loaded.setConsensus('PoV', restored);
+    expect(loaded.mempool.has(stake.id)).toBe(true);
+  });
+});